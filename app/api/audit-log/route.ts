@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { ALL_USERS, queryAuditLog, recordPhiAccess } from "@/lib/audit-log"
+import { requireSession } from "@/lib/session"
+
+// Parse an optional ISO date filter; undefined when absent, null when it isn't a date
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) {
+    return undefined
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Who accessed whose health information, newest first
+ * Filters: userId (whose data), actorId (who accessed it), from and to (ISO dates) and limit
+ */
+export async function GET(request: Request) {
+  const session = await requireSession(request, "audit_log:read")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+
+    if (from === null || to === null) {
+      return NextResponse.json({ success: false, message: "Invalid date range" }, { status: 400 })
+    }
+
+    const subjectUserId = searchParams.get("userId") || undefined
+    const entries = await queryAuditLog({
+      subjectUserId,
+      actorId: searchParams.get("actorId") || undefined,
+      from,
+      to,
+      limit: Number(searchParams.get("limit")) || undefined,
+    })
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: subjectUserId || ALL_USERS,
+      resource: "audit_log",
+      action: "read",
+      purpose: "operations",
+    })
+
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    console.error("Audit log query error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load audit log" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { ALL_USERS, recordPhiAccess, verifyAuditLog } from "@/lib/audit-log"
+import { requireSession } from "@/lib/session"
+
+// Check the audit log's hash chain; the same check as `npm run audit:verify`
+export async function GET(request: Request) {
+  const session = await requireSession(request, "audit_log:read")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const verification = await verifyAuditLog()
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: ALL_USERS,
+      resource: "audit_log",
+      action: "read",
+      purpose: "operations",
+    })
+
+    return NextResponse.json({ success: true, ...verification })
+  } catch (error) {
+    console.error("Audit log verification error:", error)
+    return NextResponse.json({ success: false, message: "Failed to verify audit log" }, { status: 500 })
+  }
+}
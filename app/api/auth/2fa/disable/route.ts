@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { rateLimit } from "@/lib/rate-limit"
+import { requireSession } from "@/lib/session"
+import { disableTwoFactor } from "@/lib/two-factor"
+
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 5,
+  uniqueTokenPerInterval: 1000,
+})
+
+// Turn two-factor off. Needs a current code or recovery code, so a hijacked session can't remove it.
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request)
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { code, recoveryCode } = await request.json()
+    if (typeof code !== "string" && typeof recoveryCode !== "string") {
+      return NextResponse.json({ success: false, message: "Code or recovery code is required" }, { status: 400 })
+    }
+
+    try {
+      await limiter.check(5, `user:${session.userId}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    await disableTwoFactor(session.userId, {
+      code: typeof code === "string" ? code : undefined,
+      recoveryCode: typeof recoveryCode === "string" ? recoveryCode : undefined,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Two-factor disable error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Two-factor authentication is not enabled")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && error.message.startsWith("Invalid")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to disable two-factor" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { rateLimit } from "@/lib/rate-limit"
+import { requireSession } from "@/lib/session"
+import { enableTwoFactor } from "@/lib/two-factor"
+
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 5,
+  uniqueTokenPerInterval: 1000,
+})
+
+// Turn two-factor on once a code from the app checks out; the recovery codes are only ever shown here
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request, "two_factor:enroll")
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { code } = await request.json()
+    if (typeof code !== "string") {
+      return NextResponse.json({ success: false, message: "Code is required" }, { status: 400 })
+    }
+
+    try {
+      await limiter.check(5, `user:${session.userId}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    const recoveryCodes = await enableTwoFactor(session.userId, code)
+
+    return NextResponse.json({ success: true, recoveryCodes })
+  } catch (error) {
+    console.error("Two-factor enable error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Two-factor authentication is already enabled")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && (error.message.startsWith("Invalid") || error.message.startsWith("No two-factor"))) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to enable two-factor" }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { requireSession } from "@/lib/session"
+import { getTwoFactorStatus } from "@/lib/two-factor"
+
+// Whether the signed-in user has two-factor on, and how many recovery codes they have left
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession(request)
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    return NextResponse.json({ success: true, ...(await getTwoFactorStatus(session.userId)) })
+  } catch (error) {
+    console.error("Two-factor status error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load two-factor settings" }, { status: 500 })
+  }
+}
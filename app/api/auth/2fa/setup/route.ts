@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { requireSession } from "@/lib/session"
+import { totpUri } from "@/lib/totp"
+import { beginTwoFactorSetup } from "@/lib/two-factor"
+
+// Start two-factor setup with a new secret for the user's authenticator app
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request, "two_factor:enroll")
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const secret = await beginTwoFactorSetup(session.userId)
+
+    return NextResponse.json({ success: true, secret, otpauthUrl: totpUri(secret, session.email) })
+  } catch (error) {
+    console.error("Two-factor setup error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Two-factor authentication is already enabled")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to start two-factor setup" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { verifyTwoFactorChallengeToken } from "@/lib/auth"
+import { getClientIp, rateLimit } from "@/lib/rate-limit"
+import { startSession } from "@/lib/session"
+import { isTokenRevoked, revokeToken } from "@/lib/token-store"
+import { verifyTwoFactor } from "@/lib/two-factor"
+import { getUser, toPublicUser } from "@/lib/users"
+
+// Six-digit codes are guessable given enough tries, so cap them per account as well as per address
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 10,
+  uniqueTokenPerInterval: 1000,
+})
+
+// Second sign-in step: exchange the challenge token from the first step and a code for a session
+export async function POST(request: Request) {
+  try {
+    const { challengeToken, code, recoveryCode } = await request.json()
+
+    if (typeof challengeToken !== "string" || (typeof code !== "string" && typeof recoveryCode !== "string")) {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    const challenge = verifyTwoFactorChallengeToken(challengeToken)
+    if (!challenge?.sub || !challenge.jti || (await isTokenRevoked(challenge.jti))) {
+      return NextResponse.json({ success: false, message: "Sign-in expired. Please start again." }, { status: 401 })
+    }
+
+    try {
+      await limiter.check(10, `ip:${getClientIp(request)}`)
+      await limiter.check(5, `user:${challenge.sub}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    const verified = await verifyTwoFactor(challenge.sub, {
+      code: typeof code === "string" ? code : undefined,
+      recoveryCode: typeof recoveryCode === "string" ? recoveryCode : undefined,
+    })
+    const user = verified ? await getUser(challenge.sub) : null
+    if (!user) {
+      return NextResponse.json({ success: false, message: "Invalid code" }, { status: 401 })
+    }
+
+    await revokeToken(challenge.jti, {
+      userId: user.id,
+      reason: "two_factor_used",
+      expiresAt: new Date(challenge.exp * 1000).toISOString(),
+    })
+
+    return await startSession(NextResponse.json({ success: true, user: toPublicUser(user) }), user)
+  } catch (error) {
+    console.error("Two-factor sign-in error:", error)
+    return NextResponse.json({ success: false, message: "Failed to sign in" }, { status: 500 })
+  }
+}
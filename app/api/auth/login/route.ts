@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { getClientIp, rateLimit } from "@/lib/rate-limit"
+import { signIn } from "@/lib/session"
+import { authenticateUser, toPublicUser } from "@/lib/users"
+
+// Slow down password guessing per address, and per account from each address. Limiting an account on its
+// own would let anyone lock its owner out by failing to log in as them.
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 10,
+  uniqueTokenPerInterval: 1000,
+})
+
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await request.json()
+
+    if (typeof email !== "string" || typeof password !== "string") {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    try {
+      const ip = getClientIp(request)
+      await limiter.check(10, `ip:${ip}`)
+      await limiter.check(5, `ip-email:${ip}:${email.trim().toLowerCase()}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many login attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    const user = await authenticateUser(email, password)
+    if (!user) {
+      return NextResponse.json({ success: false, message: "Invalid email or password" }, { status: 401 })
+    }
+
+    return await signIn(user, { user: toPublicUser(user) })
+  } catch (error) {
+    console.error("Login error:", error)
+    return NextResponse.json({ success: false, message: "Failed to log in" }, { status: 500 })
+  }
+}
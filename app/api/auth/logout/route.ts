@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { endSession } from "@/lib/session"
+
+// Revokes the session on the server too, so copies of its tokens stop working
+export async function POST(request: Request) {
+  try {
+    return await endSession(request, NextResponse.json({ success: true, message: "Logged out" }))
+  } catch (error) {
+    console.error("Logout error:", error)
+    return NextResponse.json({ success: false, message: "Failed to log out" }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { sendMagicLink } from "@/lib/magic-link"
+import { getClientIp, rateLimit } from "@/lib/rate-limit"
+
+// Stop the form being used to flood someone's inbox
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 10,
+  uniqueTokenPerInterval: 1000,
+})
+
+// Email a sign-in link. The response is the same whether or not the address has an account.
+export async function POST(request: Request) {
+  try {
+    const { email, next } = await request.json()
+
+    if (typeof email !== "string" || !email.trim()) {
+      return NextResponse.json({ success: false, message: "Email is required" }, { status: 400 })
+    }
+
+    try {
+      await limiter.check(10, `ip:${getClientIp(request)}`)
+      await limiter.check(3, `email:${email.trim().toLowerCase()}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many sign-in links requested. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    // Only pages on this site, as on the login page
+    const safeNext = typeof next === "string" && next.startsWith("/") && !next.startsWith("//") ? next : undefined
+    const delivery = await sendMagicLink(email, safeNext)
+    if (delivery?.status === "failed") {
+      throw new Error(`Sign-in link delivery failed: ${delivery.error}`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "If that email has an account, a sign-in link is on its way. It expires in 15 minutes.",
+    })
+  } catch (error) {
+    console.error("Magic link request error:", error)
+    return NextResponse.json({ success: false, message: "Failed to send sign-in link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { redeemMagicLink } from "@/lib/magic-link"
+import { getClientIp, rateLimit } from "@/lib/rate-limit"
+import { signIn } from "@/lib/session"
+import { toPublicUser } from "@/lib/users"
+
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 10,
+  uniqueTokenPerInterval: 1000,
+})
+
+// Exchange a sign-in link's token for a session, or a two-factor challenge
+export async function POST(request: Request) {
+  try {
+    const { token } = await request.json()
+
+    if (typeof token !== "string" || !token) {
+      return NextResponse.json({ success: false, message: "Token is required" }, { status: 400 })
+    }
+
+    try {
+      await limiter.check(10, `ip:${getClientIp(request)}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many sign-in attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    const user = await redeemMagicLink(token)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "This sign-in link has expired or was already used" },
+        { status: 401 },
+      )
+    }
+
+    return await signIn(user, { user: toPublicUser(user) })
+  } catch (error) {
+    console.error("Magic link sign-in error:", error)
+    return NextResponse.json({ success: false, message: "Failed to sign in" }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { clearSessionCookies, readCookie, REFRESH_COOKIE, resumeSession } from "@/lib/session"
+import { rotateRefreshToken } from "@/lib/token-store"
+import { getUser } from "@/lib/users"
+
+// Exchange the refresh cookie for a new access and refresh pair; each refresh token only works once
+export async function POST(request: Request) {
+  try {
+    const token = readCookie(request, REFRESH_COOKIE)
+    const rotated = token ? await rotateRefreshToken(token) : null
+    const user = rotated ? await getUser(rotated.userId) : null
+
+    if (!rotated || !user) {
+      return clearSessionCookies(NextResponse.json({ success: false, message: "Session expired" }, { status: 401 }))
+    }
+
+    return resumeSession(NextResponse.json({ success: true }), user, rotated)
+  } catch (error) {
+    console.error("Session refresh error:", error)
+    return NextResponse.json({ success: false, message: "Failed to refresh session" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { startSession } from "@/lib/session"
+import { createUser, toPublicUser } from "@/lib/users"
+
+export async function POST(request: Request) {
+  try {
+    const { email, name, password } = await request.json()
+
+    if (typeof email !== "string" || typeof password !== "string") {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    const user = await createUser({ email, name: typeof name === "string" ? name : "", password })
+
+    return await startSession(NextResponse.json({ success: true, user: toPublicUser(user) }, { status: 201 }), user)
+  } catch (error) {
+    console.error("Registration error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Email already registered")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && error.message.startsWith("Invalid")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to create account" }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { getSession, unauthorized } from "@/lib/session"
+import { getUser, toPublicUser } from "@/lib/users"
+
+// The signed-in user, for pages that need to know who they're showing
+export async function GET(request: Request) {
+  try {
+    const session = await getSession(request)
+    const user = session ? await getUser(session.userId) : null
+
+    if (!user) {
+      return unauthorized()
+    }
+
+    return NextResponse.json({ success: true, user: toPublicUser(user) })
+  } catch (error) {
+    console.error("Session lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load session" }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { findInvitation, respondToInvitation } from "@/lib/contact-consent"
+import { getClientIp, rateLimit } from "@/lib/rate-limit"
+import { getUser } from "@/lib/users"
+
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 20,
+  uniqueTokenPerInterval: 1000,
+})
+
+const INVALID_LINK = "This invitation link has expired or was replaced by a newer one"
+
+async function checkLimit(request: Request): Promise<NextResponse | null> {
+  try {
+    await limiter.check(20, `ip:${getClientIp(request)}`)
+    return null
+  } catch {
+    return NextResponse.json(
+      { success: false, message: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": "900" } },
+    )
+  }
+}
+
+// Show a contact who invited them and how they'd be reached, before they answer
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get("token")
+    if (!token) {
+      return NextResponse.json({ success: false, message: "Token is required" }, { status: 400 })
+    }
+
+    const limited = await checkLimit(request)
+    if (limited) {
+      return limited
+    }
+
+    const consent = await findInvitation(token)
+    if (!consent) {
+      return NextResponse.json({ success: false, message: INVALID_LINK }, { status: 401 })
+    }
+
+    const user = await getUser(consent.userId)
+    return NextResponse.json({
+      success: true,
+      userName: user?.name || "A Narcoguard user",
+      channel: consent.channel,
+      status: consent.status,
+    })
+  } catch (error) {
+    console.error("Contact invitation lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load invitation" }, { status: 500 })
+  }
+}
+
+// Accept or decline an invitation to be an emergency contact
+export async function POST(request: Request) {
+  try {
+    const { token, accept } = await request.json()
+
+    if (typeof token !== "string" || !token || typeof accept !== "boolean") {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    const limited = await checkLimit(request)
+    if (limited) {
+      return limited
+    }
+
+    const consent = await respondToInvitation(token, accept)
+    if (!consent) {
+      return NextResponse.json({ success: false, message: INVALID_LINK }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, status: consent.status })
+  } catch (error) {
+    console.error("Contact invitation response error:", error)
+    return NextResponse.json({ success: false, message: "Failed to record your answer" }, { status: 500 })
+  }
+}
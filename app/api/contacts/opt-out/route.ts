@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { optOutContact } from "@/lib/contact-consent"
+import { getClientIp, rateLimit } from "@/lib/rate-limit"
+
+const limiter = rateLimit({
+  interval: 15 * 60 * 1000,
+  limit: 20,
+  uniqueTokenPerInterval: 1000,
+})
+
+// Stop alerts to an emergency contact from the link in their invitation or an alert
+export async function POST(request: Request) {
+  try {
+    const { token } = await request.json()
+
+    if (typeof token !== "string" || !token) {
+      return NextResponse.json({ success: false, message: "Token is required" }, { status: 400 })
+    }
+
+    try {
+      await limiter.check(20, `ip:${getClientIp(request)}`)
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Too many requests. Please try again later." },
+        { status: 429, headers: { "Retry-After": "900" } },
+      )
+    }
+
+    const consent = await optOutContact(token)
+    if (!consent) {
+      return NextResponse.json(
+        { success: false, message: "This link has expired. Use the link in your most recent alert or invitation." },
+        { status: 401 },
+      )
+    }
+
+    return NextResponse.json({ success: true, message: "You will no longer receive alerts" })
+  } catch (error) {
+    console.error("Contact opt-out error:", error)
+    return NextResponse.json({ success: false, message: "Failed to stop alerts" }, { status: 500 })
+  }
+}
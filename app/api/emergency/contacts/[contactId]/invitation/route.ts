@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { resendContactInvitation } from "@/lib/contact-consent"
+import { getEmergencyContacts } from "@/lib/emergency-contacts"
+import { requireSession } from "@/lib/session"
+import { getUser } from "@/lib/users"
+
+interface Params {
+  params: Promise<{ contactId: string }>
+}
+
+// Send a contact who hasn't answered their invitation a fresh one
+export async function POST(request: Request, { params }: Params) {
+  const session = await requireSession(request, "contacts:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { contactId } = await params
+    const { settings } = await getEmergencyContacts(session.userId)
+    const contact = settings.contacts.find((candidate) => candidate.id === contactId)
+
+    if (!contact) {
+      return NextResponse.json({ success: false, message: "Contact not found" }, { status: 404 })
+    }
+
+    const user = await getUser(session.userId)
+    const consent = await resendContactInvitation(session.userId, user?.name || "A Narcoguard user", contact)
+
+    return NextResponse.json({ success: true, consent })
+  } catch (error) {
+    console.error("Contact invitation error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Contact consent not found")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message.startsWith("Contact has already")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && error.message.startsWith("Invitation was sent recently")) {
+      return NextResponse.json(
+        { success: false, message: "Invitation was sent recently. Please try again later." },
+        { status: 429 },
+      )
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to resend invitation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { getContactConsents, syncContactConsents, type ContactConsentSummary } from "@/lib/contact-consent"
+import { getEmergencyContacts, parseEmergencyContactSettings, saveEmergencyContacts } from "@/lib/emergency-contacts"
+import { requireSession } from "@/lib/session"
+import { getUser } from "@/lib/users"
+
+// Invite contacts who were added or changed; the contacts are saved either way, and invitations can be resent
+async function inviteContacts(
+  userId: string,
+  contacts: Parameters<typeof syncContactConsents>[2],
+): Promise<{ consent: Record<string, ContactConsentSummary>; message?: string }> {
+  try {
+    const user = await getUser(userId)
+    return { consent: await syncContactConsents(userId, user?.name || "A Narcoguard user", contacts) }
+  } catch (error) {
+    console.error("Emergency contact invitation error:", error)
+
+    const message =
+      error instanceof Error && error.message.startsWith("Too many invitations") ? error.message : undefined
+    return { consent: await getContactConsents(userId), message }
+  }
+}
+
+export async function GET(request: Request) {
+  const session = await requireSession(request, "contacts:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const contacts = await getEmergencyContacts(session.userId)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "emergency_contacts",
+      action: "read",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, ...contacts, consent: await getContactConsents(session.userId) })
+  } catch (error) {
+    console.error("Emergency contacts lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load emergency contacts" }, { status: 500 })
+  }
+}
+
+/**
+ * Replace the contacts and alert preferences, inviting contacts who are new or reached at a new address
+ * The body carries the version the edit was made from; a stale version gets a 409 with the current one
+ */
+export async function PUT(request: Request) {
+  const session = await requireSession(request, "contacts:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const body = await request.json()
+    const version = Number(body?.version)
+
+    if (!Number.isInteger(version) || version < 0) {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    const saved = await saveEmergencyContacts(session.userId, parseEmergencyContactSettings(body), version)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "emergency_contacts",
+      action: "update",
+      purpose: "self",
+    })
+
+    const invited = await inviteContacts(session.userId, saved.settings.contacts)
+
+    return NextResponse.json({ success: true, ...saved, ...invited })
+  } catch (error) {
+    console.error("Emergency contacts update error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Invalid contact")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    if (error instanceof Error && error.message.startsWith("Contacts have changed")) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          current: {
+            ...(await getEmergencyContacts(session.userId)),
+            consent: await getContactConsents(session.userId),
+          },
+        },
+        { status: 409 },
+      )
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to save emergency contacts" }, { status: 500 })
+  }
+}
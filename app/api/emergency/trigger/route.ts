@@ -1,45 +1,60 @@
 import { NextResponse } from "next/server"
-import { logEmergencyEvent } from "@/lib/analytics"
-import { sendEmergencyEmail } from "@/lib/email"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { raiseEmergency } from "@/lib/emergency"
+import { contactsForAlert } from "@/lib/emergency-contacts"
+import { requireSession } from "@/lib/session"
+import { getUser } from "@/lib/users"
 
 export async function POST(request: Request) {
+  const session = await requireSession(request, "emergency:trigger")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
   try {
-    const { userId, emergencyType, location, vitalSigns, contacts } = await request.json()
+    const body = await request.json()
+    const { userName, emergencyType, location, vitalSigns, countdownSeconds } = body
 
     // Validate required fields
-    if (!userId || !emergencyType) {
+    if (!emergencyType) {
       return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
     }
 
-    // Log the emergency event
-    await logEmergencyEvent(userId, emergencyType, location, vitalSigns, {
-      type: "web",
-      appVersion: "1.2.0",
+    const user = await getUser(session.userId)
+    // The app's copy of the contacts may be a stale offline cache, so the saved ones win
+    const { contacts, escalationWaitSeconds, allowHeroNetwork, shareVitalsWithHeroes } = await contactsForAlert(
+      session.userId,
+      body,
+    )
+    const incident = await raiseEmergency({
+      userId: session.userId,
+      userName: userName || (Array.isArray(body.contacts) ? body.contacts[0]?.userName : undefined) || user?.name,
+      emergencyType,
+      location,
+      vitalSigns,
+      contacts,
+      countdownSeconds: Number(countdownSeconds) || undefined,
+      escalationWaitSeconds,
+      allowHeroNetwork,
+      shareVitalsWithHeroes,
     })
-
-    // Send emergency emails to contacts if provided
-    if (contacts && Array.isArray(contacts) && contacts.length > 0) {
-      const emailPromises = contacts.map((contact) => {
-        return sendEmergencyEmail(
-          contact.email,
-          contact.userName || "A Narcoguard user",
-          location?.address || "Unknown location",
-          emergencyType,
-        )
-      })
-
-      await Promise.all(emailPromises)
-    }
-
-    // In a real implementation, this would also:
-    // 1. Send SMS alerts via Twilio
-    // 2. Notify nearby Hero Network members
-    // 3. Contact emergency services if configured
+    // The alert has gone out, so a failed audit entry is reported rather than failing the request
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "incident",
+      resourceId: incident.id,
+      action: "create",
+      purpose: "self",
+    }).catch((error) => console.error("Emergency audit log error:", error))
 
     return NextResponse.json({
       success: true,
-      message: "Emergency alert triggered successfully",
-      timestamp: new Date().toISOString(),
+      message:
+        incident.status === "countdown" ? "Emergency countdown started" : "Emergency alert triggered successfully",
+      incidentId: incident.id,
+      status: incident.status,
+      timestamp: incident.createdAt,
     })
   } catch (error) {
     console.error("Emergency trigger error:", error)
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { rotateMasterKey } from "@/lib/key-rotation"
+import { getKms } from "@/lib/kms"
+import { requireSession } from "@/lib/session"
+
+// Master key versions, newest (current) last; the keys themselves never leave the key store
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession(request, "encryption_keys:rotate")
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const kms = getKms()
+    return NextResponse.json({
+      success: true,
+      provider: kms.name,
+      currentKeyId: await kms.currentKeyId(),
+      keys: await kms.listKeys(),
+    })
+  } catch (error) {
+    console.error("Encryption key listing error:", error)
+    return NextResponse.json({ success: false, message: "Failed to list encryption keys" }, { status: 500 })
+  }
+}
+
+// Rotate to a new master key; stored values are re-encrypted onto it by a background job
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request, "encryption_keys:rotate")
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { keyId, jobId } = await rotateMasterKey()
+    return NextResponse.json({ success: true, keyId, jobId }, { status: 201 })
+  } catch (error) {
+    console.error("Encryption key rotation error:", error)
+    return NextResponse.json({ success: false, message: "Failed to rotate encryption key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server"
+import { getHero, removeHero, updateHeroStatus } from "@/lib/heroes"
+import { requireSession } from "@/lib/session"
+import { setUserRole } from "@/lib/users"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+// Hero registrations are keyed by user ID, so only the hero themselves can see or change theirs
+
+export async function GET(request: Request, { params }: Params) {
+  const session = await requireSession(request, "heroes:register")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    const hero = id === session.userId ? await getHero(id) : null
+
+    if (!hero) {
+      return NextResponse.json({ success: false, message: "Hero not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, hero })
+  } catch (error) {
+    console.error("Hero lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load hero" }, { status: 500 })
+  }
+}
+
+// The app reports availability, naloxone and location changes here
+export async function PATCH(request: Request, { params }: Params) {
+  const session = await requireSession(request, "heroes:register")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    if (id !== session.userId) {
+      return NextResponse.json({ success: false, message: "Hero not found" }, { status: 404 })
+    }
+
+    const { available, carriesNaloxone, location } = await request.json()
+    const latitude = Number(location?.latitude)
+    const longitude = Number(location?.longitude)
+
+    const hero = await updateHeroStatus(id, {
+      available: typeof available === "boolean" ? available : undefined,
+      carriesNaloxone: typeof carriesNaloxone === "boolean" ? carriesNaloxone : undefined,
+      location:
+        location && Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : undefined,
+    })
+
+    if (!hero) {
+      return NextResponse.json({ success: false, message: "Hero not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, hero })
+  } catch (error) {
+    console.error("Hero update error:", error)
+    return NextResponse.json({ success: false, message: "Failed to update hero" }, { status: 500 })
+  }
+}
+
+// Opt out of the Hero Network
+export async function DELETE(request: Request, { params }: Params) {
+  const session = await requireSession(request, "heroes:register")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+
+    if (id !== session.userId || !(await removeHero(id))) {
+      return NextResponse.json({ success: false, message: "Hero not found" }, { status: 404 })
+    }
+    await setUserRole(id, "hero", false)
+
+    return NextResponse.json({ success: true, message: "Left the Hero Network" })
+  } catch (error) {
+    console.error("Hero removal error:", error)
+    return NextResponse.json({ success: false, message: "Failed to leave the Hero Network" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { verifyHero } from "@/lib/heroes"
+import { requireSession } from "@/lib/session"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+// Called by the team that checks a hero's ID and naloxone training, with `Authorization: Bearer $HERO_VERIFICATION_SECRET`
+// or signed in as an admin
+export async function POST(request: Request, { params }: Params) {
+  const secret = process.env.HERO_VERIFICATION_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    const session = await requireSession(request, "heroes:verify")
+    if (session instanceof NextResponse) {
+      return session
+    }
+  }
+
+  try {
+    const { id } = await params
+    const hero = await verifyHero(id)
+
+    if (!hero) {
+      return NextResponse.json({ success: false, message: "Hero not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: "Hero verified", hero })
+  } catch (error) {
+    console.error("Hero verification error:", error)
+    return NextResponse.json({ success: false, message: "Failed to verify hero" }, { status: 500 })
+  }
+}
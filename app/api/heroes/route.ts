@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server"
+import { hasPermission } from "@/lib/auth"
+import { findNearestHeroes, registerHero } from "@/lib/heroes"
+import { requireSession } from "@/lib/session"
+import { setUserRole } from "@/lib/users"
+
+function parseLocation(location: any): { latitude: number; longitude: number } | undefined {
+  const latitude = Number(location?.latitude)
+  const longitude = Number(location?.longitude)
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return undefined
+  }
+  return { latitude, longitude }
+}
+
+// The most heroes one lookup returns, however many are asked for
+const MAX_NEARBY_HEROES = 20
+
+// Distances are only ever reported as one of these bands, so repeated lookups can't place a hero
+const DISTANCE_BANDS_KM = [1, 2, 5, 10, 25, 50]
+
+function distanceBandKm(distanceKm: number): number {
+  return DISTANCE_BANDS_KM.find((band) => distanceKm <= band) ?? DISTANCE_BANDS_KM[DISTANCE_BANDS_KM.length - 1]
+}
+
+// How many heroes are near the user, for the dashboard. Heroes are strangers to the user, so only admins,
+// who verify heroes, see who they are, and then only how far away within a band.
+export async function GET(request: Request) {
+  const session = await requireSession(request)
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const location = parseLocation({ latitude: searchParams.get("latitude"), longitude: searchParams.get("longitude") })
+
+    if (!location) {
+      return NextResponse.json(
+        { success: false, message: "A valid latitude and longitude are required" },
+        { status: 400 },
+      )
+    }
+
+    const nearby = await findNearestHeroes(location, {
+      limit: Math.min(Number(searchParams.get("limit")) || MAX_NEARBY_HEROES, MAX_NEARBY_HEROES),
+      excludeUserIds: [session.userId],
+    })
+    const counts = {
+      count: nearby.length,
+      carryingNaloxone: nearby.filter(({ hero }) => hero.carriesNaloxone).length,
+    }
+
+    if (!hasPermission(session, "heroes:verify")) {
+      return NextResponse.json({ success: true, ...counts })
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...counts,
+      heroes: nearby.map(({ hero, distanceKm }) => ({
+        id: hero.id,
+        name: hero.name,
+        carriesNaloxone: hero.carriesNaloxone,
+        withinKm: distanceBandKm(distanceKm),
+      })),
+    })
+  } catch (error) {
+    console.error("Hero lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to find nearby heroes" }, { status: 500 })
+  }
+}
+
+// Opt in to the Hero Network, or update an existing registration
+export async function POST(request: Request) {
+  const session = await requireSession(request, "heroes:register")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { name, phone, email, available, carriesNaloxone, location } = await request.json()
+
+    if (!name) {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    if (!phone && !email) {
+      return NextResponse.json(
+        { success: false, message: "A phone number or email address is required to receive alerts" },
+        { status: 400 },
+      )
+    }
+
+    const hero = await registerHero({
+      userId: session.userId,
+      name,
+      phone,
+      email,
+      available: typeof available === "boolean" ? available : undefined,
+      carriesNaloxone: typeof carriesNaloxone === "boolean" ? carriesNaloxone : undefined,
+      location: parseLocation(location),
+    })
+    // The hero role lets them open the incidents they're alerted to while signed in
+    await setUserRole(session.userId, "hero", true)
+
+    return NextResponse.json({ success: true, message: "Registered with the Hero Network", hero })
+  } catch (error) {
+    console.error("Hero registration error:", error)
+    return NextResponse.json({ success: false, message: "Failed to register hero" }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import { verifyAcknowledgementToken } from "@/lib/auth"
+import { acknowledgeIncident } from "@/lib/escalation"
+import { getIncident, isIncidentClosed } from "@/lib/incidents"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+const expired = () =>
+  NextResponse.json(
+    { success: false, message: "This link is invalid or has expired. Please call 911 if help is still needed." },
+    { status: 401 },
+  )
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, message: "We couldn't find this alert. Please call 911 if help is still needed." },
+    { status: 404 },
+  )
+
+// The confirmation page shows whose alert the link is for. Opening the link changes nothing, so link
+// scanners and message previews can't acknowledge an emergency nobody has seen.
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const token = new URL(request.url).searchParams.get("token")
+    const tokenData = token ? verifyAcknowledgementToken(token) : null
+
+    if (!tokenData || tokenData.incidentId !== id) {
+      return expired()
+    }
+
+    const incident = await getIncident(id)
+    if (!incident) {
+      return notFound()
+    }
+
+    return NextResponse.json({
+      success: true,
+      userName: incident.userName || "A Narcoguard user",
+      status: incident.status,
+      closed: isIncidentClosed(incident),
+    })
+  } catch (error) {
+    console.error("Incident acknowledgement lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load alert" }, { status: 500 })
+  }
+}
+
+// The contact pressed "I'm responding" on the confirmation page
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const { token } = await request.json()
+    const tokenData = typeof token === "string" && token ? verifyAcknowledgementToken(token) : null
+
+    if (!tokenData || tokenData.incidentId !== id) {
+      return expired()
+    }
+
+    const incident = await acknowledgeIncident(id, tokenData.recipient, "link")
+    if (!incident) {
+      return notFound()
+    }
+
+    return NextResponse.json({ success: true, status: incident.status, closed: isIncidentClosed(incident) })
+  } catch (error) {
+    console.error("Incident acknowledgement error:", error)
+    return NextResponse.json({ success: false, message: "Failed to record your response" }, { status: 500 })
+  }
+}
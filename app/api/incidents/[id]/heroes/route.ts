@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { respondToHeroDispatch, verifyHeroToken } from "@/lib/heroes"
+import { getIncident } from "@/lib/incidents"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+// A hero answering an alert isn't held up by the audit log; a failed entry is reported instead
+async function auditHeroResponse(request: Request, incidentId: string, heroId: string) {
+  try {
+    const incident = await getIncident(incidentId)
+    if (incident) {
+      await recordPhiAccess(request, {
+        actor: { userId: heroId, roles: ["hero"] },
+        subjectUserId: incident.userId,
+        resource: "incident.hero_dispatch",
+        resourceId: incidentId,
+        action: "update",
+        purpose: "emergency_response",
+      })
+    }
+  } catch (error) {
+    console.error("Hero response audit log error:", error)
+  }
+}
+
+// Links from alerts sent before heroes answered on the responder view. They open that view, where the hero
+// accepts or declines, rather than recording anything on a GET that a link scanner could make.
+export async function GET(request: Request, { params }: Params) {
+  const { id } = await params
+  const token = new URL(request.url).searchParams.get("token") || ""
+  return NextResponse.redirect(
+    new URL(`/hero-network/respond?incident=${encodeURIComponent(id)}&token=${encodeURIComponent(token)}`, request.url),
+  )
+}
+
+// The app answers alerts with JSON so it can include an ETA or the hero's current location
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const { token, response, etaMinutes, location } = await request.json()
+    const heroId = verifyHeroToken(token, id)
+
+    if (!heroId) {
+      return NextResponse.json({ success: false, message: "Invalid or expired token" }, { status: 401 })
+    }
+
+    if (response !== "accept" && response !== "decline") {
+      return NextResponse.json({ success: false, message: "Response must be accept or decline" }, { status: 400 })
+    }
+
+    const hasLocation = Number.isFinite(location?.latitude) && Number.isFinite(location?.longitude)
+    const dispatch = await respondToHeroDispatch(id, heroId, response, {
+      etaMinutes: Number(etaMinutes) || undefined,
+      location: hasLocation ? { latitude: location.latitude, longitude: location.longitude } : undefined,
+    })
+    await auditHeroResponse(request, id, heroId)
+
+    return NextResponse.json({ success: true, message: "Response recorded", dispatch })
+  } catch (error) {
+    console.error("Hero response error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Hero dispatch not found")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to record hero response" }, { status: 500 })
+  }
+}
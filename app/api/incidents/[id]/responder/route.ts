@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess, type AccessAction } from "@/lib/audit-log"
+import { hasPermission } from "@/lib/auth"
+import { HERO_ACTIONS, getResponderView, recordHeroAction, verifyHeroToken, type HeroAction } from "@/lib/heroes"
+import { getIncident } from "@/lib/incidents"
+import { getSession } from "@/lib/session"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+// The hero from the alert link's token, or a signed-in hero; either way they only see incidents they were sent to
+async function getResponderId(request: Request, token: string | null | undefined, incidentId: string) {
+  const heroId = verifyHeroToken(token, incidentId)
+  if (heroId) {
+    return heroId
+  }
+
+  const session = await getSession(request)
+  return session && hasPermission(session, "incidents:respond") ? session.userId : null
+}
+
+// A hero mid-response isn't held up by the audit log; a failed entry is reported instead
+async function auditResponderAccess(request: Request, incidentId: string, heroId: string, action: AccessAction) {
+  try {
+    const incident = await getIncident(incidentId)
+    if (incident) {
+      await recordPhiAccess(request, {
+        actor: { userId: heroId, roles: ["hero"] },
+        subjectUserId: incident.userId,
+        resource: "incident.responder_view",
+        resourceId: incidentId,
+        action,
+        purpose: "emergency_response",
+      })
+    }
+  } catch (error) {
+    console.error("Responder audit log error:", error)
+  }
+}
+
+// The responder view an alerted hero opens from their alert link
+export async function GET(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const heroId = await getResponderId(request, new URL(request.url).searchParams.get("token"), id)
+
+    if (!heroId) {
+      return NextResponse.json({ success: false, message: "Invalid or expired token" }, { status: 401 })
+    }
+
+    const incident = await getResponderView(id, heroId)
+    await auditResponderAccess(request, id, heroId, "read")
+
+    return NextResponse.json({ success: true, incident })
+  } catch (error) {
+    console.error("Responder view error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Hero dispatch not found")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to load incident" }, { status: 500 })
+  }
+}
+
+// "On my way", "Arrived", "Naloxone given" and "Hand off to EMS"
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const { token, action, etaMinutes, location } = await request.json()
+    const heroId = await getResponderId(request, token, id)
+
+    if (!heroId) {
+      return NextResponse.json({ success: false, message: "Invalid or expired token" }, { status: 401 })
+    }
+
+    if (!HERO_ACTIONS.includes(action)) {
+      return NextResponse.json({ success: false, message: "Invalid action" }, { status: 400 })
+    }
+
+    const hasLocation = Number.isFinite(location?.latitude) && Number.isFinite(location?.longitude)
+    await recordHeroAction(id, heroId, action as HeroAction, {
+      etaMinutes: Number(etaMinutes) || undefined,
+      location: hasLocation ? { latitude: location.latitude, longitude: location.longitude } : undefined,
+    })
+
+    const incident = await getResponderView(id, heroId)
+    await auditResponderAccess(request, id, heroId, "update")
+
+    return NextResponse.json({ success: true, incident })
+  } catch (error) {
+    console.error("Responder action error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Hero dispatch not found")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message.startsWith("Hero must accept")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to record action" }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { hasPermission } from "@/lib/auth"
+import { dispatchIncident } from "@/lib/emergency"
+import { canTransition, getIncident, transitionIncident, INCIDENT_TRANSITIONS, type IncidentStatus } from "@/lib/incidents"
+import { requireSession } from "@/lib/session"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const session = await requireSession(request)
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    const incident = await getIncident(id)
+
+    // Other people's incidents are reported as missing rather than forbidden, except to admins
+    const canRead =
+      incident?.userId === session.userId
+        ? hasPermission(session, "incidents:read")
+        : hasPermission(session, "incidents:read_all")
+    if (!incident || !canRead) {
+      return NextResponse.json({ success: false, message: "Incident not found" }, { status: 404 })
+    }
+
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: incident.userId,
+      resource: "incident",
+      resourceId: incident.id,
+      action: "read",
+      purpose: incident.userId === session.userId ? "self" : "operations",
+    })
+
+    return NextResponse.json({ success: true, incident })
+  } catch (error) {
+    console.error("Incident lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load incident" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const session = await requireSession(request, "incidents:update")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    const { status, note } = await request.json()
+
+    if (!status || !(status in INCIDENT_TRANSITIONS)) {
+      return NextResponse.json({ success: false, message: "Invalid status" }, { status: 400 })
+    }
+
+    const incident = await getIncident(id)
+    if (!incident || incident.userId !== session.userId) {
+      return NextResponse.json({ success: false, message: "Incident not found" }, { status: 404 })
+    }
+
+    if (!canTransition(incident.status, status as IncidentStatus)) {
+      return NextResponse.json(
+        { success: false, message: `Cannot move incident from ${incident.status} to ${status}` },
+        { status: 409 },
+      )
+    }
+
+    // Dispatching from the countdown also alerts contacts, so it goes through the emergency service
+    const updated =
+      status === "dispatched"
+        ? await dispatchIncident(incident)
+        : await transitionIncident(id, status as IncidentStatus, { actor: session.userId, note })
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: incident.userId,
+      resource: "incident",
+      resourceId: incident.id,
+      action: "update",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, incident: updated })
+  } catch (error) {
+    console.error("Incident update error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Invalid incident transition")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to update incident" }, { status: 500 })
+  }
+}
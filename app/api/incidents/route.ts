@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { listIncidentsForUser } from "@/lib/incidents"
+import { requireSession } from "@/lib/session"
+
+export async function GET(request: Request) {
+  const session = await requireSession(request, "incidents:read")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const incidents = await listIncidentsForUser(session.userId)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "incidents",
+      action: "read",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, incidents })
+  } catch (error) {
+    console.error("Incident list error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load incidents" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { runDueJobs } from "@/lib/scheduler"
+
+// Sweeps due jobs; call from a cron with `Authorization: Bearer $CRON_SECRET`. Without a secret the
+// sweep is only open in development, since it fires escalations and reminders.
+async function handler(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret && process.env.NODE_ENV === "production") {
+    console.error("CRON_SECRET is not set; refusing to run scheduled jobs")
+    return NextResponse.json({ success: false, message: "Scheduled jobs are not configured" }, { status: 503 })
+  }
+
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const ran = await runDueJobs()
+    return NextResponse.json({ success: true, ran })
+  } catch (error) {
+    console.error("Scheduled job sweep error:", error)
+    return NextResponse.json({ success: false, message: "Failed to run scheduled jobs" }, { status: 500 })
+  }
+}
+
+export const GET = handler
+export const POST = handler
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { countRespondingHeroes, findNearestHeroes } from "@/lib/heroes"
+import { isIncidentClosed, listIncidentsForUser } from "@/lib/incidents"
+import { heroCellMarkers, naloxoneSiteMarker, type MapLayers, type MapMarker } from "@/lib/map-layers"
+import { DEFAULT_SITE_SEARCH_RADIUS_KM, findNaloxoneSitesNear } from "@/lib/naloxone-sites"
+import { getSession } from "@/lib/session"
+
+// Every map layer around a position in one request; the hero and incident layers need a signed-in user
+export async function GET(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const latitude = Number(searchParams.get("latitude"))
+    const longitude = Number(searchParams.get("longitude"))
+    const radiusKm = Math.min(Number(searchParams.get("radiusKm")) || DEFAULT_SITE_SEARCH_RADIUS_KM, 50)
+    const session = await getSession(request)
+    const userId = session?.userId
+    const openNow = searchParams.get("openNow") === "true"
+
+    if (
+      !searchParams.get("latitude") ||
+      !searchParams.get("longitude") ||
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "A valid latitude and longitude are required" },
+        { status: 400 },
+      )
+    }
+
+    const [sites, heroes, incidents] = await Promise.all([
+      findNaloxoneSitesNear({ latitude, longitude }, { radiusKm, limit: 200, openNow }),
+      userId
+        ? findNearestHeroes({ latitude, longitude }, { limit: 100, radiusKm, excludeUserIds: [userId] })
+        : Promise.resolve([]),
+      userId ? listIncidentsForUser(userId) : Promise.resolve([]),
+    ])
+
+    const naloxoneSites = sites.map(naloxoneSiteMarker)
+
+    const heroMarkers = heroCellMarkers(heroes.map(({ hero }) => hero))
+
+    // The user's own open emergency, at its exact location
+    const active = incidents.find((incident) => !isIncidentClosed(incident))
+    const incident: MapMarker[] =
+      active?.location?.latitude !== undefined && active.location.longitude !== undefined
+        ? [
+            {
+              id: active.id,
+              layer: "incident",
+              latitude: active.location.latitude,
+              longitude: active.location.longitude,
+              label: `Emergency: ${active.status.replace(/_/g, " ")}`,
+              detail: `${countRespondingHeroes(active)} hero(es) responding`,
+            },
+          ]
+        : []
+
+    if (session) {
+      await recordPhiAccess(request, {
+        actor: session,
+        subjectUserId: session.userId,
+        resource: "incidents",
+        action: "read",
+        purpose: "self",
+      })
+    }
+
+    const layers: MapLayers = { naloxoneSites, heroes: heroMarkers, incident }
+    return NextResponse.json({ success: true, layers })
+  } catch (error) {
+    console.error("Map layers error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load map" }, { status: 500 })
+  }
+}
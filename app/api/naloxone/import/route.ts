@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { importNaloxoneSites, NALOXONE_SITE_TYPES, type NaloxoneSiteType } from "@/lib/naloxone-sites"
+import { requireSession } from "@/lib/session"
+
+// Statewide directories run to a few thousand sites
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024
+
+// Errors meaning the file itself can't be used, rather than a server failure
+const UNREADABLE_DATASET_ERRORS = ["Unrecognized naloxone site dataset", "Naloxone site dataset"]
+
+/**
+ * Import a CSV, GeoJSON or JSON dataset of naloxone sites as multipart form data with a `file` field,
+ * and optionally a `type` for datasets without a category column.
+ * Requires `Authorization: Bearer $NALOXONE_SITES_SECRET` or an admin session.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.NALOXONE_SITES_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    const session = await requireSession(request, "naloxone_sites:import")
+    if (session instanceof NextResponse) {
+      return session
+    }
+  }
+
+  try {
+    const form = await request.formData()
+    const file = form.get("file")
+    const type = form.get("type") ? (String(form.get("type")) as NaloxoneSiteType) : undefined
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    if (type && !NALOXONE_SITE_TYPES.includes(type)) {
+      return NextResponse.json({ success: false, message: `Unknown site type ${type}` }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ success: false, message: "Dataset is too large" }, { status: 413 })
+    }
+
+    const result = await importNaloxoneSites(await file.text(), type)
+
+    return NextResponse.json({ success: true, message: `Imported ${result.stored} naloxone sites`, ...result })
+  } catch (error) {
+    console.error("Naloxone site import error:", error)
+
+    if (error instanceof Error && UNREADABLE_DATASET_ERRORS.some((prefix) => error.message.startsWith(prefix))) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to import naloxone sites" }, { status: 500 })
+  }
+}
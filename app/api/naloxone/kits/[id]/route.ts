@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { parseKitInput, removeKit, updateKit } from "@/lib/naloxone-kits"
+import { requireSession } from "@/lib/session"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const session = await requireSession(request, "kits:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const kit = await updateKit(session.userId, id, parseKitInput(body, true))
+
+    if (!kit) {
+      return NextResponse.json({ success: false, message: "Naloxone kit not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, kit })
+  } catch (error) {
+    console.error("Naloxone kit update error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Invalid kit")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to update naloxone kit" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const session = await requireSession(request, "kits:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+
+    if (!(await removeKit(session.userId, id))) {
+      return NextResponse.json({ success: false, message: "Naloxone kit not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: "Naloxone kit removed" })
+  } catch (error) {
+    console.error("Naloxone kit removal error:", error)
+    return NextResponse.json({ success: false, message: "Failed to remove naloxone kit" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { markKitUsed } from "@/lib/naloxone-kits"
+import { requireSession } from "@/lib/session"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+// Record that a kit was used; the owner is reminded to replace it
+export async function POST(request: Request, { params }: Params) {
+  const session = await requireSession(request, "kits:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    const { incidentId } = await request.json()
+    const kit = await markKitUsed(session.userId, id, incidentId ? String(incidentId) : undefined)
+
+    if (!kit) {
+      return NextResponse.json({ success: false, message: "Naloxone kit not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, kit })
+  } catch (error) {
+    console.error("Naloxone kit use error:", error)
+    return NextResponse.json({ success: false, message: "Failed to record naloxone kit use" }, { status: 500 })
+  }
+}
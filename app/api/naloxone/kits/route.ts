@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { listKits, parseKitInput, registerKit, type NaloxoneKitInput } from "@/lib/naloxone-kits"
+import { requireSession } from "@/lib/session"
+
+export async function GET(request: Request) {
+  const session = await requireSession(request, "kits:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const kits = await listKits(session.userId)
+    return NextResponse.json({ success: true, kits })
+  } catch (error) {
+    console.error("Naloxone kit lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load naloxone kits" }, { status: 500 })
+  }
+}
+
+// Register a kit; expiry reminders are scheduled straight away
+export async function POST(request: Request) {
+  const session = await requireSession(request, "kits:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const body = await request.json()
+    const kit = await registerKit(session.userId, parseKitInput(body) as NaloxoneKitInput)
+    return NextResponse.json({ success: true, kit })
+  } catch (error) {
+    console.error("Naloxone kit registration error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Invalid kit")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to register naloxone kit" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import {
+  DEFAULT_SITE_SEARCH_RADIUS_KM,
+  findNaloxoneSitesNear,
+  NALOXONE_SITE_TYPES,
+  type NaloxoneSiteType,
+} from "@/lib/naloxone-sites"
+
+// Further than this is no longer "near me"
+const MAX_RADIUS_KM = 100
+
+/**
+ * Naloxone sites closest first, e.g. `?latitude=40.71&longitude=-74.01&openNow=true&type=pharmacy,vending_machine`
+ */
+export async function GET(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const latitude = Number(searchParams.get("latitude"))
+    const longitude = Number(searchParams.get("longitude"))
+    const radiusKm = Math.min(Number(searchParams.get("radiusKm")) || DEFAULT_SITE_SEARCH_RADIUS_KM, MAX_RADIUS_KM)
+    const limit = Number(searchParams.get("limit")) || undefined
+    const types = (searchParams.get("type") || "").split(",").filter(Boolean) as NaloxoneSiteType[]
+
+    if (
+      !searchParams.get("latitude") ||
+      !searchParams.get("longitude") ||
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "A valid latitude and longitude are required" },
+        { status: 400 },
+      )
+    }
+
+    const unknownType = types.find((type) => !NALOXONE_SITE_TYPES.includes(type))
+    if (unknownType) {
+      return NextResponse.json({ success: false, message: `Unknown site type ${unknownType}` }, { status: 400 })
+    }
+
+    const sites = await findNaloxoneSitesNear(
+      { latitude, longitude },
+      { radiusKm, limit, types, openNow: searchParams.get("openNow") === "true" },
+    )
+    return NextResponse.json({ success: true, sites })
+  } catch (error) {
+    console.error("Naloxone site lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to find naloxone sites" }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { acknowledgeIncident, findIncidentAwaitingRecipient } from "@/lib/escalation"
+
+// Replies that count as "I'm responding"
+const ACKNOWLEDGEMENT_PATTERN = /^\s*(ok|okay|ack|yes|y|coming|on my way|omw)\b/i
+
+function twiml(message: string): NextResponse {
+  const escaped = message.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+  return new NextResponse(`<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escaped}</Message></Response>`, {
+    headers: { "Content-Type": "text/xml" },
+  })
+}
+
+function forbidden(): NextResponse {
+  return NextResponse.json({ success: false, message: "Invalid webhook signature" }, { status: 403 })
+}
+
+// Twilio signs the webhook URL it was configured with, which differs from request.url behind a proxy
+async function isSignedByTwilio(request: Request, params: Record<string, string>): Promise<boolean> {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const signature = request.headers.get("x-twilio-signature")
+  if (!authToken || !signature) {
+    return false
+  }
+
+  const { default: twilio } = await import("twilio")
+  return twilio.validateRequest(authToken, signature, process.env.TWILIO_INBOUND_URL || request.url, params)
+}
+
+/**
+ * Inbound SMS replies from contacts. Accepts Twilio's form-encoded webhook (From, Body), signed with
+ * X-Twilio-Signature, or JSON ({ from, body }) from the local HTTP stand-in gateway with
+ * `Authorization: Bearer $NOTIFICATION_INBOUND_SECRET`. A reply stops the escalation, so unsigned
+ * requests are turned away.
+ */
+export async function POST(request: Request) {
+  const isForm = (request.headers.get("content-type") || "").includes("application/x-www-form-urlencoded")
+
+  try {
+    let from = ""
+    let body = ""
+
+    if (isForm) {
+      const form = await request.formData()
+      const params = Object.fromEntries(Array.from(form.entries(), ([key, value]) => [key, String(value)]))
+      if (!(await isSignedByTwilio(request, params))) {
+        return forbidden()
+      }
+
+      from = params.From || ""
+      body = params.Body || ""
+    } else {
+      const secret = process.env.NOTIFICATION_INBOUND_SECRET
+      if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return forbidden()
+      }
+
+      const json = await request.json()
+      from = json.from || ""
+      body = json.body || ""
+    }
+
+    if (!from) {
+      return NextResponse.json({ success: false, message: "Missing sender" }, { status: 400 })
+    }
+
+    const incident = ACKNOWLEDGEMENT_PATTERN.test(body) ? await findIncidentAwaitingRecipient(from) : null
+    if (incident) {
+      await acknowledgeIncident(incident.id, from, "reply")
+    }
+
+    const reply = incident
+      ? "Thank you. We've recorded that you're responding. Call 911 if you haven't already."
+      : "Narcoguard: reply OK to an active emergency alert to let us know you're responding."
+
+    return isForm ? twiml(reply) : NextResponse.json({ success: true, acknowledged: Boolean(incident), message: reply })
+  } catch (error) {
+    console.error("Inbound notification error:", error)
+    return NextResponse.json({ success: false, message: "Failed to process reply" }, { status: 500 })
+  }
+}
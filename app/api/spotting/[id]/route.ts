@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import {
+  checkInSpottingSession,
+  endSpottingSession,
+  getSpottingSession,
+  snoozeSpottingSession,
+} from "@/lib/spotting"
+import { requireSession } from "@/lib/session"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await requireSession(request, "spotting:use")
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  try {
+    const { id } = await params
+    const session = await getSpottingSession(id)
+
+    if (!session || session.userId !== auth.userId) {
+      return NextResponse.json({ success: false, message: "Spotting session not found" }, { status: 404 })
+    }
+
+    await recordPhiAccess(request, {
+      actor: auth,
+      subjectUserId: auth.userId,
+      resource: "spotting_session",
+      resourceId: id,
+      action: "read",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, session })
+  } catch (error) {
+    console.error("Spotting session lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load spotting session" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const auth = await requireSession(request, "spotting:use")
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  try {
+    const { id } = await params
+    const { action, snoozeSeconds, location } = await request.json()
+
+    const existing = await getSpottingSession(id)
+    if (!existing || existing.userId !== auth.userId) {
+      return NextResponse.json({ success: false, message: "Spotting session not found" }, { status: 404 })
+    }
+
+    let session
+    switch (action) {
+      case "check_in":
+        session = await checkInSpottingSession(id, location)
+        break
+      case "snooze":
+        session = await snoozeSpottingSession(id, Number(snoozeSeconds) || undefined)
+        break
+      case "end":
+        session = await endSpottingSession(id)
+        break
+      default:
+        return NextResponse.json({ success: false, message: "Invalid action" }, { status: 400 })
+    }
+
+    if (!session) {
+      return NextResponse.json({ success: false, message: "Spotting session not found" }, { status: 404 })
+    }
+
+    await recordPhiAccess(request, {
+      actor: auth,
+      subjectUserId: auth.userId,
+      resource: "spotting_session",
+      resourceId: id,
+      action: "update",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, session })
+  } catch (error) {
+    console.error("Spotting session update error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Spotting session is")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to update spotting session" }, { status: 500 })
+  }
+}
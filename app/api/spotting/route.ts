@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { contactsForAlert } from "@/lib/emergency-contacts"
+import { requireSession } from "@/lib/session"
+import { getActiveSpottingSession, startSpottingSession } from "@/lib/spotting"
+
+export async function GET(request: Request) {
+  const auth = await requireSession(request, "spotting:use")
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  try {
+    const session = await getActiveSpottingSession(auth.userId)
+    await recordPhiAccess(request, {
+      actor: auth,
+      subjectUserId: auth.userId,
+      resource: "spotting_session",
+      resourceId: session?.id,
+      action: "read",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, session })
+  } catch (error) {
+    console.error("Spotting session lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load spotting session" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireSession(request, "spotting:use")
+  if (auth instanceof NextResponse) {
+    return auth
+  }
+
+  try {
+    const userId = auth.userId
+    const body = await request.json()
+    const { userName, checkInIntervalSeconds, graceSeconds, location } = body
+
+    // One session at a time, so a second start from another tab doesn't leave two timers running
+    const existing = await getActiveSpottingSession(userId)
+    if (existing) {
+      return NextResponse.json({ success: true, message: "Spotting session already active", session: existing })
+    }
+
+    // The app's copy of the contacts may be a stale offline cache, so the saved ones win
+    const { contacts, escalationWaitSeconds, allowHeroNetwork } = await contactsForAlert(userId, body)
+    const session = await startSpottingSession({
+      userId,
+      userName,
+      checkInIntervalSeconds: Number(checkInIntervalSeconds) || undefined,
+      graceSeconds: Number(graceSeconds) || undefined,
+      location,
+      contacts,
+      escalationWaitSeconds,
+      allowHeroNetwork,
+    })
+    await recordPhiAccess(request, {
+      actor: auth,
+      subjectUserId: userId,
+      resource: "spotting_session",
+      resourceId: session.id,
+      action: "create",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, message: "Spotting session started", session })
+  } catch (error) {
+    console.error("Spotting session start error:", error)
+    return NextResponse.json({ success: false, message: "Failed to start spotting session" }, { status: 500 })
+  }
+}
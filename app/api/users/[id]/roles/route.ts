@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { ROLES, type Role } from "@/lib/permissions"
+import { requireSession } from "@/lib/session"
+import { setUserRoles, toPublicUser } from "@/lib/users"
+
+type Params = {
+  params: Promise<{ id: string }>
+}
+
+// Admins grant and remove roles; the user's next token refresh picks up the change
+export async function PUT(request: Request, { params }: Params) {
+  const session = await requireSession(request, "users:manage")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { id } = await params
+    const { roles } = await request.json()
+
+    if (!Array.isArray(roles) || roles.some((role) => !ROLES.includes(role))) {
+      return NextResponse.json(
+        { success: false, message: `Roles must be a list of: ${ROLES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    // So an admin can't lock themselves out by accident
+    if (id === session.userId && !roles.includes("admin")) {
+      return NextResponse.json({ success: false, message: "Admins can't remove their own admin role" }, { status: 409 })
+    }
+
+    const user = await setUserRoles(id, roles as Role[])
+    if (!user) {
+      return NextResponse.json({ success: false, message: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, user: toPublicUser(user) })
+  } catch (error) {
+    console.error("Role update error:", error)
+    return NextResponse.json({ success: false, message: "Failed to update roles" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { requireSession } from "@/lib/session"
+import { addBaselineSamples } from "@/lib/vitals-profile"
+
+// Cap on samples per request; the monitor sends them in small batches
+const MAX_SAMPLES_PER_REQUEST = 100
+
+export async function POST(request: Request) {
+  const session = await requireSession(request, "vitals:write")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { samples } = await request.json()
+
+    if (!Array.isArray(samples)) {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    if (samples.length > MAX_SAMPLES_PER_REQUEST) {
+      return NextResponse.json({ success: false, message: "Too many samples" }, { status: 413 })
+    }
+
+    const valid = samples.filter((sample) => sample && typeof sample.timestamp === "number")
+    const profile = await addBaselineSamples(session.userId, valid)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "vitals.baseline",
+      action: "update",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error("Baseline sample error:", error)
+    return NextResponse.json({ success: false, message: "Failed to record baseline samples" }, { status: 500 })
+  }
+}
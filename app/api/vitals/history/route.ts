@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { hasPermission } from "@/lib/auth"
+import { getHealthHistory } from "@/lib/health-history"
+import { forbidden, requireSession } from "@/lib/session"
+
+const DEFAULT_HISTORY_DAYS = 7
+
+export async function GET(request: Request) {
+  const session = await requireSession(request, "vitals:read")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const days = Number(searchParams.get("days")) || DEFAULT_HISTORY_DAYS
+
+    // Clinicians can look at a patient's trends by passing their userId
+    const patientId = searchParams.get("userId")
+    if (patientId && patientId !== session.userId && !hasPermission(session, "vitals:read_patients")) {
+      return forbidden()
+    }
+
+    const userId = patientId || session.userId
+    const since = Date.now() - days * 24 * 60 * 60 * 1000
+    const points = await getHealthHistory(userId, since)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: userId,
+      resource: "vitals.history",
+      action: "read",
+      purpose: userId === session.userId ? "self" : "treatment",
+    })
+
+    return NextResponse.json({ success: true, points })
+  } catch (error) {
+    console.error("Health history lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load health history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { importHealthExport, listHealthImports } from "@/lib/health-history"
+import { requireSession } from "@/lib/session"
+
+// Large Apple Health exports should be trimmed to the recent months before uploading
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024
+
+// Errors meaning the file itself can't be used, rather than a server failure
+const UNREADABLE_EXPORT_ERRORS = [
+  "Unrecognized health data export",
+  "Health data export is not valid",
+  "Export contains no",
+]
+
+export async function GET(request: Request) {
+  const session = await requireSession(request, "vitals:read")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const imports = await listHealthImports(session.userId)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "vitals.imports",
+      action: "read",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, imports })
+  } catch (error) {
+    console.error("Health import lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load health imports" }, { status: 500 })
+  }
+}
+
+/**
+ * Upload a health data export as multipart form data with a `file` field
+ */
+export async function POST(request: Request) {
+  const session = await requireSession(request, "vitals:write")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const form = await request.formData()
+    const file = form.get("file")
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ success: false, message: "Missing required fields" }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ success: false, message: "Export is too large" }, { status: 413 })
+    }
+
+    const { healthImport, profile } = await importHealthExport(session.userId, await file.text(), file.name)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: session.userId,
+      resource: "vitals.imports",
+      resourceId: healthImport.id,
+      action: "create",
+      purpose: "self",
+    })
+
+    return NextResponse.json({ success: true, import: healthImport, profile })
+  } catch (error) {
+    console.error("Health import error:", error)
+
+    if (error instanceof Error && error.message.startsWith("Export already imported")) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && UNREADABLE_EXPORT_ERRORS.some((prefix) => error.message.startsWith(prefix))) {
+      return NextResponse.json({ success: false, message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: false, message: "Failed to import health data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import { recordPhiAccess } from "@/lib/audit-log"
+import { hasPermission } from "@/lib/auth"
+import { parseThresholdOverrides, type TemperatureUnit } from "@/lib/baselines"
+import { forbidden, requireSession } from "@/lib/session"
+import { getVitalsProfile, restartBaselineLearning, updateVitalsProfile } from "@/lib/vitals-profile"
+
+const TEMPERATURE_UNITS: TemperatureUnit[] = ["F", "C"]
+
+export async function GET(request: Request) {
+  const session = await requireSession(request, "vitals:read")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    // Clinicians can look at a patient's profile by passing their userId
+    const patientId = new URL(request.url).searchParams.get("userId")
+    if (patientId && patientId !== session.userId && !hasPermission(session, "vitals:read_patients")) {
+      return forbidden()
+    }
+
+    const userId = patientId || session.userId
+    const profile = await getVitalsProfile(userId)
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: userId,
+      resource: "vitals.profile",
+      action: "read",
+      purpose: userId === session.userId ? "self" : "treatment",
+    })
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error("Vitals profile lookup error:", error)
+    return NextResponse.json({ success: false, message: "Failed to load vitals profile" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request) {
+  const session = await requireSession(request, "vitals:write")
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  try {
+    const { userId: patientId, units, overrides, overrideUnit, setBy, relearn } = await request.json()
+    const userId = patientId || session.userId
+
+    if (units?.temperature && !TEMPERATURE_UNITS.includes(units.temperature)) {
+      return NextResponse.json({ success: false, message: "Invalid temperature unit" }, { status: 400 })
+    }
+
+    if (setBy && setBy !== "user" && setBy !== "clinician") {
+      return NextResponse.json({ success: false, message: "Invalid override source" }, { status: 400 })
+    }
+
+    // Only clinicians set clinician thresholds, and that's all they can change on someone else's profile
+    const forPatient = userId !== session.userId
+    if ((setBy === "clinician" || forPatient) && !hasPermission(session, "vitals:set_thresholds")) {
+      return forbidden()
+    }
+    if (forPatient && (setBy !== "clinician" || units || relearn)) {
+      return forbidden()
+    }
+
+    // null clears the overrides from that source
+    const parsedOverrides =
+      overrides === undefined || overrides === null
+        ? overrides
+        : parseThresholdOverrides(overrides, TEMPERATURE_UNITS.includes(overrideUnit) ? overrideUnit : "F")
+    if (parsedOverrides === null && overrides !== null) {
+      return NextResponse.json({ success: false, message: "Invalid threshold overrides" }, { status: 400 })
+    }
+
+    if (relearn) {
+      await restartBaselineLearning(userId)
+    }
+
+    const profile = await updateVitalsProfile(userId, {
+      units: units?.temperature ? { temperature: units.temperature } : undefined,
+      overrides: parsedOverrides,
+      setBy,
+      actor: session.userId,
+    })
+    await recordPhiAccess(request, {
+      actor: session,
+      subjectUserId: userId,
+      resource: "vitals.profile",
+      action: "update",
+      purpose: forPatient ? "treatment" : "self",
+    })
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error("Vitals profile update error:", error)
+    return NextResponse.json({ success: false, message: "Failed to update vitals profile" }, { status: 500 })
+  }
+}
@@ -1,41 +1,124 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { motion } from "framer-motion"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
-import { encryptData } from "../utils/hipaaCompliance"
+import { toast } from "@/components/ui/use-toast"
+import type { ContactConsentSummary } from "@/lib/contact-consent"
+import {
+  DEFAULT_ESCALATION_WAIT_SECONDS,
+  resendContactInvitation,
+  saveEmergencyContacts,
+  syncEmergencyContacts,
+  type CachedEmergencyContacts,
+  type EmergencyContact as Contact,
+} from "../utils/emergencyContacts"
 import { AlertCircle, Shield } from "lucide-react"
 
-interface Contact {
-  name: string
-  phone: string
-  email: string
-  notify: boolean
-  notificationMethod: "call" | "text" | "email"
+const CONSENT_BADGES: Record<ContactConsentSummary["status"], { label: string; className: string }> = {
+  pending: { label: "Invitation pending", className: "bg-yellow-500/20 text-yellow-300" },
+  verified: { label: "Verified", className: "bg-green-500/20 text-green-300" },
+  declined: { label: "Declined", className: "bg-red-500/20 text-red-300" },
+}
+
+// Contacts are invited when saved with notifications on
+function ConsentBadge({ consent }: { consent?: ContactConsentSummary }) {
+  const badge = consent
+    ? CONSENT_BADGES[consent.status]
+    : { label: "Not invited yet", className: "bg-white/10 text-white/70" }
+  return <span className={`text-xs font-medium px-2 py-1 rounded-full ${badge.className}`}>{badge.label}</span>
 }
 
 export default function EmergencyContacts() {
   const [contacts, setContacts] = useState<Contact[]>([
-    { name: "", phone: "", email: "", notify: false, notificationMethod: "call" },
+    { name: "", phone: "", email: "", notify: false, notificationMethod: "call", priority: "primary" },
   ])
   const [allowHeroNetwork, setAllowHeroNetwork] = useState(false)
+  const [shareVitalsWithHeroes, setShareVitalsWithHeroes] = useState(false)
+  const [escalationWaitSeconds, setEscalationWaitSeconds] = useState(DEFAULT_ESCALATION_WAIT_SECONDS)
+  const [isSaving, setIsSaving] = useState(false)
+  const [consent, setConsent] = useState<Record<string, ContactConsentSummary>>({})
+  const [resendingId, setResendingId] = useState<string | null>(null)
+
+  const showSettings = (saved: CachedEmergencyContacts) => {
+    if (saved.contacts.length > 0) {
+      setContacts(saved.contacts)
+    }
+    setAllowHeroNetwork(saved.allowHeroNetwork)
+    setShareVitalsWithHeroes(saved.shareVitalsWithHeroes)
+    setEscalationWaitSeconds(saved.escalationWaitSeconds)
+    setConsent(saved.consent)
+  }
+
+  // Start from the saved contacts, uploading any edits this device made while offline
+  useEffect(() => {
+    syncEmergencyContacts().then(showSettings)
+  }, [])
 
   const addContact = () => {
-    setContacts([...contacts, { name: "", phone: "", email: "", notify: false, notificationMethod: "call" }])
+    setContacts([
+      ...contacts,
+      { name: "", phone: "", email: "", notify: false, notificationMethod: "call", priority: "secondary" },
+    ])
   }
 
-  const saveContacts = () => {
-    const contactsData = {
-      contacts,
-      allowHeroNetwork,
+  const saveContacts = async () => {
+    setIsSaving(true)
+    try {
+      const result = await saveEmergencyContacts({
+        // Rows left blank aren't contacts
+        contacts: contacts.filter((contact) => contact.name || contact.phone || contact.email),
+        allowHeroNetwork,
+        shareVitalsWithHeroes,
+        escalationWaitSeconds,
+      })
+      showSettings(result.contacts)
+
+      if (result.status === "saved") {
+        toast({
+          title: "Contacts saved",
+          description:
+            result.message ||
+            "They're stored securely and synced to your devices. New contacts have been sent an invitation.",
+        })
+      } else if (result.status === "offline") {
+        toast({ title: "Saved on this device", description: "Your contacts will sync when you're back online." })
+      } else {
+        toast({
+          title: "Contacts were changed on another device",
+          description: "We've loaded the latest version. Check it and save your changes again.",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Couldn't save contacts",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const resendInvitation = async (contactId: string) => {
+    setResendingId(contactId)
+    try {
+      setConsent((await resendContactInvitation(contactId)).consent)
+      toast({ title: "Invitation sent", description: "We've sent your contact a new invitation." })
+    } catch (error) {
+      toast({
+        title: "Couldn't resend invitation",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setResendingId(null)
     }
-    const encryptedContacts = encryptData(JSON.stringify(contactsData))
-    localStorage.setItem("emergencyContacts", encryptedContacts)
-    // In a real application, you would send this to a secure server instead of using localStorage
   }
 
   return (
@@ -50,6 +133,10 @@ export default function EmergencyContacts() {
         Who should we call when things get dicey? Add your emergency contacts here. Remember, it could be Mom, your
         neighbor, or even Ghostbusters!
       </p>
+      <p className="mb-4 text-sm text-white/80">
+        Each contact you ask us to notify gets an invitation explaining Narcoguard. We only alert contacts once they've
+        accepted, and they can stop alerts at any time.
+      </p>
       {contacts.map((contact, index) => (
         <motion.div
           key={index}
@@ -58,7 +145,10 @@ export default function EmergencyContacts() {
           animate={{ opacity: 1, x: 0 }}
           transition={{ duration: 0.3, delay: index * 0.1 }}
         >
-          <Label htmlFor={`name-${index}`}>Name</Label>
+          <div className="flex items-center justify-between mb-2">
+            <Label htmlFor={`name-${index}`}>Name</Label>
+            <ConsentBadge consent={contact.id ? consent[contact.id] : undefined} />
+          </div>
           <Input
             id={`name-${index}`}
             value={contact.name}
@@ -72,6 +162,8 @@ export default function EmergencyContacts() {
           <Label htmlFor={`phone-${index}`}>Phone</Label>
           <Input
             id={`phone-${index}`}
+            type="tel"
+            placeholder="+1 555 123 4567"
             value={contact.phone}
             onChange={(e) => {
               const newContacts = [...contacts]
@@ -83,6 +175,7 @@ export default function EmergencyContacts() {
           <Label htmlFor={`email-${index}`}>Email</Label>
           <Input
             id={`email-${index}`}
+            type="email"
             value={contact.email}
             onChange={(e) => {
               const newContacts = [...contacts]
@@ -119,8 +212,48 @@ export default function EmergencyContacts() {
               <option value="email">Email</option>
             </select>
           </div>
+          <div className="flex items-center space-x-2 mt-2">
+            <Label>Alert Order:</Label>
+            <select
+              value={contact.priority}
+              onChange={(e) => {
+                const newContacts = [...contacts]
+                newContacts[index].priority = e.target.value as "primary" | "secondary"
+                setContacts(newContacts)
+              }}
+              className="border rounded p-1 bg-white/20 text-white"
+            >
+              <option value="primary">Primary - alert first</option>
+              <option value="secondary">Secondary - alert if nobody responds</option>
+            </select>
+          </div>
+          {contact.id && consent[contact.id]?.status === "pending" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => resendInvitation(contact.id!)}
+              disabled={resendingId === contact.id}
+            >
+              {resendingId === contact.id ? "Sending..." : "Resend invitation"}
+            </Button>
+          )}
         </motion.div>
       ))}
+      <div className="flex items-center space-x-2">
+        <Label htmlFor="escalation-wait">If nobody responds, widen the alert after:</Label>
+        <select
+          id="escalation-wait"
+          value={escalationWaitSeconds}
+          onChange={(e) => setEscalationWaitSeconds(Number(e.target.value))}
+          className="border rounded p-1 bg-white/20 text-white"
+        >
+          <option value={30}>30 seconds</option>
+          <option value={60}>1 minute</option>
+          <option value={120}>2 minutes</option>
+          <option value={300}>5 minutes</option>
+        </select>
+      </div>
       <motion.div
         className="mb-6 p-4 border rounded-lg bg-indigo-600/20 backdrop-blur-md"
         initial={{ opacity: 0, y: 20 }}
@@ -140,13 +273,22 @@ export default function EmergencyContacts() {
           By enabling this, you allow nearby heroes from the Narcoguard network to be notified and potentially assist in
           case of an emergency.
         </p>
+        <div className="flex items-center justify-between mt-4">
+          <Label htmlFor="share-vitals-with-heroes">Share my vital signs with heroes who respond</Label>
+          <Switch
+            id="share-vitals-with-heroes"
+            checked={shareVitalsWithHeroes}
+            onCheckedChange={setShareVitalsWithHeroes}
+            disabled={!allowHeroNetwork}
+          />
+        </div>
       </motion.div>
       <div className="flex space-x-4">
         <Button onClick={addContact} className="mr-2">
           + Add another contact
         </Button>
-        <Button onClick={saveContacts} variant="outline">
-          Save Contacts
+        <Button onClick={saveContacts} variant="outline" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Contacts"}
         </Button>
       </div>
       <motion.div
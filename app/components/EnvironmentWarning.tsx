@@ -13,7 +13,7 @@ export default function EnvironmentWarning() {
     >
       <AlertTriangle className="text-yellow-500 mr-2" />
       <p className="text-yellow-500">
-        Warning: Using fallback encryption key. For production, please set the HIPAA_SECRET_KEY environment variable.
+        Warning: Using the file-based key store. For production, keep master encryption keys in a hosted KMS.
       </p>
     </motion.div>
   )
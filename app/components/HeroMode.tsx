@@ -4,40 +4,82 @@ import { useState, useEffect } from "react"
 import { motion } from "framer-motion"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import { AlertCircle, MapPin, Bell, Users, Shield, Clock } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useTheme } from "next-themes"
+import { toast } from "@/components/ui/use-toast"
+import { authFetch } from "@/app/utils/authFetch"
+import HeroResponse from "./HeroResponse"
 
-export default function HeroMode() {
+// Heroes only receive alerts while their last-known location is recent, so it's refreshed while Hero Mode is on
+const LOCATION_REFRESH_MS = 10 * 60 * 1000
+
+const getPosition = (): Promise<{ latitude: number; longitude: number } | undefined> =>
+  new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(undefined)
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude }),
+      () => resolve(undefined),
+      { timeout: 5000, maximumAge: 60 * 1000 },
+    )
+  })
+
+interface HeroModeProps {
+  // An alert the hero opened from an SMS or email link
+  alert?: { incidentId: string; token: string }
+}
+
+export default function HeroMode({ alert: heroAlert }: HeroModeProps = {}) {
   const [isHeroMode, setIsHeroMode] = useState(false)
-  const [allowHeroNetwork, setAllowHeroNetwork] = useState(false)
+  const [heroName, setHeroName] = useState("")
+  const [heroPhone, setHeroPhone] = useState("")
+  const [carriesNaloxone, setCarriesNaloxone] = useState(false)
+  // Hero registrations are keyed by the signed-in user's ID
+  const [userId, setUserId] = useState<string | null>(null)
   const { theme } = useTheme()
 
+  // Pick up an existing Hero Network registration
   useEffect(() => {
-    try {
-      const savedContacts = localStorage.getItem("emergencyContacts")
-      if (savedContacts) {
-        const parsedData = JSON.parse(savedContacts)
-        if (parsedData && typeof parsedData === "object" && "allowHeroNetwork" in parsedData) {
-          setAllowHeroNetwork(parsedData.allowHeroNetwork)
-          setIsHeroMode(parsedData.allowHeroNetwork)
-        } else {
-          console.warn("Invalid emergency contacts data structure:", parsedData)
-          setAllowHeroNetwork(false)
-          setIsHeroMode(false)
-        }
-      } else {
-        console.log("No emergency contacts data found in localStorage")
-        setAllowHeroNetwork(false)
-        setIsHeroMode(false)
-      }
-    } catch (error) {
-      console.error("Error parsing emergency contacts data:", error)
-      setAllowHeroNetwork(false)
-      setIsHeroMode(false)
-    }
+    authFetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : null))
+      .then(async (session) => {
+        if (!session?.user) return
+        setUserId(session.user.id)
+        setHeroName((current) => current || session.user.name)
+
+        const response = await authFetch(`/api/heroes/${session.user.id}`)
+        const data = response.ok ? await response.json() : null
+        if (!data?.hero) return
+        setIsHeroMode(true)
+        setHeroName(data.hero.name)
+        setHeroPhone(data.hero.phone || "")
+        setCarriesNaloxone(data.hero.carriesNaloxone)
+      })
+      .catch((error) => console.error("Failed to load hero registration:", error))
   }, [])
 
+  useEffect(() => {
+    if (!isHeroMode || !userId) return
+
+    const reportLocation = async () => {
+      const location = await getPosition()
+      if (!location) return
+      authFetch(`/api/heroes/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ location }),
+      }).catch((error) => console.error("Failed to update hero location:", error))
+    }
+
+    const interval = setInterval(reportLocation, LOCATION_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [isHeroMode, userId])
+
   const features = [
     {
       icon: AlertCircle,
@@ -67,14 +109,56 @@ export default function HeroMode() {
     { icon: Clock, title: "24/7 Support", description: "Our support team is always available to assist you." },
   ]
 
-  const handleHeroModeToggle = (checked: boolean) => {
-    setIsHeroMode(checked)
-    setAllowHeroNetwork(checked)
+  const handleHeroModeToggle = async (checked: boolean) => {
+    if (!userId) {
+      toast({
+        title: "Sign in to join the Hero Network",
+        description: "Heroes need an account so alerts reach the right person.",
+        variant: "destructive",
+      })
+      return
+    }
+
     try {
-      localStorage.setItem("emergencyContacts", JSON.stringify({ allowHeroNetwork: checked }))
+      const response = checked
+        ? await authFetch("/api/heroes", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              name: heroName,
+              phone: heroPhone,
+              carriesNaloxone,
+              available: true,
+              location: await getPosition(),
+            }),
+          })
+        : await authFetch(`/api/heroes/${userId}`, { method: "DELETE" })
+      const data = await response.json()
+
+      if (!response.ok && response.status !== 404) {
+        throw new Error(data.message || "Request failed")
+      }
     } catch (error) {
-      console.error("Error saving hero network preference:", error)
+      toast({
+        title: checked ? "Couldn't join the Hero Network" : "Couldn't leave the Hero Network",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+      return
     }
+
+    // Being a hero is the server-side registration; it's unrelated to asking heroes for help in the contact settings
+    setIsHeroMode(checked)
+  }
+
+  const handleNaloxoneToggle = (checked: boolean) => {
+    setCarriesNaloxone(checked)
+    if (!isHeroMode || !userId) return
+    authFetch(`/api/heroes/${userId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ carriesNaloxone: checked }),
+    }).catch((error) => console.error("Failed to update naloxone status:", error))
   }
 
   const getThemeColors = () => {
@@ -101,16 +185,51 @@ export default function HeroMode() {
       transition={{ duration: 0.5 }}
       className="space-y-6"
     >
+      {heroAlert && <HeroResponse incidentId={heroAlert.incidentId} token={heroAlert.token} />}
       <h2 className={`text-3xl font-bold mb-4 text-gradient bg-gradient-to-r ${getThemeColors()}`}>Hero Mode</h2>
       <p className="mb-4 text-white text-lg">
         Activate Hero Mode to join a network of lifesavers. When active, you'll be alerted if someone nearby experiences
         an overdose. Your quick response could make the difference between life and death.
       </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="hero-name" className="text-white">
+            Name shown to other heroes
+          </Label>
+          <Input
+            id="hero-name"
+            value={heroName}
+            onChange={(event) => setHeroName(event.target.value)}
+            placeholder="e.g. Sam R."
+            disabled={isHeroMode}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="hero-phone" className="text-white">
+            Phone for alerts
+          </Label>
+          <Input
+            id="hero-phone"
+            type="tel"
+            value={heroPhone}
+            onChange={(event) => setHeroPhone(event.target.value)}
+            placeholder="+1 555 123 4567"
+            disabled={isHeroMode}
+          />
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch id="carries-naloxone" checked={carriesNaloxone} onCheckedChange={handleNaloxoneToggle} />
+        <Label htmlFor="carries-naloxone" className="text-white text-lg">
+          I carry naloxone
+        </Label>
+      </div>
       <div className="flex items-center space-x-2">
         <Switch
           id="hero-mode"
           checked={isHeroMode}
           onCheckedChange={handleHeroModeToggle}
+          disabled={!isHeroMode && (!heroName || !heroPhone)}
           className={`bg-gradient-to-r ${getThemeColors()}`}
         />
         <Label htmlFor="hero-mode" className="text-white text-lg">
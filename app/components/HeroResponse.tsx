@@ -0,0 +1,227 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { motion } from "framer-motion"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import { MapPin, Heart, Navigation, CheckCircle, Syringe, Ambulance } from "lucide-react"
+import { tutorialSteps } from "./Tutorial"
+import type { HeroAction, ResponderView } from "@/lib/heroes"
+
+interface HeroResponseProps {
+  incidentId: string
+  token: string
+}
+
+const ACTION_BUTTONS: {
+  action: HeroAction
+  label: string
+  icon: typeof Navigation
+  done: keyof ResponderView["dispatch"]
+}[] = [
+  { action: "on_my_way", label: "On my way", icon: Navigation, done: "respondedAt" },
+  { action: "arrived", label: "Arrived", icon: CheckCircle, done: "arrivedAt" },
+  { action: "naloxone_given", label: "Naloxone given", icon: Syringe, done: "naloxoneGivenAt" },
+  { action: "handed_off", label: "Hand off to EMS", icon: Ambulance, done: "handedOffAt" },
+]
+
+const formatTime = (timestamp?: string) =>
+  timestamp ? new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : undefined
+
+// Responder view for a hero who has been alerted about a nearby emergency
+export default function HeroResponse({ incidentId, token }: HeroResponseProps) {
+  const [view, setView] = useState<ResponderView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingAction, setPendingAction] = useState<HeroAction | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/incidents/${incidentId}/responder?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.message || "Couldn't load this alert")
+        setView(data.incident)
+      })
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : "Couldn't load this alert"))
+  }, [incidentId, token])
+
+  const getPosition = (): Promise<{ latitude: number; longitude: number } | undefined> =>
+    new Promise((resolve) => {
+      if (!navigator.geolocation) {
+        resolve(undefined)
+        return
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude }),
+        () => resolve(undefined),
+        { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 },
+      )
+    })
+
+  const sendAction = async (action: HeroAction) => {
+    setPendingAction(action)
+
+    try {
+      const response = await fetch(`/api/incidents/${incidentId}/responder`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token,
+          action,
+          // Lets the server estimate an ETA from where the hero actually is
+          location: action === "on_my_way" ? await getPosition() : undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Request failed")
+      }
+
+      setView(data.incident)
+    } catch (actionError) {
+      toast({
+        title: "Couldn't update the incident",
+        description: actionError instanceof Error ? actionError.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const decline = async () => {
+    try {
+      const response = await fetch(`/api/incidents/${incidentId}/heroes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, response: "decline" }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || "Request failed")
+      setView((current) => current && { ...current, dispatch: data.dispatch })
+    } catch (declineError) {
+      console.error("Failed to decline hero alert:", declineError)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 rounded-lg bg-red-500/20 text-white" data-testid="hero-response-error">
+        {error}
+      </div>
+    )
+  }
+
+  if (!view) {
+    return <div className="p-6 text-white">Loading alert...</div>
+  }
+
+  const { dispatch, location, vitalSigns } = view
+  const accepted = dispatch.status !== "notified" && dispatch.status !== "declined" && dispatch.status !== "failed"
+  const closed = ["resolved", "cancelled", "false_alarm"].includes(view.status)
+  const mapUrl = location
+    ? `https://www.google.com/maps/dir/?api=1&destination=${location.latitude},${location.longitude}`
+    : undefined
+
+  let locationNote = 'The exact location is shown once you tap "On my way".'
+  if (location?.precise) {
+    locationNote = "Exact location"
+  } else if (accepted && !view.heroVerified) {
+    locationNote = "Only verified heroes see the exact location. Head to the area and call 911."
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6 p-6 rounded-lg bg-red-600/20 backdrop-blur-md text-white"
+      data-testid="hero-response"
+    >
+      <div>
+        <h2 className="text-2xl font-bold">Someone nearby needs help</h2>
+        <p className="text-white/80">
+          Possible overdose reported at {formatTime(view.createdAt)} · {dispatch.distanceKm.toFixed(1)} km from you
+          {view.otherResponders > 0 && ` · ${view.otherResponders} other hero(es) responding`}
+        </p>
+      </div>
+
+      <div className="flex items-start space-x-2">
+        <MapPin className="w-5 h-5 mt-1 flex-shrink-0" />
+        <div>
+          {location ? (
+            <>
+              <p data-testid="hero-response-location">
+                {location.precise
+                  ? location.address || `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`
+                  : `Within about ${location.radiusKm} km of ${location.latitude.toFixed(3)}, ${location.longitude.toFixed(3)}`}
+              </p>
+              <p className="text-sm text-white/70">{locationNote}</p>
+              {mapUrl && (
+                <a href={mapUrl} target="_blank" rel="noopener noreferrer" className="text-sm underline">
+                  {location.precise ? "Get directions" : "Show area on map"}
+                </a>
+              )}
+            </>
+          ) : (
+            <p>{closed ? "This emergency has closed, so its location is no longer shared." : "Location unavailable"}</p>
+          )}
+        </div>
+      </div>
+
+      {accepted && vitalSigns && (
+        <div className="flex items-start space-x-2" data-testid="hero-response-vitals">
+          <Heart className="w-5 h-5 mt-1 flex-shrink-0" />
+          <p>
+            At the time of the alert: heart rate {vitalSigns.heartRate ?? "--"} BPM · SpO2{" "}
+            {vitalSigns.oxygenSaturation ?? "--"}% · breathing {vitalSigns.respiratoryRate ?? "--"}/min
+          </p>
+        </div>
+      )}
+
+      {dispatch.status === "declined" ? (
+        <p>You declined this alert. Thanks for letting us know; we've alerted other heroes nearby.</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {ACTION_BUTTONS.map(({ action, label, icon: Icon, done }) => {
+            const doneAt = formatTime(dispatch[done] as string | undefined)
+            return (
+              <Button
+                key={action}
+                onClick={() => sendAction(action)}
+                disabled={Boolean(doneAt) || pendingAction !== null || (!accepted && action !== "on_my_way")}
+                variant={doneAt ? "outline" : "default"}
+                data-testid={`hero-action-${action}`}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {label}
+                {doneAt && ` · ${doneAt}`}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+
+      {dispatch.status === "notified" && (
+        <Button variant="ghost" onClick={decline} className="w-full text-white">
+          I can't go
+        </Button>
+      )}
+
+      {accepted && dispatch.etaMinutes && !dispatch.arrivedAt && (
+        <p>They've been told you're about {dispatch.etaMinutes} min away.</p>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Naloxone steps</h3>
+        <ol className="list-decimal list-inside space-y-2 text-white/90">
+          {tutorialSteps.map((step) => (
+            <li key={step.title}>
+              <span className="font-semibold">{step.title}:</span> {step.content}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </motion.div>
+  )
+}
@@ -1,38 +1,232 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, useState } from "react"
 import L from "leaflet"
 import "leaflet/dist/leaflet.css"
+import { Crosshair } from "lucide-react"
+import { authFetch } from "@/app/utils/authFetch"
+import { clusterMarkers, MAP_LAYER_STYLES, type MapLayerId, type MapLayers, type MapMarker } from "@/lib/map-layers"
 
-const Map = () => {
-  const mapRef = useRef(null)
+interface MapProps {
+  // Layers to draw; when left out they're loaded from /api/map around the user's position, including
+  // the signed-in user's own active emergency
+  layers?: MapLayers
+  center?: [number, number]
+  zoom?: number
+  // Point these at a local tile server in tests
+  tileUrl?: string
+  tileAttribution?: string
+}
+
+const DEFAULT_TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+const DEFAULT_TILE_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+
+// Continental US until the user's position is known
+const DEFAULT_CENTER: [number, number] = [39.5, -98.35]
+const DEFAULT_ZOOM = 4
+const LOCATED_ZOOM = 14
+
+const TOGGLEABLE_LAYERS: (keyof MapLayers)[] = ["naloxoneSites", "heroes", "incident"]
+
+// Popups are built from text nodes because site and hero names come from user-supplied data
+function popupContent(marker: MapMarker): HTMLElement {
+  const container = document.createElement("div")
+  const title = document.createElement("strong")
+  title.textContent = marker.label
+  container.appendChild(title)
+
+  if (marker.detail) {
+    const detail = document.createElement("div")
+    detail.textContent = marker.detail
+    container.appendChild(detail)
+  }
+
+  return container
+}
+
+function drawMarker(marker: MapMarker): L.Layer {
+  const { color } = MAP_LAYER_STYLES[marker.layer]
+
+  if (marker.radiusKm) {
+    return L.circle([marker.latitude, marker.longitude], {
+      radius: marker.radiusKm * 1000,
+      color,
+      fillOpacity: 0.15,
+      weight: 1,
+    }).bindPopup(popupContent(marker))
+  }
+
+  return L.circleMarker([marker.latitude, marker.longitude], {
+    radius: marker.layer === "incident" || marker.layer === "me" ? 10 : 7,
+    color: "#ffffff",
+    weight: 2,
+    fillColor: color,
+    fillOpacity: 1,
+  }).bindPopup(popupContent(marker))
+}
+
+const Map = ({
+  layers,
+  center,
+  zoom = DEFAULT_ZOOM,
+  tileUrl = process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL,
+  tileAttribution = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || DEFAULT_TILE_ATTRIBUTION,
+}: MapProps) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<L.Map | null>(null)
+  const markersRef = useRef<L.LayerGroup | null>(null)
+  const [currentZoom, setCurrentZoom] = useState(zoom)
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null)
+  const [fetchedLayers, setFetchedLayers] = useState<MapLayers | null>(null)
+  const [visibleLayers, setVisibleLayers] = useState<(keyof MapLayers)[]>(TOGGLEABLE_LAYERS)
+  const [openNowOnly, setOpenNowOnly] = useState(false)
 
   useEffect(() => {
-    if (typeof window !== "undefined") {
-      const map = L.map(mapRef.current).setView([51.505, -0.09], 13)
-
-      L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      }).addTo(map)
-
-      // Add markers for nearby users (example data)
-      const nearbyUsers = [
-        { lat: 51.505, lng: -0.09, name: "User 1" },
-        { lat: 51.51, lng: -0.1, name: "User 2" },
-        { lat: 51.515, lng: -0.095, name: "User 3" },
-      ]
-
-      nearbyUsers.forEach((user) => {
-        L.marker([user.lat, user.lng]).addTo(map).bindPopup(user.name)
-      })
-
-      return () => {
-        map.remove()
-      }
+    if (!containerRef.current) return
+
+    const map = L.map(containerRef.current).setView(center || DEFAULT_CENTER, zoom)
+    L.tileLayer(tileUrl, { attribution: tileAttribution }).addTo(map)
+    markersRef.current = L.layerGroup().addTo(map)
+    map.on("zoomend", () => setCurrentZoom(map.getZoom()))
+    mapRef.current = map
+
+    return () => {
+      map.remove()
+      mapRef.current = null
+      markersRef.current = null
     }
+  }, [tileUrl, tileAttribution])
+
+  // Follow the caller's center; compared by value so an inline array doesn't reset the view every render
+  const [centerLatitude, centerLongitude] = center || []
+  useEffect(() => {
+    if (centerLatitude !== undefined && centerLongitude !== undefined) {
+      mapRef.current?.setView([centerLatitude, centerLongitude], mapRef.current.getZoom())
+    }
+  }, [centerLatitude, centerLongitude])
+
+  const centerOnMe = () => {
+    if (!navigator.geolocation) return
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setPosition({ latitude: coords.latitude, longitude: coords.longitude })
+        mapRef.current?.setView([coords.latitude, coords.longitude], Math.max(mapRef.current.getZoom(), LOCATED_ZOOM))
+      },
+      (error) => console.warn("Location unavailable for the map:", error.message),
+      { enableHighAccuracy: true, timeout: 5000, maximumAge: 60 * 1000 },
+    )
+  }
+
+  // Start on the user's position unless the caller chose a center
+  useEffect(() => {
+    if (!navigator.geolocation) return
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setPosition({ latitude: coords.latitude, longitude: coords.longitude })
+        if (!center) mapRef.current?.setView([coords.latitude, coords.longitude], LOCATED_ZOOM)
+      },
+      (error) => console.warn("Location unavailable for the map:", error.message),
+      { timeout: 5000, maximumAge: 5 * 60 * 1000 },
+    )
   }, [])
 
-  return <div ref={mapRef} style={{ height: "100%", width: "100%" }} />
+  useEffect(() => {
+    if (layers || !position) return
+
+    const query = new URLSearchParams({ latitude: String(position.latitude), longitude: String(position.longitude) })
+    if (openNowOnly) query.set("openNow", "true")
+
+    authFetch(`/api/map?${query}`)
+      .then((response) => (response.ok ? response.json() : { layers: null }))
+      .then((data) => setFetchedLayers(data.layers))
+      .catch((error) => console.error("Failed to load map layers:", error))
+  }, [layers, position, openNowOnly])
+
+  useEffect(() => {
+    const map = mapRef.current
+    const group = markersRef.current
+    if (!map || !group) return
+
+    group.clearLayers()
+    const data = layers || fetchedLayers
+
+    for (const layer of TOGGLEABLE_LAYERS) {
+      if (!data || !visibleLayers.includes(layer)) continue
+
+      // Each layer clusters on its own so a cluster never mixes heroes with naloxone sites
+      for (const cluster of clusterMarkers(data[layer], currentZoom)) {
+        if (cluster.markers.length === 1 || layer === "incident") {
+          cluster.markers.forEach((marker) => drawMarker(marker).addTo(group))
+          continue
+        }
+
+        const { color } = MAP_LAYER_STYLES[layer]
+        const count = cluster.markers.reduce((total, marker) => total + (marker.count || 1), 0)
+        L.marker([cluster.latitude, cluster.longitude], {
+          icon: L.divIcon({
+            className: "",
+            html: `<div style="background:${color};color:#fff;border:2px solid #fff;border-radius:9999px;width:32px;height:32px;display:flex;align-items:center;justify-content:center;font-weight:600">${count}</div>`,
+            iconSize: [32, 32],
+          }),
+        })
+          .on("click", () => map.setView([cluster.latitude, cluster.longitude], Math.min(map.getZoom() + 2, 18)))
+          .addTo(group)
+      }
+    }
+
+    if (position) {
+      drawMarker({ id: "me", layer: "me", label: "You are here", ...position }).addTo(group)
+    }
+  }, [layers, fetchedLayers, visibleLayers, currentZoom, position])
+
+  const toggleLayer = (layer: keyof MapLayers) =>
+    setVisibleLayers((current) =>
+      current.includes(layer) ? current.filter((visible) => visible !== layer) : [...current, layer],
+    )
+
+  return (
+    <div className="relative" style={{ height: "100%", width: "100%" }}>
+      <div ref={containerRef} style={{ height: "100%", width: "100%" }} data-testid="map" />
+
+      <button
+        type="button"
+        onClick={centerOnMe}
+        className="absolute top-3 right-3 z-[1000] flex items-center gap-1 rounded-md bg-white px-2 py-1 text-sm text-gray-900 shadow"
+        data-testid="map-center-on-me"
+      >
+        <Crosshair className="h-4 w-4" />
+        Center on me
+      </button>
+
+      <div
+        className="absolute bottom-3 left-3 z-[1000] space-y-1 rounded-md bg-white/90 p-2 text-xs text-gray-900 shadow"
+        data-testid="map-legend"
+      >
+        {([...TOGGLEABLE_LAYERS, "me"] as MapLayerId[]).map((layer) => (
+          <label key={layer} className="flex items-center gap-2">
+            {layer !== "me" && (
+              <input
+                type="checkbox"
+                checked={visibleLayers.includes(layer as keyof MapLayers)}
+                onChange={() => toggleLayer(layer as keyof MapLayers)}
+              />
+            )}
+            <span className="inline-block h-3 w-3 rounded-full" style={{ background: MAP_LAYER_STYLES[layer].color }} />
+            {MAP_LAYER_STYLES[layer].label}
+          </label>
+        ))}
+        {!layers && (
+          <label className="flex items-center gap-2 border-t border-gray-200 pt-1">
+            <input type="checkbox" checked={openNowOnly} onChange={() => setOpenNowOnly(!openNowOnly)} />
+            Open sites only
+          </label>
+        )}
+      </div>
+    </div>
+  )
 }
 
 export default Map
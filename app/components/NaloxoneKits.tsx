@@ -0,0 +1,228 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import type { NaloxoneKit, NaloxoneKitRoute } from "@/lib/naloxone-kits"
+import { authFetch } from "@/app/utils/authFetch"
+
+// Common products and their usual route and dose, to fill in the form
+const PRODUCTS: { name: string; route: NaloxoneKitRoute; doseMg: number }[] = [
+  { name: "Narcan", route: "nasal", doseMg: 4 },
+  { name: "RiVive", route: "nasal", doseMg: 3 },
+  { name: "Kloxxado", route: "nasal", doseMg: 8 },
+  { name: "Zimhi", route: "injectable", doseMg: 5 },
+  { name: "Generic naloxone", route: "injectable", doseMg: 0.4 },
+]
+
+const EMPTY_FORM = {
+  product: PRODUCTS[0].name,
+  route: PRODUCTS[0].route,
+  doseMg: String(PRODUCTS[0].doseMg),
+  lotNumber: "",
+  expiresOn: "",
+  storageLocation: "",
+  reminderPhone: "",
+}
+
+const daysUntil = (date: string) => Math.ceil((Date.parse(`${date}T00:00:00`) - Date.now()) / (24 * 60 * 60 * 1000))
+
+function expiryLabel(kit: NaloxoneKit): string {
+  if (kit.status === "used") return "Used, needs replacing"
+  const days = daysUntil(kit.expiresOn)
+  if (days < 0) return `Expired ${kit.expiresOn}`
+  if (days <= 30) return `Expires in ${days} day(s)`
+  return `Expires ${kit.expiresOn}`
+}
+
+// The user's naloxone kits, where they're kept and when they expire
+export default function NaloxoneKits() {
+  const [kits, setKits] = useState<NaloxoneKit[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    authFetch("/api/naloxone/kits")
+      .then((response) => (response.ok ? response.json() : { kits: [] }))
+      .then((data) => setKits(data.kits))
+      .catch((error) => console.error("Failed to load naloxone kits:", error))
+  }, [])
+
+  const chooseProduct = (name: string) => {
+    const product = PRODUCTS.find((candidate) => candidate.name === name)
+    setForm((current) =>
+      product ? { ...current, product: name, route: product.route, doseMg: String(product.doseMg) } : current,
+    )
+  }
+
+  const request = async (url: string, init: RequestInit) => {
+    const response = await authFetch(url, { headers: { "Content-Type": "application/json" }, ...init })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.message || "Request failed")
+    return data
+  }
+
+  const addKit = async () => {
+    setSaving(true)
+    try {
+      const { kit } = await request("/api/naloxone/kits", {
+        method: "POST",
+        body: JSON.stringify(form),
+      })
+      setKits((current) => [...current, kit].sort((a, b) => a.expiresOn.localeCompare(b.expiresOn)))
+      setForm({ ...EMPTY_FORM, reminderPhone: form.reminderPhone })
+      toast({ title: "Kit saved", description: "We'll remind you before it expires." })
+    } catch (error) {
+      toast({
+        title: "Couldn't save the kit",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const markUsed = async (kit: NaloxoneKit) => {
+    try {
+      const { kit: updated } = await request(`/api/naloxone/kits/${kit.id}/used`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      })
+      setKits((current) => current.map((existing) => (existing.id === kit.id ? updated : existing)))
+    } catch (error) {
+      console.error("Failed to mark naloxone kit used:", error)
+    }
+  }
+
+  const removeKit = async (kit: NaloxoneKit) => {
+    try {
+      await request(`/api/naloxone/kits/${kit.id}`, { method: "DELETE" })
+      setKits((current) => current.filter((existing) => existing.id !== kit.id))
+    } catch (error) {
+      console.error("Failed to remove naloxone kit:", error)
+    }
+  }
+
+  return (
+    <div className="space-y-4" data-testid="naloxone-kits">
+      {kits.length > 0 && (
+        <ul className="space-y-2">
+          {kits.map((kit) => (
+            <li key={kit.id} className="p-3 rounded-lg bg-white/10" data-testid="naloxone-kit">
+              <p className="font-semibold">
+                {kit.product} {kit.doseMg} mg {kit.route === "nasal" ? "nasal spray" : "injection"}
+              </p>
+              <p className="text-sm text-white/70">
+                In the {kit.storageLocation} · {expiryLabel(kit)}
+                {kit.lotNumber && ` · Lot ${kit.lotNumber}`}
+              </p>
+              <div className="flex gap-2 mt-2">
+                {kit.status === "active" && (
+                  <Button size="sm" variant="outline" onClick={() => markUsed(kit)}>
+                    I used this kit
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" onClick={() => removeKit(kit)}>
+                  Remove
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <Label htmlFor="naloxone-location">Where do you keep your naloxone?</Label>
+          <Input
+            id="naloxone-location"
+            value={form.storageLocation}
+            onChange={(e) => setForm({ ...form, storageLocation: e.target.value })}
+            placeholder="e.g., Back pocket, bedside drawer"
+          />
+        </div>
+        <div>
+          <Label htmlFor="naloxone-product">Product</Label>
+          <select
+            id="naloxone-product"
+            value={form.product}
+            onChange={(e) => chooseProduct(e.target.value)}
+            className="w-full h-10 rounded-md border px-3 bg-transparent"
+          >
+            {PRODUCTS.map((product) => (
+              <option key={product.name} value={product.name}>
+                {product.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="naloxone-route">Type</Label>
+          <select
+            id="naloxone-route"
+            value={form.route}
+            onChange={(e) => setForm({ ...form, route: e.target.value as NaloxoneKitRoute })}
+            className="w-full h-10 rounded-md border px-3 bg-transparent"
+          >
+            <option value="nasal">Nasal spray</option>
+            <option value="injectable">Injectable</option>
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="naloxone-dose">Dose (mg)</Label>
+          <Input
+            id="naloxone-dose"
+            type="number"
+            min="0"
+            step="0.1"
+            value={form.doseMg}
+            onChange={(e) => setForm({ ...form, doseMg: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="naloxone-expiry">Expiry date</Label>
+          <Input
+            id="naloxone-expiry"
+            type="date"
+            value={form.expiresOn}
+            onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="naloxone-lot">Lot number (optional)</Label>
+          <Input
+            id="naloxone-lot"
+            value={form.lotNumber}
+            onChange={(e) => setForm({ ...form, lotNumber: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="naloxone-reminder-phone">Text reminders to</Label>
+          <Input
+            id="naloxone-reminder-phone"
+            type="tel"
+            value={form.reminderPhone}
+            onChange={(e) => setForm({ ...form, reminderPhone: e.target.value })}
+            placeholder="Your phone number"
+          />
+        </div>
+      </div>
+
+      <Button
+        className="w-full"
+        variant="secondary"
+        onClick={addKit}
+        disabled={saving || !form.storageLocation || !form.expiresOn}
+        data-testid="add-naloxone-kit"
+      >
+        {saving ? "Saving..." : "Save kit"}
+      </Button>
+      <p className="text-sm text-white/70">
+        Your emergency contacts are told where your naloxone is when they're alerted.
+      </p>
+    </div>
+  )
+}
@@ -1,13 +1,79 @@
 "use client"
 
 import { useState } from "react"
+import dynamic from "next/dynamic"
 import { motion } from "framer-motion"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { MapPin, Phone, Clock } from "lucide-react"
+import { NALOXONE_SITE_TYPE_LABELS, naloxoneSiteMarker } from "@/lib/map-layers"
+import type { NearbyNaloxoneSite } from "@/lib/naloxone-sites"
+import NaloxoneKits from "./NaloxoneKits"
+
+const Map = dynamic(() => import("./Map"), { ssr: false })
+
+type SearchStatus = "idle" | "locating" | "loading" | "done" | "error"
 
 export default function NaloxoneSetup() {
-  const [location, setLocation] = useState("")
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null)
+  const [sites, setSites] = useState<NearbyNaloxoneSite[]>([])
+  const [openNowOnly, setOpenNowOnly] = useState(false)
+  const [status, setStatus] = useState<SearchStatus>("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const search = async (from: { latitude: number; longitude: number }, openNow: boolean) => {
+    setStatus("loading")
+
+    try {
+      const query = new URLSearchParams({
+        latitude: String(from.latitude),
+        longitude: String(from.longitude),
+        radiusKm: "25",
+      })
+      if (openNow) query.set("openNow", "true")
+
+      const response = await fetch(`/api/naloxone/nearby?${query}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || "Search failed")
+
+      setSites(data.sites)
+      setStatus("done")
+    } catch (searchError) {
+      console.error("Failed to find naloxone sites:", searchError)
+      setError("We couldn't load naloxone sites right now. Please try again.")
+      setStatus("error")
+    }
+  }
+
+  const findNearby = () => {
+    setError(null)
+
+    if (!navigator.geolocation) {
+      setError("Your browser can't share your location, so we can't search near you.")
+      setStatus("error")
+      return
+    }
+
+    setStatus("locating")
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const current = { latitude: coords.latitude, longitude: coords.longitude }
+        setPosition(current)
+        search(current, openNowOnly)
+      },
+      () => {
+        setError("Allow location access to find naloxone near you.")
+        setStatus("error")
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 },
+    )
+  }
+
+  const toggleOpenNow = (checked: boolean) => {
+    setOpenNowOnly(checked)
+    if (position) search(position, checked)
+  }
 
   return (
     <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }}>
@@ -16,18 +82,100 @@ export default function NaloxoneSetup() {
         Naloxone is a life-saver, literally! Let's make sure you know where it is at all times. Remember, in an
         emergency, nobody has time for hide-and-seek.
       </p>
-      <Label htmlFor="naloxone-location">Where do you keep your naloxone?</Label>
-      <Input
-        id="naloxone-location"
-        value={location}
-        onChange={(e) => setLocation(e.target.value)}
-        placeholder="e.g., Back pocket, bedside drawer"
-        className="mb-4"
-      />
-      <Button className="w-full">Find Free Naloxone Near Me</Button>
-      <p className="mt-4">
-        Don't have naloxone yet? No worries! Click the button above to find free naloxone sources near you.
-      </p>
+      <NaloxoneKits />
+      <Button
+        className="w-full mt-6"
+        onClick={findNearby}
+        disabled={status === "locating" || status === "loading"}
+        data-testid="find-naloxone"
+      >
+        {status === "locating"
+          ? "Finding you..."
+          : status === "loading"
+            ? "Searching..."
+            : "Find Free Naloxone Near Me"}
+      </Button>
+      <div className="flex items-center justify-between mt-4">
+        <Label htmlFor="naloxone-open-now">Only show places open now</Label>
+        <Switch id="naloxone-open-now" checked={openNowOnly} onCheckedChange={toggleOpenNow} />
+      </div>
+
+      {error && (
+        <p className="mt-4 text-red-400" data-testid="naloxone-search-error">
+          {error}
+        </p>
+      )}
+
+      {status === "done" && position && (
+        <div className="mt-4 space-y-4" data-testid="naloxone-results">
+          <div className="h-64 rounded-lg overflow-hidden">
+            <Map
+              layers={{ naloxoneSites: sites.map(naloxoneSiteMarker), heroes: [], incident: [] }}
+              center={[position.latitude, position.longitude]}
+              zoom={12}
+            />
+          </div>
+
+          {sites.length === 0 ? (
+            <p>
+              {openNowOnly
+                ? "Nothing nearby is open right now. Turn off the filter to see all sites and their hours."
+                : "We don't know of any naloxone sites near you yet. Many pharmacies can give naloxone without a prescription, so it's worth asking yours."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {sites.map((site) => (
+                <li key={site.id} className="p-3 rounded-lg bg-white/10" data-testid="naloxone-site">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold">{site.name}</p>
+                      <p className="text-sm text-white/70">
+                        {NALOXONE_SITE_TYPE_LABELS[site.type]} · {(site.distanceKm * 0.621371).toFixed(1)} miles away
+                        {site.free && " · Free"}
+                      </p>
+                    </div>
+                    {site.openNow !== undefined && (
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full ${site.openNow ? "bg-green-500/30" : "bg-gray-500/30"}`}
+                      >
+                        {site.openNow ? "Open now" : "Closed"}
+                      </span>
+                    )}
+                  </div>
+                  {site.hours && (
+                    <p className="text-sm flex items-center mt-1">
+                      <Clock className="w-4 h-4 mr-1" /> {site.hours}
+                    </p>
+                  )}
+                  <div className="flex gap-4 mt-2 text-sm">
+                    <a
+                      href={`https://www.google.com/maps/dir/?api=1&destination=${site.latitude},${site.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center underline"
+                    >
+                      <MapPin className="w-4 h-4 mr-1" />
+                      {site.address || "Directions"}
+                    </a>
+                    {site.phone && (
+                      <a href={`tel:${site.phone}`} className="flex items-center underline">
+                        <Phone className="w-4 h-4 mr-1" />
+                        {site.phone}
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {status === "idle" && (
+        <p className="mt-4">
+          Don't have naloxone yet? No worries! Click the button above to find free naloxone sources near you.
+        </p>
+      )}
     </motion.div>
   )
 }
@@ -5,7 +5,7 @@ import { motion } from "framer-motion"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 
-const tutorialSteps = [
+export const tutorialSteps = [
   {
     title: "Recognizing an Overdose",
     content:
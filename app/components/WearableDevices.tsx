@@ -5,6 +5,7 @@ import { motion } from "framer-motion"
 import { Watch, Smartphone, BellRingIcon as Ring, CheckCircle, XCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import HealthDataImport from "@/components/health-data-import"
 
 const devices = [
   { name: "Fitbit", icon: Watch, connected: false },
@@ -25,51 +26,54 @@ const WearableDevices = () => {
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-      {connectedDevices.map((device, index) => (
-        <motion.div
-          key={device.name}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.3, delay: index * 0.1 }}
-        >
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <device.icon className="w-6 h-6" />
-                <span>{device.name}</span>
-              </CardTitle>
-              <CardDescription>{device.connected ? "Connected and syncing data" : "Not connected"}</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm">
-                {device.connected
-                  ? "This device is currently connected and syncing health data with Narcoguard."
-                  : "Connect this device to sync health data with Narcoguard."}
-              </p>
-            </CardContent>
-            <CardFooter>
-              <Button
-                onClick={() => toggleConnection(index)}
-                variant={device.connected ? "destructive" : "default"}
-                className="w-full"
-              >
-                {device.connected ? (
-                  <>
-                    <XCircle className="w-4 h-4 mr-2" />
-                    Disconnect
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle className="w-4 h-4 mr-2" />
-                    Connect
-                  </>
-                )}
-              </Button>
-            </CardFooter>
-          </Card>
-        </motion.div>
-      ))}
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {connectedDevices.map((device, index) => (
+          <motion.div
+            key={device.name}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: index * 0.1 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <device.icon className="w-6 h-6" />
+                  <span>{device.name}</span>
+                </CardTitle>
+                <CardDescription>{device.connected ? "Connected and syncing data" : "Not connected"}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm">
+                  {device.connected
+                    ? "This device is currently connected and syncing health data with Narcoguard."
+                    : "Connect this device to sync health data with Narcoguard."}
+                </p>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  onClick={() => toggleConnection(index)}
+                  variant={device.connected ? "destructive" : "default"}
+                  className="w-full"
+                >
+                  {device.connected ? (
+                    <>
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Disconnect
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Connect
+                    </>
+                  )}
+                </Button>
+              </CardFooter>
+            </Card>
+          </motion.div>
+        ))}
+      </div>
+      <HealthDataImport />
     </div>
   )
 }
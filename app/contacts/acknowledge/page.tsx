@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import Navbar from "@/components/navbar"
+import Footer from "@/components/footer"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+interface Alert {
+  userName: string
+  status: string
+  closed: boolean
+}
+
+// Where the "I'm responding" link in an alert lands. Escalation only stops once the contact presses the
+// button, so link scanners that open the page don't acknowledge an emergency for them.
+export default function AcknowledgeAlertPage() {
+  const searchParams = useSearchParams()
+  const incidentId = searchParams.get("incident")
+  const token = searchParams.get("token")
+  const [alert, setAlert] = useState<Alert | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!incidentId || !token) {
+      setError("This link is incomplete. Open the link from your alert again, or reply OK to the text.")
+      return
+    }
+
+    fetch(`/api/incidents/${encodeURIComponent(incidentId)}/acknowledge?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.message || "Something went wrong")
+        }
+        setAlert({ userName: data.userName, status: data.status, closed: data.closed })
+      })
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : "Something went wrong"))
+  }, [incidentId, token])
+
+  const acknowledge = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/incidents/${encodeURIComponent(incidentId as string)}/acknowledge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong")
+      }
+      setAlert((current) => current && { ...current, status: data.status, closed: data.closed })
+    } catch (acknowledgeError) {
+      setError(acknowledgeError instanceof Error ? acknowledgeError.message : "Something went wrong")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Navbar />
+      <main className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Emergency alert</CardTitle>
+            <CardDescription>
+              {alert
+                ? `${alert.userName} may need help right now.`
+                : error
+                  ? "We couldn't open this alert."
+                  : "Loading the alert..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {alert && (
+              <div className="space-y-4">
+                {alert.closed ? (
+                  <p className="text-sm" role="status">
+                    This emergency has already been resolved. Thank you for checking in.
+                  </p>
+                ) : alert.status === "dispatched" ? (
+                  <>
+                    <p className="text-sm">
+                      Let us know you're going to them, so we stop alerting other people. Call 911 if you haven't
+                      already.
+                    </p>
+                    <Button className="w-full" onClick={acknowledge} disabled={submitting}>
+                      I'm responding
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-sm font-medium text-green-600" role="status">
+                    We've recorded that someone is responding and paused further alerts. If you haven't already, call
+                    911 and stay with them until help arrives.
+                  </p>
+                )}
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-red-500 mt-4" role="alert">
+                {error}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import Navbar from "@/components/navbar"
+import Footer from "@/components/footer"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+interface Invitation {
+  userName: string
+  channel: "phone" | "email"
+  status: "pending" | "verified" | "declined"
+}
+
+// Where emergency contact invitations land. Nothing is recorded until the contact presses a button, so
+// link scanners that open the page don't answer for them.
+export default function ContactConsentPage() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token")
+  const [invitation, setInvitation] = useState<Invitation | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!token) {
+      setError("This invitation link is incomplete. Open the link from your invitation again.")
+      return
+    }
+
+    fetch(`/api/contacts/consent?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.message || "Something went wrong")
+        }
+        setInvitation({ userName: data.userName, channel: data.channel, status: data.status })
+      })
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : "Something went wrong"))
+  }, [token])
+
+  const respond = async (accept: boolean) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch("/api/contacts/consent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, accept }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong")
+      }
+      setInvitation((current) => current && { ...current, status: data.status })
+    } catch (respondError) {
+      setError(respondError instanceof Error ? respondError.message : "Something went wrong")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const reachedBy = invitation?.channel === "email" ? "email" : "text message or phone call"
+
+  return (
+    <>
+      <Navbar />
+      <main className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Emergency contact invitation</CardTitle>
+            <CardDescription>
+              {invitation
+                ? `${invitation.userName} asked for you to be one of their emergency contacts on Narcoguard.`
+                : error
+                  ? "We couldn't open this invitation."
+                  : "Loading your invitation..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {invitation && (
+              <div className="space-y-4">
+                <p className="text-sm">
+                  Narcoguard is an overdose prevention app. If it detects that {invitation.userName} may be overdosing,
+                  it alerts their emergency contacts by {reachedBy} with their location, so someone can check on them or
+                  call for help.
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Nothing is sent to you unless you accept. Every alert includes a link to stop alerts at any time.
+                </p>
+
+                {invitation.status === "pending" && (
+                  <div className="flex gap-2">
+                    <Button className="flex-1" onClick={() => respond(true)} disabled={submitting}>
+                      Accept
+                    </Button>
+                    <Button variant="outline" className="flex-1" onClick={() => respond(false)} disabled={submitting}>
+                      Decline
+                    </Button>
+                  </div>
+                )}
+                {invitation.status === "verified" && (
+                  <p className="text-sm font-medium text-green-600" role="status">
+                    You're an emergency contact for {invitation.userName}. Thank you for looking out for them.
+                  </p>
+                )}
+                {invitation.status === "declined" && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium" role="status">
+                      You won't receive alerts for {invitation.userName}.
+                    </p>
+                    <Button variant="outline" className="w-full" onClick={() => respond(true)} disabled={submitting}>
+                      Accept instead
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-red-500 mt-4" role="alert">
+                {error}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </>
+  )
+}
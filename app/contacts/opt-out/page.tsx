@@ -0,0 +1,74 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import Navbar from "@/components/navbar"
+import Footer from "@/components/footer"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+// One-click opt-out for emergency contacts, linked from invitations and alerts
+export default function ContactOptOutPage() {
+  const searchParams = useSearchParams()
+  const [done, setDone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Don't post twice when effects run twice in development
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    const token = searchParams.get("token")
+    if (submitted.current) return
+    submitted.current = true
+
+    if (!token) {
+      setError("This link is incomplete. Open the link from your alert or invitation again.")
+      return
+    }
+
+    fetch("/api/contacts/opt-out", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.message || "Something went wrong")
+        }
+        setDone(true)
+      })
+      .catch((optOutError) => setError(optOutError instanceof Error ? optOutError.message : "Something went wrong"))
+  }, [searchParams])
+
+  return (
+    <>
+      <Navbar />
+      <main className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Stop emergency alerts</CardTitle>
+            <CardDescription>
+              {done
+                ? "You've been removed as an emergency contact."
+                : error
+                  ? "We couldn't stop alerts with this link."
+                  : "Stopping alerts..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {done && (
+              <p className="text-sm" role="status">
+                You won't receive any more Narcoguard alerts for this person.
+              </p>
+            )}
+            {error && (
+              <p className="text-sm text-red-500" role="alert">
+                {error}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -5,20 +5,30 @@ import { motion } from "framer-motion"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { useTheme } from "next-themes"
 import HealthMonitor from "@/components/health-monitor"
+import SpottingSession from "@/components/spotting-session"
+import HealthDataImport from "@/components/health-data-import"
 import AIGuide from "@/components/ai-guide"
 import Navbar from "@/components/navbar"
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { Heart, Map, Bell, Users, Settings, ArrowUpRight, ChevronDown } from "lucide-react"
+import { Heart, Map, Bell, Users, Settings, ArrowUpRight, ChevronDown, AlertTriangle } from "lucide-react"
+import type { Incident } from "@/lib/incidents"
+import type { HealthHistoryPoint } from "@/lib/health-history"
+import { authFetch } from "@/app/utils/authFetch"
 
 export default function Dashboard() {
   const [mounted, setMounted] = useState(false)
   const { theme } = useTheme()
+  const router = useRouter()
   const [showAIGuide, setShowAIGuide] = useState(false)
+  const [incidents, setIncidents] = useState<Incident[]>([])
+  const [history, setHistory] = useState<HealthHistoryPoint[]>([])
+  const [nearbyHeroes, setNearbyHeroes] = useState({ count: 0, carryingNaloxone: 0 })
 
-  // Mock data for vitals chart
-  const vitalsData = [
+  // Sample data for the vitals chart until the user imports their own
+  const sampleVitalsData = [
     { time: "08:00", heartRate: 72, oxygenLevel: 98 },
     { time: "09:00", heartRate: 75, oxygenLevel: 99 },
     { time: "10:00", heartRate: 78, oxygenLevel: 98 },
@@ -28,17 +38,57 @@ export default function Dashboard() {
     { time: "14:00", heartRate: 76, oxygenLevel: 98 },
   ]
 
-  // Mock data for nearby heroes
-  const nearbyHeroes = [
-    { id: "hero1", name: "John D.", distance: 0.5, isAvailable: true },
-    { id: "hero2", name: "Maria S.", distance: 1.2, isAvailable: true },
-    { id: "hero3", name: "Alex W.", distance: 1.8, isAvailable: false },
-  ]
+  const importedVitalsData = history
+    .filter((point) => point.heartRate !== undefined || point.oxygenLevel !== undefined)
+    .map((point) => ({
+      time: new Date(point.timestamp).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" }),
+      heartRate: point.heartRate,
+      oxygenLevel: point.oxygenLevel,
+    }))
+  const vitalsData = importedVitalsData.length > 0 ? importedVitalsData : sampleVitalsData
 
   useEffect(() => {
     setMounted(true)
   }, [])
 
+  // Load the user's incidents so the dashboard shows the same record as the health monitor, sending
+  // anyone who isn't signed in to the login page
+  useEffect(() => {
+    authFetch("/api/incidents")
+      .then((response) => {
+        if (response.status === 401) router.replace("/login?next=/dashboard")
+        return response.ok ? response.json() : { incidents: [] }
+      })
+      .then((data) => setIncidents(data.incidents || []))
+      .catch((error) => console.error("Failed to load incidents:", error))
+  },[router])
+
+  // Load imported wearable history for the vitals chart
+  const loadHistory = () => {
+    authFetch("/api/vitals/history")
+      .then((response) => (response.ok ? response.json() : { points: [] }))
+      .then((data) => setHistory(data.points || []))
+      .catch((error) => console.error("Failed to load health history:", error))
+  }
+
+  useEffect(loadHistory, [])
+
+  // Available heroes near the user's current position
+  useEffect(() => {
+    if (!navigator.geolocation) return
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        authFetch(`/api/heroes?latitude=${coords.latitude}&longitude=${coords.longitude}`)
+          .then((response) => (response.ok ? response.json() : { count: 0, carryingNaloxone: 0 }))
+          .then((data) => setNearbyHeroes({ count: data.count || 0, carryingNaloxone: data.carryingNaloxone || 0 }))
+          .catch((error) => console.error("Failed to load nearby heroes:", error))
+      },
+      (error) => console.warn("Location unavailable for nearby heroes:", error.message),
+      { timeout: 5000, maximumAge: 5 * 60 * 1000 },
+    )
+  }, [])
+
   if (!mounted) return null
 
   const getDarkMode = () =>
@@ -113,8 +163,14 @@ export default function Dashboard() {
               </CardContent>
             </Card>
 
+            {/* Wearable exports */}
+            <HealthDataImport onImported={loadHistory} />
+
             {/* Health Monitor */}
-            <HealthMonitor userId="user123" />
+            <HealthMonitor />
+
+            {/* Never Use Alone */}
+            <SpottingSession />
 
             {/* Nearby Heroes */}
             <Card>
@@ -129,22 +185,23 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {nearbyHeroes.map((hero) => (
-                    <div key={hero.id} className="flex items-center justify-between p-3 border rounded-lg">
-                      <div className="flex items-center">
-                        <div
-                          className={`w-2 h-2 rounded-full mr-3 ${hero.isAvailable ? "bg-green-500" : "bg-gray-400"}`}
-                        ></div>
-                        <div>
-                          <p className="font-medium">{hero.name}</p>
-                          <p className="text-sm text-muted-foreground">{hero.distance} miles away</p>
-                        </div>
+                  {nearbyHeroes.count === 0 ? (
+                    <p className="text-sm text-muted-foreground">No available heroes nearby right now.</p>
+                  ) : (
+                    <div className="flex items-center p-3 border rounded-lg">
+                      <div className="w-2 h-2 rounded-full mr-3 bg-green-500"></div>
+                      <div>
+                        <p className="font-medium">
+                          {nearbyHeroes.count === 1 ? "1 hero" : `${nearbyHeroes.count} heroes`} available nearby
+                        </p>
+                        {nearbyHeroes.carryingNaloxone > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            {nearbyHeroes.carryingNaloxone} carrying naloxone
+                          </p>
+                        )}
                       </div>
-                      <Button variant="ghost" size="sm">
-                        View Profile
-                      </Button>
                     </div>
-                  ))}
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -170,13 +227,42 @@ export default function Dashboard() {
                   <Heart className="mb-2 h-6 w-6" />
                   <span>Training</span>
                 </Button>
-                <Button className="flex flex-col items-center justify-center h-24 px-4">
-                  <Settings className="mb-2 h-6 w-6" />
-                  <span>Settings</span>
+                <Button asChild className="flex flex-col items-center justify-center h-24 px-4">
+                  <Link href="/dashboard/security">
+                    <Settings className="mb-2 h-6 w-6" />
+                    <span>Settings</span>
+                  </Link>
                 </Button>
               </CardContent>
             </Card>
 
+            {/* Recent Incidents */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <AlertTriangle className="mr-2 h-5 w-5" />
+                  Recent Incidents
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {incidents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No incidents recorded.</p>
+                ) : (
+                  incidents.slice(0, 5).map((incident) => (
+                    <div key={incident.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium capitalize">{incident.status.replace(/_/g, " ")}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(incident.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <span className="text-xs text-muted-foreground">{incident.emergencyType.replace(/_/g, " ")}</span>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
             {/* AI Guide */}
             <div>
               <motion.div
@@ -0,0 +1,201 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Navbar from "@/components/navbar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { rolesHavePermission, type Role } from "@/lib/permissions"
+import type { TwoFactorStatus } from "@/lib/two-factor"
+import { authFetch } from "@/app/utils/authFetch"
+
+type Setup = { secret: string; otpauthUrl: string }
+
+// Two-factor sign-in settings. Clinicians and admins can turn it on; anyone who has it can turn it off.
+export default function SecurityPage() {
+  const router = useRouter()
+  const [roles, setRoles] = useState<Role[]>([])
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<Setup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    Promise.all([authFetch("/api/auth/session"), authFetch("/api/auth/2fa")])
+      .then(async ([sessionResponse, statusResponse]) => {
+        if (sessionResponse.status === 401) {
+          router.replace("/login?next=/dashboard/security")
+          return
+        }
+        setRoles((await sessionResponse.json()).user?.roles || [])
+        if (statusResponse.ok) {
+          setStatus(await statusResponse.json())
+        }
+      })
+      .catch((loadError) => console.error("Failed to load security settings:", loadError))
+  }, [router])
+
+  // POST to a two-factor route, surfacing its message on failure
+  const post = async (path: string, body?: object) => {
+    setError(null)
+    setIsSubmitting(true)
+    try {
+      const response = await authFetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body || {}),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong")
+      }
+      return data
+    } catch (postError) {
+      setError(postError instanceof Error ? postError.message : "Something went wrong")
+      return null
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const startSetup = async () => {
+    const data = await post("/api/auth/2fa/setup")
+    if (data) {
+      setSetup({ secret: data.secret, otpauthUrl: data.otpauthUrl })
+      setCode("")
+    }
+  }
+
+  const enable = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const data = await post("/api/auth/2fa/enable", { code })
+    if (data) {
+      setSetup(null)
+      setRecoveryCodes(data.recoveryCodes)
+      setStatus({ enabled: true, recoveryCodesRemaining: data.recoveryCodes.length })
+      setCode("")
+    }
+  }
+
+  const disable = async (event: React.FormEvent) => {
+    event.preventDefault()
+    // Recovery codes have a dash or letters; app codes are only digits
+    const proof = /^\d+$/.test(code.replace(/\s/g, "")) ? { code } : { recoveryCode: code }
+    const data = await post("/api/auth/2fa/disable", proof)
+    if (data) {
+      setRecoveryCodes(null)
+      setStatus({ enabled: false, recoveryCodesRemaining: 0 })
+      setCode("")
+    }
+  }
+
+  const canEnroll = rolesHavePermission(roles, "two_factor:enroll")
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Security</h1>
+          <p className="text-muted-foreground">Manage how you sign in to Narcoguard.</p>
+        </header>
+
+        <Card className="max-w-xl">
+          <CardHeader>
+            <CardTitle>Two-factor authentication</CardTitle>
+            <CardDescription>
+              {status?.enabled
+                ? `On. You have ${status.recoveryCodesRemaining} recovery codes left.`
+                : "Ask for a code from an authenticator app each time you sign in."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {recoveryCodes && (
+              <div className="rounded-md border p-4" data-testid="recovery-codes">
+                <p className="font-medium mb-2">Save these recovery codes somewhere safe</p>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Each one signs you in once if you lose your device. They won't be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {status && !status.enabled && !setup && (
+              <>
+                {canEnroll ? (
+                  <Button onClick={startSetup} disabled={isSubmitting}>
+                    Set up two-factor
+                  </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Two-factor sign-in is available to clinician and admin accounts.
+                  </p>
+                )}
+              </>
+            )}
+
+            {setup && (
+              <form onSubmit={enable} className="space-y-4">
+                <p className="text-sm">
+                  Add this key to your authenticator app, or{" "}
+                  <a href={setup.otpauthUrl} className="underline">
+                    open it in the app
+                  </a>{" "}
+                  on this device, then enter the code it shows.
+                </p>
+                <p className="font-mono text-sm break-all rounded-md bg-muted p-3">{setup.secret}</p>
+                <div>
+                  <Label htmlFor="setup-code">Code</Label>
+                  <Input
+                    id="setup-code"
+                    autoComplete="one-time-code"
+                    inputMode="numeric"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" disabled={isSubmitting}>
+                  Turn on two-factor
+                </Button>
+              </form>
+            )}
+
+            {status?.enabled && (
+              <form onSubmit={disable} className="space-y-4">
+                <div>
+                  <Label htmlFor="disable-code">Code or recovery code</Label>
+                  <Input
+                    id="disable-code"
+                    autoComplete="one-time-code"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                  Turn off two-factor
+                </Button>
+              </form>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-500" role="alert">
+                {error}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+"use client"
+
+import { useSearchParams } from "next/navigation"
+import Navbar from "@/components/navbar"
+import Footer from "@/components/footer"
+import HeroMode from "@/app/components/HeroMode"
+
+// Heroes land here from the link in their alert
+export default function HeroRespondPage() {
+  const searchParams = useSearchParams()
+  const incidentId = searchParams.get("incident")
+  const token = searchParams.get("token")
+
+  return (
+    <>
+      <Navbar />
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto p-6 rounded-lg bg-gradient-to-br from-slate-900 to-indigo-950">
+          <HeroMode alert={incidentId && token ? { incidentId, token } : undefined} />
+        </div>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import Navbar from "@/components/navbar"
+import Footer from "@/components/footer"
+import TwoFactorChallenge from "@/components/two-factor-challenge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+// Only send people back to pages on this site after signing in
+function safeNext(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard"
+}
+
+// Where sign-in links land. The token is posted from here rather than read by a GET route, so mail
+// scanners that open links don't use it up before the person does.
+export default function MagicLinkPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Links only work once, so don't post the token again when effects run twice in development
+  const submitted = useRef(false)
+
+  useEffect(() => {
+    const token = searchParams.get("token")
+    if (submitted.current) return
+    submitted.current = true
+
+    if (!token) {
+      setError("This sign-in link is incomplete. Request a new one from the sign-in page.")
+      return
+    }
+
+    fetch("/api/auth/magic-link/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.message || "Something went wrong")
+        }
+
+        if (data.twoFactorRequired) {
+          setChallengeToken(data.challengeToken)
+        } else {
+          router.replace(safeNext(searchParams.get("next")))
+        }
+      })
+      .catch((verifyError) => setError(verifyError instanceof Error ? verifyError.message : "Something went wrong"))
+  }, [router, searchParams])
+
+  return (
+    <>
+      <Navbar />
+      <main className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Signing you in</CardTitle>
+            <CardDescription>
+              {challengeToken
+                ? "Enter the code from your authenticator app to finish signing in."
+                : error
+                  ? "We couldn't sign you in with this link."
+                  : "Checking your sign-in link..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {challengeToken && (
+              <TwoFactorChallenge
+                challengeToken={challengeToken}
+                onSignedIn={() => router.replace(safeNext(searchParams.get("next")))}
+              />
+            )}
+            {error && (
+              <div className="space-y-4">
+                <p className="text-sm text-red-500" role="alert">
+                  {error}
+                </p>
+                <Button asChild className="w-full">
+                  <Link href="/login">Back to sign in</Link>
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </>
+  )
+}
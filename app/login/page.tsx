@@ -0,0 +1,186 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Navbar from "@/components/navbar"
+import Footer from "@/components/footer"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import TwoFactorChallenge from "@/components/two-factor-challenge"
+
+type Mode = "login" | "register" | "magic-link"
+
+// Only send people back to pages on this site after signing in
+function safeNext(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard"
+}
+
+export default function LoginPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [mode, setMode] = useState<Mode>("login")
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Sessions outlive the hour-long access cookie, so try renewing before asking for a password
+  useEffect(() => {
+    fetch("/api/auth/refresh", { method: "POST" })
+      .then((response) => response.ok && router.replace(safeNext(searchParams.get("next"))))
+      .catch(() => undefined)
+  }, [router, searchParams])
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setError(null)
+    setNotice(null)
+    setIsSubmitting(true)
+
+    try {
+      const next = safeNext(searchParams.get("next"))
+      const request = {
+        login: { url: "/api/auth/login", body: { email, password } },
+        register: { url: "/api/auth/register", body: { name, email, password } },
+        "magic-link": { url: "/api/auth/magic-link", body: { email, next } },
+      }[mode]
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request.body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong")
+      }
+
+      if (mode === "magic-link") {
+        setNotice(data.message)
+      } else if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken)
+      } else {
+        router.replace(next)
+      }
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Something went wrong")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Navbar />
+      <main className="container mx-auto px-4 py-12">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>{mode === "register" ? "Create an account" : "Sign in"}</CardTitle>
+            <CardDescription>
+              {challengeToken
+                ? "Enter the code from your authenticator app to finish signing in."
+                : mode === "register"
+                  ? "Your account keeps your incidents, vitals and naloxone kits private to you."
+                  : mode === "magic-link"
+                    ? "We'll email you a link that signs you in without a password."
+                    : "Sign in to see your dashboard and keep your emergency settings in sync."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {challengeToken ? (
+              <TwoFactorChallenge
+                challengeToken={challengeToken}
+                onSignedIn={() => router.replace(safeNext(searchParams.get("next")))}
+              />
+            ) : (
+              <>
+                <form onSubmit={submit} className="space-y-4" data-testid="login-form">
+                  {mode === "register" && (
+                    <div>
+                      <Label htmlFor="name">Name</Label>
+                      <Input id="name" autoComplete="name" value={name} onChange={(e) => setName(e.target.value)} />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      autoComplete="email"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                    />
+                  </div>
+                  {mode !== "magic-link" && (
+                    <div>
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        type="password"
+                        autoComplete={mode === "login" ? "current-password" : "new-password"}
+                        required
+                        minLength={mode === "register" ? 8 : undefined}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                      />
+                    </div>
+                  )}
+
+                  {error && (
+                    <p className="text-sm text-red-500" role="alert">
+                      {error}
+                    </p>
+                  )}
+                  {notice && (
+                    <p className="text-sm text-green-600" role="status">
+                      {notice}
+                    </p>
+                  )}
+
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting
+                      ? "Please wait..."
+                      : { login: "Sign in", register: "Create account", "magic-link": "Email me a sign-in link" }[mode]}
+                  </Button>
+                </form>
+
+                {mode !== "register" && (
+                  <Button
+                    variant="link"
+                    className="w-full mt-2"
+                    onClick={() => {
+                      setMode(mode === "login" ? "magic-link" : "login")
+                      setError(null)
+                      setNotice(null)
+                    }}
+                  >
+                    {mode === "login" ? "Email me a sign-in link instead" : "Sign in with a password instead"}
+                  </Button>
+                )}
+
+                <Button
+                  variant="link"
+                  className="w-full mt-2"
+                  onClick={() => {
+                    setMode(mode === "register" ? "login" : "register")
+                    setError(null)
+                    setNotice(null)
+                  }}
+                >
+                  {mode === "register" ? "Already have an account? Sign in" : "New here? Create an account"}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * fetch for the signed-in app's own API
+ *
+ * The access cookie only lasts an hour, so when a call comes back 401 the session is refreshed
+ * once and the call retried. If the refresh fails too the 401 is returned for the caller to handle.
+ */
+
+let refreshing: Promise<boolean> | null = null
+
+// Concurrent 401s share one refresh so the refresh cookie is only spent once
+function refreshSession(): Promise<boolean> {
+  refreshing ||= fetch("/api/auth/refresh", { method: "POST", credentials: "same-origin" })
+    .then((response) => response.ok)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null
+    })
+  return refreshing
+}
+
+/**
+ * Call an API route as the signed-in user
+ * @param input Request URL
+ * @param init fetch options
+ * @returns The response, after one refresh and retry if the session had expired
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, { credentials: "same-origin", ...init })
+
+  if (response.status !== 401 || !(await refreshSession())) {
+    return response
+  }
+
+  return fetch(input, { credentials: "same-origin", ...init })
+}
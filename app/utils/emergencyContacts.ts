@@ -0,0 +1,214 @@
+import type { ContactConsentSummary } from "@/lib/contact-consent"
+import type { EmergencyContactsVersion } from "@/lib/emergency-contacts"
+import { authFetch } from "./authFetch"
+import { LEGACY_CACHE_PREFIX, decryptLegacyCache } from "./legacyContactsCache"
+
+export interface EmergencyContact {
+  // Assigned by the server on first save
+  id?: string
+  name: string
+  phone: string
+  email: string
+  notify: boolean
+  notificationMethod: "call" | "text" | "email"
+  priority: "primary" | "secondary"
+}
+
+export interface EmergencyContactSettings {
+  contacts: EmergencyContact[]
+  allowHeroNetwork: boolean
+  // Let heroes who accept an alert see the vitals at the time of the emergency
+  shareVitalsWithHeroes: boolean
+  escalationWaitSeconds: number
+}
+
+// The device's offline copy: the server version it came from, and whether it holds edits not yet saved there
+export interface CachedEmergencyContacts extends EmergencyContactSettings {
+  version: number
+  pendingSync: boolean
+  // Whether each contact has agreed to be alerted, by contact ID, as of the last sync
+  consent: Record<string, ContactConsentSummary>
+}
+
+type ServerEmergencyContacts = EmergencyContactsVersion & { consent?: Record<string, ContactConsentSummary> }
+
+export type SaveEmergencyContactsResult =
+  // A saved result's message says when some contacts couldn't be invited yet
+  | { status: "saved" | "offline"; contacts: CachedEmergencyContacts; message?: string }
+  // Another device saved first; the cache now holds its version
+  | { status: "conflict"; contacts: CachedEmergencyContacts; message: string }
+
+// How long to wait for a contact to acknowledge before widening the alert
+export const DEFAULT_ESCALATION_WAIT_SECONDS = 60
+
+// The offline copy is plain JSON in localStorage, not encrypted: anything running on this origin can read it
+export const EMERGENCY_CONTACTS_STORAGE_KEY = "emergencyContacts"
+
+// An encrypted cache from an older version, kept until the server has its contacts
+const LEGACY_STORAGE_KEY = "emergencyContacts.legacy"
+
+const CONTACTS_API = "/api/emergency/contacts"
+
+// An encrypted cache reads as empty until migrateLegacyEmergencyContacts has decrypted it
+function readSavedSettings(saved: string): any {
+  return saved.startsWith(LEGACY_CACHE_PREFIX) ? {} : JSON.parse(saved)
+}
+
+function toCached(parsed: any): CachedEmergencyContacts {
+  const contacts: EmergencyContact[] = Array.isArray(parsed?.contacts)
+    ? parsed.contacts.map((contact: Partial<EmergencyContact>) => ({
+        ...contact,
+        name: contact.name || "",
+        phone: contact.phone || "",
+        email: contact.email || "",
+        notify: Boolean(contact.notify),
+        notificationMethod: contact.notificationMethod || "call",
+        priority: contact.priority || "primary",
+      }))
+    : []
+  const version = Number(parsed?.version) || 0
+
+  return {
+    contacts,
+    allowHeroNetwork: Boolean(parsed?.allowHeroNetwork),
+    shareVitalsWithHeroes: Boolean(parsed?.shareVitalsWithHeroes),
+    escalationWaitSeconds: Number(parsed?.escalationWaitSeconds) || DEFAULT_ESCALATION_WAIT_SECONDS,
+    version,
+    // Contacts saved before they were kept on the server still need uploading
+    pendingSync: Boolean(parsed?.pendingSync) || (version === 0 && contacts.length > 0),
+    consent: parsed?.consent && typeof parsed.consent === "object" ? parsed.consent : {},
+  }
+}
+
+function writeCache(contacts: CachedEmergencyContacts): CachedEmergencyContacts {
+  try {
+    localStorage.setItem(EMERGENCY_CONTACTS_STORAGE_KEY, JSON.stringify(contacts))
+  } catch (error) {
+    console.error("Error caching emergency contacts:", error)
+  }
+  return contacts
+}
+
+const fromServer = ({ settings, version, consent }: ServerEmergencyContacts) =>
+  writeCache({ ...toCached({ ...settings, version, consent }), pendingSync: false })
+
+/**
+ * Read the emergency contacts cached on this device, without going to the server, so an alert can
+ * still be raised offline
+ * @returns Cached contacts and alert preferences, or empty settings if none are cached
+ */
+export function loadEmergencyContacts(): CachedEmergencyContacts {
+  if (typeof window === "undefined") {
+    return toCached({})
+  }
+
+  try {
+    const saved = localStorage.getItem(EMERGENCY_CONTACTS_STORAGE_KEY)
+    return toCached(saved ? readSavedSettings(saved) : {})
+  } catch (error) {
+    console.error("Error loading emergency contacts:", error)
+    return toCached({})
+  }
+}
+
+/**
+ * Move an encrypted cache from an older version into the plain cache, queued for upload. Those versions
+ * only kept contacts on the device, so the encrypted copy stays until the server confirms the save.
+ * @returns Whether there was a cache to migrate
+ */
+export async function migrateLegacyEmergencyContacts(): Promise<boolean> {
+  if (typeof window === "undefined") {
+    return false
+  }
+
+  const saved = localStorage.getItem(EMERGENCY_CONTACTS_STORAGE_KEY)
+  if (!saved?.startsWith(LEGACY_CACHE_PREFIX)) {
+    return false
+  }
+
+  try {
+    const settings = JSON.parse(await decryptLegacyCache(saved))
+    localStorage.setItem(LEGACY_STORAGE_KEY, saved)
+    writeCache({ ...toCached(settings), pendingSync: true })
+    return true
+  } catch (error) {
+    console.error("Error migrating emergency contacts:", error)
+    return false
+  }
+}
+
+/**
+ * Save contacts and alert preferences to the server, keeping a copy on the device
+ * @param settings Contacts and preferences from the form
+ * @returns "saved"; "offline" if the server couldn't be reached and the edit waits in the cache for the
+ * next sync; or "conflict" if they were changed on another device first
+ */
+export async function saveEmergencyContacts(settings: EmergencyContactSettings): Promise<SaveEmergencyContactsResult> {
+  const cached = loadEmergencyContacts()
+
+  let response: Response
+  try {
+    response = await authFetch(CONTACTS_API, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...settings, version: cached.version }),
+    })
+  } catch {
+    return {
+      status: "offline",
+      contacts: writeCache({ ...settings, version: cached.version, pendingSync: true, consent: cached.consent }),
+    }
+  }
+
+  const data = await response.json()
+  if (response.status === 409) {
+    return { status: "conflict", contacts: fromServer(data.current), message: data.message }
+  }
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to save emergency contacts")
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+  return { status: "saved", contacts: fromServer(data), message: data.message }
+}
+
+/**
+ * Bring the device's copy up to date with the server, first uploading any edits made offline
+ * @returns The synced contacts, or the cached ones if the server can't be reached
+ */
+export async function syncEmergencyContacts(): Promise<CachedEmergencyContacts> {
+  await migrateLegacyEmergencyContacts()
+  const cached = loadEmergencyContacts()
+
+  try {
+    if (cached.pendingSync) {
+      const result = await saveEmergencyContacts(cached)
+      if (result.status === "conflict") {
+        console.warn("Emergency contacts changed on another device; offline edits were replaced")
+      }
+      return result.contacts
+    }
+
+    const response = await authFetch(CONTACTS_API)
+    return response.ok ? fromServer(await response.json()) : cached
+  } catch (error) {
+    console.error("Error syncing emergency contacts:", error)
+    return cached
+  }
+}
+
+/**
+ * Send a contact who hasn't answered their invitation a new one
+ * @param contactId Saved contact ID
+ * @returns The contacts cached on this device, with the contact's updated consent status
+ */
+export async function resendContactInvitation(contactId: string): Promise<CachedEmergencyContacts> {
+  const response = await authFetch(`${CONTACTS_API}/${encodeURIComponent(contactId)}/invitation`, { method: "POST" })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to resend invitation")
+  }
+
+  const cached = loadEmergencyContacts()
+  return writeCache({ ...cached, consent: { ...cached.consent, [contactId]: data.consent } })
+}
@@ -6,5 +6,3 @@ export const getEnvVariable = (key: string, fallback?: string): string => {
   // We're on the server side
   return (process.env[key] as string) || fallback || ""
 }
-
-export const HIPAA_SECRET_KEY = getEnvVariable("HIPAA_SECRET_KEY", "fallback-secret-key-for-development")
@@ -1,27 +1,57 @@
-import { HIPAA_SECRET_KEY } from "./env"
-import AES from "crypto-js/aes"
-import Utf8 from "crypto-js/enc-utf8"
+import { recordPhiAccess } from "@/lib/audit-log"
+import {
+  DEFAULT_DEIDENTIFICATION_POLICY,
+  DEIDENTIFICATION_POLICIES,
+  deidentify,
+  type DeidentificationPolicy,
+} from "@/lib/deidentify"
+import { decryptEnvelope, encryptEnvelope } from "@/lib/encryption"
 
-const SECRET_KEY = HIPAA_SECRET_KEY
-
-export function encryptData(data: string): string {
-  return AES.encrypt(data, SECRET_KEY).toString()
+/**
+ * Encrypt protected health information for storage. Server only: master keys never reach the browser.
+ * @param data Text to encrypt
+ * @param context Record the data belongs to, e.g. "contacts:<user ID>"; needed again to decrypt
+ * @returns Envelope string naming the master key version that protects it
+ */
+export function encryptData(data: string, context?: string): Promise<string> {
+  return encryptEnvelope(data, context)
 }
 
-export function decryptData(encryptedData: string): string {
-  const bytes = AES.decrypt(encryptedData, SECRET_KEY)
-  return bytes.toString(Utf8)
+/**
+ * Decrypt data from encryptData, whichever master key version it was encrypted under
+ * @param encryptedData Envelope string
+ * @param context The context it was encrypted with
+ * @returns The plaintext
+ */
+export function decryptData(encryptedData: string, context?: string): Promise<string> {
+  return decryptEnvelope(encryptedData, context)
 }
 
-export function anonymizeData(data: any): any {
-  // Implement data anonymization logic here
-  // This is a placeholder and should be replaced with actual anonymization logic
-  return data
+/**
+ * De-identify a record before it's used for analytics or research, following HIPAA Safe Harbor
+ * @param data Record to de-identify, e.g. an analytics event
+ * @param policy Policy to apply; by default the one for the record's eventType
+ * @returns A new record without the identifiers the policy doesn't allow
+ */
+export function anonymizeData(data: Record<string, any>, policy?: DeidentificationPolicy): Record<string, any> {
+  return deidentify(data, policy || DEIDENTIFICATION_POLICIES[data.eventType] || DEFAULT_DEIDENTIFICATION_POLICY)
 }
 
-export function logAccess(userId: string, dataAccessed: string): void {
-  // Implement access logging here
-  console.log(`User ${userId} accessed ${dataAccessed} at ${new Date().toISOString()}`)
+/**
+ * Record a user's access to their own protected health information in the audit log (lib/audit-log).
+ * Server only. API routes record access themselves, with the request and who the data belongs to.
+ * @param userId User who accessed their data
+ * @param dataAccessed What was accessed, e.g. "vitals.history"
+ * @param request The request it was accessed in, if any
+ */
+export async function logAccess(userId: string, dataAccessed: string, request: Request | null = null): Promise<void> {
+  await recordPhiAccess(request, {
+    actor: { userId },
+    subjectUserId: userId,
+    resource: dataAccessed,
+    action: "read",
+    purpose: "self",
+  })
 }
 
 export function logError(error: Error): void {
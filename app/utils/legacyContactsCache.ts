@@ -0,0 +1,83 @@
+/**
+ * Reads the emergency contacts cache written by versions before contacts were kept on the server
+ *
+ * Those versions encrypted the cache with crypto-js under a passphrase that shipped in the page bundle,
+ * so it protected nothing, but the contacts exist nowhere else until they are uploaded. crypto-js writes
+ * OpenSSL's salted format: "Salted__", an 8-byte salt, then AES-256-CBC ciphertext, with the key and IV
+ * derived from the passphrase by EVP_BytesToKey (one round of MD5). This decrypts it with WebCrypto.
+ */
+
+// The passphrase those versions used; only ever needed to read their caches
+const LEGACY_PASSPHRASE = process.env.NEXT_PUBLIC_HIPAA_SECRET_KEY || "fallback-secret-key-for-development"
+
+// Base64 of "Salted__", the start of every crypto-js ciphertext
+export const LEGACY_CACHE_PREFIX = "U2FsdGVkX1"
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21]
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0)
+
+// WebCrypto has no MD5, and EVP_BytesToKey needs it
+function md5(message: Uint8Array): Uint8Array {
+  const length = Math.ceil((message.length + 9) / 64) * 64
+  const padded = new Uint8Array(length)
+  padded.set(message)
+  padded[message.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(length - 8, (message.length * 8) >>> 0, true)
+  view.setUint32(length - 4, Math.floor(message.length / 2 ** 29), true)
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]
+  for (let offset = 0; offset < length; offset += 64) {
+    let [a, b, c, d] = state
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4
+      const f = [(b & c) | (~b & d), (d & b) | (~d & c), b ^ c ^ d, c ^ (b | ~d)][round]
+      const word = [i, (5 * i + 1) % 16, (3 * i + 5) % 16, (7 * i) % 16][round]
+      const shift = MD5_SHIFTS[round * 4 + (i % 4)]
+      const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(offset + word * 4, true)) >>> 0
+      ;[a, d, c] = [d, c, b]
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0
+    }
+    state[0] = (state[0] + a) >>> 0
+    state[1] = (state[1] + b) >>> 0
+    state[2] = (state[2] + c) >>> 0
+    state[3] = (state[3] + d) >>> 0
+  }
+
+  const digest = new Uint8Array(16)
+  const digestView = new DataView(digest.buffer)
+  state.forEach((word, index) => digestView.setUint32(index * 4, word, true))
+  return digest
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    joined.set(part, offset)
+    offset += part.length
+  }
+  return joined
+}
+
+/**
+ * Decrypt a cache written by crypto-js's AES.encrypt under the old bundled passphrase
+ * @param ciphertext Base64 ciphertext as it was stored in localStorage
+ * @returns The cached JSON
+ */
+export async function decryptLegacyCache(ciphertext: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(ciphertext), (char) => char.charCodeAt(0))
+  const salt = bytes.slice(8, 16)
+  const passphrase = new TextEncoder().encode(LEGACY_PASSPHRASE)
+
+  let derived: Uint8Array = new Uint8Array(0)
+  let block: Uint8Array = new Uint8Array(0)
+  while (derived.length < 48) {
+    block = md5(concat(block, passphrase, salt))
+    derived = concat(derived, block)
+  }
+
+  const key = await crypto.subtle.importKey("raw", derived.slice(0, 32), "AES-CBC", false, ["decrypt"])
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-CBC", iv: derived.slice(32, 48) }, key, bytes.slice(16))
+  return new TextDecoder().decode(plaintext)
+}
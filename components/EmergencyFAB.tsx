@@ -1,15 +1,28 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { X, MessageCircle, AlertTriangle } from "lucide-react"
+import { X, MessageCircle, AlertTriangle, Timer } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import SpottingSession from "@/components/spotting-session"
 import Image from "next/image"
+import { migrateLegacyEmergencyContacts, syncEmergencyContacts } from "@/app/utils/emergencyContacts"
 
 export default function EmergencyFAB() {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [showSpotting, setShowSpotting] = useState(false)
   const { toast } = useToast()
 
+  // On every page, so contacts cached by an older version are readable for an alert and uploaded
+  useEffect(() => {
+    migrateLegacyEmergencyContacts().then((migrated) => {
+      if (migrated) {
+        syncEmergencyContacts()
+      }
+    })
+  }, [])
+
   const handleEmergencyCall = () => {
     // In a real app, this would trigger an emergency call
     toast({
@@ -33,8 +46,20 @@ export default function EmergencyFAB() {
     })
   }
 
+  const handleSpotting = () => {
+    setIsExpanded(false)
+    setShowSpotting(true)
+  }
+
   return (
     <>
+      <Dialog open={showSpotting} onOpenChange={setShowSpotting}>
+        <DialogContent className="p-0">
+          <DialogTitle className="sr-only">Never Use Alone</DialogTitle>
+          <SpottingSession />
+        </DialogContent>
+      </Dialog>
+
       <AnimatePresence>
         {isExpanded && (
           <motion.div
@@ -76,6 +101,19 @@ export default function EmergencyFAB() {
                 <AlertTriangle className="w-6 h-6" />
                 <span className="sr-only">Alert Contacts</span>
               </motion.button>
+
+              <motion.button
+                className="flex items-center justify-center bg-green-600 text-white p-4 rounded-full shadow-lg"
+                onClick={handleSpotting}
+                initial={{ opacity: 0, y: 20, scale: 0.8 }}
+                animate={{ opacity: 1, y: 0, scale: 1, transition: { delay: 0.1 } }}
+                exit={{ opacity: 0, y: 20, scale: 0.8 }}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+              >
+                <Timer className="w-6 h-6" />
+                <span className="sr-only">Never Use Alone</span>
+              </motion.button>
             </>
           )}
         </AnimatePresence>
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Upload, FileText } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import type { HealthImport } from "@/lib/health-history"
+import { authFetch } from "@/app/utils/authFetch"
+
+interface HealthDataImportProps {
+  // Called after a successful import so charts can reload
+  onImported?: () => void
+}
+
+const FORMAT_LABELS: Record<HealthImport["format"], string> = {
+  apple_health: "Apple Health",
+  fitbit: "Fitbit",
+  google_fit: "Google Fit",
+  oura: "Oura",
+}
+
+export default function HealthDataImport({ onImported }: HealthDataImportProps) {
+  const [imports, setImports] = useState<HealthImport[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    authFetch("/api/vitals/import")
+      .then((response) => (response.ok ? response.json() : { imports: [] }))
+      .then((data) => setImports(data.imports || []))
+      .catch((error) => console.error("Failed to load health imports:", error))
+  }, [])
+
+  const importFile = async (file: File) => {
+    setIsImporting(true)
+
+    try {
+      const form = new FormData()
+      form.append("file", file)
+
+      const response = await authFetch("/api/vitals/import", { method: "POST", body: form })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Import failed")
+      }
+
+      setImports((current) => [data.import, ...current])
+      onImported?.()
+      toast({
+        title: "Health data imported",
+        description: `${data.import.points} readings from ${FORMAT_LABELS[data.import.format as HealthImport["format"]]}`,
+      })
+    } catch (error) {
+      toast({
+        title: "Couldn't import health data",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+      if (fileInput.current) fileInput.current.value = ""
+    }
+  }
+
+  return (
+    <Card data-testid="health-data-import">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileText className="w-5 h-5" />
+          <span>Import Health Data</span>
+        </CardTitle>
+        <CardDescription>
+          Upload an export from Apple Health (export.xml), Fitbit or Google Fit (Google Takeout) or Oura (trends CSV) to
+          fill in your history and speed up baseline learning.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".xml,.json,.csv"
+          className="hidden"
+          onChange={(event) => event.target.files?.[0] && importFile(event.target.files[0])}
+          data-testid="health-data-file"
+        />
+        <Button onClick={() => fileInput.current?.click()} disabled={isImporting} className="w-full">
+          <Upload className="w-4 h-4 mr-2" />
+          {isImporting ? "Importing..." : "Choose Export File"}
+        </Button>
+
+        {imports.length > 0 && (
+          <div className="space-y-2">
+            {imports.slice(0, 5).map((record) => (
+              <div key={record.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {FORMAT_LABELS[record.format]}
+                  {record.fileName && <span className="text-muted-foreground"> · {record.fileName}</span>}
+                </span>
+                <span className="text-muted-foreground">{record.points} readings</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
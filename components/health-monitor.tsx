@@ -2,20 +2,37 @@
 
 import { useState, useEffect, useRef } from "react"
 import { motion } from "framer-motion"
-import { Heart, Activity, AlertTriangle, Bell, Bluetooth, Wifi, Battery } from "lucide-react"
+import { Heart, Activity, Wind, AlertTriangle, Bell, Bluetooth, Wifi, Battery } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "@/components/ui/use-toast"
-
-interface HealthMonitorProps {
-  userId: string
-}
-
+import { authFetch } from "@/app/utils/authFetch"
+import { loadEmergencyContacts } from "@/app/utils/emergencyContacts"
+import { createDetector, type DetectionReason, type VitalsSample } from "@/lib/detection"
+import { BASELINE_SAMPLE_TARGET, formatTemperature, resolveDetectionConfig, type TemperatureUnit } from "@/lib/baselines"
+import type { VitalsProfile } from "@/lib/vitals-profile"
+import {
+  connectSensor,
+  isWebBluetoothAvailable,
+  requestBluetoothSensor,
+  type SensorConnection,
+  type SensorReading,
+} from "@/lib/sensors"
+import {
+  createVitalsSimulator,
+  getSimulationScenario,
+  SIMULATION_SAMPLE_SECONDS,
+  SIMULATION_SCENARIOS,
+  SIMULATION_SPEEDS,
+} from "@/lib/vitals-simulator"
+
+// A Bluetooth sensor only reports some of these, so any of them may be missing
 interface VitalSigns {
-  heartRate: number
-  oxygenLevel: number
-  bloodPressure: { systolic: number; diastolic: number }
-  temperature: number
+  heartRate?: number
+  oxygenLevel?: number
+  respiratoryRate?: number
+  bloodPressure?: { systolic: number; diastolic: number }
+  temperature?: number
   timestamp: Date
 }
 
@@ -26,7 +43,39 @@ interface DeviceStatus {
   lastSync: Date
 }
 
-export default function HealthMonitor({ userId }: HealthMonitorProps) {
+const SIGNAL_LABELS: Record<DetectionReason["signal"], string> = {
+  heartRate: "Heart rate",
+  oxygenLevel: "Oxygen level",
+  respiratoryRate: "Breathing rate",
+  systolic: "Systolic pressure",
+  diastolic: "Diastolic pressure",
+  temperature: "Temperature",
+  respiratoryDepression: "Breathing pattern",
+}
+
+// Word a detection reason for the alert, e.g. "Oxygen level 88 is below 90"
+const formatReason = (reason: DetectionReason) =>
+  reason.signal === "respiratoryDepression"
+    ? "Slowed breathing with falling oxygen and heart rate (opioid overdose pattern)"
+    : `${SIGNAL_LABELS[reason.signal]} ${reason.value} is ${reason.bound === "min" ? "below" : "above"} ${reason.limit}`
+
+// Device status shown while the simulation stands in for a sensor
+const SIMULATED_BATTERY = 85
+const SIMULATED_SIGNAL_STRENGTH = 90
+
+// Resting samples are sent to the server in batches while the baseline is being learned
+const BASELINE_BATCH_SIZE = 30
+
+// Incidents use the same vitals names as analytics events
+const toIncidentVitals = (vitals: VitalSigns | null) =>
+  vitals && {
+    heartRate: vitals.heartRate,
+    respiratoryRate: vitals.respiratoryRate,
+    oxygenSaturation: vitals.oxygenLevel,
+    bloodPressure: vitals.bloodPressure,
+  }
+
+export default function HealthMonitor() {
   // State management
   const [isMonitoring, setIsMonitoring] = useState(false)
   const [vitalSigns, setVitalSigns] = useState<VitalSigns | null>(null)
@@ -39,157 +88,297 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
   const [status, setStatus] = useState<"normal" | "warning" | "danger" | "inactive">("inactive")
   const [countdown, setCountdown] = useState<number | null>(null)
   const [alertHistory, setAlertHistory] = useState<Array<{ timestamp: Date; type: string; resolved: boolean }>>([])
+  const [incidentStatus, setIncidentStatus] = useState<string | null>(null)
+  const [riskReasons, setRiskReasons] = useState<DetectionReason[]>([])
+  const [profile, setProfile] = useState<VitalsProfile | null>(null)
+  const [learnedSamples, setLearnedSamples] = useState(0)
 
   // Refs for cleanup
   const monitoringInterval = useRef<NodeJS.Timeout | null>(null)
   const emergencyTimeout = useRef<NodeJS.Timeout | null>(null)
   const countdownInterval = useRef<NodeJS.Timeout | null>(null)
+  const incidentId = useRef<string | null>(null)
+  const detector = useRef(createDetector())
+  const baselineBuffer = useRef<VitalsSample[]>([])
+  const isLearningBaseline = useRef(false)
+  const thresholdsVersion = useRef<string | null>(null)
+  const sensor = useRef<SensorConnection | null>(null)
+  const sensorVitals = useRef<Omit<VitalSigns, "timestamp">>({})
+  const [sensorName, setSensorName] = useState<string | null>(null)
+  const [bluetoothAvailable, setBluetoothAvailable] = useState(false)
+  const simulator = useRef<ReturnType<typeof createVitalsSimulator> | null>(null)
+  const [scenarioId, setScenarioId] = useState(SIMULATION_SCENARIOS[0].id)
+  const [playbackSpeed, setPlaybackSpeed] = useState(1)
+
+  // Tests and demos can pick a scenario with ?simulate=<scenario>&speed=<speed>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const scenario = params.get("simulate")
+    const speed = Number(params.get("speed"))
+    if (scenario && getSimulationScenario(scenario)) setScenarioId(scenario)
+    if (SIMULATION_SPEEDS.includes(speed)) setPlaybackSpeed(speed)
+  }, [])
+
+  // Web Bluetooth is only checked after mount so the server render matches the first client render
+  useEffect(() => {
+    setBluetoothAvailable(isWebBluetoothAvailable())
+    return () => sensor.current?.disconnect()
+  }, [])
+
+  // Load the user's baseline and thresholds, falling back to the defaults until it arrives
+  useEffect(() => {
+    authFetch("/api/vitals/profile")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data?.profile && applyProfile(data.profile))
+      .catch((error) => console.error("Failed to load vitals profile:", error))
+  }, [])
+
+  const applyProfile = (next: VitalsProfile) => {
+    // A new baseline or override changes the thresholds, so the detector starts again with them
+    const { user, clinician } = next.overrides
+    const version = [next.baseline?.computedAt, user?.updatedAt, clinician?.updatedAt].join("|")
+    if (version !== thresholdsVersion.current) {
+      thresholdsVersion.current = version
+      detector.current = createDetector(resolveDetectionConfig(next))
+    }
+    isLearningBaseline.current = !next.learning.completedAt
+    setLearnedSamples(next.learning.samples.length)
+    setProfile(next)
+  }
+
+  // Collect resting samples while the baseline is being learned
+  const recordBaselineSample = async (sample: VitalsSample) => {
+    if (!isLearningBaseline.current) return
+
+    baselineBuffer.current.push(sample)
+    if (baselineBuffer.current.length < BASELINE_BATCH_SIZE) return
+
+    const samples = baselineBuffer.current
+    baselineBuffer.current = []
+
+    try {
+      const response = await authFetch("/api/vitals/baseline", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ samples }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        applyProfile(data.profile)
+      }
+    } catch (error) {
+      console.error("Error recording baseline samples:", error)
+    }
+  }
+
+  // Switch the temperature unit and remember it for this user
+  const toggleTemperatureUnit = async () => {
+    const temperature: TemperatureUnit = profile?.units.temperature === "C" ? "F" : "C"
+    setProfile((current) => current && { ...current, units: { ...current.units, temperature } })
+
+    try {
+      await authFetch("/api/vitals/profile", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ units: { temperature } }),
+      })
+    } catch (error) {
+      console.error("Error saving temperature unit:", error)
+    }
+  }
 
   // Simulate device connection
   useEffect(() => {
     if (isMonitoring) {
-      // Simulate device connection
+      simulator.current = createVitalsSimulator(scenarioId)
+
+      // A connected sensor supplies the readings instead of the simulation
+      if (sensor.current) return
+
       setDeviceStatus({
         connected: true,
-        battery: Math.floor(Math.random() * 30) + 70, // 70-100%
-        signalStrength: Math.floor(Math.random() * 30) + 70, // 70-100%
+        battery: SIMULATED_BATTERY,
+        signalStrength: SIMULATED_SIGNAL_STRENGTH,
         lastSync: new Date()
       })
-
-      // Start vital signs monitoring
-      monitoringInterval.current = setInterval(() => {
-        generateVitalSigns()
-      }, 2000) // Update every 2 seconds
-
-      return () => {
-        if (monitoringInterval.current) {
-          clearInterval(monitoringInterval.current)
-        }
-      }
     } else {
       // Reset state when monitoring stops
-      setDeviceStatus(prev => ({ ...prev, connected: false }))
+      closeCountdownIncident("cancelled", "Monitoring stopped during countdown")
+      if (!sensor.current) {
+        setDeviceStatus(prev => ({ ...prev, connected: false }))
+      }
+      sensorVitals.current = {}
       setVitalSigns(null)
       setStatus("inactive")
+      setRiskReasons([])
+      detector.current.reset()
       clearEmergencyState()
     }
   }, [isMonitoring])
 
-  // Generate simulated vital signs
-  const generateVitalSigns = () => {
-    // Use mock data if available (for testing)
-    if (typeof window !== 'undefined' && (window as any).mockVitalSigns) {
-      const mockData = (window as any).mockVitalSigns
-      const newVitalSigns: VitalSigns = {
-        heartRate: mockData.heartRate || Math.floor(Math.random() * 40) + 60,
-        oxygenLevel: mockData.oxygenLevel || Math.floor(Math.random() * 5) + 95,
-        bloodPressure: mockData.bloodPressure || {
-          systolic: Math.floor(Math.random() * 40) + 110,
-          diastolic: Math.floor(Math.random() * 20) + 70
-        },
-        temperature: mockData.temperature || (Math.random() * 2 + 97.5),
-        timestamp: new Date()
+  // Play the simulation while monitoring without a sensor; changing speed keeps the scenario's place
+  useEffect(() => {
+    if (!isMonitoring || sensorName) return
+
+    monitoringInterval.current = setInterval(() => {
+      generateVitalSigns()
+    }, (SIMULATION_SAMPLE_SECONDS * 1000) / playbackSpeed)
+
+    return () => {
+      if (monitoringInterval.current) {
+        clearInterval(monitoringInterval.current)
+        monitoringInterval.current = null
       }
-      setVitalSigns(newVitalSigns)
-      analyzeVitalSigns(newVitalSigns)
-      return
     }
+  }, [isMonitoring, playbackSpeed, sensorName])
 
-    // Normal simulation
-    const baseHeartRate = 75
-    const baseOxygenLevel = 98
-    const variation = Math.random() * 0.2 - 0.1 // ±10% variation
-
-    const newVitalSigns: VitalSigns = {
-      heartRate: Math.floor(baseHeartRate + (baseHeartRate * variation)),
-      oxygenLevel: Math.floor(baseOxygenLevel + (baseOxygenLevel * variation * 0.1)),
-      bloodPressure: {
-        systolic: Math.floor(120 + (Math.random() * 20 - 10)),
-        diastolic: Math.floor(80 + (Math.random() * 10 - 5))
-      },
-      temperature: Number((98.6 + (Math.random() * 1 - 0.5)).toFixed(1)),
-      timestamp: new Date()
+  // Generate the next reading from the selected scenario
+  const generateVitalSigns = () => {
+    if (!simulator.current) {
+      simulator.current = createVitalsSimulator(scenarioId)
     }
 
+    const { timestamp, vitals } = simulator.current.next()
+    if (!vitals) {
+      // The scenario's sensor has dropped out: no reading, and the signal indicator shows it
+      setDeviceStatus(prev => ({ ...prev, signalStrength: 0 }))
+      return
+    }
+
+    setDeviceStatus(prev => ({ ...prev, signalStrength: SIMULATED_SIGNAL_STRENGTH, lastSync: new Date() }))
+
+    // Sample times run in scenario time so the detector sees the same stream at any playback speed
+    const newVitalSigns: VitalSigns = { ...vitals, timestamp: new Date(timestamp) }
     setVitalSigns(newVitalSigns)
     analyzeVitalSigns(newVitalSigns)
   }
 
   // Analyze vital signs for abnormalities
   const analyzeVitalSigns = (vitals: VitalSigns) => {
-    const { heartRate, oxygenLevel, bloodPressure, temperature } = vitals
-
-    // Define thresholds
-    const criticalThresholds = {
-      heartRate: { min: 50, max: 120 },
-      oxygenLevel: { min: 90 },
-      bloodPressure: { systolic: { max: 160 }, diastolic: { max: 100 } },
-      temperature: { min: 96, max: 101 }
+    const sample: VitalsSample = {
+      timestamp: vitals.timestamp.getTime(),
+      heartRate: vitals.heartRate,
+      oxygenLevel: vitals.oxygenLevel,
+      respiratoryRate: vitals.respiratoryRate,
+      bloodPressure: vitals.bloodPressure,
+      temperature: vitals.temperature,
     }
+    const result = detector.current.push(sample)
+    setRiskReasons(result.reasons)
 
-    const warningThresholds = {
-      heartRate: { min: 55, max: 100 },
-      oxygenLevel: { min: 94 },
-      bloodPressure: { systolic: { max: 140 }, diastolic: { max: 90 } },
-      temperature: { min: 97, max: 99.5 }
+    if (result.level === "normal") {
+      recordBaselineSample(sample)
     }
 
-    // Check for critical conditions
-    const isCritical = 
-      heartRate < criticalThresholds.heartRate.min ||
-      heartRate > criticalThresholds.heartRate.max ||
-      oxygenLevel < criticalThresholds.oxygenLevel.min ||
-      bloodPressure.systolic > criticalThresholds.bloodPressure.systolic.max ||
-      bloodPressure.diastolic > criticalThresholds.bloodPressure.diastolic.max ||
-      temperature < criticalThresholds.temperature.min ||
-      temperature > criticalThresholds.temperature.max
-
-    // Check for warning conditions
-    const isWarning = !isCritical && (
-      heartRate < warningThresholds.heartRate.min ||
-      heartRate > warningThresholds.heartRate.max ||
-      oxygenLevel < warningThresholds.oxygenLevel.min ||
-      bloodPressure.systolic > warningThresholds.bloodPressure.systolic.max ||
-      bloodPressure.diastolic > warningThresholds.bloodPressure.diastolic.max ||
-      temperature < warningThresholds.temperature.min ||
-      temperature > warningThresholds.temperature.max
-    )
+    const isCritical = result.level === "critical"
+    const isWarning = result.level === "warning"
 
     if (isCritical) {
       setStatus("danger")
       startEmergencyCountdown()
     } else if (isWarning) {
       setStatus("warning")
+      closeCountdownIncident("false_alarm", "Vital signs recovered before dispatch")
       clearEmergencyState()
     } else {
       setStatus("normal")
+      closeCountdownIncident("false_alarm", "Vital signs recovered before dispatch")
       clearEmergencyState()
     }
   }
 
   // Start emergency countdown
   const startEmergencyCountdown = () => {
-    if (countdown !== null) return // Already counting down
+    if (countdownInterval.current) return // Already counting down
 
     setCountdown(15) // 15 second countdown
+    openCountdownIncident(15)
 
     countdownInterval.current = setInterval(() => {
       setCountdown(prev => {
         if (prev !== null && prev > 0) {
           return prev - 1
         } else {
-          // Countdown reached zero
+          // Countdown reached zero; only the first pass through the updater dispatches
           if (countdownInterval.current) {
             clearInterval(countdownInterval.current)
             countdownInterval.current = null
+            triggerEmergency()
           }
-          triggerEmergency()
           return null
         }
       })
     }, 1000)
   }
 
+  // Open an incident for the countdown so a cancellation is recorded as well as a dispatch
+  const openCountdownIncident = async (countdownSeconds: number) => {
+    try {
+      const { contacts, escalationWaitSeconds, allowHeroNetwork, shareVitalsWithHeroes } = loadEmergencyContacts()
+      const response = await authFetch("/api/emergency/trigger", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          emergencyType: "vital_signs_critical",
+          location: await getCurrentLocation(),
+          vitalSigns: toIncidentVitals(vitalSigns),
+          contacts,
+          escalationWaitSeconds,
+          allowHeroNetwork,
+          shareVitalsWithHeroes,
+          countdownSeconds,
+        }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        incidentId.current = data.incidentId
+        setIncidentStatus(data.status)
+      }
+    } catch (error) {
+      console.error("Error opening emergency incident:", error)
+    }
+  }
+
+  // Advance the open incident, returning false if there is none or the server rejected it
+  const updateIncident = async (status: string, note?: string): Promise<boolean> => {
+    if (!incidentId.current) return false
+
+    try {
+      const response = await authFetch(`/api/incidents/${incidentId.current}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status, note }),
+      })
+
+      if (!response.ok) return false
+
+      const data = await response.json()
+      setIncidentStatus(data.incident?.status ?? status)
+      return true
+    } catch (error) {
+      console.error("Error updating emergency incident:", error)
+      return false
+    }
+  }
+
+  // Close a countdown that never reached dispatch
+  const closeCountdownIncident = (status: "cancelled" | "false_alarm", note: string) => {
+    if (countdownInterval.current && incidentId.current) {
+      updateIncident(status, note)
+      incidentId.current = null
+    }
+  }
+
   // Clear emergency state
   const clearEmergencyState = () => {
     if (countdownInterval.current) {
@@ -205,6 +394,7 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
 
   // Cancel emergency
   const cancelEmergency = () => {
+    closeCountdownIncident("cancelled", "Cancelled by user during countdown")
     clearEmergencyState()
     setAlertHistory(prev => [...prev, {
       timestamp: new Date(),
@@ -221,16 +411,36 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
   // Trigger emergency alert
   const triggerEmergency = async () => {
     try {
-      const response = await fetch("/api/emergency/trigger", {
+      // Dispatch the incident opened for the countdown, or raise a new one if that failed
+      if (await updateIncident("dispatched")) {
+        setAlertHistory(prev => [...prev, {
+          timestamp: new Date(),
+          type: 'emergency_triggered',
+          resolved: false
+        }])
+
+        toast({
+          title: "Emergency services alerted",
+          description: "Your emergency contacts and nearby help have been notified.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      const { contacts, escalationWaitSeconds, allowHeroNetwork, shareVitalsWithHeroes } = loadEmergencyContacts()
+      const response = await authFetch("/api/emergency/trigger", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          userId,
           emergencyType: "vital_signs_critical",
           location: await getCurrentLocation(),
-          vitalSigns,
+          vitalSigns: toIncidentVitals(vitalSigns),
+          contacts,
+          escalationWaitSeconds,
+          allowHeroNetwork,
+          shareVitalsWithHeroes,
           timestamp: new Date().toISOString(),
         }),
       })
@@ -242,6 +452,10 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
       }])
 
       if (response.ok) {
+        const data = await response.json()
+        incidentId.current = data.incidentId
+        setIncidentStatus(data.status)
+
         toast({
           title: "Emergency services alerted",
           description: "Your emergency contacts and nearby help have been notified.",
@@ -283,6 +497,69 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
     })
   }
 
+  // Feed sensor readings into the detector; reassigned every render so it never sees stale state
+  const handleSensorReading = useRef<(reading: SensorReading) => void>(() => {})
+  handleSensorReading.current = (reading: SensorReading) => {
+    // A reading flagged as unusable, e.g. the finger slipped out of the oximeter, is not a vital sign
+    if (!isMonitoring || reading.signalQuality === 0) return
+
+    const fromStrap = sensor.current?.profiles.includes("Heart Rate")
+    const heartRate = reading.source === "pulse_oximeter" && fromStrap ? undefined : reading.heartRate
+    sensorVitals.current = {
+      ...sensorVitals.current,
+      ...(heartRate !== undefined && { heartRate }),
+      ...(reading.oxygenLevel !== undefined && { oxygenLevel: reading.oxygenLevel }),
+    }
+
+    const newVitalSigns: VitalSigns = { ...sensorVitals.current, timestamp: reading.timestamp }
+    setVitalSigns(newVitalSigns)
+    analyzeVitalSigns(newVitalSigns)
+  }
+
+  // Pair a Bluetooth heart rate monitor or pulse oximeter
+  const connectBluetoothSensor = async () => {
+    try {
+      const transport = await requestBluetoothSensor()
+      const connection = await connectSensor(transport, {
+        onReading: (reading) => handleSensorReading.current(reading),
+        onStatus: (sensorStatus) => {
+          setDeviceStatus(sensorStatus)
+          if (!sensorStatus.connected && sensor.current) {
+            sensor.current = null
+            sensorVitals.current = {}
+            setSensorName(null)
+            toast({
+              title: "Sensor disconnected",
+              description: "Reconnect the sensor to keep monitoring with real readings.",
+              variant: "destructive",
+            })
+          }
+        },
+      })
+
+      sensor.current = connection
+      setSensorName(connection.name)
+      toast({
+        title: "Sensor connected",
+        description: `${connection.name}: ${connection.profiles.join(", ")}`,
+      })
+    } catch (error) {
+      // The user closing the device chooser is not an error worth reporting
+      if (error instanceof Error && error.name === "NotFoundError") return
+
+      console.error("Error connecting sensor:", error)
+      toast({
+        title: "Couldn't connect sensor",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const disconnectBluetoothSensor = () => {
+    sensor.current?.disconnect()
+  }
+
   // Toggle monitoring
   const toggleMonitoring = () => {
     setIsMonitoring(!isMonitoring)
@@ -326,16 +603,76 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
                 Last sync: {deviceStatus.lastSync.toLocaleTimeString()}
               </p>
             )}
+            {sensorName && (
+              <p className="text-xs text-muted-foreground" data-testid="sensor-name">
+                Sensor: {sensorName}
+              </p>
+            )}
+            {profile && !profile.learning.completedAt && (
+              <p className="text-xs text-muted-foreground" data-testid="baseline-learning">
+                Learning your resting baseline: {Math.min(learnedSamples, BASELINE_SAMPLE_TARGET)}/
+                {BASELINE_SAMPLE_TARGET} readings
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {bluetoothAvailable && (
+              <Button
+                variant="outline"
+                onClick={sensorName ? disconnectBluetoothSensor : connectBluetoothSensor}
+                data-testid="connect-sensor"
+              >
+                <Bluetooth className="mr-2 h-4 w-4" />
+                {sensorName ? "Disconnect Sensor" : "Connect Sensor"}
+              </Button>
+            )}
+            <Button 
+              onClick={toggleMonitoring} 
+              variant={isMonitoring ? "destructive" : "default"}
+              data-testid={isMonitoring ? "stop-monitoring" : "start-monitoring"}
+            >
+              {isMonitoring ? "Stop Monitoring" : "Start Monitoring"}
+            </Button>
           </div>
-          <Button 
-            onClick={toggleMonitoring} 
-            variant={isMonitoring ? "destructive" : "default"}
-            data-testid={isMonitoring ? "stop-monitoring" : "start-monitoring"}
-          >
-            {isMonitoring ? "Stop Monitoring" : "Start Monitoring"}
-          </Button>
         </div>
 
+        {/* Simulation controls, used whenever no sensor is connected */}
+        {!sensorName && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor="simulation-scenario" className="font-medium">
+              Simulation
+            </label>
+            <select
+              id="simulation-scenario"
+              value={scenarioId}
+              onChange={(e) => setScenarioId(e.target.value)}
+              disabled={isMonitoring}
+              className="border rounded p-1 bg-background"
+              data-testid="simulation-scenario"
+            >
+              {SIMULATION_SCENARIOS.map((scenario) => (
+                <option key={scenario.id} value={scenario.id}>
+                  {scenario.name}
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Playback speed"
+              value={playbackSpeed}
+              onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+              className="border rounded p-1 bg-background"
+              data-testid="simulation-speed"
+            >
+              {SIMULATION_SPEEDS.map((speed) => (
+                <option key={speed} value={speed}>
+                  {speed}x
+                </option>
+              ))}
+            </select>
+            <p className="w-full text-xs text-muted-foreground">{getSimulationScenario(scenarioId)?.description}</p>
+          </div>
+        )}
+
         {/* Vital Signs Display */}
         {vitalSigns && (
           <div className="grid grid-cols-2 gap-4">
@@ -347,7 +684,7 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
                 }`} />
                 <span className="text-sm font-medium">Heart Rate</span>
               </div>
-              <p className="text-2xl font-bold">{vitalSigns.heartRate} BPM</p>
+              <p className="text-2xl font-bold">{vitalSigns.heartRate ?? "--"} BPM</p>
             </div>
 
             <div className="space-y-2" data-testid="oxygen-level">
@@ -358,7 +695,18 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
                 }`} />
                 <span className="text-sm font-medium">Oxygen Level</span>
               </div>
-              <p className="text-2xl font-bold">{vitalSigns.oxygenLevel}%</p>
+              <p className="text-2xl font-bold">{vitalSigns.oxygenLevel ?? "--"}%</p>
+            </div>
+
+            <div className="space-y-2" data-testid="respiratory-rate">
+              <div className="flex items-center space-x-2">
+                <Wind className={`h-5 w-5 ${
+                  status === "danger" ? "text-red-500 animate-pulse" : 
+                  status === "warning" ? "text-amber-500" : "text-green-500"
+                }`} />
+                <span className="text-sm font-medium">Breathing Rate</span>
+              </div>
+              <p className="text-2xl font-bold">{vitalSigns.respiratoryRate ?? "--"} /min</p>
             </div>
 
             <div className="space-y-2">
@@ -366,7 +714,9 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
                 <span className="text-sm font-medium">Blood Pressure</span>
               </div>
               <p className="text-lg font-bold">
-                {vitalSigns.bloodPressure.systolic}/{vitalSigns.bloodPressure.diastolic}
+                {vitalSigns.bloodPressure
+                  ? `${vitalSigns.bloodPressure.systolic}/${vitalSigns.bloodPressure.diastolic}`
+                  : "--"}
               </p>
             </div>
 
@@ -374,7 +724,17 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
               <div className="flex items-center space-x-2">
                 <span className="text-sm font-medium">Temperature</span>
               </div>
-              <p className="text-lg font-bold">{vitalSigns.temperature}°F</p>
+              <button
+                type="button"
+                className="text-lg font-bold"
+                onClick={toggleTemperatureUnit}
+                title="Switch between °F and °C"
+                data-testid="temperature"
+              >
+                {vitalSigns.temperature !== undefined
+                  ? formatTemperature(vitalSigns.temperature, profile?.units.temperature || "F")
+                  : "--"}
+              </button>
             </div>
           </div>
         )}
@@ -396,6 +756,13 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
             <p className="text-sm mb-3">
               Critical vital signs detected. If this is not an emergency, press cancel.
             </p>
+            {riskReasons.length > 0 && (
+              <ul className="text-xs mb-3 list-disc pl-4" data-testid="risk-reasons">
+                {riskReasons.map((reason) => (
+                  <li key={reason.signal}>{formatReason(reason)}</li>
+                ))}
+              </ul>
+            )}
             <Button 
               onClick={cancelEmergency} 
               className="w-full" 
@@ -420,6 +787,13 @@ export default function HealthMonitor({ userId }: HealthMonitorProps) {
           </div>
         )}
 
+        {/* Incident Status */}
+        {incidentStatus && (
+          <p className="text-xs text-muted-foreground" data-testid="incident-status">
+            Incident status: {incidentStatus.replace(/_/g, " ")}
+          </p>
+        )}
+
         {/* Recent Alerts */}
         {alertHistory.length > 0 && (
           <div className="space-y-2">
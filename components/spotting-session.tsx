@@ -0,0 +1,295 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { motion } from "framer-motion"
+import { Timer, AlertTriangle, CheckCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import { authFetch } from "@/app/utils/authFetch"
+import { loadEmergencyContacts } from "@/app/utils/emergencyContacts"
+import type { SpottingSession as Session } from "@/lib/spotting"
+
+// Check-in intervals offered to the user, in seconds
+const CHECK_IN_INTERVALS = [
+  { seconds: 2 * 60, label: "2 minutes" },
+  { seconds: 5 * 60, label: "5 minutes" },
+  { seconds: 10 * 60, label: "10 minutes" },
+  { seconds: 15 * 60, label: "15 minutes" },
+  { seconds: 30 * 60, label: "30 minutes" },
+]
+
+const SNOOZE_SECONDS = 2 * 60
+
+// How often to re-read the session so an escalation made by the server shows up here
+const SYNC_INTERVAL_MS = 15 * 1000
+
+function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds))
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+export default function SpottingSession() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [intervalSeconds, setIntervalSeconds] = useState(CHECK_IN_INTERVALS[1].seconds)
+  const [now, setNow] = useState(Date.now())
+  const [isBusy, setIsBusy] = useState(false)
+
+  // The check-in the user was last prompted for, so each one only prompts once
+  const promptedFor = useRef<string | null>(null)
+
+  // Resume a session started earlier or in another tab
+  useEffect(() => {
+    authFetch("/api/spotting")
+      .then((response) => (response.ok ? response.json() : { session: null }))
+      .then((data) => setSession(data.session || null))
+      .catch((error) => console.error("Failed to load spotting session:", error))
+  }, [])
+
+  // Tick the countdown and keep the session in sync with the server while it's active
+  useEffect(() => {
+    if (session?.status !== "active") return
+
+    const tick = setInterval(() => setNow(Date.now()), 1000)
+    const sync = setInterval(() => {
+      authFetch(`/api/spotting/${session.id}`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => data?.session && setSession(data.session))
+        .catch((error) => console.error("Failed to sync spotting session:", error))
+    }, SYNC_INTERVAL_MS)
+
+    return () => {
+      clearInterval(tick)
+      clearInterval(sync)
+    }
+  }, [session?.id, session?.status])
+
+  // Prompt the user when a check-in is due
+  useEffect(() => {
+    if (session?.status !== "active") return
+    if (now < new Date(session.nextCheckInAt).getTime() || promptedFor.current === session.nextCheckInAt) return
+
+    promptedFor.current = session.nextCheckInAt
+
+    if (typeof navigator !== "undefined" && navigator.vibrate) {
+      navigator.vibrate([500, 200, 500])
+    }
+    if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+      new Notification("Narcoguard check-in", { body: "Are you OK? Tap to check in before your contacts are alerted." })
+    }
+
+    toast({
+      title: "Time to check in",
+      description: "Let us know you're OK or your emergency contacts will be alerted.",
+      variant: "destructive",
+    })
+  }, [now, session])
+
+  // Get current location
+  const getCurrentLocation = (): Promise<{ latitude: number; longitude: number } | undefined> => {
+    return new Promise((resolve) => {
+      if (!navigator.geolocation) {
+        resolve(undefined)
+        return
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          resolve({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+          })
+        },
+        () => resolve(undefined),
+        { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 }
+      )
+    })
+  }
+
+  const sendRequest = async (url: string, method: "POST" | "PATCH", body: Record<string, any>) => {
+    setIsBusy(true)
+    try {
+      const response = await authFetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (data.session) {
+        setSession(data.session)
+      }
+      if (!response.ok) {
+        throw new Error(data.message || "Spotting session request failed")
+      }
+
+      return data.session as Session
+    } finally {
+      setIsBusy(false)
+      setNow(Date.now())
+    }
+  }
+
+  const startSession = async () => {
+    try {
+      const { contacts, escalationWaitSeconds, allowHeroNetwork } = loadEmergencyContacts()
+
+      if (typeof Notification !== "undefined" && Notification.permission === "default") {
+        Notification.requestPermission().catch(() => undefined)
+      }
+
+      await sendRequest("/api/spotting", "POST", {
+        checkInIntervalSeconds: intervalSeconds,
+        location: await getCurrentLocation(),
+        contacts,
+        escalationWaitSeconds,
+        allowHeroNetwork,
+      })
+
+      if (contacts.length === 0) {
+        toast({
+          title: "No emergency contacts saved",
+          description: "Add contacts so someone can be alerted if you miss a check-in.",
+        })
+      }
+    } catch (error) {
+      console.error("Error starting spotting session:", error)
+      toast({
+        title: "Couldn't start session",
+        description: "Please try again, or use with someone present.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const checkIn = async () => {
+    if (!session) return
+    try {
+      await sendRequest(`/api/spotting/${session.id}`, "PATCH", {
+        action: "check_in",
+        location: await getCurrentLocation(),
+      })
+    } catch (error) {
+      console.error("Error checking in:", error)
+      toast({ title: "Check-in failed", description: "Please try again.", variant: "destructive" })
+    }
+  }
+
+  const snooze = async () => {
+    if (!session) return
+    try {
+      await sendRequest(`/api/spotting/${session.id}`, "PATCH", { action: "snooze", snoozeSeconds: SNOOZE_SECONDS })
+    } catch (error) {
+      console.error("Error snoozing check-in:", error)
+      toast({ title: "Snooze failed", description: "Please check in instead.", variant: "destructive" })
+    }
+  }
+
+  const endSession = async () => {
+    if (!session) return
+    try {
+      await sendRequest(`/api/spotting/${session.id}`, "PATCH", { action: "end" })
+      toast({ title: "Session ended", description: "Glad you're OK. Stay safe." })
+    } catch (error) {
+      console.error("Error ending spotting session:", error)
+      toast({ title: "Couldn't end session", description: "Please try again.", variant: "destructive" })
+    }
+  }
+
+  const secondsUntilCheckIn = session ? (new Date(session.nextCheckInAt).getTime() - now) / 1000 : 0
+  const secondsUntilAlert = session ? (new Date(session.deadlineAt).getTime() - now) / 1000 : 0
+  const isOverdue = session?.status === "active" && secondsUntilCheckIn <= 0
+
+  return (
+    <Card className="w-full" data-testid="spotting-session">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Timer className="mr-2 h-5 w-5" />
+          Never Use Alone
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {session?.status === "active" ? (
+          <>
+            {isOverdue ? (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="p-4 border border-red-500 bg-red-100 dark:bg-red-900/20 rounded-md"
+                data-testid="spotting-overdue"
+              >
+                <div className="flex items-center space-x-2 mb-2">
+                  <AlertTriangle className="text-red-500 h-5 w-5" />
+                  <span className="font-bold text-red-500">Check in now</span>
+                </div>
+                <p className="text-sm">
+                  Your emergency contacts will be alerted in {formatDuration(secondsUntilAlert)}.
+                </p>
+              </motion.div>
+            ) : (
+              <div>
+                <p className="text-sm text-muted-foreground">Next check-in in</p>
+                <p className="text-3xl font-bold" data-testid="spotting-countdown">
+                  {formatDuration(secondsUntilCheckIn)}
+                </p>
+              </div>
+            )}
+
+            <Button onClick={checkIn} disabled={isBusy} className="w-full" data-testid="spotting-check-in">
+              <CheckCircle className="mr-2 h-4 w-4" />
+              I'm OK - Check In
+            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={snooze} disabled={isBusy} variant="outline">
+                Snooze {SNOOZE_SECONDS / 60} min
+              </Button>
+              <Button onClick={endSession} disabled={isBusy} variant="outline" data-testid="spotting-end">
+                I'm OK - End
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              If you miss a check-in, your contacts are alerted even if this page is closed.
+            </p>
+          </>
+        ) : (
+          <>
+            {session?.status === "escalated" && (
+              <div className="p-4 border border-red-500 bg-red-100 dark:bg-red-900/20 rounded-md">
+                <p className="text-sm font-medium text-red-500">
+                  A check-in was missed and your emergency contacts have been alerted.
+                </p>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Start a session before using. We'll ask you to check in, and alert your emergency contacts if you
+              don't respond.
+            </p>
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="spotting-interval">Check in every:</Label>
+              <select
+                id="spotting-interval"
+                value={intervalSeconds}
+                onChange={(e) => setIntervalSeconds(Number(e.target.value))}
+                className="border rounded p-1 bg-background"
+              >
+                {CHECK_IN_INTERVALS.map((option) => (
+                  <option key={option.seconds} value={option.seconds}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={startSession} disabled={isBusy} className="w-full" data-testid="spotting-start">
+              Start Session
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
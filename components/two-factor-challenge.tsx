@@ -0,0 +1,88 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface TwoFactorChallengeProps {
+  challengeToken: string
+  onSignedIn: () => void
+}
+
+// Second sign-in step for accounts with two-factor on, after a password or sign-in link
+export default function TwoFactorChallenge({ challengeToken, onSignedIn }: TwoFactorChallengeProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [value, setValue] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch("/api/auth/2fa/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          useRecoveryCode ? { challengeToken, recoveryCode: value } : { challengeToken, code: value },
+        ),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong")
+      }
+
+      onSignedIn()
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Something went wrong")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4" data-testid="two-factor-form">
+      <div>
+        <Label htmlFor="two-factor-code">
+          {useRecoveryCode ? "Recovery code" : "Code from your authenticator app"}
+        </Label>
+        <Input
+          id="two-factor-code"
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          required
+          autoFocus
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? "Please wait..." : "Verify"}
+      </Button>
+
+      <Button
+        type="button"
+        variant="link"
+        className="w-full"
+        onClick={() => {
+          setUseRecoveryCode(!useRecoveryCode)
+          setValue("")
+          setError(null)
+        }}
+      >
+        {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+      </Button>
+    </form>
+  )
+}
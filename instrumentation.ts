@@ -0,0 +1,14 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertSigningKeysConfigured } = await import("./lib/signing-keys")
+    assertSigningKeysConfigured()
+
+    const { assertNotificationProvidersConfigured } = await import("./lib/notifications")
+    assertNotificationProvidersConfigured()
+
+    // Timers for escalation steps, check-in deadlines and reminders only live in memory
+    const { armPendingJobs } = await import("./lib/scheduler")
+    await armPendingJobs()
+  }
+}
@@ -1,7 +1,11 @@
 /**
  * Enhanced analytics module for tracking events in the Narcoguard application
+ *
+ * Events are de-identified (lib/deidentify) before they're logged or sent anywhere.
  */
 
+import { deidentifyEvent } from "./deidentify"
+
 // Types for analytics events
 export interface AnalyticsEvent {
   eventType: string
@@ -67,9 +71,12 @@ export interface DonationEvent extends AnalyticsEvent {
  */
 export async function logEvent(event: AnalyticsEvent): Promise<void> {
   try {
+    // Nothing identifying leaves this function; if de-identification fails the event isn't sent
+    const deidentified = deidentifyEvent(event)
+
     // In a production environment, this would send the event to an analytics service
     // For now, we'll just log it to the console
-    console.log(`[Analytics] Event logged: ${event.eventType}`, event)
+    console.log(`[Analytics] Event logged: ${event.eventType}`, deidentified)
 
     // Example implementation for sending to a backend API
     if (process.env.ANALYTICS_API_URL) {
@@ -80,8 +87,7 @@ export async function logEvent(event: AnalyticsEvent): Promise<void> {
           Authorization: `Bearer ${process.env.ANALYTICS_API_KEY || ""}`,
         },
         body: JSON.stringify({
-          ...event,
-          timestamp: event.timestamp.toISOString(),
+          ...deidentified,
           applicationId: process.env.ANALYTICS_APP_ID || "narcoguard",
           environment: process.env.NODE_ENV || "development",
         }),
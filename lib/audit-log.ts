@@ -0,0 +1,298 @@
+/**
+ * Tamper-evident audit trail of access to users' health information
+ *
+ * Every read or change of someone's vitals, incidents or health imports is appended as one JSON line
+ * to <data dir>/audit/phi-access.jsonl (or AUDIT_LOG_FILE): who did it, whose data it was, what they
+ * touched, why, and the request it came from. The file is only ever appended to.
+ *
+ * Entries are hash-chained. Each one carries the previous entry's hash and its own SHA-256 over its
+ * canonical JSON (keys sorted, without the hash field), starting from a hash of zeros. Editing,
+ * removing or reordering an entry breaks every hash after it, which `npm run audit:verify`
+ * (scripts/verify-audit-log.js) and GET /api/audit-log/verify report. Cutting entries off the end
+ * can't be seen from the file alone, so the verifier prints the head hash for keeping elsewhere.
+ *
+ * Appends are serialized within a process; the log expects a single server process writing to it.
+ */
+
+import { createHash, randomUUID } from "crypto"
+import fs from "fs"
+import path from "path"
+import type { Role } from "./permissions"
+import { getClientIp } from "./rate-limit"
+import { getDataDirectory } from "./store"
+
+// Why the data was accessed: the user's own, a clinician treating them, a hero responding to their
+// emergency, or an admin running the service
+export const ACCESS_PURPOSES = ["self", "treatment", "emergency_response", "operations"] as const
+export type AccessPurpose = (typeof ACCESS_PURPOSES)[number]
+
+export type AccessAction = "read" | "create" | "update"
+
+// The subject of an access that spans everyone's data, such as reading the audit log itself
+export const ALL_USERS = "*"
+
+export interface PhiAccess {
+  // Who accessed the data; a signed-in session fits
+  actor: { userId: string; roles?: Role[] }
+  // Whose data it was
+  subjectUserId: string
+  // What was accessed, e.g. "vitals.history" or "incident"
+  resource: string
+  resourceId?: string
+  action: AccessAction
+  purpose: AccessPurpose
+}
+
+export interface AuditRequestContext {
+  method: string
+  path: string
+  ip: string
+  userAgent?: string
+  requestId?: string
+}
+
+export interface AuditEntry {
+  seq: number
+  id: string
+  at: string
+  actorId: string
+  actorRoles: Role[]
+  subjectUserId: string
+  resource: string
+  resourceId?: string
+  action: AccessAction
+  purpose: AccessPurpose
+  request?: AuditRequestContext
+  prevHash: string
+  hash: string
+}
+
+export interface AuditVerification {
+  valid: boolean
+  entries: number
+  // Hash of the last valid entry, to compare against a copy kept elsewhere
+  headHash: string
+  // The first entry that doesn't check out
+  firstInvalid?: { line: number; reason: string }
+}
+
+export interface AuditQuery {
+  subjectUserId?: string
+  actorId?: string
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+export const GENESIS_HASH = "0".repeat(64)
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100
+export const MAX_AUDIT_QUERY_LIMIT = 1000
+
+// Enough of the file's end to hold the last entry
+const TAIL_BYTES = 64 * 1024
+
+/**
+ * Where the audit log is kept
+ * @returns AUDIT_LOG_FILE, or <data dir>/audit/phi-access.jsonl
+ */
+export function getAuditLogPath(): string {
+  return process.env.AUDIT_LOG_FILE || path.join(getDataDirectory(), "audit", "phi-access.jsonl")
+}
+
+/**
+ * JSON with object keys sorted at every level, so a hash doesn't depend on key order
+ * @param value Value to serialize
+ * @returns Canonical JSON
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`
+  }
+  if (value && typeof value === "object") {
+    const fields = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${fields.join(",")}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash an entry over everything but its own hash
+ * @param entry Audit entry
+ * @returns Hex SHA-256
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, "hash"> & { hash?: string }): string {
+  const hashed: Record<string, unknown> = { ...entry }
+  delete hashed.hash
+  return createHash("sha256").update(canonicalJson(hashed)).digest("hex")
+}
+
+function requestContext(request: Request): AuditRequestContext {
+  return {
+    method: request.method,
+    path: new URL(request.url).pathname,
+    ip: getClientIp(request),
+    userAgent: request.headers.get("user-agent") || undefined,
+    requestId: request.headers.get("x-request-id") || undefined,
+  }
+}
+
+async function readLastEntry(filePath: string): Promise<AuditEntry | null> {
+  let handle: fs.promises.FileHandle
+  try {
+    handle = await fs.promises.open(filePath, "r")
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null
+    }
+    throw error
+  }
+
+  try {
+    const { size } = await handle.stat()
+    const length = Math.min(size, TAIL_BYTES)
+    const buffer = Buffer.alloc(length)
+    await handle.read(buffer, 0, length, size - length)
+
+    const lastLine = buffer.toString("utf8").trimEnd().split("\n").at(-1)
+    if (!lastLine) {
+      return null
+    }
+    try {
+      return JSON.parse(lastLine)
+    } catch {
+      throw new Error("Audit log tail is unreadable")
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+async function readEntries(filePath: string): Promise<string[]> {
+  try {
+    return (await fs.promises.readFile(filePath, "utf8")).split("\n").filter((line) => line.trim())
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+// Appends are serialized so two entries never chain from the same predecessor
+let appendQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Append an access to the audit log
+ * @param request The request the access was made in, or null for access outside a request
+ * @param access Who accessed whose data, what and why
+ * @returns The recorded entry
+ */
+export function recordPhiAccess(request: Request | null, access: PhiAccess): Promise<AuditEntry> {
+  const task = async () => {
+    const filePath = getAuditLogPath()
+    const previous = await readLastEntry(filePath)
+
+    const entry: Omit<AuditEntry, "hash"> = {
+      seq: (previous?.seq || 0) + 1,
+      id: randomUUID(),
+      at: new Date().toISOString(),
+      actorId: access.actor.userId,
+      actorRoles: access.actor.roles || [],
+      subjectUserId: access.subjectUserId,
+      resource: access.resource,
+      resourceId: access.resourceId,
+      action: access.action,
+      purpose: access.purpose,
+      request: request ? requestContext(request) : undefined,
+      prevHash: previous?.hash || GENESIS_HASH,
+    }
+    const recorded: AuditEntry = { ...entry, hash: hashAuditEntry(entry) }
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.promises.appendFile(filePath, `${JSON.stringify(recorded)}\n`, { mode: 0o600 })
+    return recorded
+  }
+
+  const next = appendQueue.then(task, task)
+  appendQueue = next.catch(() => undefined)
+  return next
+}
+
+/**
+ * Check the whole chain, stopping at the first entry that doesn't match
+ * @param filePath Log to check, the deployment's by default
+ * @returns Whether the log is intact, how many entries check out and the head hash
+ */
+export async function verifyAuditLog(filePath: string = getAuditLogPath()): Promise<AuditVerification> {
+  const lines = await readEntries(filePath)
+  let headHash = GENESIS_HASH
+
+  for (const [index, line] of lines.entries()) {
+    const invalid = (reason: string): AuditVerification => ({
+      valid: false,
+      entries: index,
+      headHash,
+      firstInvalid: { line: index + 1, reason },
+    })
+
+    let entry: AuditEntry
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      return invalid("Entry is not valid JSON")
+    }
+
+    if (entry.seq !== index + 1) {
+      return invalid(`Expected sequence ${index + 1}, found ${entry.seq}`)
+    }
+    if (entry.prevHash !== headHash) {
+      return invalid("Previous hash doesn't match the entry before")
+    }
+    if (entry.hash !== hashAuditEntry(entry)) {
+      return invalid("Entry hash doesn't match its contents")
+    }
+
+    headHash = entry.hash
+  }
+
+  return { valid: true, entries: lines.length, headHash }
+}
+
+/**
+ * Find audit entries, newest first
+ * @param query Filters on whose data, who accessed it and when, and how many to return
+ * @param filePath Log to read, the deployment's by default
+ * @returns Matching entries
+ */
+export async function queryAuditLog(
+  query: AuditQuery = {},
+  filePath: string = getAuditLogPath(),
+): Promise<AuditEntry[]> {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_AUDIT_QUERY_LIMIT, 1), MAX_AUDIT_QUERY_LIMIT)
+  const from = query.from?.getTime() ?? -Infinity
+  const to = query.to?.getTime() ?? Infinity
+  const matches: AuditEntry[] = []
+
+  const lines = await readEntries(filePath)
+  for (let index = lines.length - 1; index >= 0 && matches.length < limit; index--) {
+    let entry: AuditEntry
+    try {
+      entry = JSON.parse(lines[index])
+    } catch {
+      // A damaged line is reported by verification rather than hiding the rest of the log
+      continue
+    }
+
+    const at = Date.parse(entry.at)
+    if (query.subjectUserId && entry.subjectUserId !== query.subjectUserId) continue
+    if (query.actorId && entry.actorId !== query.actorId) continue
+    if (at < from || at > to) continue
+
+    matches.push(entry)
+  }
+
+  return matches
+}
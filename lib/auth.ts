@@ -1,44 +1,84 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual, type ScryptOptions } from "crypto"
 import jwt from "jsonwebtoken"
-
-// Secret key for JWT signing
-const JWT_SECRET = process.env.JWT_SECRET || "narcoguard-secret-key"
+import { normalizeRoles, rolesHavePermission, type Permission, type Role } from "./permissions"
+import { getSigningKeyRing } from "./signing-keys"
 
 // Token expiration times
 const ACCESS_TOKEN_EXPIRY = "1h"
 const REFRESH_TOKEN_EXPIRY = "7d"
 const DOWNLOAD_TOKEN_EXPIRY = "24h"
+const ACKNOWLEDGEMENT_TOKEN_EXPIRY = "24h"
+const LOGIN_TOKEN_EXPIRY = "15m"
+const TWO_FACTOR_CHALLENGE_EXPIRY = "5m"
+const CONTACT_INVITE_TOKEN_EXPIRY = "30d"
+
+// Sign with the current key, naming it in the header so it can still be verified after a rotation
+function signToken(payload: object, expiresIn: string, jwtid?: string): string {
+  const { current } = getSigningKeyRing()
+  return jwt.sign(payload, current.secret, {
+    expiresIn,
+    keyid: current.kid,
+    algorithm: "HS256",
+    ...(jwtid ? { jwtid } : {}),
+  })
+}
+
+// Verify with whichever key signed the token; throws if the key is unknown, the signature is wrong or it expired
+function decodeToken(token: string): any {
+  const decoded = jwt.decode(token, { complete: true })
+  const ring = getSigningKeyRing()
+  const kid = decoded?.header.kid
+  const key = kid ? ring.keys.get(kid) : ring.legacy
+
+  if (!key) {
+    throw new Error(`Unknown signing key ${kid || "(none)"}`)
+  }
+
+  return jwt.verify(token, key.secret, { algorithms: ["HS256"] })
+}
 
 /**
  * Generate a JWT access token
  * @param userId User ID
  * @param email User email
+ * @param sessionId Login session the token belongs to, so revoking the session revokes the token
+ * @param roles The user's roles, checked by hasPermission
  * @returns JWT access token
  */
-export function generateAccessToken(userId: string, email: string): string {
-  return jwt.sign(
+export function generateAccessToken(
+  userId: string,
+  email: string,
+  sessionId: string,
+  roles: Role[] = ["user"],
+): string {
+  return signToken(
     {
       sub: userId,
       email,
+      sid: sessionId,
+      roles: normalizeRoles(roles),
       type: "access",
     },
-    JWT_SECRET,
-    { expiresIn: ACCESS_TOKEN_EXPIRY },
+    ACCESS_TOKEN_EXPIRY,
   )
 }
 
 /**
  * Generate a JWT refresh token
  * @param userId User ID
+ * @param sessionId Login session the token belongs to
+ * @param tokenId Unique token ID, recorded so each refresh token can only be used once
  * @returns JWT refresh token
  */
-export function generateRefreshToken(userId: string): string {
-  return jwt.sign(
+export function generateRefreshToken(userId: string, sessionId: string, tokenId: string = randomUUID()): string {
+  return signToken(
     {
       sub: userId,
+      sid: sessionId,
       type: "refresh",
     },
-    JWT_SECRET,
-    { expiresIn: REFRESH_TOKEN_EXPIRY },
+    REFRESH_TOKEN_EXPIRY,
+    tokenId,
   )
 }
 
@@ -49,14 +89,13 @@ export function generateRefreshToken(userId: string): string {
  * @returns JWT download token
  */
 export function generateDownloadToken(email: string, platform: string): string {
-  return jwt.sign(
+  return signToken(
     {
       email,
       platform,
       type: "download",
     },
-    JWT_SECRET,
-    { expiresIn: DOWNLOAD_TOKEN_EXPIRY },
+    DOWNLOAD_TOKEN_EXPIRY,
   )
 }
 
@@ -67,7 +106,7 @@ export function generateDownloadToken(email: string, platform: string): string {
  */
 export function verifyToken(token: string): any {
   try {
-    return jwt.verify(token, JWT_SECRET)
+    return decodeToken(token)
   } catch (error) {
     console.error("Token verification error:", error)
     return null
@@ -81,7 +120,7 @@ export function verifyToken(token: string): any {
  */
 export function verifyDownloadToken(token: string): any {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET)
+    const decoded = decodeToken(token)
     if (decoded && (decoded as any).type === "download") {
       return decoded
     }
@@ -93,24 +132,226 @@ export function verifyDownloadToken(token: string): any {
 }
 
 /**
- * Hash a password (placeholder - use a proper password hashing library in production)
+ * Verify a JWT access token
+ * @param token JWT access token
+ * @returns Decoded token payload or null if invalid
+ */
+export function verifyAccessToken(token: string): any {
+  try {
+    const decoded = decodeToken(token)
+    if (decoded && (decoded as any).type === "access") {
+      return decoded
+    }
+    return null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Check an access token's role claims for a permission
+ * @param claims Verified access token payload
+ * @param permission Permission needed
+ * @returns Whether the token's roles grant the permission
+ */
+export function hasPermission(claims: { roles?: unknown } | null | undefined, permission: Permission): boolean {
+  return !!claims && rolesHavePermission(normalizeRoles(claims.roles), permission)
+}
+
+/**
+ * Verify a JWT refresh token
+ * @param token JWT refresh token
+ * @returns Decoded token payload or null if invalid
+ */
+export function verifyRefreshToken(token: string): any {
+  try {
+    const decoded = decodeToken(token)
+    if (decoded && (decoded as any).type === "refresh") {
+      return decoded
+    }
+    return null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Generate a JWT token for an emergency contact's acknowledgement link
+ * @param incidentId Incident ID
+ * @param recipient Address the alert was sent to
+ * @returns JWT acknowledgement token
+ */
+export function generateAcknowledgementToken(incidentId: string, recipient: string): string {
+  return signToken(
+    {
+      incidentId,
+      recipient,
+      type: "acknowledgement",
+    },
+    ACKNOWLEDGEMENT_TOKEN_EXPIRY,
+  )
+}
+
+/**
+ * Verify a JWT acknowledgement token
+ * @param token JWT acknowledgement token
+ * @returns Decoded token payload or null if invalid
+ */
+export function verifyAcknowledgementToken(token: string): any {
+  try {
+    const decoded = decodeToken(token)
+    if (decoded && (decoded as any).type === "acknowledgement") {
+      return decoded
+    }
+    return null
+  } catch (error) {
+    console.error("Acknowledgement token verification error:", error)
+    return null
+  }
+}
+
+/**
+ * Generate a JWT token for a magic sign-in link
+ * @param email Address the link is sent to
+ * @param tokenId Unique token ID, revoked once the link is used so it only works once
+ * @returns JWT login token
+ */
+export function generateLoginToken(email: string, tokenId: string = randomUUID()): string {
+  return signToken(
+    {
+      email,
+      type: "login",
+    },
+    LOGIN_TOKEN_EXPIRY,
+    tokenId,
+  )
+}
+
+/**
+ * Verify a JWT login token
+ * @param token JWT login token
+ * @returns Decoded token payload or null if invalid
+ */
+export function verifyLoginToken(token: string): any {
+  try {
+    const decoded = decodeToken(token)
+    if (decoded && (decoded as any).type === "login") {
+      return decoded
+    }
+    return null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Generate a JWT token proving the first sign-in step passed, to be exchanged with a two-factor code
+ * @param userId User ID
+ * @param tokenId Unique token ID, revoked once the second step passes
+ * @returns JWT two-factor challenge token
+ */
+export function generateTwoFactorChallengeToken(userId: string, tokenId: string = randomUUID()): string {
+  return signToken(
+    {
+      sub: userId,
+      type: "two_factor",
+    },
+    TWO_FACTOR_CHALLENGE_EXPIRY,
+    tokenId,
+  )
+}
+
+/**
+ * Verify a JWT two-factor challenge token
+ * @param token JWT two-factor challenge token
+ * @returns Decoded token payload or null if invalid
+ */
+export function verifyTwoFactorChallengeToken(token: string): any {
+  try {
+    const decoded = decodeToken(token)
+    if (decoded && (decoded as any).type === "two_factor") {
+      return decoded
+    }
+    return null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Generate a JWT token for an emergency contact's invitation, to accept or decline being alerted
+ * @param consentId Contact consent record ID
+ * @param inviteId The invitation, so links from an earlier one stop working
+ * @returns JWT contact invitation token
+ */
+export function generateContactInviteToken(consentId: string, inviteId: string): string {
+  return signToken(
+    {
+      sub: consentId,
+      inviteId,
+      type: "contact_invite",
+    },
+    CONTACT_INVITE_TOKEN_EXPIRY,
+  )
+}
+
+/**
+ * Verify a JWT contact invitation token
+ * @param token JWT contact invitation token
+ * @returns Decoded token payload or null if invalid
+ */
+export function verifyContactInviteToken(token: string): any {
+  try {
+    const decoded = decodeToken(token)
+    if (decoded && (decoded as any).type === "contact_invite") {
+      return decoded
+    }
+    return null
+  } catch (error) {
+    return null
+  }
+}
+
+// scrypt cost parameters; N = 2^15 takes ~50 ms and 32 MB per hash
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+const SCRYPT_KEY_LENGTH = 64
+const SCRYPT_SALT_BYTES = 16
+
+function deriveKey(password: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 128 * params.N * params.r * 2 }
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, SCRYPT_KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    )
+  })
+}
+
+/**
+ * Hash a password with scrypt and a random salt
  * @param password Plain text password
- * @returns Hashed password
+ * @returns Hash in the form scrypt$N$r$p$salt$key, with the salt and key base64 encoded
  */
-export function hashPassword(password: string): string {
-  // In a real application, use a proper password hashing library like bcrypt
-  // This is just a placeholder
-  return `hashed_${password}`
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_BYTES)
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS)
+  const { N, r, p } = SCRYPT_PARAMS
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$")
 }
 
 /**
- * Verify a password against a hash (placeholder - use a proper password verification in production)
+ * Verify a password against a hash from hashPassword
+ * The cost parameters are read from the hash, so older hashes keep working if they're raised.
  * @param password Plain text password
- * @param hash Hashed password
+ * @param hash Stored hash
  * @returns Whether the password matches the hash
  */
-export function verifyPassword(password: string, hash: string): boolean {
-  // In a real application, use a proper password verification
-  // This is just a placeholder
-  return hash === `hashed_${password}`
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split("$")
+  if (scheme !== "scrypt" || !salt || !key) {
+    return false
+  }
+
+  const expected = Buffer.from(key, "base64")
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) })
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
 }
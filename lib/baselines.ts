@@ -0,0 +1,300 @@
+/**
+ * Personal vital-sign baselines and per-user detection thresholds
+ *
+ * A baseline is learned from a user's resting readings. Where their normal range sits outside the
+ * default thresholds (an athlete with a resting heart rate of 48, say) the thresholds are relaxed
+ * to fit, but never past the safety limits below. User overrides are also held to the safety
+ * limits; clinician overrides are applied as given.
+ *
+ * Like the detection engine this module is pure, so the same config is built in the browser and
+ * on the server. Temperatures are stored in °F and converted for display.
+ */
+
+import {
+  DEFAULT_DETECTION_CONFIG,
+  scoreSample,
+  type DetectionConfig,
+  type SignalRange,
+  type VitalSignal,
+  type VitalsSample,
+} from "./detection"
+
+export type TemperatureUnit = "F" | "C"
+
+export interface SignalBaseline {
+  mean: number
+  sd: number
+  min: number
+  max: number
+  count: number
+}
+
+export interface VitalsBaseline {
+  computedAt: string
+  sampleCount: number
+  signals: Partial<Record<VitalSignal, SignalBaseline>>
+}
+
+export interface SignalOverride {
+  warning?: SignalRange
+  critical?: SignalRange
+}
+
+export type ThresholdOverrides = Partial<Record<VitalSignal, SignalOverride>>
+
+export interface OverrideSet {
+  thresholds: ThresholdOverrides
+  updatedBy?: string
+  updatedAt: string
+}
+
+// Resting samples needed before a baseline is computed (10 minutes of monitoring at one sample every 2s)
+export const BASELINE_SAMPLE_TARGET = 300
+
+// Personal thresholds sit this many standard deviations from the user's resting mean
+const WARNING_DEVIATIONS = 2.5
+const CRITICAL_DEVIATIONS = 3.5
+
+// Smallest spread assumed for each signal, so a very steady baseline doesn't make thresholds hair-triggered
+const MIN_DEVIATION: Record<VitalSignal, number> = {
+  heartRate: 3,
+  oxygenLevel: 1,
+  respiratoryRate: 1.5,
+  systolic: 6,
+  diastolic: 4,
+  temperature: 0.4,
+}
+
+// The most permissive thresholds personalization or a user override may reach
+export const SAFETY_LIMITS: Record<VitalSignal, { warning: SignalRange; critical: SignalRange }> = {
+  heartRate: { warning: { min: 40, max: 130 }, critical: { min: 35, max: 150 } },
+  oxygenLevel: { warning: { min: 88 }, critical: { min: 85 } },
+  respiratoryRate: { warning: { min: 8, max: 30 }, critical: { min: 6, max: 36 } },
+  systolic: { warning: { max: 160 }, critical: { max: 180 } },
+  diastolic: { warning: { max: 100 }, critical: { max: 110 } },
+  temperature: { warning: { min: 96, max: 100.4 }, critical: { min: 95, max: 103 } },
+}
+
+const SIGNALS = Object.keys(DEFAULT_DETECTION_CONFIG.signals) as VitalSignal[]
+
+function readSignal(sample: VitalsSample, signal: VitalSignal): number | undefined {
+  if (signal === "systolic" || signal === "diastolic") {
+    return sample.bloodPressure?.[signal]
+  }
+  return sample[signal]
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/**
+ * Convert a temperature from a unit to °F
+ * @param value Temperature
+ * @param unit Unit the temperature is in
+ * @returns Temperature in °F
+ */
+export function toFahrenheit(value: number, unit: TemperatureUnit): number {
+  return unit === "C" ? round((value * 9) / 5 + 32) : value
+}
+
+/**
+ * Convert a temperature from °F to a unit
+ * @param value Temperature in °F
+ * @param unit Unit to convert to
+ * @returns Temperature in the requested unit
+ */
+export function fromFahrenheit(value: number, unit: TemperatureUnit): number {
+  return unit === "C" ? round(((value - 32) * 5) / 9) : value
+}
+
+/**
+ * Format a temperature stored in °F for display
+ * @param value Temperature in °F
+ * @param unit Preferred unit
+ * @returns Formatted temperature, e.g. "37.0°C"
+ */
+export function formatTemperature(value: number, unit: TemperatureUnit): string {
+  return `${fromFahrenheit(value, unit).toFixed(1)}°${unit}`
+}
+
+/**
+ * Validate threshold overrides supplied by a user or clinician, converting temperatures to °F
+ * @param value Overrides keyed by signal, e.g. { heartRate: { warning: { min: 45 } } }
+ * @param temperatureUnit Unit any temperature thresholds are given in
+ * @returns The overrides or null if they are malformed
+ */
+export function parseThresholdOverrides(
+  value: unknown,
+  temperatureUnit: TemperatureUnit = "F",
+): ThresholdOverrides | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null
+  }
+
+  const overrides: ThresholdOverrides = {}
+
+  for (const [signal, override] of Object.entries(value as Record<string, any>)) {
+    if (!SIGNALS.includes(signal as VitalSignal) || !override || typeof override !== "object") {
+      return null
+    }
+
+    const parsed: SignalOverride = {}
+    for (const level of ["warning", "critical"] as const) {
+      const range = override[level]
+      if (range === undefined) {
+        continue
+      }
+
+      const bounds = [range?.min, range?.max].filter((bound) => bound !== undefined)
+      if (bounds.length === 0 || bounds.some((bound) => typeof bound !== "number" || !Number.isFinite(bound))) {
+        return null
+      }
+
+      const convert = (bound?: number) =>
+        bound === undefined || signal !== "temperature" ? bound : toFahrenheit(bound, temperatureUnit)
+      parsed[level] = { min: convert(range.min), max: convert(range.max) }
+    }
+
+    overrides[signal as VitalSignal] = parsed
+  }
+
+  return overrides
+}
+
+/**
+ * Check whether a sample is calm enough to learn a baseline from
+ * Readings the default rules would call critical are left out so an emergency never becomes "normal".
+ * @param sample Vitals sample
+ * @returns Whether the sample may be used for the baseline
+ */
+export function isRestingSample(sample: VitalsSample): boolean {
+  return scoreSample(sample).score < DEFAULT_DETECTION_CONFIG.enterScore.critical
+}
+
+/**
+ * Compute a user's resting baseline from their samples
+ * @param samples Resting samples
+ * @returns Mean, spread and range for each signal that was reported
+ */
+export function computeBaseline(samples: VitalsSample[]): VitalsBaseline {
+  const signals: VitalsBaseline["signals"] = {}
+
+  for (const signal of SIGNALS) {
+    const values = samples
+      .map((sample) => readSignal(sample, signal))
+      .filter((value): value is number => typeof value === "number" && !Number.isNaN(value))
+
+    if (values.length === 0) {
+      continue
+    }
+
+    const mean = values.reduce((total, value) => total + value, 0) / values.length
+    const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length
+
+    signals[signal] = {
+      mean: round(mean),
+      sd: round(Math.sqrt(variance)),
+      min: Math.min(...values),
+      max: Math.max(...values),
+      count: values.length,
+    }
+  }
+
+  return { computedAt: new Date().toISOString(), sampleCount: samples.length, signals }
+}
+
+function clampRange(range: SignalRange, limit: SignalRange): SignalRange {
+  return {
+    min: range.min !== undefined && limit.min !== undefined ? Math.max(range.min, limit.min) : range.min,
+    max: range.max !== undefined && limit.max !== undefined ? Math.min(range.max, limit.max) : range.max,
+  }
+}
+
+// Relax a default range to cover the user's resting spread, but never tighten it
+function personalRange(
+  defaults: SignalRange,
+  baseline: SignalBaseline,
+  deviations: number,
+  spread: number,
+): SignalRange {
+  const sd = Math.max(baseline.sd, spread)
+  return {
+    min: defaults.min !== undefined ? round(Math.min(defaults.min, baseline.mean - deviations * sd)) : undefined,
+    max: defaults.max !== undefined ? round(Math.max(defaults.max, baseline.mean + deviations * sd)) : undefined,
+  }
+}
+
+function applyOverrides(config: DetectionConfig, overrides: ThresholdOverrides | undefined, clamp: boolean) {
+  for (const [signal, override] of Object.entries(overrides || {}) as [VitalSignal, SignalOverride][]) {
+    const rule = config.signals[signal]
+    if (!rule || !override) {
+      continue
+    }
+
+    for (const level of ["warning", "critical"] as const) {
+      if (override[level]) {
+        const range = { ...rule[level], ...override[level] }
+        rule[level] = clamp ? clampRange(range, SAFETY_LIMITS[signal][level]) : range
+      }
+    }
+  }
+}
+
+/**
+ * Build the detection config for a user from their baseline and overrides
+ * Precedence, lowest first: defaults, learned baseline, user overrides, clinician overrides.
+ * @param profile Baseline and overrides for the user
+ * @param base Config to personalize
+ * @returns Detection config for the user
+ */
+export function resolveDetectionConfig(
+  profile: { baseline?: VitalsBaseline; overrides?: { user?: OverrideSet; clinician?: OverrideSet } },
+  base: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+): DetectionConfig {
+  const config: DetectionConfig = {
+    ...base,
+    signals: Object.fromEntries(
+      SIGNALS.map((signal) => [signal, { ...base.signals[signal] }]),
+    ) as DetectionConfig["signals"],
+    respiratoryDepression: {
+      ...base.respiratoryDepression,
+      components: { ...base.respiratoryDepression.components },
+    },
+  }
+
+  for (const [signal, baseline] of Object.entries(profile.baseline?.signals || {}) as [VitalSignal, SignalBaseline][]) {
+    const rule = config.signals[signal]
+    if (!rule || !baseline) {
+      continue
+    }
+
+    const spread = MIN_DEVIATION[signal]
+    rule.warning = clampRange(
+      personalRange(rule.warning, baseline, WARNING_DEVIATIONS, spread),
+      SAFETY_LIMITS[signal].warning,
+    )
+    rule.critical = clampRange(
+      personalRange(rule.critical, baseline, CRITICAL_DEVIATIONS, spread),
+      SAFETY_LIMITS[signal].critical,
+    )
+  }
+
+  applyOverrides(config, profile.overrides?.user?.thresholds, true)
+  applyOverrides(config, profile.overrides?.clinician?.thresholds, false)
+
+  // Move the respiratory-depression scale with any lowered minimums so a slow resting rate isn't scored
+  const components = config.respiratoryDepression.components
+  for (const signal of Object.keys(components) as (keyof typeof components)[]) {
+    const shift = (config.signals[signal].warning.min ?? 0) - (base.signals[signal].warning.min ?? 0)
+    if (shift < 0) {
+      components[signal] = {
+        ...components[signal],
+        onset: round(components[signal].onset + shift),
+        severe: round(components[signal].severe + shift),
+      }
+    }
+  }
+
+  return config
+}
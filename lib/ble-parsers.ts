@@ -0,0 +1,241 @@
+/**
+ * Parsers for the standard Bluetooth LE GATT health profiles
+ *
+ *   Heart Rate (0x180D): Heart Rate Measurement 0x2A37
+ *   Pulse Oximeter (0x1822): PLX Spot-Check Measurement 0x2A5E, PLX Continuous Measurement 0x2A5F
+ *   Battery (0x180F): Battery Level 0x2A19
+ *
+ * Field layouts follow the Bluetooth SIG service specifications. All values are little-endian.
+ */
+
+export const GATT_SERVICES = {
+  heartRate: 0x180d,
+  pulseOximeter: 0x1822,
+  battery: 0x180f,
+}
+
+export const GATT_CHARACTERISTICS = {
+  heartRateMeasurement: 0x2a37,
+  plxSpotCheckMeasurement: 0x2a5e,
+  plxContinuousMeasurement: 0x2a5f,
+  batteryLevel: 0x2a19,
+}
+
+export interface HeartRateMeasurement {
+  heartRate: number
+  // Undefined when the sensor doesn't report skin contact
+  sensorContact?: boolean
+  energyExpended?: number
+  // Beat-to-beat intervals in milliseconds
+  rrIntervals: number[]
+}
+
+export interface PulseOximeterMeasurement {
+  oxygenLevel?: number
+  pulseRate?: number
+  // Pulse amplitude index (perfusion), in percent
+  pulseAmplitudeIndex?: number
+  measurementStatus?: number
+  deviceStatus?: number
+  timestamp?: Date
+}
+
+// PLX Measurement Status bits
+const MEASUREMENT_UNAVAILABLE = 1 << 13
+const QUESTIONABLE_MEASUREMENT = 1 << 14
+const INVALID_MEASUREMENT = 1 << 15
+
+// PLX Device and Sensor Status bits that mean the reading can't be trusted
+const SENSOR_FAULTS =
+  (1 << 1) | // equipment malfunction
+  (1 << 11) | // sensor unconnected to user
+  (1 << 13) | // sensor displaced
+  (1 << 14) | // sensor malfunctioning
+  (1 << 15) // sensor disconnected
+
+// PLX Device and Sensor Status bits that mean the signal is degraded
+const SIGNAL_WARNINGS =
+  (1 << 2) | // signal processing irregularity
+  (1 << 3) | // inadequate signal
+  (1 << 4) | // poor signal
+  (1 << 5) | // low perfusion
+  (1 << 6) | // erratic signal
+  (1 << 7) | // nonpulsatile signal
+  (1 << 8) | // questionable pulse
+  (1 << 10) // sensor interference
+
+/**
+ * Decode an IEEE 11073 16-bit SFLOAT
+ * @param raw Raw 16-bit value
+ * @returns The value, or undefined for NaN, NRes and the infinities
+ */
+export function decodeSfloat(raw: number): number | undefined {
+  // Special values: +INF, NaN, NRes, reserved and -INF
+  if (raw >= 0x07fe && raw <= 0x0802) {
+    return undefined
+  }
+
+  let mantissa = raw & 0x0fff
+  let exponent = raw >> 12
+
+  if (mantissa >= 0x0800) {
+    mantissa -= 0x1000
+  }
+  if (exponent >= 0x08) {
+    exponent -= 0x10
+  }
+
+  // Round away floating point noise from negative exponents, e.g. 975 * 10^-1
+  return Number((mantissa * Math.pow(10, exponent)).toFixed(Math.max(0, -exponent)))
+}
+
+/**
+ * Parse a Heart Rate Measurement notification
+ * @param value Characteristic value
+ * @returns Heart rate, contact status and RR intervals
+ */
+export function parseHeartRateMeasurement(value: DataView): HeartRateMeasurement {
+  const flags = value.getUint8(0)
+  let offset = 1
+
+  const is16Bit = (flags & 0x01) !== 0
+  const heartRate = is16Bit ? value.getUint16(offset, true) : value.getUint8(offset)
+  offset += is16Bit ? 2 : 1
+
+  const contactSupported = (flags & 0x04) !== 0
+  const measurement: HeartRateMeasurement = {
+    heartRate,
+    sensorContact: contactSupported ? (flags & 0x02) !== 0 : undefined,
+    rrIntervals: [],
+  }
+
+  if (flags & 0x08) {
+    measurement.energyExpended = value.getUint16(offset, true)
+    offset += 2
+  }
+
+  if (flags & 0x10) {
+    for (; offset + 1 < value.byteLength; offset += 2) {
+      // RR intervals are in 1/1024 second units
+      measurement.rrIntervals.push(Math.round((value.getUint16(offset, true) / 1024) * 1000))
+    }
+  }
+
+  return measurement
+}
+
+/**
+ * Parse a PLX Continuous Measurement notification
+ * @param value Characteristic value
+ * @returns SpO2, pulse rate and status
+ */
+export function parsePlxContinuousMeasurement(value: DataView): PulseOximeterMeasurement {
+  const flags = value.getUint8(0)
+  const measurement: PulseOximeterMeasurement = {
+    oxygenLevel: decodeSfloat(value.getUint16(1, true)),
+    pulseRate: decodeSfloat(value.getUint16(3, true)),
+  }
+  let offset = 5
+
+  // SpO2PR-Fast and SpO2PR-Slow are alternative averages of the normal reading
+  if (flags & 0x01) offset += 4
+  if (flags & 0x02) offset += 4
+
+  if (flags & 0x04) {
+    measurement.measurementStatus = value.getUint16(offset, true)
+    offset += 2
+  }
+  if (flags & 0x08) {
+    measurement.deviceStatus = value.getUint16(offset, true) | (value.getUint8(offset + 2) << 16)
+    offset += 3
+  }
+  if (flags & 0x10) {
+    measurement.pulseAmplitudeIndex = decodeSfloat(value.getUint16(offset, true))
+  }
+
+  return measurement
+}
+
+/**
+ * Parse a PLX Spot-Check Measurement indication
+ * @param value Characteristic value
+ * @returns SpO2, pulse rate, status and the time the reading was taken
+ */
+export function parsePlxSpotCheckMeasurement(value: DataView): PulseOximeterMeasurement {
+  const flags = value.getUint8(0)
+  const measurement: PulseOximeterMeasurement = {
+    oxygenLevel: decodeSfloat(value.getUint16(1, true)),
+    pulseRate: decodeSfloat(value.getUint16(3, true)),
+  }
+  let offset = 5
+
+  if (flags & 0x01) {
+    measurement.timestamp = new Date(
+      value.getUint16(offset, true),
+      value.getUint8(offset + 2) - 1,
+      value.getUint8(offset + 3),
+      value.getUint8(offset + 4),
+      value.getUint8(offset + 5),
+      value.getUint8(offset + 6),
+    )
+    offset += 7
+  }
+  if (flags & 0x02) {
+    measurement.measurementStatus = value.getUint16(offset, true)
+    offset += 2
+  }
+  if (flags & 0x04) {
+    measurement.deviceStatus = value.getUint16(offset, true) | (value.getUint8(offset + 2) << 16)
+    offset += 3
+  }
+  if (flags & 0x08) {
+    measurement.pulseAmplitudeIndex = decodeSfloat(value.getUint16(offset, true))
+  }
+
+  return measurement
+}
+
+/**
+ * Parse a Battery Level value
+ * @param value Characteristic value
+ * @returns Battery level in percent
+ */
+export function parseBatteryLevel(value: DataView): number {
+  return Math.min(100, value.getUint8(0))
+}
+
+/**
+ * Rate how far a pulse oximeter reading can be trusted
+ * @param measurement Parsed measurement
+ * @returns Signal quality from 0 (unusable) to 100
+ */
+export function pulseOximeterSignalQuality(measurement: PulseOximeterMeasurement): number {
+  const status = measurement.measurementStatus || 0
+  const device = measurement.deviceStatus || 0
+
+  if (status & (MEASUREMENT_UNAVAILABLE | INVALID_MEASUREMENT) || device & SENSOR_FAULTS) {
+    return 0
+  }
+
+  // A perfusion index of 1% or more is a good signal; lower values scale down
+  let quality =
+    measurement.pulseAmplitudeIndex !== undefined ? Math.min(100, measurement.pulseAmplitudeIndex * 100) : 100
+
+  if (status & QUESTIONABLE_MEASUREMENT) {
+    quality = Math.min(quality, 40)
+  }
+  if (device & SIGNAL_WARNINGS) {
+    quality = Math.min(quality, 50)
+  }
+
+  return Math.round(quality)
+}
+
+/**
+ * Rate a heart rate reading by whether the sensor reports skin contact
+ * @param measurement Parsed measurement
+ * @returns Signal quality from 0 to 100
+ */
+export function heartRateSignalQuality(measurement: HeartRateMeasurement): number {
+  return measurement.sensorContact === false ? 0 : 100
+}
@@ -0,0 +1,372 @@
+/**
+ * Emergency contacts agreeing to be alerted
+ *
+ * When a user adds a contact to be notified, or changes the number or email they're reached on, the
+ * contact is sent an invitation on that channel explaining Narcoguard and asking them to opt in.
+ * Alerts only go to contacts who accepted, and only at the address they confirmed. Calls and texts
+ * share the phone number, so one confirmation covers both.
+ *
+ * Invitations and every alert carry a link the contact can use to stop alerts at any time. Invitation
+ * tokens are signed (lib/auth) and name the invitation they came from, so a new invitation after an
+ * address change retires the old links. Opt-out links have to keep working for as long as alerts go out,
+ * so instead of a long-lived signed token they carry a random token stored on the consent record, which
+ * is replaced when the address changes.
+ *
+ * Saving contacts is what sends invitations, so invitations are rate limited per user and per address
+ * to keep the contacts form from being used to flood someone's phone or inbox.
+ */
+
+import { createHash, randomBytes, randomUUID } from "crypto"
+import { generateContactInviteToken, verifyContactInviteToken } from "./auth"
+import { buildContactInvitationEmail } from "./email"
+import type { IncidentContact } from "./incidents"
+import { sendNotification, type DeliveryStatus } from "./notifications"
+import { rateLimit } from "./rate-limit"
+import { createCollection } from "./store"
+
+export type ConsentStatus = "pending" | "verified" | "declined"
+export type ConsentChannel = "phone" | "email"
+
+export interface ContactConsent {
+  id: string
+  userId: string
+  // The contact's ID in the user's saved contacts
+  contactId: string
+  channel: ConsentChannel
+  // SHA-256 of the address, to notice when it changes without keeping another copy of it
+  addressHash: string
+  status: ConsentStatus
+  // Changes with every invitation, so links from an older one stop working
+  inviteId: string
+  // Random token in the contact's opt-out links; records from before it existed get one when first needed
+  optOutToken?: string
+  invitedAt: string
+  respondedAt?: string
+  optedOutAt?: string
+  updatedAt: string
+}
+
+export interface ContactConsentSummary {
+  status: ConsentStatus
+  channel: ConsentChannel
+  invitedAt: string
+  respondedAt?: string
+  optedOutAt?: string
+}
+
+// A contact as saved by the user, with the ID consent is tracked under
+export type ConsentContact = IncidentContact & { id?: string }
+
+// Invitations can be sent again, but not more often than this
+export const INVITATION_RESEND_INTERVAL_MS = 60 * 60 * 1000
+
+// Invitations a user can send, and an address can receive, in a day
+export const MAX_INVITATIONS_PER_USER = 20
+export const MAX_INVITATIONS_PER_ADDRESS = 3
+
+const consents = createCollection<ContactConsent>("contact-consents")
+
+const invitationLimiter = rateLimit({
+  interval: 24 * 60 * 60 * 1000,
+  limit: MAX_INVITATIONS_PER_USER,
+  uniqueTokenPerInterval: 5000,
+})
+
+async function mayInvite(userId: string, addressHash: string): Promise<boolean> {
+  try {
+    await invitationLimiter.check(MAX_INVITATIONS_PER_USER, `user:${userId}`)
+    await invitationLimiter.check(MAX_INVITATIONS_PER_ADDRESS, `address:${addressHash}`)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function appUrl(pathname: string, token: string): string {
+  const url = new URL(pathname, process.env.NEXT_PUBLIC_APP_URL || "https://narcoguard.com")
+  url.searchParams.set("token", token)
+  return url.toString()
+}
+
+/**
+ * Build the page a contact opens to accept or decline an invitation
+ * @param consent Consent record
+ * @returns Absolute URL
+ */
+export function buildContactConsentUrl(consent: Pick<ContactConsent, "id" | "inviteId">): string {
+  return appUrl("/contacts/consent", generateContactInviteToken(consent.id, consent.inviteId))
+}
+
+const generateOptOutToken = () => randomBytes(24).toString("base64url")
+
+/**
+ * Build the one-click link a contact opens to stop alerts
+ * @param consentId Consent record ID
+ * @returns Absolute URL, or undefined if the contact was removed
+ */
+export async function buildContactOptOutUrl(consentId: string): Promise<string | undefined> {
+  const consent = await consents.update(consentId, (current) =>
+    current.optOutToken ? current : { ...current, optOutToken: generateOptOutToken() },
+  )
+  return consent?.optOutToken ? appUrl("/contacts/opt-out", consent.optOutToken) : undefined
+}
+
+/**
+ * Work out which address a contact is alerted at: their phone for calls and texts, otherwise their email
+ * @param contact Saved contact
+ * @returns The channel and address, or null if the contact has no address for their method
+ */
+export function consentAddress(contact: ConsentContact): { channel: ConsentChannel; address: string } | null {
+  if (contact.notificationMethod === "email") {
+    return contact.email ? { channel: "email", address: contact.email } : null
+  }
+  return contact.phone ? { channel: "phone", address: contact.phone } : null
+}
+
+const hashAddress = (channel: ConsentChannel, address: string) =>
+  createHash("sha256").update(`${channel}:${address.toLowerCase()}`).digest("hex")
+
+function summarize(consent: ContactConsent): ContactConsentSummary {
+  const { status, channel, invitedAt, respondedAt, optedOutAt } = consent
+  return { status, channel, invitedAt, respondedAt, optedOutAt }
+}
+
+async function sendInvitation(consent: ContactConsent, address: string, userName: string): Promise<DeliveryStatus> {
+  const consentUrl = buildContactConsentUrl(consent)
+  const optOutUrl = appUrl("/contacts/opt-out", consent.optOutToken as string)
+
+  if (consent.channel === "email") {
+    return sendNotification("email", { to: address, ...buildContactInvitationEmail(userName, consentUrl, optOutUrl) })
+  }
+
+  return sendNotification("sms", {
+    to: address,
+    subject: "Narcoguard emergency contact invitation",
+    text: [
+      `${userName} asked for you to be their emergency contact on Narcoguard, an overdose prevention app.`,
+      "If they may be overdosing we'd alert you at this number with their location. Nothing is sent unless you accept.",
+      `Accept or decline: ${consentUrl}`,
+      `Stop alerts anytime: ${optOutUrl}`,
+    ].join(" "),
+  })
+}
+
+/**
+ * Bring consent in line with a user's saved contacts: invite contacts who are new or now reached at a
+ * different address, and forget contacts who were removed. Contacts who declined aren't asked again
+ * for the same address. Contacts over the invitation limits are left uninvited, to be invited on a
+ * later save.
+ * @param userId User ID
+ * @param userName Name the invitation gives for the user
+ * @param contacts The user's saved contacts
+ * @returns Consent status for each contact, by contact ID
+ * @throws "Too many invitations" once the rest are invited, if any contact was over the limits
+ */
+export async function syncContactConsents(
+  userId: string,
+  userName: string,
+  contacts: ConsentContact[],
+): Promise<Record<string, ContactConsentSummary>> {
+  const existing = await consents.list((consent) => consent.userId === userId)
+  const contactIds = new Set(contacts.map((contact) => contact.id))
+
+  for (const consent of existing) {
+    if (!contactIds.has(consent.contactId)) {
+      await consents.remove(consent.id)
+    }
+  }
+
+  const statuses: Record<string, ContactConsentSummary> = {}
+  let limited = 0
+  for (const contact of contacts) {
+    const target = consentAddress(contact)
+    if (!contact.id || !target) continue
+
+    const addressHash = hashAddress(target.channel, target.address)
+    const current = existing.find((consent) => consent.contactId === contact.id)
+    if (current && current.addressHash === addressHash) {
+      statuses[contact.id] = summarize(current)
+      continue
+    }
+
+    // Contacts who won't be alerted aren't invited until the user turns alerts on for them
+    if (contact.notify === false) continue
+
+    if (!(await mayInvite(userId, addressHash))) {
+      // Consent given for the old address doesn't carry over to the new one
+      if (current) await consents.remove(current.id)
+      limited++
+      continue
+    }
+
+    const now = new Date().toISOString()
+    const invited: ContactConsent = {
+      id: current?.id || randomUUID(),
+      userId,
+      contactId: contact.id,
+      channel: target.channel,
+      addressHash,
+      status: "pending",
+      inviteId: randomUUID(),
+      optOutToken: generateOptOutToken(),
+      invitedAt: now,
+      updatedAt: now,
+    }
+    if (current) {
+      await consents.update(current.id, () => invited)
+    } else {
+      await consents.insert(invited)
+    }
+
+    await sendInvitation(invited, target.address, userName)
+    statuses[contact.id] = summarize(invited)
+  }
+
+  if (limited > 0) {
+    throw new Error(
+      `Too many invitations sent recently. ${limited} contact${limited === 1 ? " was" : "s were"} not invited; save again later to invite them.`,
+    )
+  }
+
+  return statuses
+}
+
+/**
+ * Read consent status for a user's contacts
+ * @param userId User ID
+ * @returns Status by contact ID
+ */
+export async function getContactConsents(userId: string): Promise<Record<string, ContactConsentSummary>> {
+  const statuses: Record<string, ContactConsentSummary> = {}
+  for (const consent of await consents.list((candidate) => candidate.userId === userId)) {
+    statuses[consent.contactId] = summarize(consent)
+  }
+  return statuses
+}
+
+/**
+ * Send a pending contact their invitation again, with new links
+ * @param userId User ID
+ * @param userName Name the invitation gives for the user
+ * @param contact The saved contact
+ * @returns The contact's consent status
+ */
+export async function resendContactInvitation(
+  userId: string,
+  userName: string,
+  contact: ConsentContact,
+): Promise<ContactConsentSummary> {
+  const current = (await consents.list((consent) => consent.userId === userId && consent.contactId === contact.id))[0]
+  const target = consentAddress(contact)
+  if (!current || !target || current.addressHash !== hashAddress(target.channel, target.address)) {
+    throw new Error("Contact consent not found")
+  }
+  if (current.status !== "pending") {
+    throw new Error(`Contact has already ${current.status === "verified" ? "accepted" : "declined"}`)
+  }
+  if (
+    Date.now() - Date.parse(current.invitedAt) < INVITATION_RESEND_INTERVAL_MS ||
+    !(await mayInvite(userId, current.addressHash))
+  ) {
+    throw new Error("Invitation was sent recently")
+  }
+
+  const resent = await consents.update(current.id, (consent) => ({
+    ...consent,
+    inviteId: randomUUID(),
+    optOutToken: consent.optOutToken || generateOptOutToken(),
+    invitedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }))
+  await sendInvitation(resent!, target.address, userName)
+  return summarize(resent!)
+}
+
+/**
+ * Look up the invitation behind an invitation link
+ * @param token Signed invitation token
+ * @returns The consent record, or null if the link is invalid, expired or from an older invitation
+ */
+export async function findInvitation(token: string): Promise<ContactConsent | null> {
+  const payload = verifyContactInviteToken(token)
+  const consent = payload?.sub ? await consents.get(payload.sub) : null
+  return consent && consent.inviteId === payload.inviteId ? consent : null
+}
+
+/**
+ * Record a contact's answer to their invitation. A contact who declined or opted out can still accept
+ * from a current invitation link.
+ * @param token Signed invitation token
+ * @param accept Whether they agree to be alerted
+ * @returns The updated consent record, or null if the link is invalid
+ */
+export async function respondToInvitation(token: string, accept: boolean): Promise<ContactConsent | null> {
+  const consent = await findInvitation(token)
+  if (!consent) {
+    return null
+  }
+
+  const now = new Date().toISOString()
+  return consents.update(consent.id, (current) => ({
+    ...current,
+    status: accept ? "verified" : "declined",
+    respondedAt: now,
+    optedOutAt: accept ? undefined : current.optedOutAt,
+    updatedAt: now,
+  }))
+}
+
+/**
+ * Stop alerts to a contact from their opt-out link
+ * @param token Opt-out token from the link
+ * @returns The updated consent record, or null if the link is invalid or the contact was removed
+ */
+export async function optOutContact(token: string): Promise<ContactConsent | null> {
+  const [consent] = token ? await consents.list((candidate) => candidate.optOutToken === token) : []
+  if (!consent) {
+    return null
+  }
+
+  const now = new Date().toISOString()
+  return consents.update(consent.id, (current) =>
+    current.status === "declined" && current.optedOutAt
+      ? current
+      : { ...current, status: "declined", optedOutAt: now, updatedAt: now },
+  )
+}
+
+/**
+ * Keep only contacts who agreed to be alerted, each reachable only at the address they confirmed
+ * @param userId User ID
+ * @param contacts Contacts an alert would go to
+ * @returns Verified contacts, tagged with their consent ID for opt-out links
+ */
+export async function consentedContacts(userId: string, contacts: ConsentContact[]): Promise<IncidentContact[]> {
+  const verified = await consents.list((consent) => consent.userId === userId && consent.status === "verified")
+
+  return contacts.flatMap((contact) => {
+    const target = consentAddress(contact)
+    const consent = verified.find((candidate) => candidate.contactId === contact.id)
+    if (!target || !consent || consent.addressHash !== hashAddress(target.channel, target.address)) {
+      return []
+    }
+
+    return [
+      {
+        ...contact,
+        phone: target.channel === "phone" ? target.address : undefined,
+        email: target.channel === "email" ? target.address : undefined,
+        consentId: consent.id,
+      },
+    ]
+  })
+}
+
+/**
+ * Check that a contact hasn't opted out since an alert was raised
+ * @param consentId Consent record ID
+ * @returns Whether the contact still agrees to be alerted
+ */
+export async function isConsentVerified(consentId: string): Promise<boolean> {
+  return (await consents.get(consentId))?.status === "verified"
+}
@@ -0,0 +1,432 @@
+/**
+ * De-identification of records before they leave the server, following HIPAA Safe Harbor
+ *
+ * Each event type has a policy listing the fields that may go out and how each one is treated. Any
+ * field the policy doesn't list is dropped, so new fields stay private until someone decides otherwise.
+ * For the 18 Safe Harbor identifiers that means:
+ *
+ * - Names, contact details, record, account, licence, device and vehicle numbers, URLs, IP addresses,
+ *   biometrics and photos are dropped, and scrubbed out of any free text that is kept
+ * - Addresses become the first three digits of the ZIP code, or "000" where that area is too small
+ * - Coordinates are rounded to about 11 km
+ * - Dates are shifted by a fixed number of days per person, so intervals between their events survive
+ *   but the real dates don't; birth dates keep only the year, and ages over 89 become "90+"
+ * - User IDs become salted pseudonyms, stable across events so one person's events can be linked
+ *
+ * Pseudonyms and date shifts are keyed by ANALYTICS_PSEUDONYM_SALT, which must stay secret.
+ */
+
+import { createHmac, randomBytes } from "crypto"
+import type { AnalyticsEvent } from "./analytics"
+
+export type FieldRule =
+  // Send as is
+  | "keep"
+  | "drop"
+  // Salted pseudonym in place of an ID
+  | "pseudonym"
+  // First three digits of a ZIP code, from a ZIP or an address
+  | "zip3"
+  // Latitude or longitude rounded to COORDINATE_DECIMALS
+  | "coordinate"
+  // Date shifted by the subject's offset
+  | "date"
+  // Year only, for birth dates
+  | "year"
+  // Ages over 89 grouped as "90+"
+  | "age"
+  // Identifier fields dropped and identifiers in text removed, recursively
+  | "scrub"
+
+export interface DeidentificationPolicy {
+  // Rules by dotted path. "*" matches any one key, e.g. "properties.*"; the most specific rule wins.
+  fields: Record<string, FieldRule>
+  // Field whose raw value decides the date shift, before it's pseudonymized
+  subject?: string
+}
+
+// One decimal place is about 11 km, enough for regional trends without pointing at a home
+export const COORDINATE_DECIMALS = 1
+
+// Furthest a date is moved, in days either way
+export const MAX_DATE_SHIFT_DAYS = 182
+
+// Three-digit ZIP areas with 20,000 people or fewer (2000 census), which Safe Harbor reports as "000"
+export const RESTRICTED_ZIP3 = [
+  "036",
+  "059",
+  "063",
+  "102",
+  "203",
+  "556",
+  "692",
+  "790",
+  "821",
+  "823",
+  "830",
+  "831",
+  "878",
+  "879",
+  "884",
+  "890",
+  "893",
+]
+
+// Field names that hold one of the identifiers, compared without case, "_" or "-"
+const IDENTIFIER_FIELDS = new Set([
+  "name",
+  "firstname",
+  "lastname",
+  "fullname",
+  "username",
+  "email",
+  "phone",
+  "phonenumber",
+  "mobile",
+  "fax",
+  "ssn",
+  "mrn",
+  "medicalrecordnumber",
+  "healthplanid",
+  "beneficiaryid",
+  "account",
+  "accountnumber",
+  "license",
+  "licensenumber",
+  "certificate",
+  "vin",
+  "licenseplate",
+  "deviceid",
+  "serial",
+  "serialnumber",
+  "url",
+  "ip",
+  "ipaddress",
+  "useragent",
+  "address",
+  "street",
+  "city",
+  "county",
+  "fingerprint",
+  "voiceprint",
+  "photo",
+  "image",
+  "avatar",
+])
+
+// How "scrub" generalizes fields that can be kept in coarser form
+const GENERALIZED_FIELDS: Record<string, FieldRule> = {
+  zip: "zip3",
+  zipcode: "zip3",
+  postalcode: "zip3",
+  latitude: "coordinate",
+  longitude: "coordinate",
+  lat: "coordinate",
+  lng: "coordinate",
+  lon: "coordinate",
+  dob: "year",
+  birthdate: "year",
+  dateofbirth: "year",
+  age: "age",
+  userid: "pseudonym",
+}
+
+const TEXT_IDENTIFIERS: [RegExp, string][] = [
+  [/[^\s@]+@[^\s@]+\.[^\s@]+/g, "[email]"],
+  [/\bhttps?:\/\/\S+/gi, "[url]"],
+  [/\b\d{1,3}(\.\d{1,3}){3}\b/g, "[ip]"],
+  [/\b\d{3}-\d{2}-\d{4}\b/g, "[ssn]"],
+  [/\+?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g, "[phone]"],
+  // Record, account and other long numbers
+  [/\b\d{7,}\b/g, "[number]"],
+]
+
+const SUBJECT_EVENT_FIELDS: Record<string, FieldRule> = {
+  eventType: "keep",
+  timestamp: "date",
+  userId: "pseudonym",
+}
+
+export const DEIDENTIFICATION_POLICIES: Record<string, DeidentificationPolicy> = {
+  emergency: {
+    fields: {
+      ...SUBJECT_EVENT_FIELDS,
+      emergencyType: "keep",
+      "location.latitude": "coordinate",
+      "location.longitude": "coordinate",
+      "location.address": "zip3",
+      vitalSigns: "keep",
+      "deviceInfo.type": "keep",
+      "deviceInfo.model": "keep",
+      "deviceInfo.os": "keep",
+      "deviceInfo.appVersion": "keep",
+      responseTime: "keep",
+      outcome: "keep",
+      "properties.*": "scrub",
+    },
+  },
+  download: {
+    fields: {
+      eventType: "keep",
+      timestamp: "keep",
+      platform: "keep",
+      fileSize: "keep",
+      downloadType: "keep",
+    },
+  },
+  donation: {
+    fields: {
+      eventType: "keep",
+      timestamp: "keep",
+      amount: "keep",
+      currency: "keep",
+      donationType: "keep",
+      source: "keep",
+      "donor.organization": "keep",
+    },
+  },
+  registration: {
+    fields: { ...SUBJECT_EVENT_FIELDS, "properties.registrationType": "keep", "properties.*": "scrub" },
+  },
+  login: {
+    fields: { ...SUBJECT_EVENT_FIELDS, "properties.loginMethod": "keep" },
+  },
+  feature_usage: {
+    fields: { ...SUBJECT_EVENT_FIELDS, "properties.featureName": "keep", "properties.*": "scrub" },
+  },
+  performance: {
+    fields: {
+      eventType: "keep",
+      timestamp: "keep",
+      "properties.metricName": "keep",
+      "properties.metricValue": "keep",
+    },
+  },
+}
+
+// Event types without a policy of their own
+export const DEFAULT_DEIDENTIFICATION_POLICY: DeidentificationPolicy = {
+  fields: { ...SUBJECT_EVENT_FIELDS, "properties.*": "scrub" },
+}
+
+let devSalt: string | undefined
+
+function getSalt(): string {
+  const salt = process.env.ANALYTICS_PSEUDONYM_SALT
+  if (salt) {
+    return salt
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ANALYTICS_PSEUDONYM_SALT must be set in production")
+  }
+  if (!devSalt) {
+    console.warn("No ANALYTICS_PSEUDONYM_SALT configured; using a random salt, so pseudonyms change on restart")
+    devSalt = randomBytes(32).toString("hex")
+  }
+  return devSalt
+}
+
+function keyed(purpose: string, value: string): Buffer {
+  return createHmac("sha256", getSalt()).update(`${purpose}:${value}`).digest()
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[_-]/g, "")
+
+/**
+ * Replace an ID with a salted pseudonym
+ * @param id User or other record ID
+ * @returns Pseudonym, the same for the same ID and salt
+ */
+export function pseudonymize(id: string): string {
+  return `p_${keyed("pseudonym", id).toString("hex").slice(0, 32)}`
+}
+
+/**
+ * The number of days a subject's dates are moved by
+ * @param subject Raw subject ID
+ * @returns Between -MAX_DATE_SHIFT_DAYS and MAX_DATE_SHIFT_DAYS, never 0
+ */
+export function dateShiftDays(subject: string): number {
+  const n = keyed("date-shift", subject).readUInt32BE(0) % (2 * MAX_DATE_SHIFT_DAYS)
+  return n < MAX_DATE_SHIFT_DAYS ? -(n + 1) : n - MAX_DATE_SHIFT_DAYS + 1
+}
+
+/**
+ * Reduce a ZIP code, or the ZIP in an address, to its first three digits
+ * @param value ZIP code or address
+ * @returns Three digits, "000" for restricted areas, or null when there is no ZIP
+ */
+export function truncateZip(value: string): string | null {
+  const zips = value.match(/\b\d{5}(?:-\d{4})?\b/g)
+  if (!zips) {
+    return null
+  }
+  const zip3 = zips[zips.length - 1].slice(0, 3)
+  return RESTRICTED_ZIP3.includes(zip3) ? "000" : zip3
+}
+
+/**
+ * Round a latitude or longitude
+ * @param value Coordinate in degrees
+ * @returns Coordinate rounded to COORDINATE_DECIMALS places
+ */
+export function coarsenCoordinate(value: number): number {
+  const factor = 10 ** COORDINATE_DECIMALS
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Remove identifiers from free text
+ * @param text Text that may mention emails, phone numbers, URLs and the like
+ * @returns Text with each identifier replaced by a placeholder
+ */
+export function scrubText(text: string): string {
+  return TEXT_IDENTIFIERS.reduce((scrubbed, [pattern, placeholder]) => scrubbed.replace(pattern, placeholder), text)
+}
+
+// Returns undefined for values that should be left out
+function applyRule(rule: FieldRule, value: any, shiftDays: number | null): any {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  switch (rule) {
+    case "keep":
+      return value instanceof Date ? value.toISOString() : value
+    case "drop":
+      return undefined
+    case "pseudonym":
+      return pseudonymize(String(value))
+    case "zip3":
+      return truncateZip(String(value)) ?? undefined
+    case "coordinate":
+      return typeof value === "number" && Number.isFinite(value) ? coarsenCoordinate(value) : undefined
+    case "date": {
+      const date = new Date(value)
+      if (Number.isNaN(date.getTime())) return undefined
+      // Without a subject there's nothing to keep consistent, so each date gets its own shift
+      const days = shiftDays ?? dateShiftDays(randomBytes(8).toString("hex"))
+      return new Date(date.getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+    }
+    case "year": {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? undefined : date.getUTCFullYear()
+    }
+    case "age":
+      return typeof value === "number" && value > 89 ? "90+" : value
+    case "scrub":
+      return scrub(value, shiftDays)
+  }
+}
+
+function scrub(value: any, shiftDays: number | null): any {
+  if (typeof value === "string") {
+    return scrubText(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrub(item, shiftDays)).filter((item) => item !== undefined)
+  }
+  if (value instanceof Date) {
+    return applyRule("date", value, shiftDays)
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, any> = {}
+    for (const [key, nested] of Object.entries(value)) {
+      const output = scrubField(key, nested, shiftDays)
+      if (output !== undefined) {
+        result[key] = output
+      }
+    }
+    return result
+  }
+  return value
+}
+
+// Identifier fields are dropped or generalized by name before their values are scrubbed
+function scrubField(key: string, value: any, shiftDays: number | null): any {
+  const normalized = normalizeKey(key)
+  if (IDENTIFIER_FIELDS.has(normalized)) {
+    return undefined
+  }
+  const generalized = GENERALIZED_FIELDS[normalized]
+  return generalized ? applyRule(generalized, value, shiftDays) : scrub(value, shiftDays)
+}
+
+// Exact paths beat wildcards, and fewer wildcards beat more
+function findRule(fields: Record<string, FieldRule>, path: string[]): FieldRule | undefined {
+  let best: { rule: FieldRule; wildcards: number } | undefined
+
+  for (const [pattern, rule] of Object.entries(fields)) {
+    const segments = pattern.split(".")
+    if (segments.length !== path.length) continue
+    if (!segments.every((segment, index) => segment === "*" || segment === path[index])) continue
+
+    const wildcards = segments.filter((segment) => segment === "*").length
+    if (!best || wildcards < best.wildcards) {
+      best = { rule, wildcards }
+    }
+  }
+
+  return best?.rule
+}
+
+function hasRulesBelow(fields: Record<string, FieldRule>, path: string[]): boolean {
+  return Object.keys(fields).some((pattern) => {
+    const segments = pattern.split(".")
+    return (
+      segments.length > path.length &&
+      path.every((segment, index) => segments[index] === "*" || segments[index] === segment)
+    )
+  })
+}
+
+function applyPolicy(
+  value: Record<string, any>,
+  fields: Record<string, FieldRule>,
+  path: string[],
+  shiftDays: number | null,
+): Record<string, any> {
+  const result: Record<string, any> = {}
+
+  for (const [key, nested] of Object.entries(value)) {
+    const nestedPath = [...path, key]
+    const rule = findRule(fields, nestedPath)
+    let output: any
+
+    if (rule === "scrub") {
+      output = scrubField(key, nested, shiftDays)
+    } else if (rule) {
+      output = applyRule(rule, nested, shiftDays)
+    } else if (nested && typeof nested === "object" && !Array.isArray(nested) && hasRulesBelow(fields, nestedPath)) {
+      output = applyPolicy(nested, fields, nestedPath, shiftDays)
+      if (Object.keys(output).length === 0) output = undefined
+    }
+
+    if (output !== undefined) {
+      result[key] = output
+    }
+  }
+
+  return result
+}
+
+/**
+ * De-identify a record according to a policy
+ * @param record Record to de-identify
+ * @param policy Which fields may go out and how
+ * @returns A new record holding only what the policy allows, ready to serialize
+ */
+export function deidentify(record: Record<string, any>, policy: DeidentificationPolicy): Record<string, any> {
+  const subject = record[policy.subject || "userId"]
+  const shiftDays = subject ? dateShiftDays(String(subject)) : null
+  return applyPolicy(record, policy.fields, [], shiftDays)
+}
+
+/**
+ * De-identify an analytics event with the policy for its type
+ * @param event Analytics event
+ * @returns The de-identified event
+ */
+export function deidentifyEvent(event: AnalyticsEvent): Record<string, any> {
+  return deidentify(event, DEIDENTIFICATION_POLICIES[event.eventType] || DEFAULT_DEIDENTIFICATION_POLICY)
+}
@@ -0,0 +1,357 @@
+/**
+ * Overdose detection engine
+ *
+ * Scores a stream of vitals samples and turns it into a risk level. A level is only entered once
+ * the score has held for several consecutive samples, and only left once it has stayed below a
+ * lower exit score, so a single noisy reading neither raises nor clears an alert. Every result
+ * carries the per-signal reasons behind it.
+ *
+ * On top of the individual signals, a composite respiratory-depression score looks for the opioid
+ * overdose pattern: slowed breathing, falling SpO2 and bradycardia together. Readings that are only
+ * mildly off on their own can add up to a critical result when they move together this way.
+ *
+ * Weights decide how far warnings add up, but any one signal in its critical range is enough on its
+ * own to reach critical, whatever its weight.
+ *
+ * This module is pure TypeScript with no browser or Node dependencies, so the same detector runs
+ * in the health monitor and in API routes.
+ */
+
+export type RiskLevel = "normal" | "warning" | "critical"
+
+export type VitalSignal = "heartRate" | "oxygenLevel" | "respiratoryRate" | "systolic" | "diastolic" | "temperature"
+
+export interface VitalsSample {
+  timestamp: number
+  heartRate?: number
+  oxygenLevel?: number
+  respiratoryRate?: number
+  bloodPressure?: { systolic?: number; diastolic?: number }
+  temperature?: number
+}
+
+export interface SignalRange {
+  min?: number
+  max?: number
+}
+
+export interface SignalRule {
+  weight: number
+  warning: SignalRange
+  critical: SignalRange
+}
+
+// A component scales from 0 at its onset value to 1 at its severe value
+export interface RespiratoryComponent {
+  onset: number
+  severe: number
+  weight: number
+}
+
+export interface RespiratoryDepressionRule {
+  weight: number
+  // Composite score (0-1) at which the pattern counts as a warning or critical reason
+  warning: number
+  critical: number
+  components: Record<"respiratoryRate" | "oxygenLevel" | "heartRate", RespiratoryComponent>
+}
+
+export interface DetectionConfig {
+  signals: Record<VitalSignal, SignalRule>
+  respiratoryDepression: RespiratoryDepressionRule
+  // Sample score needed to enter a level
+  enterScore: { warning: number; critical: number }
+  // Sample score a level is held until; lower than the enter score so the level doesn't flap
+  exitScore: { warning: number; critical: number }
+  // Consecutive samples at or above the enter score before a level is entered
+  sustainSamples: { warning: number; critical: number }
+  // Consecutive samples below the exit score before stepping down
+  recoverySamples: number
+  // A longer gap between samples means the readings are stale and the run starts again
+  maxSampleGapMs: number
+}
+
+export interface DetectionReason {
+  signal: VitalSignal | "respiratoryDepression"
+  value: number
+  level: Exclude<RiskLevel, "normal">
+  bound: "min" | "max"
+  limit: number
+  contribution: number
+}
+
+export interface DetectionState {
+  level: RiskLevel
+  since?: number
+  lastTimestamp?: number
+  // Consecutive samples supporting each level, and consecutive samples below the current level's exit score
+  streaks: { warning: number; critical: number; recovery: number }
+}
+
+export interface DetectionResult {
+  level: RiskLevel
+  previousLevel: RiskLevel
+  changed: boolean
+  score: number
+  reasons: DetectionReason[]
+  trace: string[]
+  state: DetectionState
+}
+
+// Per-level scores for a signal outside its range, before weighting
+const LEVEL_SCORES = { warning: 0.5, critical: 1 }
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  signals: {
+    oxygenLevel: { weight: 1, warning: { min: 94 }, critical: { min: 90 } },
+    respiratoryRate: { weight: 1, warning: { min: 10, max: 24 }, critical: { min: 8, max: 30 } },
+    // Exercise can hold the heart rate well above 120, so only a rate exercise doesn't reach is critical alone
+    heartRate: { weight: 0.7, warning: { min: 55, max: 100 }, critical: { min: 40, max: 145 } },
+    systolic: { weight: 0.3, warning: { max: 140 }, critical: { max: 160 } },
+    diastolic: { weight: 0.3, warning: { max: 90 }, critical: { max: 100 } },
+    temperature: { weight: 0.3, warning: { min: 97, max: 99.5 }, critical: { min: 96, max: 101 } },
+  },
+  respiratoryDepression: {
+    weight: 1,
+    warning: 0.25,
+    critical: 0.5,
+    components: {
+      respiratoryRate: { onset: 12, severe: 6, weight: 0.45 },
+      oxygenLevel: { onset: 95, severe: 85, weight: 0.4 },
+      heartRate: { onset: 60, severe: 40, weight: 0.15 },
+    },
+  },
+  enterScore: { warning: 0.3, critical: 1 },
+  exitScore: { warning: 0.15, critical: 0.7 },
+  sustainSamples: { warning: 3, critical: 2 },
+  recoverySamples: 3,
+  maxSampleGapMs: 30 * 1000,
+}
+
+export const INITIAL_DETECTION_STATE: DetectionState = {
+  level: "normal",
+  streaks: { warning: 0, critical: 0, recovery: 0 },
+}
+
+function readSignal(sample: VitalsSample, signal: VitalSignal): number | undefined {
+  switch (signal) {
+    case "systolic":
+      return sample.bloodPressure?.systolic
+    case "diastolic":
+      return sample.bloodPressure?.diastolic
+    default:
+      return sample[signal]
+  }
+}
+
+function outsideRange(value: number, range: SignalRange): { bound: "min" | "max"; limit: number } | null {
+  if (range.min !== undefined && value < range.min) {
+    return { bound: "min", limit: range.min }
+  }
+  if (range.max !== undefined && value > range.max) {
+    return { bound: "max", limit: range.max }
+  }
+  return null
+}
+
+/**
+ * Score how closely a sample matches opioid respiratory depression
+ * Missing signals count as zero, so the score can only be high when breathing or SpO2 is reported.
+ * @param sample Vitals sample
+ * @param rule Respiratory depression rule
+ * @returns Composite score between 0 and 1
+ */
+export function scoreRespiratoryDepression(
+  sample: VitalsSample,
+  rule: RespiratoryDepressionRule = DEFAULT_DETECTION_CONFIG.respiratoryDepression,
+): number {
+  let score = 0
+
+  for (const [signal, component] of Object.entries(rule.components) as [VitalSignal, RespiratoryComponent][]) {
+    const value = readSignal(sample, signal)
+    if (value === undefined || value === null || Number.isNaN(value)) {
+      continue
+    }
+
+    const severity = (component.onset - value) / (component.onset - component.severe)
+    score += component.weight * Math.min(1, Math.max(0, severity))
+  }
+
+  return Math.round(score * 100) / 100
+}
+
+/**
+ * Score a single sample against the signal rules
+ * @param sample Vitals sample
+ * @param config Detection configuration
+ * @returns Weighted score and the signals that contributed to it
+ */
+export function scoreSample(
+  sample: VitalsSample,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+): { score: number; reasons: DetectionReason[] } {
+  const reasons: DetectionReason[] = []
+
+  for (const [signal, rule] of Object.entries(config.signals) as [VitalSignal, SignalRule][]) {
+    const value = readSignal(sample, signal)
+    if (value === undefined || value === null || Number.isNaN(value)) {
+      continue
+    }
+
+    const critical = outsideRange(value, rule.critical)
+    const warning = critical ? null : outsideRange(value, rule.warning)
+    const breach = critical || warning
+    if (!breach) {
+      continue
+    }
+
+    const level = critical ? "critical" : "warning"
+    reasons.push({ signal, value, level, ...breach, contribution: rule.weight * LEVEL_SCORES[level] })
+  }
+
+  const depression = config.respiratoryDepression
+  const depressionScore = scoreRespiratoryDepression(sample, depression)
+  if (depressionScore >= depression.warning) {
+    const level = depressionScore >= depression.critical ? "critical" : "warning"
+    reasons.push({
+      signal: "respiratoryDepression",
+      value: depressionScore,
+      level,
+      bound: "max",
+      limit: depression[level],
+      contribution: depression.weight * LEVEL_SCORES[level],
+    })
+  }
+
+  // Round away floating point noise so scores compare cleanly against thresholds
+  const score = Math.round(reasons.reduce((total, reason) => total + reason.contribution, 0) * 1000) / 1000
+  return { score, reasons: reasons.sort((a, b) => b.contribution - a.contribution) }
+}
+
+/**
+ * Describe a reason in plain words
+ * @param reason Detection reason
+ * @returns Human-readable explanation
+ */
+export function describeReason(reason: DetectionReason): string {
+  const direction = reason.bound === "min" ? "below" : "above"
+  return `${reason.signal} ${reason.value} ${direction} ${reason.level} ${reason.bound} ${reason.limit} (+${reason.contribution})`
+}
+
+/**
+ * Advance the detector by one sample
+ * @param state Detector state after the previous sample
+ * @param sample New vitals sample
+ * @param config Detection configuration
+ * @returns Risk level, reasons and the next state
+ */
+export function evaluateSample(
+  state: DetectionState,
+  sample: VitalsSample,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+): DetectionResult {
+  const { score, reasons } = scoreSample(sample, config)
+  const trace = reasons.map(describeReason)
+  trace.push(`score ${score}`)
+
+  let streaks = { ...state.streaks }
+  if (state.lastTimestamp !== undefined && sample.timestamp - state.lastTimestamp > config.maxSampleGapMs) {
+    streaks = { warning: 0, critical: 0, recovery: 0 }
+    trace.push(`gap of ${sample.timestamp - state.lastTimestamp}ms since the last sample, streaks reset`)
+  }
+
+  const criticalBreach = reasons.some((reason) => reason.level === "critical")
+  streaks.critical = score >= config.enterScore.critical || criticalBreach ? streaks.critical + 1 : 0
+  streaks.warning = score >= config.enterScore.warning ? streaks.warning + 1 : 0
+
+  let level = state.level
+
+  // Step up as soon as a higher level has been sustained
+  if (level !== "critical" && streaks.critical >= config.sustainSamples.critical) {
+    level = "critical"
+    trace.push(`critical sustained for ${streaks.critical} samples`)
+  } else if (level === "normal" && streaks.warning >= config.sustainSamples.warning) {
+    level = "warning"
+    trace.push(`warning sustained for ${streaks.warning} samples`)
+  }
+
+  // Step down only after the score has stayed under the exit score for long enough
+  if (level === state.level && level !== "normal") {
+    const exitScore = config.exitScore[level]
+    // Critical holds while any signal is still in its critical range
+    const holding = score >= exitScore || (level === "critical" && criticalBreach)
+    streaks.recovery = holding ? 0 : streaks.recovery + 1
+
+    if (streaks.recovery >= config.recoverySamples) {
+      level = level === "critical" && score >= config.exitScore.warning ? "warning" : "normal"
+      trace.push(`below ${state.level} exit score ${exitScore} for ${streaks.recovery} samples`)
+    } else if (streaks.recovery > 0) {
+      trace.push(`holding ${level}: ${streaks.recovery}/${config.recoverySamples} samples below exit score ${exitScore}`)
+    }
+  }
+
+  if (level !== state.level) {
+    streaks.recovery = 0
+  }
+
+  const changed = level !== state.level
+  return {
+    level,
+    previousLevel: state.level,
+    changed,
+    score,
+    reasons,
+    trace,
+    state: {
+      level,
+      since: changed ? sample.timestamp : state.since,
+      lastTimestamp: sample.timestamp,
+      streaks,
+    },
+  }
+}
+
+/**
+ * Run a whole stream of samples through the detector
+ * @param samples Samples in time order
+ * @param config Detection configuration
+ * @param state State to start from
+ * @returns The result for every sample
+ */
+export function detectRisk(
+  samples: VitalsSample[],
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  state: DetectionState = INITIAL_DETECTION_STATE,
+): DetectionResult[] {
+  const results: DetectionResult[] = []
+  let current = state
+
+  for (const sample of samples) {
+    const result = evaluateSample(current, sample, config)
+    results.push(result)
+    current = result.state
+  }
+
+  return results
+}
+
+/**
+ * Create a stateful detector that is fed one sample at a time
+ * @param config Detection configuration
+ * @returns Detector with push and reset
+ */
+export function createDetector(config: DetectionConfig = DEFAULT_DETECTION_CONFIG) {
+  let state = INITIAL_DETECTION_STATE
+
+  return {
+    push: (sample: VitalsSample): DetectionResult => {
+      const result = evaluateSample(state, sample, config)
+      state = result.state
+      return result
+    },
+    reset: () => {
+      state = INITIAL_DETECTION_STATE
+    },
+    getState: () => state,
+  }
+}
@@ -241,6 +241,96 @@ For support, please contact narcoguard607@gmail.com
   })
 }
 
+/**
+ * Build the subject and body of a magic sign-in link email
+ */
+export function buildMagicLinkEmail(signInUrl: string): { subject: string; html: string; text: string } {
+  const subject = "Your Narcoguard sign-in link"
+
+  const html = emailTemplate(`
+    <h2 style="color: #1f2937; margin-bottom: 20px;">Sign in to Narcoguard</h2>
+    
+    <p>Use the button below to sign in. No password needed.</p>
+    
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${signInUrl}" class="button">Sign in to Narcoguard</a>
+    </div>
+    
+    <div class="warning">
+      <p style="margin: 0; font-weight: 600; color: #92400e;">⚠️ Important Security Notice</p>
+      <p style="margin: 5px 0 0 0; font-size: 14px; color: #92400e;">
+        This link will expire in 15 minutes and can only be used once. Don't forward it to anyone.
+        If you didn't ask to sign in, you can ignore this email.
+      </p>
+    </div>
+  `)
+
+  const text = `
+Sign in to Narcoguard
+
+Use this link to sign in. No password needed:
+
+${signInUrl}
+
+This link will expire in 15 minutes and can only be used once. Don't forward it to anyone. If you didn't ask to sign in, you can ignore this email.
+
+© ${new Date().getFullYear()} Narcoguard. All rights reserved.
+  `
+
+  return { subject, html, text }
+}
+
+// Names typed by users end up in emails to other people, so they're escaped before going into HTML
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+/**
+ * Build the subject and body of an invitation to be someone's emergency contact
+ */
+export function buildContactInvitationEmail(
+  userName: string,
+  consentUrl: string,
+  optOutUrl: string,
+): { subject: string; html: string; text: string } {
+  const subject = `${userName} would like you as their emergency contact on Narcoguard`
+  const name = escapeHtml(userName)
+
+  const html = emailTemplate(`
+    <h2 style="color: #1f2937; margin-bottom: 20px;">Will you be ${name}'s emergency contact?</h2>
+    
+    <p>${name} uses Narcoguard, an overdose prevention app that watches for signs of an overdose and calls for help when it finds them.</p>
+    
+    <p>They've asked for you to be alerted at this email address if they may be overdosing, with their location, so you can call 911 and go to them. We won't email you for anything else.</p>
+    
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${consentUrl}" class="button">Accept or decline</a>
+    </div>
+    
+    <div class="warning">
+      <p style="margin: 0; font-size: 14px; color: #92400e;">
+        We won't send you any alerts unless you accept. You can stop alerts at any time:
+        <a href="${optOutUrl}">stop alerts from ${name}</a>.
+      </p>
+    </div>
+  `)
+
+  const text = `
+Will you be ${userName}'s emergency contact?
+
+${userName} uses Narcoguard, an overdose prevention app that watches for signs of an overdose and calls for help when it finds them.
+
+They've asked for you to be alerted at this email address if they may be overdosing, with their location, so you can call 911 and go to them. We won't email you for anything else.
+
+Accept or decline: ${consentUrl}
+
+We won't send you any alerts unless you accept. You can stop alerts at any time: ${optOutUrl}
+
+© ${new Date().getFullYear()} Narcoguard. All rights reserved.
+  `
+
+  return { subject, html, text }
+}
+
 /**
  * Send a contact form submission confirmation email
  */
@@ -287,27 +377,32 @@ Narcoguard is a life-saving application designed to prevent overdose fatalities.
 }
 
 /**
- * Send an emergency notification email
+ * Build the subject and body of an emergency notification email
  */
-export async function sendEmergencyEmail(
-  email: string,
+export function buildEmergencyEmail(
   userName: string,
   location: string,
   emergencyType: string,
-): Promise<void> {
+  acknowledgeUrl?: string,
+  naloxone?: string,
+  optOutUrl?: string,
+): { subject: string; html: string; text: string } {
   const subject = "🚨 EMERGENCY ALERT - Narcoguard User Needs Help"
+  const name = escapeHtml(userName)
+  const place = escapeHtml(location)
 
   const html = emailTemplate(`
     <div style="background-color: #fef2f2; border: 2px solid #ef4444; padding: 20px; border-radius: 6px; margin-bottom: 20px;">
       <h2 style="color: #dc2626; margin-top: 0;">🚨 EMERGENCY ALERT</h2>
       <p style="color: #dc2626; font-weight: 600; margin-bottom: 0;">
-        ${userName} may be experiencing a ${emergencyType} and needs immediate help.
+        ${name} may be experiencing a ${escapeHtml(emergencyType)} and needs immediate help.
       </p>
     </div>
     
     <div style="background-color: #f3f4f6; padding: 15px; border-radius: 6px; margin: 20px 0;">
-      <p style="margin: 0;"><strong>Location:</strong> ${location}</p>
+      <p style="margin: 0;"><strong>Location:</strong> ${place}</p>
       <p style="margin: 10px 0 0 0;"><strong>Time:</strong> ${new Date().toLocaleString()}</p>
+      ${naloxone ? `<p style="margin: 10px 0 0 0;"><strong>${escapeHtml(naloxone)}</strong></p>` : ''}
     </div>
     
     <div style="background-color: #fef3cd; border: 1px solid #fde047; padding: 15px; border-radius: 6px; margin: 20px 0;">
@@ -316,6 +411,16 @@ export async function sendEmergencyEmail(
         Please contact emergency services (911) and provide assistance as soon as possible.
       </p>
     </div>
+    
+    ${acknowledgeUrl ? `
+      <div style="text-align: center; margin: 30px 0;">
+        <p>Let us know you're responding so we don't escalate further:</p>
+        <a href="${escapeHtml(acknowledgeUrl)}" class="button">I'm Responding</a>
+      </div>
+    ` : ''}
+    ${optOutUrl ? `
+      <p style="font-size: 12px; color: #6b7280;">You're getting this because you agreed to be an emergency contact. <a href="${escapeHtml(optOutUrl)}">Stop these alerts</a></p>
+    ` : ''}
   `)
 
   const text = `
@@ -325,15 +430,29 @@ This is an emergency alert from Narcoguard. ${userName} may be experiencing a ${
 
 Location: ${location}
 Time: ${new Date().toLocaleString()}
-
+${naloxone ? `${naloxone}\n` : ''}
 ⚡ IMMEDIATE ACTION REQUIRED
 Please contact emergency services (911) and provide assistance as soon as possible.
-
+${acknowledgeUrl ? `\nLet us know you're responding so we don't escalate further: ${acknowledgeUrl}\n` : ''}${optOutUrl ? `\nStop these alerts: ${optOutUrl}\n` : ''}
 Narcoguard is a life-saving application designed to prevent overdose fatalities. Our mission is to save lives and help people recover from addiction.
 
 © ${new Date().getFullYear()} Narcoguard. All rights reserved.
   `
 
+  return { subject, html, text }
+}
+
+/**
+ * Send an emergency notification email
+ */
+export async function sendEmergencyEmail(
+  email: string,
+  userName: string,
+  location: string,
+  emergencyType: string,
+): Promise<void> {
+  const { subject, html, text } = buildEmergencyEmail(userName, location, emergencyType)
+
   // Send the email
   await sendEmail({
     to: email,
@@ -341,4 +460,4 @@ Narcoguard is a life-saving application designed to prevent overdose fatalities.
     html,
     text,
   })
-}
\ No newline at end of file
+}
@@ -0,0 +1,262 @@
+/**
+ * Emergency contacts kept on the server
+ *
+ * Each user's contacts and alert preferences are one record, encrypted (lib/encryption) and bound to
+ * the user. Phone numbers are stored in E.164 form and emails lowercased, so alerts go out to numbers
+ * the SMS and voice providers accept. Contacts are only alerted once they've agreed to be
+ * (lib/contact-consent).
+ *
+ * Every save bumps the version, and a save must name the version it was based on. An edit made from
+ * a stale copy (another device, or the app's offline cache) is refused rather than overwriting newer
+ * contacts; the app fetches the current version and tries again.
+ */
+
+import { randomUUID } from "crypto"
+import { consentedContacts } from "./contact-consent"
+import { decryptEnvelope, encryptEnvelope, reencryptEnvelope } from "./encryption"
+import type { IncidentContact } from "./incidents"
+import { createCollection } from "./store"
+
+export type ContactMethod = "call" | "text" | "email"
+export type ContactPriority = "primary" | "secondary"
+
+export interface EmergencyContact {
+  id: string
+  name: string
+  // E.164, e.g. +15551234567
+  phone?: string
+  email?: string
+  notify: boolean
+  notificationMethod: ContactMethod
+  priority: ContactPriority
+}
+
+export interface EmergencyContactSettings {
+  contacts: EmergencyContact[]
+  allowHeroNetwork: boolean
+  shareVitalsWithHeroes: boolean
+  escalationWaitSeconds?: number
+}
+
+export interface EmergencyContactsVersion {
+  settings: EmergencyContactSettings
+  // 0 until the user first saves their contacts
+  version: number
+  updatedAt?: string
+}
+
+interface StoredEmergencyContacts {
+  // User ID
+  id: string
+  version: number
+  // Encrypted EmergencyContactSettings
+  data: string
+  updatedAt: string
+}
+
+export const CONTACT_METHODS: ContactMethod[] = ["call", "text", "email"]
+export const MAX_EMERGENCY_CONTACTS = 20
+export const MAX_ESCALATION_WAIT_SECONDS = 60 * 60
+
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MAX_NAME_LENGTH = 100
+
+const records = createCollection<StoredEmergencyContacts>("emergency-contacts")
+
+const contactsContext = (userId: string) => `contacts:${userId}`
+
+const emptySettings = (): EmergencyContactSettings => ({
+  contacts: [],
+  allowHeroNetwork: false,
+  shareVitalsWithHeroes: false,
+})
+
+/**
+ * Put a phone number into E.164 form, dropping spaces, dashes, dots and brackets
+ * @param phone Phone number as typed
+ * @returns The E.164 number, or null if it isn't one
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  const compact = phone.replace(/[\s().-]/g, "").replace(/^00/, "+")
+  return E164_PATTERN.test(compact) ? compact : null
+}
+
+function parseContact(value: any, index: number, seenIds: Set<string>): EmergencyContact {
+  const invalid = (reason: string) => new Error(`Invalid contact ${index + 1}: ${reason}`)
+  const text = (field: string) => (typeof value?.[field] === "string" ? value[field].trim() : "")
+
+  const name = text("name")
+  if (!name) throw invalid("name is required")
+  if (name.length > MAX_NAME_LENGTH) throw invalid("name is too long")
+
+  const phone = text("phone") ? normalizePhoneNumber(text("phone")) : undefined
+  if (phone === null) throw invalid("phone must be in international format, e.g. +15551234567")
+
+  const email = text("email") ? text("email").toLowerCase() : undefined
+  if (email && !EMAIL_PATTERN.test(email)) throw invalid("email is not a valid address")
+
+  if (!phone && !email) throw invalid("a phone number or email is required")
+
+  const notificationMethod: ContactMethod = value.notificationMethod ?? (phone ? "call" : "email")
+  if (!CONTACT_METHODS.includes(notificationMethod)) throw invalid("notificationMethod must be call, text or email")
+  if (notificationMethod === "email" ? !email : !phone) {
+    throw invalid(
+      `${notificationMethod === "email" ? "an email" : "a phone number"} is needed to ${notificationMethod}`,
+    )
+  }
+
+  // Contacts keep their IDs across saves; new ones (and copies) get a fresh one
+  const id = typeof value.id === "string" && value.id && !seenIds.has(value.id) ? value.id : randomUUID()
+  seenIds.add(id)
+
+  return {
+    id,
+    name,
+    phone,
+    email,
+    notify: value.notify === true,
+    notificationMethod,
+    priority: value.priority === "secondary" ? "secondary" : "primary",
+  }
+}
+
+/**
+ * Check contacts and alert preferences from the app
+ * @param value Request body
+ * @returns Validated settings with normalized phone numbers and emails
+ */
+export function parseEmergencyContactSettings(value: any): EmergencyContactSettings {
+  if (!Array.isArray(value?.contacts)) {
+    throw new Error("Invalid contacts: contacts must be a list")
+  }
+  if (value.contacts.length > MAX_EMERGENCY_CONTACTS) {
+    throw new Error(`Invalid contacts: no more than ${MAX_EMERGENCY_CONTACTS} contacts`)
+  }
+
+  const escalationWaitSeconds =
+    value.escalationWaitSeconds === undefined ? undefined : Number(value.escalationWaitSeconds)
+  if (
+    escalationWaitSeconds !== undefined &&
+    !(
+      Number.isInteger(escalationWaitSeconds) &&
+      escalationWaitSeconds > 0 &&
+      escalationWaitSeconds <= MAX_ESCALATION_WAIT_SECONDS
+    )
+  ) {
+    throw new Error(`Invalid contacts: escalationWaitSeconds must be between 1 and ${MAX_ESCALATION_WAIT_SECONDS}`)
+  }
+
+  const seenIds = new Set<string>()
+  const allowHeroNetwork = value.allowHeroNetwork === true
+
+  return {
+    contacts: value.contacts.map((contact: any, index: number) => parseContact(contact, index, seenIds)),
+    allowHeroNetwork,
+    // Only heroes the user lets in can be shown their vitals
+    shareVitalsWithHeroes: allowHeroNetwork && value.shareVitalsWithHeroes === true,
+    escalationWaitSeconds,
+  }
+}
+
+/**
+ * Read a user's contacts and alert preferences
+ * @param userId User ID
+ * @returns The current version, or empty settings at version 0 if nothing has been saved
+ */
+export async function getEmergencyContacts(userId: string): Promise<EmergencyContactsVersion> {
+  const stored = await records.get(userId)
+  if (!stored) {
+    return { settings: emptySettings(), version: 0 }
+  }
+
+  return {
+    settings: JSON.parse(await decryptEnvelope(stored.data, contactsContext(userId))),
+    version: stored.version,
+    updatedAt: stored.updatedAt,
+  }
+}
+
+/**
+ * Save a new version of a user's contacts and alert preferences
+ * @param userId User ID
+ * @param settings Validated settings, from parseEmergencyContactSettings
+ * @param baseVersion The version the edit was made from, 0 for a first save
+ * @returns The saved version
+ */
+export async function saveEmergencyContacts(
+  userId: string,
+  settings: EmergencyContactSettings,
+  baseVersion: number,
+): Promise<EmergencyContactsVersion> {
+  const data = await encryptEnvelope(JSON.stringify(settings), contactsContext(userId))
+  const updatedAt = new Date().toISOString()
+  const next = { id: userId, version: baseVersion + 1, data, updatedAt }
+
+  // Only replaced if nobody saved in between; the version is checked inside the collection's write queue
+  const saved =
+    (await records.update(userId, (current) => (current.version === baseVersion ? next : current))) ||
+    (baseVersion === 0 ? await records.insert(next) : null)
+
+  if (!saved || saved.data !== data) {
+    throw new Error(`Contacts have changed since version ${baseVersion}`)
+  }
+
+  return { settings, version: saved.version, updatedAt }
+}
+
+/**
+ * Move every user's saved contacts onto the current master key
+ * @returns How many records were rewritten
+ */
+export async function reencryptEmergencyContacts(): Promise<number> {
+  let rewritten = 0
+
+  for (const record of await records.list()) {
+    const data = await reencryptEnvelope(record.data, contactsContext(record.id))
+    if (!data) continue
+
+    // Only write if the contacts weren't saved again in the meantime
+    await records.update(record.id, (current) => (current.data === record.data ? { ...current, data } : current))
+    rewritten++
+  }
+
+  return rewritten
+}
+
+/**
+ * The contacts and preferences an alert goes out with: the ones saved on the server, or the copy the
+ * app sent when the user hasn't saved any yet or the saved ones can't be read. An emergency is never
+ * held up by storage trouble. Either way, only contacts who agreed to be alerted are kept.
+ * @param userId User raising the alert
+ * @param sent Contacts and preferences from the request body
+ * @returns Settings to alert with
+ */
+export async function contactsForAlert(
+  userId: string,
+  sent: any,
+): Promise<Omit<EmergencyContactSettings, "contacts"> & { contacts: IncidentContact[] }> {
+  let settings: Omit<EmergencyContactSettings, "contacts"> & { contacts: IncidentContact[] } = {
+    contacts: Array.isArray(sent?.contacts) ? sent.contacts : [],
+    allowHeroNetwork: sent?.allowHeroNetwork === true,
+    shareVitalsWithHeroes: sent?.shareVitalsWithHeroes === true,
+    escalationWaitSeconds: Number(sent?.escalationWaitSeconds) || undefined,
+  }
+
+  try {
+    const saved = await getEmergencyContacts(userId)
+    if (saved.version > 0) {
+      settings = saved.settings
+    }
+  } catch (error) {
+    console.error("Failed to read saved emergency contacts, using the app's copy:", error)
+  }
+
+  try {
+    return { ...settings, contacts: await consentedContacts(userId, settings.contacts) }
+  } catch (error) {
+    // Without consent records nobody can be alerted, but heroes and emergency services still can
+    console.error("Failed to check emergency contact consent:", error)
+    return { ...settings, contacts: [] }
+  }
+}
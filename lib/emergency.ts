@@ -0,0 +1,90 @@
+/**
+ * Emergency orchestration: turns a detected emergency into an incident and alerts contacts
+ *
+ * An emergency raised with a countdown gives the user a chance to cancel. The countdown's end is held
+ * by the server-side scheduler, so the alert still goes out if the page that started it has closed.
+ */
+
+import { logEmergencyEvent } from "./analytics"
+import { getEscalationPolicy, startEscalation } from "./escalation"
+import {
+  createIncident,
+  getIncident,
+  transitionIncident,
+  type Incident,
+  type IncidentContact,
+  type IncidentLocation,
+  type IncidentVitalSigns,
+} from "./incidents"
+import { scheduleJob } from "./scheduler"
+
+export const COUNTDOWN_JOB = "emergency.countdown"
+
+export interface EmergencyRequest {
+  userId: string
+  userName?: string
+  emergencyType: string
+  location?: IncidentLocation
+  vitalSigns?: IncidentVitalSigns
+  contacts?: IncidentContact[]
+  countdownSeconds?: number
+  escalationWaitSeconds?: number
+  allowHeroNetwork?: boolean
+  shareVitalsWithHeroes?: boolean
+}
+
+/**
+ * Create an incident for an emergency and either start its countdown or dispatch it
+ * @param request Emergency details
+ * @returns The incident after it has been created and advanced
+ */
+export async function raiseEmergency(request: EmergencyRequest): Promise<Incident> {
+  const incident = await createIncident({
+    ...request,
+    escalation: { policy: getEscalationPolicy(request.escalationWaitSeconds), stepIndex: -1 },
+  })
+
+  if (request.countdownSeconds && request.countdownSeconds > 0) {
+    const counting = await transitionIncident(incident.id, "countdown", {
+      actor: "system",
+      note: `Countdown of ${request.countdownSeconds}s started`,
+    })
+    await scheduleJob(COUNTDOWN_JOB, new Date(Date.now() + request.countdownSeconds * 1000), {
+      incidentId: incident.id,
+    })
+    return counting || incident
+  }
+
+  return dispatchIncident(incident)
+}
+
+/**
+ * Dispatch an incident: mark it dispatched, log it and start escalating through contacts
+ * @param incident Incident to dispatch
+ * @returns The dispatched incident
+ */
+export async function dispatchIncident(incident: Incident): Promise<Incident> {
+  const dispatched = (await transitionIncident(incident.id, "dispatched", { actor: "system" })) || incident
+
+  await logEmergencyEvent(dispatched.userId, dispatched.emergencyType, dispatched.location, dispatched.vitalSigns, {
+    type: "web",
+    appVersion: "1.2.0",
+  })
+
+  // Contacts are alerted by the escalation ladder, which widens the circle until someone responds
+  return startEscalation(dispatched)
+}
+
+/**
+ * Dispatch an incident whose countdown ran out
+ * @param incidentId Incident ID
+ */
+export async function expireCountdown(incidentId: string): Promise<void> {
+  // Ignore countdowns the user cancelled or dispatched themselves
+  const incident = await getIncident(incidentId)
+  if (incident?.status !== "countdown") {
+    return
+  }
+
+  await dispatchIncident(incident)
+}
@@ -0,0 +1,134 @@
+/**
+ * Envelope encryption for sensitive fields at rest
+ *
+ * Each value gets a fresh AES-256-GCM data key, which is wrapped by the current master key from
+ * lib/kms. The result is one string:
+ *
+ *   ngenc.<header>.<iv>.<ciphertext>.<tag>
+ *
+ * Every part is base64url. The header is JSON holding the format version, the master key ID and the
+ * wrapped data key, so a value can always be decrypted after the master key is rotated. The header is
+ * authenticated along with the ciphertext, so changing the key ID or swapping in another data key
+ * fails decryption instead of giving garbage.
+ *
+ * An optional context (e.g. "two-factor:<user ID>") is authenticated too. A value encrypted for one
+ * record then won't decrypt if it's copied into another.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+import { getKms, type KeyManagementService } from "./kms"
+
+export interface EnvelopeHeader {
+  v: 1
+  alg: "A256GCM"
+  // Master key version that wrapped the data key
+  kid: string
+  // Wrapped data key, base64url
+  dk: string
+}
+
+const PREFIX = "ngenc"
+const DATA_KEY_BYTES = 32
+const IV_BYTES = 12
+
+const encode = (value: Buffer | string) => Buffer.from(value).toString("base64url")
+const decode = (value: string) => Buffer.from(value, "base64url")
+
+function additionalData(header: string, context?: string): Buffer {
+  return Buffer.from(context ? `${header}.${context}` : header)
+}
+
+/**
+ * Check whether a value is an envelope from encryptEnvelope
+ * @param value Stored value
+ * @returns Whether it looks like an envelope
+ */
+export function isEnvelope(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(`${PREFIX}.`) && value.split(".").length === 5
+}
+
+/**
+ * Read an envelope's header without decrypting it
+ * @param envelope Envelope string
+ * @returns The header
+ */
+export function readEnvelopeHeader(envelope: string): EnvelopeHeader {
+  if (!isEnvelope(envelope)) {
+    throw new Error("Invalid envelope: not an encrypted value")
+  }
+
+  const header = JSON.parse(decode(envelope.split(".")[1]).toString("utf8"))
+  if (header.v !== 1 || header.alg !== "A256GCM" || typeof header.kid !== "string" || typeof header.dk !== "string") {
+    throw new Error("Invalid envelope: unsupported header")
+  }
+  return header
+}
+
+/**
+ * Encrypt a value with a new data key wrapped by the current master key
+ * @param plaintext Text to encrypt
+ * @param context Record the value belongs to, which must be given again to decrypt it
+ * @param kms Key management service, the deployment's by default
+ * @returns Envelope string
+ */
+export async function encryptEnvelope(
+  plaintext: string,
+  context?: string,
+  kms: KeyManagementService = getKms(),
+): Promise<string> {
+  const dataKey = randomBytes(DATA_KEY_BYTES)
+  const { keyId, wrappedKey } = await kms.wrapKey(dataKey)
+  const header: EnvelopeHeader = { v: 1, alg: "A256GCM", kid: keyId, dk: encode(wrappedKey) }
+  const encodedHeader = encode(JSON.stringify(header))
+
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv("aes-256-gcm", dataKey, iv)
+  cipher.setAAD(additionalData(encodedHeader, context))
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+
+  return [PREFIX, encodedHeader, encode(iv), encode(ciphertext), encode(cipher.getAuthTag())].join(".")
+}
+
+/**
+ * Decrypt an envelope, whichever master key version wrapped it
+ * @param envelope Envelope string
+ * @param context The context it was encrypted with
+ * @param kms Key management service, the deployment's by default
+ * @returns The plaintext
+ */
+export async function decryptEnvelope(
+  envelope: string,
+  context?: string,
+  kms: KeyManagementService = getKms(),
+): Promise<string> {
+  const header = readEnvelopeHeader(envelope)
+  const [, encodedHeader, iv, ciphertext, tag] = envelope.split(".")
+  const dataKey = await kms.unwrapKey(header.kid, decode(header.dk))
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", dataKey, decode(iv))
+    decipher.setAAD(additionalData(encodedHeader, context))
+    decipher.setAuthTag(decode(tag))
+    return Buffer.concat([decipher.update(decode(ciphertext)), decipher.final()]).toString("utf8")
+  } catch {
+    throw new Error("Invalid envelope: authentication failed")
+  }
+}
+
+/**
+ * Move an envelope onto the current master key, with a new data key
+ * @param envelope Envelope string
+ * @param context The context it was encrypted with
+ * @param kms Key management service, the deployment's by default
+ * @returns A new envelope, or null if it already uses the current master key
+ */
+export async function reencryptEnvelope(
+  envelope: string,
+  context?: string,
+  kms: KeyManagementService = getKms(),
+): Promise<string | null> {
+  if (readEnvelopeHeader(envelope).kid === (await kms.currentKeyId())) {
+    return null
+  }
+  return encryptEnvelope(await decryptEnvelope(envelope, context, kms), context, kms)
+}
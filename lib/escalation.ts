@@ -0,0 +1,349 @@
+/**
+ * Escalation ladder for incidents that nobody acknowledges
+ *
+ * Each step alerts a wider circle and then waits for an acknowledgement (a tap on the link in the
+ * alert or an "OK" reply). If the wait runs out the next step fires. Every step and timeout is
+ * recorded on the incident timeline. Contacts are only alerted while they still agree to be
+ * (lib/contact-consent).
+ */
+
+import { generateAcknowledgementToken } from "./auth"
+import { buildContactOptOutUrl, isConsentVerified } from "./contact-consent"
+import { dispatchHeroes } from "./heroes"
+import {
+  getIncident,
+  listIncidents,
+  recordContactDeliveries,
+  recordIncidentEvent,
+  transitionIncident,
+  type Incident,
+  type IncidentContact,
+} from "./incidents"
+import { describeKitLocations, listKits } from "./naloxone-kits"
+import { notifyContact, type DeliveryStatus } from "./notifications"
+import { scheduleJob } from "./scheduler"
+
+export type EscalationStepType = "primary_contacts" | "secondary_contacts" | "hero_network" | "emergency_services"
+
+export interface EscalationStep {
+  type: EscalationStepType
+  waitSeconds: number
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[]
+}
+
+export interface EscalationState {
+  policy: EscalationPolicy
+  stepIndex: number
+  nextStepAt?: string
+  completedAt?: string
+  stoppedReason?: string
+}
+
+export const ESCALATION_STEP_TYPES: EscalationStepType[] = [
+  "primary_contacts",
+  "secondary_contacts",
+  "hero_network",
+  "emergency_services",
+]
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  steps: [
+    { type: "primary_contacts", waitSeconds: 60 },
+    { type: "secondary_contacts", waitSeconds: 60 },
+    { type: "hero_network", waitSeconds: 120 },
+    { type: "emergency_services", waitSeconds: 0 },
+  ],
+}
+
+/**
+ * Validate an escalation policy supplied as configuration
+ * @param value Parsed policy
+ * @returns The policy or null if it is malformed
+ */
+export function parseEscalationPolicy(value: unknown): EscalationPolicy | null {
+  const steps = Array.isArray(value) ? value : (value as EscalationPolicy | null)?.steps
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return null
+  }
+
+  const valid = steps.every(
+    (step) =>
+      step &&
+      ESCALATION_STEP_TYPES.includes(step.type) &&
+      typeof step.waitSeconds === "number" &&
+      step.waitSeconds >= 0,
+  )
+
+  return valid ? { steps: steps.map((step) => ({ type: step.type, waitSeconds: step.waitSeconds })) } : null
+}
+
+/**
+ * Resolve the escalation policy for an incident
+ * The ESCALATION_POLICY environment variable (JSON) replaces the default ladder, and a user's
+ * preferred wait replaces the wait on the contact steps.
+ * @param contactWaitSeconds User's preferred wait before widening past their contacts
+ * @returns Escalation policy
+ */
+export function getEscalationPolicy(contactWaitSeconds?: number): EscalationPolicy {
+  let policy = DEFAULT_ESCALATION_POLICY
+
+  if (process.env.ESCALATION_POLICY) {
+    try {
+      policy = parseEscalationPolicy(JSON.parse(process.env.ESCALATION_POLICY)) || DEFAULT_ESCALATION_POLICY
+    } catch (error) {
+      console.error("Invalid ESCALATION_POLICY, using the default ladder:", error)
+    }
+  }
+
+  if (!contactWaitSeconds || contactWaitSeconds <= 0) {
+    return policy
+  }
+
+  return {
+    steps: policy.steps.map((step) =>
+      step.type === "primary_contacts" || step.type === "secondary_contacts"
+        ? { ...step, waitSeconds: contactWaitSeconds }
+        : step,
+    ),
+  }
+}
+
+/**
+ * Build the link a contact taps to acknowledge an alert. It opens a confirmation page, since opening a
+ * link alone mustn't stop escalation.
+ * @param incidentId Incident ID
+ * @param recipient Address the alert was sent to
+ * @returns Acknowledgement page URL
+ */
+export function buildAcknowledgeUrl(incidentId: string, recipient: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://narcoguard.com"
+  const token = generateAcknowledgementToken(incidentId, recipient)
+  return `${baseUrl}/contacts/acknowledge?incident=${incidentId}&token=${encodeURIComponent(token)}`
+}
+
+// An incident only keeps escalating while it is dispatched and nobody has responded
+function needsEscalation(incident: Incident): boolean {
+  return incident.status === "dispatched"
+}
+
+async function notifyContactTier(incident: Incident, priority: "primary" | "secondary"): Promise<number> {
+  const tier = incident.contacts.filter(
+    (contact: IncidentContact) => contact.notify !== false && (contact.priority || "primary") === priority,
+  )
+  // Contacts may have used their opt-out link since the alert was raised
+  const stillConsenting = await Promise.all(
+    tier.map((contact) => (contact.consentId ? isConsentVerified(contact.consentId) : false)),
+  )
+  const contacts = tier.filter((_, index) => stillConsenting[index])
+  if (contacts.length === 0) {
+    return 0
+  }
+
+  const naloxone = describeKitLocations(await listKits(incident.userId))
+  const deliveries: DeliveryStatus[] = await Promise.all(
+    contacts.map(async (contact) =>
+      notifyContact(contact, {
+        incidentId: incident.id,
+        userName: incident.userName || "A Narcoguard user",
+        emergencyType: incident.emergencyType,
+        location: incident.location,
+        acknowledgeUrl: buildAcknowledgeUrl(incident.id, contact.phone || contact.email || contact.name || ""),
+        naloxone,
+        optOutUrl: await buildContactOptOutUrl(contact.consentId!),
+      }),
+    ),
+  )
+
+  await recordContactDeliveries(incident.id, deliveries, { step: `${priority}_contacts` })
+  return deliveries.filter((delivery) => delivery.status === "sent").length
+}
+
+async function handOffToEmergencyServices(incident: Incident): Promise<number> {
+  const url = process.env.EMERGENCY_SERVICES_WEBHOOK_URL
+  if (!url) {
+    await recordIncidentEvent(incident.id, {
+      type: "emergency_services_handoff",
+      actor: "system",
+      note: "No emergency services integration is configured",
+      data: { status: "not_configured" },
+    })
+    return 0
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        incidentId: incident.id,
+        emergencyType: incident.emergencyType,
+        location: incident.location,
+        vitalSigns: incident.vitalSigns,
+        detectedAt: incident.createdAt,
+      }),
+    })
+
+    await recordIncidentEvent(incident.id, {
+      type: "emergency_services_handoff",
+      actor: "system",
+      data: { status: response.ok ? "sent" : "failed", httpStatus: response.status },
+    })
+    return response.ok ? 1 : 0
+  } catch (error) {
+    console.error("Emergency services hand-off failed:", error)
+    await recordIncidentEvent(incident.id, {
+      type: "emergency_services_handoff",
+      actor: "system",
+      data: { status: "failed", error: error instanceof Error ? error.message : String(error) },
+    })
+    return 0
+  }
+}
+
+async function executeStep(incident: Incident, step: EscalationStep): Promise<number> {
+  switch (step.type) {
+    case "primary_contacts":
+      return notifyContactTier(incident, "primary")
+    case "secondary_contacts":
+      return notifyContactTier(incident, "secondary")
+    case "hero_network":
+      return dispatchHeroes(incident)
+    case "emergency_services":
+      return handOffToEmergencyServices(incident)
+  }
+}
+
+async function runStep(incidentId: string, stepIndex: number): Promise<void> {
+  const incident = await getIncident(incidentId)
+  if (!incident?.escalation || !needsEscalation(incident)) {
+    return
+  }
+
+  const { policy } = incident.escalation
+  const step = policy.steps[stepIndex]
+
+  if (!step) {
+    await recordIncidentEvent(incidentId, { type: "escalation_exhausted", actor: "system" }, (current) => ({
+      escalation: current.escalation && {
+        ...current.escalation,
+        nextStepAt: undefined,
+        completedAt: new Date().toISOString(),
+      },
+    }))
+    return
+  }
+
+  const reached = await executeStep(incident, step)
+  const isLastStep = stepIndex === policy.steps.length - 1
+  const nextStepAt = isLastStep ? undefined : new Date(Date.now() + step.waitSeconds * 1000)
+
+  await recordIncidentEvent(
+    incidentId,
+    { type: "escalation_step", actor: "system", data: { step: step.type, stepIndex, reached } },
+    (current) => ({
+      escalation: current.escalation && {
+        ...current.escalation,
+        stepIndex,
+        // Someone may have responded while this step's alerts were going out
+        nextStepAt: current.escalation.stoppedReason ? undefined : nextStepAt?.toISOString(),
+        completedAt: isLastStep ? new Date().toISOString() : undefined,
+      },
+    }),
+  )
+
+  if (!nextStepAt) {
+    return
+  }
+
+  // Nobody was reached at this step, so there is nothing to wait for
+  if (reached === 0) {
+    await runStep(incidentId, stepIndex + 1)
+    return
+  }
+
+  await scheduleJob("escalation.advance", nextStepAt, { incidentId, stepIndex })
+}
+
+/**
+ * Start the escalation ladder for a dispatched incident
+ * @param incident Dispatched incident
+ * @param policy Escalation policy, defaults to the one stored on the incident
+ * @returns The incident after the first step has run
+ */
+export async function startEscalation(incident: Incident, policy?: EscalationPolicy): Promise<Incident> {
+  await recordIncidentEvent(incident.id, { type: "escalation_started", actor: "system" }, (current) => ({
+    escalation: { policy: policy || current.escalation?.policy || getEscalationPolicy(), stepIndex: -1 },
+  }))
+
+  await runStep(incident.id, 0)
+  return (await getIncident(incident.id)) || incident
+}
+
+/**
+ * Move to the next step when a step's wait runs out without an acknowledgement
+ * @param incidentId Incident ID
+ * @param stepIndex Step whose wait has expired
+ */
+export async function advanceEscalation(incidentId: string, stepIndex: number): Promise<void> {
+  const incident = await getIncident(incidentId)
+
+  // Ignore stale timers: the incident moved on or someone already responded
+  if (!incident?.escalation || incident.escalation.stepIndex !== stepIndex || !needsEscalation(incident)) {
+    return
+  }
+
+  const step = incident.escalation.policy.steps[stepIndex]
+  await recordIncidentEvent(incidentId, {
+    type: "escalation_timeout",
+    actor: "system",
+    data: { step: step?.type, stepIndex, waitedSeconds: step?.waitSeconds },
+  })
+
+  await runStep(incidentId, stepIndex + 1)
+}
+
+/**
+ * Record that a contact is responding, which stops further escalation
+ * @param incidentId Incident ID
+ * @param recipient Address of the contact who acknowledged
+ * @param via How the acknowledgement arrived
+ * @returns The updated incident or null if it doesn't exist
+ */
+export async function acknowledgeIncident(
+  incidentId: string,
+  recipient: string,
+  via: "link" | "reply",
+): Promise<Incident | null> {
+  const incident = await recordIncidentEvent(
+    incidentId,
+    { type: "contact_acknowledged", actor: recipient, data: { via } },
+    (current) =>
+      current.escalation && !current.escalation.stoppedReason
+        ? { escalation: { ...current.escalation, nextStepAt: undefined, stoppedReason: "acknowledged" } }
+        : {},
+  )
+
+  if (incident?.status === "dispatched") {
+    return transitionIncident(incidentId, "acknowledged", { actor: recipient, note: `Acknowledged by ${via}` })
+  }
+
+  return incident
+}
+
+/**
+ * Find the most recent open incident that alerted an address, for matching SMS replies
+ * @param recipient Phone number or email address the alert was sent to
+ * @returns The incident or null if none is awaiting a response
+ */
+export async function findIncidentAwaitingRecipient(recipient: string): Promise<Incident | null> {
+  const candidates = await listIncidents(
+    (incident) =>
+      (incident.status === "dispatched" || incident.status === "acknowledged") &&
+      incident.deliveries.some((delivery) => delivery.to === recipient && delivery.status === "sent"),
+  )
+
+  return candidates.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null
+}
@@ -0,0 +1,161 @@
+/**
+ * Imported health history, kept as hourly averages per user for the dashboard chart
+ */
+
+import crypto from "crypto"
+import { BASELINE_SAMPLE_TARGET } from "./baselines"
+import {
+  parseHealthExport,
+  toVitalsSamples,
+  type HealthDataPoint,
+  type HealthExportFormat,
+  type HealthMetric,
+} from "./health-import"
+import { createCollection } from "./store"
+import { addBaselineSamples, type VitalsProfile } from "./vitals-profile"
+
+export interface HealthHistoryPoint {
+  // Start of the hour, epoch milliseconds
+  timestamp: number
+  heartRate?: number
+  oxygenLevel?: number
+  respiratoryRate?: number
+  sleepMinutes?: number
+}
+
+interface HealthHistoryBucket extends HealthHistoryPoint {
+  // Readings behind each average, so later imports can be merged in
+  counts: Partial<Record<Exclude<HealthMetric, "sleep">, number>>
+}
+
+export interface HealthImport {
+  id: string
+  userId: string
+  format: HealthExportFormat
+  fileName?: string
+  // SHA-256 of the file, so the same export isn't counted twice
+  checksum: string
+  points: number
+  skipped: number
+  from?: number
+  to?: number
+  importedAt: string
+}
+
+interface HealthHistory {
+  // Histories are keyed by user ID
+  id: string
+  userId: string
+  buckets: HealthHistoryBucket[]
+  updatedAt: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const imports = createCollection<HealthImport>("health-imports")
+const histories = createCollection<HealthHistory>("health-history")
+
+// Fold points into hourly buckets: averages for vitals, totals for sleep
+function mergeIntoBuckets(existing: HealthHistoryBucket[], points: HealthDataPoint[]): HealthHistoryBucket[] {
+  const buckets = new Map<number, HealthHistoryBucket>()
+  for (const bucket of existing) {
+    buckets.set(bucket.timestamp, { ...bucket, counts: { ...bucket.counts } })
+  }
+
+  for (const point of points) {
+    const hour = Math.floor(point.timestamp / HOUR_MS) * HOUR_MS
+    const bucket = buckets.get(hour) || { timestamp: hour, counts: {} }
+
+    if (point.metric === "sleep") {
+      bucket.sleepMinutes = (bucket.sleepMinutes || 0) + point.value
+    } else {
+      const count = bucket.counts[point.metric] || 0
+      const mean = bucket[point.metric] || 0
+      bucket[point.metric] = Math.round(((mean * count + point.value) / (count + 1)) * 10) / 10
+      bucket.counts[point.metric] = count + 1
+    }
+
+    buckets.set(hour, bucket)
+  }
+
+  return [...buckets.values()].sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * Import a health data export for a user
+ * Readings are added to their hourly history and the most recent ones are offered to baseline learning.
+ * @param userId User ID
+ * @param content File contents
+ * @param fileName Original file name, for the import record
+ * @returns The import record and the user's updated vitals profile
+ */
+export async function importHealthExport(
+  userId: string,
+  content: string,
+  fileName?: string,
+): Promise<{ healthImport: HealthImport; profile: VitalsProfile }> {
+  const checksum = crypto.createHash("sha256").update(content).digest("hex")
+  const [existing] = await imports.list((record) => record.userId === userId && record.checksum === checksum)
+  if (existing) {
+    throw new Error(`Export already imported on ${existing.importedAt}`)
+  }
+
+  const parsed = parseHealthExport(content)
+  if (parsed.points.length === 0) {
+    throw new Error("Export contains no heart rate, SpO2, respiratory rate or sleep data")
+  }
+
+  // Exports can hold millions of points, too many to spread into Math.min
+  const from = parsed.points.reduce((earliest, point) => Math.min(earliest, point.timestamp), Infinity)
+  const to = parsed.points.reduce((latest, point) => Math.max(latest, point.timestamp), -Infinity)
+  const healthImport: HealthImport = {
+    id: crypto.randomUUID(),
+    userId,
+    format: parsed.format,
+    fileName,
+    checksum,
+    points: parsed.points.length,
+    skipped: parsed.skipped,
+    from,
+    to,
+    importedAt: new Date().toISOString(),
+  }
+
+  if (!(await histories.get(userId))) {
+    await histories.insert({ id: userId, userId, buckets: [], updatedAt: new Date().toISOString() })
+  }
+  await histories.update(userId, (history) => ({
+    ...history,
+    buckets: mergeIntoBuckets(history.buckets, parsed.points),
+    updatedAt: new Date().toISOString(),
+  }))
+
+  await imports.insert(healthImport)
+
+  // The latest readings are the best guide to the user's current resting state
+  const samples = toVitalsSamples(parsed.points).slice(-BASELINE_SAMPLE_TARGET)
+  const profile = await addBaselineSamples(userId, samples)
+
+  return { healthImport, profile }
+}
+
+/**
+ * Get a user's imported health history
+ * @param userId User ID
+ * @param since Earliest hour to include, epoch milliseconds
+ * @returns Hourly points in time order
+ */
+export async function getHealthHistory(userId: string, since = 0): Promise<HealthHistoryPoint[]> {
+  const history = await histories.get(userId)
+  return (history?.buckets || []).filter((bucket) => bucket.timestamp >= since).map(({ counts, ...point }) => point)
+}
+
+/**
+ * List a user's imports, newest first
+ * @param userId User ID
+ * @returns Import records
+ */
+export async function listHealthImports(userId: string): Promise<HealthImport[]> {
+  const records = await imports.list((record) => record.userId === userId)
+  return records.sort((a, b) => b.importedAt.localeCompare(a.importedAt))
+}
@@ -0,0 +1,374 @@
+/**
+ * Parsers for health data exports from consumer wearables
+ *
+ *   Apple Health: export.xml from "Export All Health Data"
+ *   Fitbit: Google Takeout JSON (heart_rate-*.json, sleep-*.json) and CSV (heart rate, Minute SpO2, respiratory rate)
+ *   Google Fit: Takeout "All Data" JSON and the "Daily activity metrics" CSV
+ *   Oura: the trends CSV from the Oura web app
+ *
+ * Every format is normalized to the same time series of heart rate, SpO2, respiratory rate and
+ * sleep points. Like the detection engine this module is pure so it can also run in the browser.
+ */
+
+import type { VitalsSample } from "./detection"
+
+export type HealthExportFormat = "apple_health" | "fitbit" | "google_fit" | "oura"
+
+export type HealthMetric = "heartRate" | "oxygenLevel" | "respiratoryRate" | "sleep"
+
+export interface HealthDataPoint {
+  metric: HealthMetric
+  // Epoch milliseconds; for sleep, when the period started
+  timestamp: number
+  // Beats/min, SpO2 %, breaths/min, or minutes asleep
+  value: number
+  // When a sleep period ended
+  endTimestamp?: number
+}
+
+export interface ParsedHealthExport {
+  format: HealthExportFormat
+  points: HealthDataPoint[]
+  // Records that were recognized but had no usable value or time
+  skipped: number
+}
+
+// Values outside these ranges are sensor glitches rather than readings
+const PLAUSIBLE_RANGES: Record<Exclude<HealthMetric, "sleep">, { min: number; max: number }> = {
+  heartRate: { min: 20, max: 250 },
+  oxygenLevel: { min: 50, max: 100 },
+  respiratoryRate: { min: 2, max: 60 },
+}
+
+const APPLE_RECORD_TYPES: Record<string, HealthMetric> = {
+  HKQuantityTypeIdentifierHeartRate: "heartRate",
+  HKQuantityTypeIdentifierRestingHeartRate: "heartRate",
+  HKQuantityTypeIdentifierOxygenSaturation: "oxygenLevel",
+  HKQuantityTypeIdentifierRespiratoryRate: "respiratoryRate",
+  HKCategoryTypeIdentifierSleepAnalysis: "sleep",
+}
+
+const GOOGLE_FIT_DATA_TYPES: Record<string, HealthMetric> = {
+  "com.google.heart_rate.bpm": "heartRate",
+  "com.google.oxygen_saturation": "oxygenLevel",
+  "com.google.respiratory_rate": "respiratoryRate",
+  "com.google.sleep.segment": "sleep",
+}
+
+// Google Fit sleep segment types that are not sleep: awake and out of bed
+const GOOGLE_FIT_AWAKE_SEGMENTS = [1, 3]
+
+class PointCollector {
+  points: HealthDataPoint[] = []
+  skipped = 0
+
+  add(metric: HealthMetric, timestamp: number | undefined, value: number | undefined, endTimestamp?: number) {
+    if (timestamp === undefined || Number.isNaN(timestamp) || value === undefined || !Number.isFinite(value)) {
+      this.skipped++
+      return
+    }
+
+    if (metric === "sleep") {
+      if (value <= 0) {
+        this.skipped++
+        return
+      }
+      this.points.push({ metric, timestamp, value: Math.round(value), endTimestamp })
+      return
+    }
+
+    const range = PLAUSIBLE_RANGES[metric]
+    if (value < range.min || value > range.max) {
+      this.skipped++
+      return
+    }
+    this.points.push({ metric, timestamp, value: Math.round(value * 10) / 10 })
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined
+  }
+  const number = Number(value)
+  return Number.isNaN(number) ? undefined : number
+}
+
+// Apple Health dates look like "2024-03-01 08:15:00 -0500"
+function parseAppleDate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/)
+  return match ? Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : toDate(value)
+}
+
+// Fitbit's JSON export uses "03/01/24 08:15:00" in UTC
+function parseFitbitDate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{2}) (\d{2}:\d{2}:\d{2})$/)
+  return match ? Date.parse(`20${match[3]}-${match[1]}-${match[2]}T${match[4]}Z`) : toDate(value)
+}
+
+// ISO dates and times; a bare date or a time without a zone is read as UTC
+function toDate(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const trimmed = value.trim()
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)
+  const timestamp = Date.parse(
+    /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00Z` : hasZone ? trimmed : `${trimmed.replace(" ", "T")}Z`,
+  )
+  return Number.isNaN(timestamp) ? undefined : timestamp
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields
+ * @param content CSV text
+ * @returns Rows of fields
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++
+      row.push(field)
+      if (row.some((value) => value.trim() !== "")) rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  if (row.some((value) => value.trim() !== "")) rows.push(row)
+  return rows
+}
+
+function parseAppleHealth(content: string): ParsedHealthExport {
+  const collector = new PointCollector()
+  const recordPattern = /<Record\s([^>]*?)\/?>/g
+  const attributePattern = /(\w+)="([^"]*)"/g
+
+  for (const match of content.matchAll(recordPattern)) {
+    const attributes: Record<string, string> = {}
+    for (const [, name, value] of match[1].matchAll(attributePattern)) {
+      attributes[name] = value
+    }
+
+    const metric = APPLE_RECORD_TYPES[attributes.type]
+    if (!metric) {
+      continue
+    }
+
+    const start = parseAppleDate(attributes.startDate)
+    if (metric === "sleep") {
+      // Only asleep stages count; "InBed" and "Awake" are time in bed
+      if (!attributes.value?.startsWith("HKCategoryValueSleepAnalysisAsleep")) {
+        continue
+      }
+      const end = parseAppleDate(attributes.endDate)
+      collector.add(metric, start, end !== undefined && start !== undefined ? (end - start) / 60000 : undefined, end)
+      continue
+    }
+
+    let value = toNumber(attributes.value)
+    // SpO2 is recorded as a fraction
+    if (metric === "oxygenLevel" && value !== undefined && value <= 1) {
+      value *= 100
+    }
+    collector.add(metric, start, value)
+  }
+
+  return { format: "apple_health", points: collector.points, skipped: collector.skipped }
+}
+
+function parseFitbitJson(records: any[]): ParsedHealthExport {
+  const collector = new PointCollector()
+
+  for (const record of records) {
+    if (record?.value?.bpm !== undefined) {
+      collector.add("heartRate", parseFitbitDate(record.dateTime), toNumber(record.value.bpm))
+    } else if (record?.minutesAsleep !== undefined) {
+      collector.add("sleep", toDate(record.startTime), toNumber(record.minutesAsleep), toDate(record.endTime))
+    } else {
+      collector.skipped++
+    }
+  }
+
+  return { format: "fitbit", points: collector.points, skipped: collector.skipped }
+}
+
+function parseGoogleFitJson(data: any): ParsedHealthExport {
+  const collector = new PointCollector()
+
+  for (const point of data["Data Points"] || []) {
+    const metric = GOOGLE_FIT_DATA_TYPES[point?.dataTypeName]
+    if (!metric) {
+      continue
+    }
+
+    const start = toNumber(point.startTimeNanos)
+    const end = toNumber(point.endTimeNanos)
+    const fitValue = point.fitValue?.[0]?.value || {}
+    const value = toNumber(fitValue.fpVal ?? fitValue.intVal)
+    const startMs = start !== undefined ? Math.round(start / 1e6) : undefined
+    const endMs = end !== undefined ? Math.round(end / 1e6) : undefined
+
+    if (metric === "sleep") {
+      if (value === undefined || GOOGLE_FIT_AWAKE_SEGMENTS.includes(value)) {
+        continue
+      }
+      const minutes = startMs !== undefined && endMs !== undefined ? (endMs - startMs) / 60000 : undefined
+      collector.add(metric, startMs, minutes, endMs)
+    } else {
+      collector.add(metric, startMs, value)
+    }
+  }
+
+  return { format: "google_fit", points: collector.points, skipped: collector.skipped }
+}
+
+// Find a column by any of its known names, ignoring case and surrounding space
+function findColumn(header: string[], names: string[]): number {
+  const normalized = header.map((column) => column.trim().toLowerCase())
+  for (const name of names) {
+    const index = normalized.indexOf(name.toLowerCase())
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+function parseHealthCsv(content: string): ParsedHealthExport {
+  const [header = [], ...rows] = parseCsv(content)
+  const column = (...names: string[]) => findColumn(header, names)
+  const collector = new PointCollector()
+  const cell = (row: string[], index: number) => (index === -1 ? undefined : row[index]?.trim())
+
+  // Oura trends export: one row per day
+  const ouraDate = column("date")
+  const ouraHeartRate = column("Average Resting Heart Rate", "average_resting_heart_rate")
+  const ouraRespiratory = column("Respiratory Rate", "average_breath")
+  if (ouraDate !== -1 && (ouraHeartRate !== -1 || ouraRespiratory !== -1)) {
+    const oxygen = column("Average Oxygen Saturation", "spo2_percentage")
+    const sleep = column("Total Sleep Duration", "total_sleep_duration")
+    const bedtimeStart = column("Bedtime Start", "bedtime_start")
+    const bedtimeEnd = column("Bedtime End", "bedtime_end")
+
+    for (const row of rows) {
+      const day = toDate(cell(row, ouraDate))
+      collector.add("heartRate", day, toNumber(cell(row, ouraHeartRate)))
+      if (ouraRespiratory !== -1) collector.add("respiratoryRate", day, toNumber(cell(row, ouraRespiratory)))
+      if (oxygen !== -1) collector.add("oxygenLevel", day, toNumber(cell(row, oxygen)))
+      if (sleep !== -1) {
+        const seconds = toNumber(cell(row, sleep))
+        const start = toDate(cell(row, bedtimeStart)) ?? day
+        collector.add("sleep", start, seconds !== undefined ? seconds / 60 : undefined, toDate(cell(row, bedtimeEnd)))
+      }
+    }
+
+    return { format: "oura", points: collector.points, skipped: collector.skipped }
+  }
+
+  // Google Fit daily activity metrics: one row per day
+  const fitDate = column("Date")
+  const fitHeartRate = column("Average heart rate (bpm)")
+  if (fitDate !== -1 && fitHeartRate !== -1) {
+    for (const row of rows) {
+      collector.add("heartRate", toDate(cell(row, fitDate)), toNumber(cell(row, fitHeartRate)))
+    }
+    return { format: "google_fit", points: collector.points, skipped: collector.skipped }
+  }
+
+  // Fitbit Takeout CSVs: a timestamp column plus one value column
+  const fitbitTime = column("timestamp")
+  const fitbitColumns: [HealthMetric, number][] = [
+    ["heartRate", column("beats per minute", "bpm", "heart_rate")],
+    ["oxygenLevel", column("value", "spo2")],
+    ["respiratoryRate", column("full_sleep_breathing_rate", "daily_respiratory_rate", "breathing_rate")],
+  ]
+  const fitbitColumn = fitbitColumns.find(([, index]) => index !== -1)
+  if (fitbitTime !== -1 && fitbitColumn) {
+    const [metric, index] = fitbitColumn
+    for (const row of rows) {
+      collector.add(metric, toDate(cell(row, fitbitTime)), toNumber(cell(row, index)))
+    }
+    return { format: "fitbit", points: collector.points, skipped: collector.skipped }
+  }
+
+  throw new Error("Unrecognized health data export")
+}
+
+/**
+ * Parse a health data export, detecting which app it came from
+ * @param content File contents
+ * @returns Normalized points, the detected format and how many records were unusable
+ */
+export function parseHealthExport(content: string): ParsedHealthExport {
+  const trimmed = content.trimStart()
+
+  if (trimmed.startsWith("<")) {
+    if (!trimmed.includes("<HealthData")) {
+      throw new Error("Unrecognized health data export")
+    }
+    return parseAppleHealth(trimmed)
+  }
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let data: any
+    try {
+      data = JSON.parse(trimmed)
+    } catch (error) {
+      throw new Error("Health data export is not valid JSON")
+    }
+
+    if (Array.isArray(data)) {
+      return parseFitbitJson(data)
+    }
+    if (Array.isArray(data?.["Data Points"])) {
+      return parseGoogleFitJson(data)
+    }
+    throw new Error("Unrecognized health data export")
+  }
+
+  return parseHealthCsv(trimmed)
+}
+
+/**
+ * Merge vitals points into detector samples, one per minute
+ * Sleep points are left out.
+ * @param points Normalized points
+ * @returns Samples in time order
+ */
+export function toVitalsSamples(points: HealthDataPoint[]): VitalsSample[] {
+  const samples = new Map<number, VitalsSample>()
+
+  for (const point of points) {
+    if (point.metric === "sleep") continue
+
+    const minute = Math.floor(point.timestamp / 60000) * 60000
+    const sample = samples.get(minute) || { timestamp: minute }
+    sample[point.metric] = point.value
+    samples.set(minute, sample)
+  }
+
+  return [...samples.values()].sort((a, b) => a.timestamp - b.timestamp)
+}
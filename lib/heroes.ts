@@ -0,0 +1,580 @@
+/**
+ * Hero Network: a registry of opted-in community responders and dispatch to the nearest of them
+ *
+ * Heroes report their location and availability from the app. When an incident reaches the
+ * hero_network step of its escalation ladder, the nearest available heroes are alerted with a link
+ * to the responder view. Accepting stops the ladder and records an ETA on the incident; after that
+ * the hero logs arriving, giving naloxone and handing off to EMS. What a hero sees of the location
+ * goes through lib/location-privacy.
+ */
+
+import { generateAcknowledgementToken, verifyAcknowledgementToken } from "./auth"
+import { advanceEscalation, acknowledgeIncident } from "./escalation"
+import {
+  canTransition,
+  getIncident,
+  isIncidentClosed,
+  recordIncidentEvent,
+  transitionIncident,
+  type Incident,
+  type IncidentStatus,
+  type IncidentVitalSigns,
+} from "./incidents"
+import { coarsenLocation, shareLocationWithHero, type SharedLocation } from "./location-privacy"
+import { sendNotification, type DeliveryStatus } from "./notifications"
+import { createCollection } from "./store"
+
+export interface HeroLocation {
+  latitude: number
+  longitude: number
+  updatedAt: string
+}
+
+export interface HeroResponder {
+  // Heroes are keyed by user ID
+  id: string
+  userId: string
+  name: string
+  phone?: string
+  email?: string
+  available: boolean
+  carriesNaloxone: boolean
+  location?: HeroLocation
+  // Set once the hero's identity and training are checked; only verified heroes see exact locations
+  verifiedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type HeroDispatchStatus = "notified" | "accepted" | "declined" | "failed" | "arrived" | "handed_off"
+
+export interface HeroDispatch {
+  heroId: string
+  name: string
+  // Distance to the centre of the incident's broadcast cell, not to the exact location
+  distanceKm: number
+  carriesNaloxone: boolean
+  status: HeroDispatchStatus
+  notifiedAt: string
+  respondedAt?: string
+  etaMinutes?: number
+  arrivedAt?: string
+  naloxoneGivenAt?: string
+  handedOffAt?: string
+}
+
+// What a hero can report from the responder view once alerted
+export type HeroAction = "on_my_way" | "arrived" | "naloxone_given" | "handed_off"
+
+export const HERO_ACTIONS: HeroAction[] = ["on_my_way", "arrived", "naloxone_given", "handed_off"]
+
+export interface ResponderView {
+  incidentId: string
+  emergencyType: string
+  status: IncidentStatus
+  createdAt: string
+  // The broadcast cell until a verified hero accepts; nothing once the incident closes
+  location?: SharedLocation
+  // Only for heroes who have accepted, while the incident is open, when the user agreed to share them
+  vitalSigns?: IncidentVitalSigns
+  dispatch: HeroDispatch
+  heroVerified: boolean
+  // Other heroes who have accepted, so a responder knows they aren't alone
+  otherResponders: number
+}
+
+export interface NearbyHero {
+  hero: HeroResponder
+  distanceKm: number
+}
+
+// How many heroes are alerted per incident, and how far away they may be
+export const DEFAULT_HERO_DISPATCH_COUNT = 5
+export const DEFAULT_HERO_RADIUS_KM = 5
+
+// A location older than this says little about where the hero is now
+export const HERO_LOCATION_MAX_AGE_MINUTES = 30
+
+// Average urban travel speed used to estimate an ETA when the hero doesn't give one
+const ESTIMATED_TRAVEL_KMH = 25
+
+const EARTH_RADIUS_KM = 6371
+
+// Dispatches that have committed to the incident
+const RESPONDING_STATUSES: HeroDispatchStatus[] = ["accepted", "arrived", "handed_off"]
+
+const heroes = createCollection<HeroResponder>("heroes")
+
+/**
+ * Great-circle distance between two points
+ * @param from First point
+ * @param to Second point
+ * @returns Distance in kilometres
+ */
+export function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Estimate how long a hero will take to arrive
+ * @param distance Distance in kilometres
+ * @returns Whole minutes, at least one
+ */
+export function estimateEtaMinutes(distance: number): number {
+  return Math.max(1, Math.ceil((distance / ESTIMATED_TRAVEL_KMH) * 60))
+}
+
+/**
+ * Rank heroes by distance from a location, keeping only those who can respond
+ * @param candidates Registered heroes
+ * @param location Where help is needed
+ * @param options Number to return, search radius, heroes to leave out and the current time
+ * @returns The nearest available heroes with recent locations, closest first
+ */
+export function rankNearestHeroes(
+  candidates: HeroResponder[],
+  location: { latitude: number; longitude: number },
+  options: { limit?: number; radiusKm?: number; excludeUserIds?: string[]; now?: number } = {},
+): NearbyHero[] {
+  const limit = options.limit ?? DEFAULT_HERO_DISPATCH_COUNT
+  const radiusKm = options.radiusKm ?? DEFAULT_HERO_RADIUS_KM
+  const oldest = (options.now ?? Date.now()) - HERO_LOCATION_MAX_AGE_MINUTES * 60 * 1000
+
+  return candidates
+    .filter(
+      (hero) =>
+        hero.available &&
+        hero.location &&
+        Date.parse(hero.location.updatedAt) >= oldest &&
+        !options.excludeUserIds?.includes(hero.userId),
+    )
+    .map((hero) => ({ hero, distanceKm: distanceKm(location, hero.location as HeroLocation) }))
+    .filter((nearby) => nearby.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit)
+}
+
+/**
+ * Count the heroes who have committed to an incident
+ * @param incident Incident
+ * @returns Heroes who accepted and haven't dropped out
+ */
+export function countRespondingHeroes(incident: Incident): number {
+  return (incident.heroDispatches || []).filter((dispatch) => RESPONDING_STATUSES.includes(dispatch.status)).length
+}
+
+/**
+ * Register a user as a hero, or update their registration
+ * @param input Hero details
+ * @returns The stored hero
+ */
+export async function registerHero(input: {
+  userId: string
+  name: string
+  phone?: string
+  email?: string
+  available?: boolean
+  carriesNaloxone?: boolean
+  location?: { latitude: number; longitude: number }
+}): Promise<HeroResponder> {
+  const now = new Date().toISOString()
+  const location = input.location && { ...input.location, updatedAt: now }
+
+  const existing = await heroes.get(input.userId)
+  if (existing) {
+    const updated = await heroes.update(input.userId, (hero) => ({
+      ...hero,
+      name: input.name,
+      phone: input.phone ?? hero.phone,
+      email: input.email ?? hero.email,
+      available: input.available ?? hero.available,
+      carriesNaloxone: input.carriesNaloxone ?? hero.carriesNaloxone,
+      location: location || hero.location,
+      updatedAt: now,
+    }))
+    return updated as HeroResponder
+  }
+
+  return heroes.insert({
+    id: input.userId,
+    userId: input.userId,
+    name: input.name,
+    phone: input.phone,
+    email: input.email,
+    available: input.available ?? true,
+    carriesNaloxone: input.carriesNaloxone ?? false,
+    location,
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+/**
+ * Get a registered hero
+ * @param userId User ID
+ * @returns The hero or null if the user isn't registered
+ */
+export async function getHero(userId: string): Promise<HeroResponder | null> {
+  return heroes.get(userId)
+}
+
+/**
+ * Update a hero's availability, naloxone status or location
+ * @param userId User ID
+ * @param changes Fields to change
+ * @returns The updated hero or null if the user isn't registered
+ */
+export async function updateHeroStatus(
+  userId: string,
+  changes: { available?: boolean; carriesNaloxone?: boolean; location?: { latitude: number; longitude: number } },
+): Promise<HeroResponder | null> {
+  return heroes.update(userId, (hero) => {
+    const now = new Date().toISOString()
+    return {
+      ...hero,
+      available: changes.available ?? hero.available,
+      carriesNaloxone: changes.carriesNaloxone ?? hero.carriesNaloxone,
+      location: changes.location ? { ...changes.location, updatedAt: now } : hero.location,
+      updatedAt: now,
+    }
+  })
+}
+
+/**
+ * Mark a hero as verified, which lets them see exact locations of incidents they accept
+ * @param userId User ID
+ * @returns The updated hero or null if the user isn't registered
+ */
+export async function verifyHero(userId: string): Promise<HeroResponder | null> {
+  return heroes.update(userId, (hero) => {
+    const now = new Date().toISOString()
+    return { ...hero, verifiedAt: hero.verifiedAt || now, updatedAt: now }
+  })
+}
+
+/**
+ * Remove a user from the Hero Network
+ * @param userId User ID
+ * @returns Whether the user was registered
+ */
+export async function removeHero(userId: string): Promise<boolean> {
+  return heroes.remove(userId)
+}
+
+/**
+ * Find the nearest heroes who can respond to a location
+ * @param location Where help is needed
+ * @param options Number to return, search radius and heroes to leave out
+ * @returns The nearest available heroes, closest first
+ */
+export async function findNearestHeroes(
+  location: { latitude: number; longitude: number },
+  options: { limit?: number; radiusKm?: number; excludeUserIds?: string[] } = {},
+): Promise<NearbyHero[]> {
+  return rankNearestHeroes(await heroes.list(), location, options)
+}
+
+function getDispatchSettings(): { limit: number; radiusKm: number } {
+  return {
+    limit: Number(process.env.HERO_DISPATCH_COUNT) || DEFAULT_HERO_DISPATCH_COUNT,
+    radiusKm: Number(process.env.HERO_RADIUS_KM) || DEFAULT_HERO_RADIUS_KM,
+  }
+}
+
+/**
+ * Build the link that opens the responder view for an alert
+ * @param incidentId Incident ID
+ * @param heroId Hero's user ID
+ * @returns Responder view URL
+ */
+export function buildResponderViewUrl(incidentId: string, heroId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://narcoguard.com"
+  const token = generateAcknowledgementToken(incidentId, `hero:${heroId}`)
+  return `${baseUrl}/hero-network/respond?incident=${incidentId}&token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Read the hero a response link was issued to
+ * @param token Token from a hero alert link
+ * @param incidentId Incident the link should belong to
+ * @returns The hero's user ID, or null if the token is invalid or for another incident
+ */
+export function verifyHeroToken(token: string | null | undefined, incidentId: string): string | null {
+  const tokenData = token ? verifyAcknowledgementToken(token) : null
+  if (!tokenData || tokenData.incidentId !== incidentId || !String(tokenData.recipient).startsWith("hero:")) {
+    return null
+  }
+  return String(tokenData.recipient).slice("hero:".length)
+}
+
+async function alertHero(incident: Incident, hero: HeroResponder, distance: number): Promise<DeliveryStatus> {
+  const channel = hero.phone ? "sms" : "email"
+  const to = hero.phone || hero.email
+  if (!to) {
+    return {
+      contactName: hero.name,
+      channel,
+      status: "skipped",
+      error: "Hero has no phone number or email address",
+      at: new Date().toISOString(),
+    }
+  }
+
+  // Heroes are never told who needs help, and only see the exact location once they accept
+  const text = [
+    `🦸 Narcoguard Hero alert: someone ${distance.toFixed(1)} km from you may be experiencing an overdose.`,
+    `Respond or let us know you can't go: ${buildResponderViewUrl(incident.id, hero.userId)}`,
+  ].join(" ")
+
+  const delivery = await sendNotification(channel, { to, subject: "Narcoguard Hero alert", text })
+  return { ...delivery, contactName: hero.name }
+}
+
+/**
+ * Alert the nearest available heroes about an incident
+ * Only runs for users who allow the Hero Network and incidents with a known location.
+ * @param incident Incident that needs help
+ * @returns Number of heroes reached
+ */
+export async function dispatchHeroes(incident: Incident): Promise<number> {
+  const { latitude, longitude } = incident.location || {}
+  if (!incident.allowHeroNetwork || latitude === undefined || longitude === undefined) {
+    await recordIncidentEvent(incident.id, {
+      type: "hero_dispatch_skipped",
+      actor: "system",
+      note: incident.allowHeroNetwork ? "Incident has no location" : "User has not enabled the Hero Network",
+    })
+    return 0
+  }
+
+  const alreadyAlerted = (incident.heroDispatches || []).map((dispatch) => dispatch.heroId)
+  const nearby = await findNearestHeroes(
+    { latitude, longitude },
+    { ...getDispatchSettings(), excludeUserIds: [incident.userId, ...alreadyAlerted] },
+  )
+
+  // Heroes are ranked by the exact location but only ever told their distance to the broadcast cell
+  const cell = coarsenLocation({ latitude, longitude })
+  const broadcastDistances = nearby.map(
+    ({ hero }) => Math.round(distanceKm(cell, hero.location as HeroLocation) * 10) / 10,
+  )
+
+  const deliveries = await Promise.all(
+    nearby.map(({ hero }, index) => alertHero(incident, hero, broadcastDistances[index])),
+  )
+  const now = new Date().toISOString()
+  const dispatches: HeroDispatch[] = nearby.map(({ hero }, index) => ({
+    heroId: hero.userId,
+    name: hero.name,
+    distanceKm: broadcastDistances[index],
+    carriesNaloxone: hero.carriesNaloxone,
+    status: deliveries[index].status === "sent" ? "notified" : "failed",
+    notifiedAt: now,
+  }))
+
+  await recordIncidentEvent(
+    incident.id,
+    {
+      type: "heroes_notified",
+      actor: "system",
+      data: { candidates: nearby.length, sent: dispatches.filter((dispatch) => dispatch.status === "notified").length },
+    },
+    (current) => ({ heroDispatches: [...(current.heroDispatches || []), ...dispatches] }),
+  )
+
+  return dispatches.filter((dispatch) => dispatch.status === "notified").length
+}
+
+async function getHeroDispatch(
+  incidentId: string,
+  heroId: string,
+): Promise<{ incident: Incident; dispatch: HeroDispatch }> {
+  const incident = await getIncident(incidentId)
+  const dispatch = incident?.heroDispatches?.find((entry) => entry.heroId === heroId)
+  if (!incident || !dispatch) {
+    throw new Error("Hero dispatch not found")
+  }
+  return { incident, dispatch }
+}
+
+/**
+ * Record a hero's answer to an alert
+ * Accepting acknowledges the incident, which stops the escalation ladder. If every alerted hero
+ * declines, the ladder moves on without waiting out the step.
+ * @param incidentId Incident ID
+ * @param heroId Hero's user ID
+ * @param response Accept or decline
+ * @param details ETA in minutes, or the hero's current location to estimate it from
+ * @returns The hero's dispatch record
+ */
+export async function respondToHeroDispatch(
+  incidentId: string,
+  heroId: string,
+  response: "accept" | "decline",
+  details: { etaMinutes?: number; location?: { latitude: number; longitude: number } } = {},
+): Promise<HeroDispatch> {
+  const { incident, dispatch } = await getHeroDispatch(incidentId, heroId)
+  if (response === "accept" && RESPONDING_STATUSES.includes(dispatch.status)) {
+    return dispatch
+  }
+
+  let etaMinutes: number | undefined
+  if (response === "accept") {
+    const { latitude, longitude } = incident.location || {}
+    etaMinutes =
+      details.etaMinutes && details.etaMinutes > 0
+        ? Math.round(details.etaMinutes)
+        : estimateEtaMinutes(
+            details.location && latitude !== undefined && longitude !== undefined
+              ? distanceKm(details.location, { latitude, longitude })
+              : dispatch.distanceKm,
+          )
+  }
+
+  const answer: Partial<HeroDispatch> = {
+    status: response === "accept" ? "accepted" : "declined",
+    respondedAt: new Date().toISOString(),
+    etaMinutes,
+  }
+
+  const updated = await recordIncidentEvent(
+    incidentId,
+    {
+      type: response === "accept" ? "hero_accepted" : "hero_declined",
+      actor: `hero:${heroId}`,
+      data: {
+        distanceKm: dispatch.distanceKm,
+        etaMinutes,
+        carriesNaloxone: dispatch.carriesNaloxone,
+        secondsSinceIncident: Math.round((Date.now() - Date.parse(incident.createdAt)) / 1000),
+      },
+    },
+    (current) => ({
+      heroDispatches: (current.heroDispatches || []).map((entry) =>
+        entry.heroId === heroId ? { ...entry, ...answer } : entry,
+      ),
+    }),
+  )
+  const dispatches = updated?.heroDispatches || []
+  const updatedDispatch = dispatches.find((entry) => entry.heroId === heroId) || { ...dispatch, ...answer }
+
+  if (response === "accept") {
+    await acknowledgeIncident(incidentId, `hero:${heroId}`, "link")
+    return updatedDispatch
+  }
+
+  // Nobody left to wait for at the hero step, so widen the alert now
+  const escalation = updated?.escalation
+  const step = escalation?.policy.steps[escalation.stepIndex]
+  const waiting = dispatches.some((entry) => entry.status === "notified" || RESPONDING_STATUSES.includes(entry.status))
+  if (step?.type === "hero_network" && !waiting) {
+    await advanceEscalation(incidentId, escalation!.stepIndex)
+  }
+
+  return updatedDispatch
+}
+
+/**
+ * Build what an alerted hero sees about an incident
+ * @param incidentId Incident ID
+ * @param heroId Hero's user ID
+ * @returns Responder view of the incident
+ */
+export async function getResponderView(incidentId: string, heroId: string): Promise<ResponderView> {
+  const { incident, dispatch } = await getHeroDispatch(incidentId, heroId)
+  const hero = await getHero(heroId)
+  const accepted = RESPONDING_STATUSES.includes(dispatch.status)
+  const incidentClosed = isIncidentClosed(incident)
+  const heroVerified = Boolean(hero?.verifiedAt)
+
+  return {
+    incidentId: incident.id,
+    emergencyType: incident.emergencyType,
+    status: incident.status,
+    createdAt: incident.createdAt,
+    location: shareLocationWithHero(incident.location, { accepted, verified: heroVerified, incidentClosed }),
+    vitalSigns: accepted && !incidentClosed && incident.shareVitalsWithHeroes ? incident.vitalSigns : undefined,
+    dispatch,
+    heroVerified,
+    otherResponders: (incident.heroDispatches || []).filter(
+      (entry) => entry.heroId !== heroId && RESPONDING_STATUSES.includes(entry.status),
+    ).length,
+  }
+}
+
+/**
+ * Record a hero's progress on the incident timeline
+ * "On my way" accepts the alert; the other actions need the alert accepted first. Each action is
+ * recorded once, with seconds since the incident was raised so response times can be measured.
+ * @param incidentId Incident ID
+ * @param heroId Hero's user ID
+ * @param action Action the hero reported
+ * @param details ETA or current location when accepting
+ * @returns The hero's dispatch record
+ */
+export async function recordHeroAction(
+  incidentId: string,
+  heroId: string,
+  action: HeroAction,
+  details: { etaMinutes?: number; location?: { latitude: number; longitude: number } } = {},
+): Promise<HeroDispatch> {
+  if (action === "on_my_way") {
+    return respondToHeroDispatch(incidentId, heroId, "accept", details)
+  }
+
+  const { incident, dispatch } = await getHeroDispatch(incidentId, heroId)
+  if (!RESPONDING_STATUSES.includes(dispatch.status)) {
+    throw new Error("Hero must accept the alert first")
+  }
+
+  const field = ({ arrived: "arrivedAt", naloxone_given: "naloxoneGivenAt", handed_off: "handedOffAt" } as const)[
+    action
+  ]
+  if (dispatch[field]) {
+    return dispatch
+  }
+
+  const now = new Date()
+  const applyAction = (entry: HeroDispatch): HeroDispatch => {
+    if (entry[field]) {
+      return entry
+    }
+    const next: HeroDispatch = { ...entry, [field]: now.toISOString() }
+    if (action === "arrived" && entry.status === "accepted") {
+      next.status = "arrived"
+    }
+    if (action === "handed_off") {
+      next.status = "handed_off"
+    }
+    return next
+  }
+
+  const updated = await recordIncidentEvent(
+    incidentId,
+    {
+      type: `hero_${action}`,
+      actor: `hero:${heroId}`,
+      data: { secondsSinceIncident: Math.round((now.getTime() - Date.parse(incident.createdAt)) / 1000) },
+    },
+    (current) => ({
+      heroDispatches: (current.heroDispatches || []).map((entry) =>
+        entry.heroId === heroId ? applyAction(entry) : entry,
+      ),
+    }),
+  )
+
+  if (action === "arrived" && updated && canTransition(updated.status, "responder_on_scene")) {
+    await transitionIncident(incidentId, "responder_on_scene", { actor: `hero:${heroId}` })
+  }
+
+  return updated?.heroDispatches?.find((entry) => entry.heroId === heroId) || applyAction(dispatch)
+}
@@ -0,0 +1,265 @@
+/**
+ * Incident records and lifecycle for emergency alerts
+ */
+
+import { randomUUID } from "crypto"
+import { createCollection } from "./store"
+import type { DeliveryStatus } from "./notifications"
+import type { EscalationState } from "./escalation"
+import type { HeroDispatch } from "./heroes"
+
+export type IncidentStatus =
+  | "detected"
+  | "countdown"
+  | "dispatched"
+  | "acknowledged"
+  | "responder_on_scene"
+  | "resolved"
+  | "cancelled"
+  | "false_alarm"
+
+export interface IncidentLocation {
+  latitude?: number
+  longitude?: number
+  address?: string
+}
+
+export interface IncidentVitalSigns {
+  heartRate?: number
+  respiratoryRate?: number
+  oxygenSaturation?: number
+  bloodPressure?: { systolic?: number; diastolic?: number }
+}
+
+export interface IncidentContact {
+  // The contact's ID in the user's saved contacts, and their consent to be alerted (lib/contact-consent)
+  id?: string
+  consentId?: string
+  name?: string
+  email?: string
+  phone?: string
+  notify?: boolean
+  notificationMethod?: "call" | "text" | "email"
+  priority?: "primary" | "secondary"
+}
+
+export interface IncidentEvent {
+  type: string
+  at: string
+  status?: IncidentStatus
+  actor?: string
+  note?: string
+  data?: Record<string, any>
+}
+
+export interface Incident {
+  id: string
+  userId: string
+  userName?: string
+  emergencyType: string
+  status: IncidentStatus
+  location?: IncidentLocation
+  vitalSigns?: IncidentVitalSigns
+  contacts: IncidentContact[]
+  deliveries: DeliveryStatus[]
+  escalation?: EscalationState
+  // Whether the user lets nearby Hero Network responders be alerted
+  allowHeroNetwork?: boolean
+  // Whether heroes who accept may see the vitals snapshot
+  shareVitalsWithHeroes?: boolean
+  heroDispatches?: HeroDispatch[]
+  createdAt: string
+  updatedAt: string
+  closedAt?: string
+  timeline: IncidentEvent[]
+}
+
+// Allowed moves through the lifecycle; closed states have no exits
+export const INCIDENT_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  detected: ["countdown", "dispatched", "cancelled", "false_alarm"],
+  countdown: ["dispatched", "cancelled", "false_alarm"],
+  dispatched: ["acknowledged", "responder_on_scene", "resolved", "false_alarm"],
+  acknowledged: ["responder_on_scene", "resolved", "false_alarm"],
+  responder_on_scene: ["resolved", "false_alarm"],
+  resolved: [],
+  cancelled: [],
+  false_alarm: [],
+}
+
+export const CLOSED_INCIDENT_STATUSES: IncidentStatus[] = ["resolved", "cancelled", "false_alarm"]
+
+const incidents = createCollection<Incident>("incidents")
+
+/**
+ * Check whether an incident may move between two states
+ * @param from Current status
+ * @param to Requested status
+ * @returns Whether the transition is allowed
+ */
+export function canTransition(from: IncidentStatus, to: IncidentStatus): boolean {
+  return INCIDENT_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Check whether an incident has reached a closed state
+ * @param incident Incident to check
+ * @returns Whether the incident is closed
+ */
+export function isIncidentClosed(incident: Incident): boolean {
+  return CLOSED_INCIDENT_STATUSES.includes(incident.status)
+}
+
+/**
+ * Create a new incident in the detected state
+ * @param input Incident details reported by the client
+ * @returns The stored incident
+ */
+export async function createIncident(input: {
+  userId: string
+  userName?: string
+  emergencyType: string
+  location?: IncidentLocation
+  vitalSigns?: IncidentVitalSigns
+  contacts?: IncidentContact[]
+  escalation?: EscalationState
+  allowHeroNetwork?: boolean
+  shareVitalsWithHeroes?: boolean
+}): Promise<Incident> {
+  const now = new Date().toISOString()
+
+  const incident: Incident = {
+    id: randomUUID(),
+    userId: input.userId,
+    userName: input.userName,
+    emergencyType: input.emergencyType,
+    status: "detected",
+    location: input.location,
+    vitalSigns: input.vitalSigns,
+    contacts: input.contacts || [],
+    deliveries: [],
+    escalation: input.escalation,
+    allowHeroNetwork: input.allowHeroNetwork,
+    shareVitalsWithHeroes: input.shareVitalsWithHeroes,
+    createdAt: now,
+    updatedAt: now,
+    timeline: [{ type: "status_changed", at: now, status: "detected" }],
+  }
+
+  return incidents.insert(incident)
+}
+
+/**
+ * Get an incident by ID
+ * @param id Incident ID
+ * @returns The incident or null if it doesn't exist
+ */
+export async function getIncident(id: string): Promise<Incident | null> {
+  return incidents.get(id)
+}
+
+/**
+ * List incidents matching a filter
+ * @param filter Predicate applied to each incident
+ * @returns Matching incidents
+ */
+export async function listIncidents(filter?: (incident: Incident) => boolean): Promise<Incident[]> {
+  return incidents.list(filter)
+}
+
+/**
+ * List incidents for a user, newest first
+ * @param userId User ID
+ * @returns Incidents belonging to the user
+ */
+export async function listIncidentsForUser(userId: string): Promise<Incident[]> {
+  const records = await incidents.list((incident) => incident.userId === userId)
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Move an incident to a new state and record it on the timeline
+ * @param id Incident ID
+ * @param status Requested status
+ * @param details Who made the change and why
+ * @returns The updated incident or null if it doesn't exist
+ */
+export async function transitionIncident(
+  id: string,
+  status: IncidentStatus,
+  details: { actor?: string; note?: string } = {},
+): Promise<Incident | null> {
+  return incidents.update(id, (incident) => {
+    if (!canTransition(incident.status, status)) {
+      throw new Error(`Invalid incident transition: ${incident.status} -> ${status}`)
+    }
+
+    const now = new Date().toISOString()
+    return {
+      ...incident,
+      status,
+      updatedAt: now,
+      closedAt: CLOSED_INCIDENT_STATUSES.includes(status) ? now : incident.closedAt,
+      timeline: [...incident.timeline, { type: "status_changed", at: now, status, ...details }],
+    }
+  })
+}
+
+type IncidentChanges = Partial<Omit<Incident, "id" | "status" | "timeline">>
+
+/**
+ * Append an event to an incident's timeline without changing its status
+ * @param id Incident ID
+ * @param event Event to record
+ * @param changes Other fields to update alongside the event, or a function that works them out from the
+ * incident as stored, for changes to lists and records that other requests may be updating at the same time
+ * @returns The updated incident or null if it doesn't exist
+ */
+export async function recordIncidentEvent(
+  id: string,
+  event: Omit<IncidentEvent, "at">,
+  changes: IncidentChanges | ((incident: Incident) => IncidentChanges) = {},
+): Promise<Incident | null> {
+  return incidents.update(id, (incident) => {
+    const now = new Date().toISOString()
+    return {
+      ...incident,
+      ...(typeof changes === "function" ? changes(incident) : changes),
+      updatedAt: now,
+      timeline: [...incident.timeline, { ...event, at: now }],
+    }
+  })
+}
+
+/**
+ * Record the outcome of notifying contacts about an incident
+ * @param id Incident ID
+ * @param deliveries Delivery status for each contact
+ * @param details Extra context for the timeline entry
+ * @returns The updated incident or null if it doesn't exist
+ */
+export async function recordContactDeliveries(
+  id: string,
+  deliveries: DeliveryStatus[],
+  details: Record<string, any> = {},
+): Promise<Incident | null> {
+  return incidents.update(id, (incident) => {
+    const now = new Date().toISOString()
+    const count = (status: DeliveryStatus["status"]) =>
+      deliveries.filter((delivery) => delivery.status === status).length
+
+    return {
+      ...incident,
+      updatedAt: now,
+      deliveries: [...(incident.deliveries || []), ...deliveries],
+      timeline: [
+        ...incident.timeline,
+        {
+          type: "contacts_notified",
+          at: now,
+          actor: "system",
+          data: { ...details, sent: count("sent"), failed: count("failed"), skipped: count("skipped") },
+        },
+      ],
+    }
+  })
+}
@@ -0,0 +1,20 @@
+/**
+ * Handlers for scheduled job types
+ */
+
+import type { JobHandler } from "./scheduler"
+import { COUNTDOWN_JOB, expireCountdown } from "./emergency"
+import { advanceEscalation } from "./escalation"
+import { reencryptAll, REENCRYPT_JOB } from "./key-rotation"
+import { sendKitExpiryReminder, sendKitReplacementReminder } from "./naloxone-kits"
+import { handleMissedCheckIn } from "./spotting"
+
+export const JOB_HANDLERS: Record<string, JobHandler> = {
+  [COUNTDOWN_JOB]: (payload) => expireCountdown(payload.incidentId),
+  "escalation.advance": (payload) => advanceEscalation(payload.incidentId, payload.stepIndex),
+  "spotting.deadline": (payload) => handleMissedCheckIn(payload.sessionId, payload.deadlineAt),
+  "naloxone.expiry_reminder": (payload) => sendKitExpiryReminder(payload.kitId, payload.expiresOn, payload.daysBefore),
+  "naloxone.replacement_reminder": (payload) => sendKitReplacementReminder(payload.kitId, payload.followUp),
+  // The count of rewritten records per store is kept on the completed job
+  [REENCRYPT_JOB]: async () => ({ rewritten: await reencryptAll() }),
+}
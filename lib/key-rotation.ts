@@ -0,0 +1,42 @@
+/**
+ * Master key rotation
+ *
+ * Rotating adds a new master key version and schedules a job that re-encrypts every stored value
+ * still using an older one. Until the job has run, old versions keep decrypting, so rotation never
+ * interrupts reads.
+ */
+
+import { reencryptEmergencyContacts } from "./emergency-contacts"
+import { getKms } from "./kms"
+import { scheduleJob } from "./scheduler"
+import { reencryptTwoFactorSecrets } from "./two-factor"
+
+// Each store with encrypted fields, and the pass that moves its values onto the current master key
+const REENCRYPTION_PASSES: Record<string, () => Promise<number>> = {
+  "two-factor": reencryptTwoFactorSecrets,
+  "emergency-contacts": reencryptEmergencyContacts,
+}
+
+export const REENCRYPT_JOB = "encryption.reencrypt"
+
+/**
+ * Re-encrypt every stored value that isn't on the current master key
+ * @returns How many records were rewritten in each store
+ */
+export async function reencryptAll(): Promise<Record<string, number>> {
+  const rewritten: Record<string, number> = {}
+  for (const [store, pass] of Object.entries(REENCRYPTION_PASSES)) {
+    rewritten[store] = await pass()
+  }
+  return rewritten
+}
+
+/**
+ * Add a new master key version and schedule re-encryption onto it
+ * @returns The new key version and the re-encryption job
+ */
+export async function rotateMasterKey(): Promise<{ keyId: string; jobId: string }> {
+  const keyId = await getKms().rotate()
+  const job = await scheduleJob(REENCRYPT_JOB, new Date(), { keyId })
+  return { keyId, jobId: job.id }
+}
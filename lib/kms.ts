@@ -0,0 +1,169 @@
+/**
+ * Master keys for envelope encryption
+ *
+ * Records are encrypted with their own data key, and only the data key is encrypted ("wrapped") with
+ * a master key. Master keys are versioned: rotating adds a new version that wraps from then on, while
+ * older versions stay available to unwrap until the re-encryption job has moved every record over.
+ *
+ * The file-based service keeps master keys in a JSON file under the data directory. It's a stand-in
+ * for development and tests; production should implement KeyManagementService over a hosted KMS so
+ * master keys never sit next to the data.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto"
+import fs from "fs"
+import path from "path"
+import { getDataDirectory } from "./store"
+
+export interface MasterKeyVersion {
+  id: string
+  createdAt: string
+}
+
+export interface WrappedKey {
+  // Master key version that wrapped the data key
+  keyId: string
+  wrappedKey: Buffer
+}
+
+export interface KeyManagementService {
+  name: string
+  // Version new data keys are wrapped with
+  currentKeyId: () => Promise<string>
+  listKeys: () => Promise<MasterKeyVersion[]>
+  wrapKey: (dataKey: Buffer) => Promise<WrappedKey>
+  unwrapKey: (keyId: string, wrappedKey: Buffer) => Promise<Buffer>
+  // Add a new master key version and make it current
+  rotate: () => Promise<string>
+}
+
+interface StoredMasterKey extends MasterKeyVersion {
+  // Base64 AES-256 key
+  key: string
+}
+
+const MASTER_KEY_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+// Wrapped keys are iv | tag | ciphertext, authenticated with the key version so they can't be swapped
+function wrapWith(master: StoredMasterKey, dataKey: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv("aes-256-gcm", Buffer.from(master.key, "base64"), iv)
+  cipher.setAAD(Buffer.from(master.id))
+  const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+function unwrapWith(master: StoredMasterKey, wrappedKey: Buffer): Buffer {
+  const decipher = createDecipheriv("aes-256-gcm", Buffer.from(master.key, "base64"), wrappedKey.subarray(0, IV_BYTES))
+  decipher.setAAD(Buffer.from(master.id))
+  decipher.setAuthTag(wrappedKey.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+  return Buffer.concat([decipher.update(wrappedKey.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+}
+
+function newMasterKey(version: number): StoredMasterKey {
+  return {
+    id: `mk-v${version}`,
+    key: randomBytes(MASTER_KEY_BYTES).toString("base64"),
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Open a key management service backed by a local JSON file, creating the first key if needed
+ * @param filePath Where the master keys are kept
+ * @returns Key management service
+ */
+export function createFileKms(filePath: string): KeyManagementService {
+  // Key file access is serialized so two rotations can't both write version n + 1
+  let queue: Promise<unknown> = Promise.resolve()
+  const serialize = <R>(task: () => Promise<R>): Promise<R> => {
+    const next = queue.then(task, task)
+    queue = next.catch(() => undefined)
+    return next
+  }
+
+  const readKeys = async (): Promise<StoredMasterKey[]> => {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(filePath, "utf8"))
+      return Array.isArray(parsed.keys) ? parsed.keys : []
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+  }
+
+  const writeKeys = async (keys: StoredMasterKey[]): Promise<void> => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.promises.writeFile(tempPath, JSON.stringify({ keys }, null, 2), { mode: 0o600 })
+    await fs.promises.rename(tempPath, filePath)
+  }
+
+  // The newest key is current; the first call creates version 1
+  const loadKeys = () =>
+    serialize(async () => {
+      const keys = await readKeys()
+      if (keys.length === 0) {
+        keys.push(newMasterKey(1))
+        await writeKeys(keys)
+      }
+      return keys
+    })
+
+  const findKey = async (keyId: string): Promise<StoredMasterKey> => {
+    const key = (await loadKeys()).find((candidate) => candidate.id === keyId)
+    if (!key) {
+      throw new Error(`Unknown master key ${keyId}`)
+    }
+    return key
+  }
+
+  return {
+    name: "file",
+
+    currentKeyId: async () => (await loadKeys()).at(-1)!.id,
+
+    listKeys: async () => (await loadKeys()).map(({ id, createdAt }) => ({ id, createdAt })),
+
+    wrapKey: async (dataKey) => {
+      const current = (await loadKeys()).at(-1)!
+      return { keyId: current.id, wrappedKey: wrapWith(current, dataKey) }
+    },
+
+    unwrapKey: async (keyId, wrappedKey) => unwrapWith(await findKey(keyId), wrappedKey),
+
+    rotate: async () => {
+      await loadKeys()
+      return serialize(async () => {
+        const keys = await readKeys()
+        const latest = Number(keys.at(-1)?.id.replace(/^mk-v/, "")) || keys.length
+        const next = newMasterKey(latest + 1)
+        await writeKeys([...keys, next])
+        return next.id
+      })
+    },
+  }
+}
+
+let cached: { filePath: string; kms: KeyManagementService } | undefined
+
+/**
+ * The key management service for this deployment
+ * @returns The file-based service, keeping keys at KMS_KEY_FILE or <data dir>/kms/master-keys.json
+ */
+export function getKms(): KeyManagementService {
+  const filePath = process.env.KMS_KEY_FILE || path.join(getDataDirectory(), "kms", "master-keys.json")
+
+  if (cached?.filePath !== filePath) {
+    if (process.env.NODE_ENV === "production") {
+      console.warn("Using the file-based key store; master keys are kept on disk next to the data")
+    }
+    cached = { filePath, kms: createFileKms(filePath) }
+  }
+
+  return cached.kms
+}
@@ -0,0 +1,157 @@
+/**
+ * Location privacy for Hero Network alerts
+ *
+ * Heroes are strangers to the person in trouble, so they never see an exact location by default.
+ * Alerts and the responder view show a geohash cell around the location; the precise location is
+ * only shared with a verified hero who has accepted the alert, and stops being shared once the
+ * incident closes.
+ */
+
+import type { IncidentLocation } from "./incidents"
+
+export interface SharedLocation {
+  precise: boolean
+  latitude: number
+  longitude: number
+  address?: string
+  // Cell the location was coarsened to, and roughly how far the real location may be from its centre
+  geohash?: string
+  radiusKm?: number
+}
+
+// A 6-character geohash cell is about 1.2 km by 0.6 km
+export const BROADCAST_GEOHASH_PRECISION = 6
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz"
+
+const KM_PER_DEGREE_LATITUDE = 111.32
+
+/**
+ * Encode a point as a geohash
+ * @param latitude Latitude in degrees
+ * @param longitude Longitude in degrees
+ * @param precision Number of characters
+ * @returns Geohash of the cell containing the point
+ */
+export function encodeGeohash(latitude: number, longitude: number, precision = BROADCAST_GEOHASH_PRECISION): string {
+  const latitudeRange = [-90, 90]
+  const longitudeRange = [-180, 180]
+  let geohash = ""
+  let bits = 0
+  let index = 0
+  let evenBit = true
+
+  while (geohash.length < precision) {
+    // Bits alternate between longitude and latitude, starting with longitude
+    const range = evenBit ? longitudeRange : latitudeRange
+    const value = evenBit ? longitude : latitude
+    const middle = (range[0] + range[1]) / 2
+
+    index <<= 1
+    if (value >= middle) {
+      index |= 1
+      range[0] = middle
+    } else {
+      range[1] = middle
+    }
+
+    evenBit = !evenBit
+    if (++bits === 5) {
+      geohash += GEOHASH_ALPHABET[index]
+      bits = 0
+      index = 0
+    }
+  }
+
+  return geohash
+}
+
+/**
+ * Decode a geohash to the centre of its cell
+ * @param geohash Geohash
+ * @returns Centre of the cell and its half-height and half-width in degrees
+ */
+export function decodeGeohash(geohash: string): {
+  latitude: number
+  longitude: number
+  latitudeError: number
+  longitudeError: number
+} {
+  const latitudeRange = [-90, 90]
+  const longitudeRange = [-180, 180]
+  let evenBit = true
+
+  for (const character of geohash.toLowerCase()) {
+    const index = GEOHASH_ALPHABET.indexOf(character)
+    if (index === -1) {
+      throw new Error(`Invalid geohash ${geohash}`)
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? longitudeRange : latitudeRange
+      const middle = (range[0] + range[1]) / 2
+      if ((index >> bit) & 1) {
+        range[0] = middle
+      } else {
+        range[1] = middle
+      }
+      evenBit = !evenBit
+    }
+  }
+
+  return {
+    latitude: (latitudeRange[0] + latitudeRange[1]) / 2,
+    longitude: (longitudeRange[0] + longitudeRange[1]) / 2,
+    latitudeError: (latitudeRange[1] - latitudeRange[0]) / 2,
+    longitudeError: (longitudeRange[1] - longitudeRange[0]) / 2,
+  }
+}
+
+/**
+ * Replace a location with the centre of its geohash cell, dropping the street address
+ * @param location Exact location
+ * @param precision Geohash length; shorter is coarser
+ * @returns Coarse location
+ */
+export function coarsenLocation(
+  location: { latitude: number; longitude: number },
+  precision = BROADCAST_GEOHASH_PRECISION,
+): SharedLocation {
+  const geohash = encodeGeohash(location.latitude, location.longitude, precision)
+  const cell = decodeGeohash(geohash)
+
+  // Centre to corner, so the real location is always within the radius
+  const heightKm = cell.latitudeError * KM_PER_DEGREE_LATITUDE
+  const widthKm = cell.longitudeError * KM_PER_DEGREE_LATITUDE * Math.cos((cell.latitude * Math.PI) / 180)
+
+  return {
+    precise: false,
+    latitude: cell.latitude,
+    longitude: cell.longitude,
+    geohash,
+    radiusKm: Math.round(Math.hypot(heightKm, widthKm) * 10) / 10,
+  }
+}
+
+/**
+ * Decide how much of an incident's location a hero may see
+ * @param location Incident location as reported by the emergency trigger
+ * @param access Whether the hero accepted the alert, whether they are verified, and whether the incident has closed
+ * @returns Precise location for a verified hero who accepted, the coarse cell otherwise, and nothing once the
+ * incident has closed or when it has no coordinates
+ */
+export function shareLocationWithHero(
+  location: IncidentLocation | undefined,
+  access: { accepted: boolean; verified: boolean; incidentClosed: boolean },
+): SharedLocation | undefined {
+  const { latitude, longitude } = location || {}
+  if (access.incidentClosed || latitude === undefined || longitude === undefined) {
+    return undefined
+  }
+
+  if (access.accepted && access.verified) {
+    return { precise: true, latitude, longitude, address: location?.address }
+  }
+
+  return coarsenLocation({ latitude, longitude })
+}
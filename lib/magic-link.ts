@@ -0,0 +1,67 @@
+/**
+ * Passwordless sign-in by email
+ *
+ * The link carries a short-lived signed token, like download links. It opens /login/magic, which
+ * posts the token back, so mail scanners that follow links don't use it up. Each token's ID goes on
+ * the revocation list when it's redeemed, so a link only works once. Redeeming a link verifies the
+ * user's email address.
+ */
+
+import { generateLoginToken, verifyLoginToken } from "./auth"
+import { buildMagicLinkEmail } from "./email"
+import { sendNotification, type DeliveryStatus } from "./notifications"
+import { isTokenRevoked, revokeToken } from "./token-store"
+import { findUserByEmail, markEmailVerified, type User } from "./users"
+
+/**
+ * Build the sign-in page URL for a login token
+ * @param token Signed login token
+ * @param next Page to open after signing in
+ * @returns Absolute URL
+ */
+export function buildMagicLinkUrl(token: string, next?: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://narcoguard.com"
+  const url = new URL("/login/magic", baseUrl)
+  url.searchParams.set("token", token)
+  if (next) {
+    url.searchParams.set("next", next)
+  }
+  return url.toString()
+}
+
+/**
+ * Email a sign-in link, if the address belongs to an account
+ * @param email Address to send to
+ * @param next Page to open after signing in
+ * @returns Delivery status, or null when there is no such account
+ */
+export async function sendMagicLink(email: string, next?: string): Promise<DeliveryStatus | null> {
+  const user = await findUserByEmail(email)
+  if (!user) {
+    return null
+  }
+
+  const { subject, html, text } = buildMagicLinkEmail(buildMagicLinkUrl(generateLoginToken(user.email), next))
+  return sendNotification("email", { to: user.email, subject, html, text })
+}
+
+/**
+ * Use a sign-in link's token
+ * @param token Signed login token
+ * @returns The user it signs in, or null if the token is invalid, expired or already used
+ */
+export async function redeemMagicLink(token: string): Promise<User | null> {
+  const payload = verifyLoginToken(token)
+  if (!payload?.jti || !payload.email || (await isTokenRevoked(payload.jti))) {
+    return null
+  }
+
+  await revokeToken(payload.jti, {
+    reason: "magic_link_used",
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  })
+
+  // Only the address's owner could have opened the link
+  const user = await findUserByEmail(payload.email)
+  return user && markEmailVerified(user.id)
+}
@@ -0,0 +1,147 @@
+/**
+ * Map layers for the Leaflet map: the data shapes returned by /api/map and marker clustering
+ *
+ * Clustering groups markers that fall in the same screen-sized grid cell at the current zoom, so it
+ * runs in the browser without a Leaflet plugin and re-runs whenever the map zooms.
+ */
+
+import { coarsenLocation } from "./location-privacy"
+import type { NaloxoneSiteType, NearbyNaloxoneSite } from "./naloxone-sites"
+
+export type MapLayerId = "naloxoneSites" | "heroes" | "incident" | "me"
+
+export interface MapMarker {
+  id: string
+  layer: MapLayerId
+  latitude: number
+  longitude: number
+  label: string
+  detail?: string
+  // Draw a circle of this radius instead of a point, for locations that are deliberately vague
+  radiusKm?: number
+  // How many people the marker stands for, when it is a count rather than one place
+  count?: number
+}
+
+export interface MapLayers {
+  naloxoneSites: MapMarker[]
+  heroes: MapMarker[]
+  incident: MapMarker[]
+}
+
+export interface MapCluster {
+  id: string
+  latitude: number
+  longitude: number
+  markers: MapMarker[]
+}
+
+export const MAP_LAYER_STYLES: Record<MapLayerId, { label: string; color: string }> = {
+  naloxoneSites: { label: "Naloxone sites", color: "#10B981" },
+  heroes: { label: "Available heroes (approximate)", color: "#6366F1" },
+  incident: { label: "Active emergency", color: "#EF4444" },
+  me: { label: "You", color: "#3B82F6" },
+}
+
+export const NALOXONE_SITE_TYPE_LABELS: Record<NaloxoneSiteType, string> = {
+  pharmacy: "Pharmacy",
+  health_department: "Health department",
+  community_program: "Harm reduction program",
+  vending_machine: "Vending machine",
+}
+
+/**
+ * Marker for a naloxone site
+ * @param site Site from a nearby search
+ * @returns Marker with the site's type, address, hours and whether it's open in its popup
+ */
+export function naloxoneSiteMarker(site: NearbyNaloxoneSite): MapMarker {
+  const hours = site.openNow === undefined ? site.hours : `${site.openNow ? "Open now" : "Closed now"} (${site.hours})`
+
+  return {
+    id: site.id,
+    layer: "naloxoneSites",
+    latitude: site.latitude,
+    longitude: site.longitude,
+    label: site.name,
+    detail: [NALOXONE_SITE_TYPE_LABELS[site.type], site.address, hours, site.free ? "Free naloxone" : undefined]
+      .filter(Boolean)
+      .join(" · "),
+  }
+}
+
+/**
+ * Markers for available heroes, one per geohash cell
+ * Heroes are strangers to the user, so the map only shows how many are in each cell, never who or where exactly.
+ * @param heroes Heroes near the map's position
+ * @returns A circle over each cell with the number of heroes in it
+ */
+export function heroCellMarkers(
+  heroes: { location?: { latitude: number; longitude: number }; carriesNaloxone?: boolean }[],
+): MapMarker[] {
+  const cells = new Map<string, { marker: MapMarker; naloxone: number }>()
+
+  for (const hero of heroes) {
+    if (!hero.location) continue
+
+    const cell = coarsenLocation(hero.location)
+    const key = cell.geohash as string
+    const entry = cells.get(key) || {
+      marker: {
+        id: `heroes-${key}`,
+        layer: "heroes" as const,
+        latitude: cell.latitude,
+        longitude: cell.longitude,
+        radiusKm: cell.radiusKm,
+        label: "",
+        count: 0,
+      },
+      naloxone: 0,
+    }
+    entry.marker.count = (entry.marker.count as number) + 1
+    entry.naloxone += hero.carriesNaloxone ? 1 : 0
+    cells.set(key, entry)
+  }
+
+  return Array.from(cells.values()).map(({ marker, naloxone }) => ({
+    ...marker,
+    label: marker.count === 1 ? "1 hero available" : `${marker.count} heroes available`,
+    detail: naloxone ? `${naloxone} carrying naloxone` : undefined,
+  }))
+}
+
+// Web Mercator tiles are 256 pixels across at zoom 0
+const TILE_SIZE = 256
+
+function toPixels(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sin = Math.min(Math.max(Math.sin((latitude * Math.PI) / 180), -0.9999), 0.9999)
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+/**
+ * Group markers that would overlap on screen
+ * @param markers Markers to cluster
+ * @param zoom Current map zoom level
+ * @param cellPixels Size of the clustering grid in screen pixels
+ * @returns Clusters positioned at the average of their markers; a cluster of one is a plain marker
+ */
+export function clusterMarkers(markers: MapMarker[], zoom: number, cellPixels = 60): MapCluster[] {
+  const cells = new Map<string, MapMarker[]>()
+
+  for (const marker of markers) {
+    const { x, y } = toPixels(marker.latitude, marker.longitude, zoom)
+    const key = `${Math.floor(x / cellPixels)}:${Math.floor(y / cellPixels)}`
+    cells.set(key, [...(cells.get(key) || []), marker])
+  }
+
+  return Array.from(cells.values()).map((group) => ({
+    id: group.length === 1 ? group[0].id : group.map((marker) => marker.id).join(","),
+    latitude: group.reduce((sum, marker) => sum + marker.latitude, 0) / group.length,
+    longitude: group.reduce((sum, marker) => sum + marker.longitude, 0) / group.length,
+    markers: group,
+  }))
+}
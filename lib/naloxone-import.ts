@@ -0,0 +1,207 @@
+/**
+ * Parsers for naloxone site datasets
+ *
+ *   CSV: one site per row, e.g. a state pharmacy standing-order list or a harm reduction program directory
+ *   GeoJSON: a FeatureCollection of Point features, e.g. a vending machine map export
+ *   JSON: an array of site objects, or `{ sites: [...] }`
+ *
+ * Column and property names vary between publishers, so each field is found by any of its usual
+ * names, and free-text categories are mapped onto the site types. Rows are only normalized here;
+ * they are validated when stored.
+ */
+
+import { parseCsv } from "./health-import"
+import type { NaloxoneSiteType } from "./naloxone-sites"
+
+export type NaloxoneDatasetFormat = "csv" | "geojson" | "json"
+
+export interface NaloxoneSiteInput {
+  id?: string
+  name?: string
+  type?: NaloxoneSiteType
+  latitude?: number
+  longitude?: number
+  address?: string
+  phone?: string
+  hours?: string
+  free?: boolean
+  timezone?: string
+}
+
+export interface ParsedNaloxoneDataset {
+  format: NaloxoneDatasetFormat
+  sites: NaloxoneSiteInput[]
+  // Features that can't be a site, such as GeoJSON polygons
+  skipped: number
+}
+
+const FIELD_NAMES: Record<keyof NaloxoneSiteInput, string[]> = {
+  id: ["id", "site_id", "siteid", "objectid", "fid"],
+  name: ["name", "site_name", "site name", "location_name", "location name", "facility", "organization"],
+  type: ["type", "site_type", "site type", "category", "kind", "facility_type"],
+  latitude: ["latitude", "lat", "y"],
+  longitude: ["longitude", "lon", "lng", "long", "x"],
+  address: ["address", "full_address"],
+  phone: ["phone", "phone_number", "phone number", "telephone", "tel"],
+  hours: ["hours", "opening_hours", "hours_of_operation", "hours of operation", "open_hours"],
+  free: ["free", "free_naloxone", "free naloxone", "no_cost", "cost"],
+  timezone: ["timezone", "time_zone", "tz"],
+}
+
+// Some exports split the address into parts instead
+const ADDRESS_PARTS = [
+  ["street", "street_address", "address1", "address_1"],
+  ["city", "town"],
+  ["state", "region"],
+  ["zip", "zipcode", "zip_code", "postal_code", "postcode"],
+]
+
+// Checked in order, so a "public health vending machine" is a vending machine
+const SITE_TYPE_KEYWORDS: [RegExp, NaloxoneSiteType][] = [
+  [/vending|kiosk|dispenser/, "vending_machine"],
+  [/pharmac|drug ?store|chemist/, "pharmacy"],
+  [/health dep|health dept|public health|county health/, "health_department"],
+  [/harm reduction|syringe|needle|community|outreach|nonprofit|program|clinic/, "community_program"],
+]
+
+/**
+ * Map a publisher's category onto a site type
+ * @param value Category, e.g. "Harm Reduction Program" or "pharmacy"
+ * @returns Site type, or undefined when the category isn't recognized
+ */
+export function normalizeSiteType(value: unknown): NaloxoneSiteType | undefined {
+  const text = String(value ?? "")
+    .toLowerCase()
+    .replace(/[_-]+/g, " ")
+    .trim()
+  return SITE_TYPE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1]
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value
+  const text = String(value ?? "")
+    .trim()
+    .toLowerCase()
+  if (["yes", "y", "true", "1", "free", "$0", "0.00", "no cost"].includes(text)) return true
+  if (["no", "n", "false", "0"].includes(text)) return false
+  return undefined
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function toText(value: unknown): string | undefined {
+  const text = value === undefined || value === null ? "" : String(value).trim()
+  return text || undefined
+}
+
+// Look up a field by any of its names, ignoring case and surrounding space
+function pick(record: Record<string, unknown>, names: string[]): unknown {
+  const keys = Object.keys(record)
+  for (const name of names) {
+    const key = keys.find((candidate) => candidate.trim().toLowerCase() === name)
+    if (key !== undefined && toText(record[key]) !== undefined) return record[key]
+  }
+  return undefined
+}
+
+function toSiteInput(record: Record<string, unknown>, defaultType?: NaloxoneSiteType): NaloxoneSiteInput {
+  const address =
+    toText(pick(record, FIELD_NAMES.address)) ||
+    toText(
+      ADDRESS_PARTS.map((names) => toText(pick(record, names)))
+        .filter(Boolean)
+        .join(", "),
+    )
+
+  return {
+    id: toText(pick(record, FIELD_NAMES.id)),
+    name: toText(pick(record, FIELD_NAMES.name)),
+    type: normalizeSiteType(pick(record, FIELD_NAMES.type)) || defaultType,
+    latitude: toNumber(pick(record, FIELD_NAMES.latitude)),
+    longitude: toNumber(pick(record, FIELD_NAMES.longitude)),
+    address,
+    phone: toText(pick(record, FIELD_NAMES.phone)),
+    hours: toText(pick(record, FIELD_NAMES.hours)),
+    free: toBoolean(pick(record, FIELD_NAMES.free)),
+    timezone: toText(pick(record, FIELD_NAMES.timezone)),
+  }
+}
+
+function parseGeoJson(data: any, defaultType?: NaloxoneSiteType): ParsedNaloxoneDataset {
+  const features = data.type === "Feature" ? [data] : data.features || []
+  const sites: NaloxoneSiteInput[] = []
+  let skipped = 0
+
+  for (const feature of features) {
+    if (feature?.geometry?.type !== "Point" || !Array.isArray(feature.geometry.coordinates)) {
+      skipped++
+      continue
+    }
+
+    // GeoJSON coordinates are longitude first
+    const [longitude, latitude] = feature.geometry.coordinates
+    sites.push({
+      ...toSiteInput({ id: feature.id, ...feature.properties }, defaultType),
+      latitude: toNumber(latitude),
+      longitude: toNumber(longitude),
+    })
+  }
+
+  return { format: "geojson", sites, skipped }
+}
+
+/**
+ * Parse a naloxone site dataset, detecting its format from the content
+ * @param content File contents
+ * @param defaultType Type for sites without a recognized category, for single-type datasets such as a pharmacy list
+ * @returns Sites with their fields normalized
+ */
+export function parseNaloxoneDataset(content: string, defaultType?: NaloxoneSiteType): ParsedNaloxoneDataset {
+  const trimmed = content.replace(/^\uFEFF/, "").trim()
+  if (!trimmed) {
+    throw new Error("Naloxone site dataset contains no sites")
+  }
+
+  let parsed: ParsedNaloxoneDataset
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let data: any
+    try {
+      data = JSON.parse(trimmed)
+    } catch (error) {
+      throw new Error("Naloxone site dataset is not valid JSON")
+    }
+
+    if (data?.type === "FeatureCollection" || data?.type === "Feature") {
+      parsed = parseGeoJson(data, defaultType)
+    } else if (Array.isArray(data) || Array.isArray(data?.sites)) {
+      const records: unknown[] = Array.isArray(data) ? data : data.sites
+      parsed = {
+        format: "json",
+        sites: records
+          .filter((record) => record && typeof record === "object")
+          .map((record) => toSiteInput(record as Record<string, unknown>, defaultType)),
+        skipped: records.filter((record) => !record || typeof record !== "object").length,
+      }
+    } else {
+      throw new Error("Unrecognized naloxone site dataset")
+    }
+  } else {
+    const [header = [], ...rows] = parseCsv(trimmed)
+    parsed = {
+      format: "csv",
+      sites: rows.map((row) =>
+        toSiteInput(Object.fromEntries(header.map((column, index) => [column, row[index]])), defaultType),
+      ),
+      skipped: 0,
+    }
+  }
+
+  if (!parsed.sites.length) {
+    throw new Error("Naloxone site dataset contains no sites")
+  }
+  return parsed
+}
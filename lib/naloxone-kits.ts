@@ -0,0 +1,337 @@
+/**
+ * Personal naloxone kit inventory
+ *
+ * Users register the kits they own and where they keep them. Contacts are told where the kits are
+ * when they're alerted, and scheduled jobs remind the user before a kit expires and after one has
+ * been used, until it is replaced.
+ */
+
+import { randomUUID } from "crypto"
+import { listIncidentsForUser } from "./incidents"
+import { sendNotification, type DeliveryStatus } from "./notifications"
+import { cancelJobs, scheduleJob } from "./scheduler"
+import { createCollection } from "./store"
+
+export type NaloxoneKitRoute = "nasal" | "injectable"
+
+export type NaloxoneKitStatus = "active" | "used"
+
+export interface NaloxoneKit {
+  id: string
+  userId: string
+  // Product, e.g. "Narcan" or "Generic naloxone"
+  product: string
+  route: NaloxoneKitRoute
+  doseMg: number
+  lotNumber?: string
+  // Calendar date printed on the box, YYYY-MM-DD
+  expiresOn: string
+  storageLocation: string
+  // Where expiry and replacement reminders go
+  reminderPhone?: string
+  reminderEmail?: string
+  status: NaloxoneKitStatus
+  usedAt?: string
+  usedIncidentId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type NaloxoneKitInput = Pick<
+  NaloxoneKit,
+  "product" | "route" | "doseMg" | "lotNumber" | "expiresOn" | "storageLocation" | "reminderPhone" | "reminderEmail"
+>
+
+export const NALOXONE_KIT_ROUTES: NaloxoneKitRoute[] = ["nasal", "injectable"]
+
+// Days before expiry that a reminder is sent, and 0 for the day it expires
+export const KIT_EXPIRY_REMINDER_DAYS = [30, 7, 0]
+
+// Reminders are sent mid-morning in US time zones rather than at midnight UTC
+const REMINDER_HOUR_UTC = 15
+
+// How long after a kit is used to remind again if it still hasn't been replaced
+const REPLACEMENT_FOLLOW_UP_DAYS = 3
+
+// A kit marked used without an incident is linked to the user's latest one from this window
+const RECENT_INCIDENT_HOURS = 24
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const kits = createCollection<NaloxoneKit>("naloxone-kits")
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+/**
+ * Check kit details from the app
+ * @param value Request body
+ * @param partial Whether fields may be left out, for updates
+ * @returns The kit details that were given
+ */
+export function parseKitInput(value: any, partial = false): Partial<NaloxoneKitInput> {
+  const input: Partial<NaloxoneKitInput> = {}
+  const has = (field: keyof NaloxoneKitInput) => value?.[field] !== undefined && value[field] !== ""
+  const required = (field: keyof NaloxoneKitInput) => {
+    if (!partial && !has(field)) throw new Error(`Invalid kit: ${field} is required`)
+    return has(field)
+  }
+
+  if (required("product")) input.product = String(value.product).trim()
+  if (required("route")) {
+    if (!NALOXONE_KIT_ROUTES.includes(value.route)) throw new Error("Invalid kit: route must be nasal or injectable")
+    input.route = value.route
+  }
+  if (required("doseMg")) {
+    const doseMg = Number(value.doseMg)
+    if (!Number.isFinite(doseMg) || doseMg <= 0) throw new Error("Invalid kit: doseMg must be a positive number")
+    input.doseMg = doseMg
+  }
+  if (required("expiresOn")) {
+    if (!isDate(value.expiresOn)) throw new Error("Invalid kit: expiresOn must be a YYYY-MM-DD date")
+    input.expiresOn = value.expiresOn
+  }
+  if (required("storageLocation")) input.storageLocation = String(value.storageLocation).trim()
+  if (has("lotNumber")) input.lotNumber = String(value.lotNumber).trim()
+  if (has("reminderPhone")) input.reminderPhone = String(value.reminderPhone).trim()
+  if (has("reminderEmail")) input.reminderEmail = String(value.reminderEmail).trim()
+
+  return input
+}
+
+/**
+ * Work out when to send expiry reminders for a kit
+ * @param expiresOn Expiry date, YYYY-MM-DD
+ * @param now Current time
+ * @returns Reminder times still in the future, with how many days before expiry each is
+ */
+export function kitReminderSchedule(expiresOn: string, now = new Date()): { daysBefore: number; runAt: Date }[] {
+  const expiry = Date.parse(`${expiresOn}T00:00:00Z`) + REMINDER_HOUR_UTC * 60 * 60 * 1000
+
+  return KIT_EXPIRY_REMINDER_DAYS.map((daysBefore) => ({
+    daysBefore,
+    runAt: new Date(expiry - daysBefore * DAY_MS),
+  })).filter(({ runAt }) => runAt.getTime() > now.getTime())
+}
+
+/**
+ * Check whether a kit is past its expiry date
+ * @param kit Kit
+ * @param now Current time
+ * @returns True from the day after the printed date
+ */
+export function isKitExpired(kit: Pick<NaloxoneKit, "expiresOn">, now = new Date()): boolean {
+  return now.toISOString().slice(0, 10) > kit.expiresOn
+}
+
+/**
+ * Say where a user's naloxone is, for emergency alerts
+ * @param userKits The user's kits
+ * @param now Current time
+ * @returns e.g. "Naloxone: Narcan nasal spray in the bedside drawer", or undefined with no kits on hand
+ */
+export function describeKitLocations(userKits: NaloxoneKit[], now = new Date()): string | undefined {
+  const onHand = userKits.filter((kit) => kit.status === "active")
+  if (onHand.length === 0) {
+    return undefined
+  }
+
+  const descriptions = onHand.map((kit) => {
+    const form = kit.route === "nasal" ? "nasal spray" : "injection"
+    return `${kit.product} ${form} in the ${kit.storageLocation.replace(/^the\s+/i, "")}${isKitExpired(kit, now) ? " (expired)" : ""}`
+  })
+
+  return `Naloxone: ${descriptions.join("; ")}`
+}
+
+async function scheduleExpiryReminders(kit: NaloxoneKit): Promise<void> {
+  await cancelJobs("naloxone.expiry_reminder", (payload) => payload.kitId === kit.id)
+  if (kit.status !== "active") {
+    return
+  }
+
+  for (const { daysBefore, runAt } of kitReminderSchedule(kit.expiresOn)) {
+    await scheduleJob("naloxone.expiry_reminder", runAt, { kitId: kit.id, expiresOn: kit.expiresOn, daysBefore })
+  }
+}
+
+async function remindKitOwner(kit: NaloxoneKit, subject: string, text: string): Promise<DeliveryStatus | null> {
+  const channel = kit.reminderPhone ? "sms" : "email"
+  const to = kit.reminderPhone || kit.reminderEmail
+  if (!to) {
+    return null
+  }
+
+  const delivery = await sendNotification(channel, { to, subject, text })
+  if (delivery.status === "failed") {
+    throw new Error(`Naloxone kit reminder failed: ${delivery.error}`)
+  }
+  return delivery
+}
+
+/**
+ * Register a kit
+ * @param userId Owner's user ID
+ * @param input Kit details
+ * @returns The stored kit, with its expiry reminders scheduled
+ */
+export async function registerKit(userId: string, input: NaloxoneKitInput): Promise<NaloxoneKit> {
+  const now = new Date().toISOString()
+  const kit = await kits.insert({
+    ...input,
+    id: randomUUID(),
+    userId,
+    status: "active",
+    createdAt: now,
+    updatedAt: now,
+  })
+
+  await scheduleExpiryReminders(kit)
+  return kit
+}
+
+/**
+ * List a user's kits, soonest expiry first
+ * @param userId User ID
+ * @returns The user's kits
+ */
+export async function listKits(userId: string): Promise<NaloxoneKit[]> {
+  const records = await kits.list((kit) => kit.userId === userId)
+  return records.sort((a, b) => a.expiresOn.localeCompare(b.expiresOn))
+}
+
+/**
+ * Change a kit's details
+ * @param userId Owner's user ID
+ * @param kitId Kit ID
+ * @param changes Details to change
+ * @returns The updated kit, or null if the user has no such kit
+ */
+export async function updateKit(
+  userId: string,
+  kitId: string,
+  changes: Partial<NaloxoneKitInput>,
+): Promise<NaloxoneKit | null> {
+  const existing = await kits.get(kitId)
+  if (!existing || existing.userId !== userId) {
+    return null
+  }
+
+  const kit = await kits.update(kitId, (current) => ({ ...current, ...changes, updatedAt: new Date().toISOString() }))
+  if (kit && changes.expiresOn && changes.expiresOn !== existing.expiresOn) {
+    await scheduleExpiryReminders(kit)
+  }
+  return kit
+}
+
+/**
+ * Delete a kit and its pending reminders
+ * @param userId Owner's user ID
+ * @param kitId Kit ID
+ * @returns Whether a kit was deleted
+ */
+export async function removeKit(userId: string, kitId: string): Promise<boolean> {
+  const existing = await kits.get(kitId)
+  if (!existing || existing.userId !== userId) {
+    return false
+  }
+
+  await cancelJobs("naloxone.expiry_reminder", (payload) => payload.kitId === kitId)
+  await cancelJobs("naloxone.replacement_reminder", (payload) => payload.kitId === kitId)
+  return kits.remove(kitId)
+}
+
+/**
+ * Record that a kit was used, and remind the owner to replace it
+ * @param userId Owner's user ID
+ * @param kitId Kit ID
+ * @param incidentId Incident it was used in; defaults to the user's latest incident from the past day
+ * @returns The updated kit, or null if the user has no such kit
+ */
+export async function markKitUsed(userId: string, kitId: string, incidentId?: string): Promise<NaloxoneKit | null> {
+  const existing = await kits.get(kitId)
+  if (!existing || existing.userId !== userId) {
+    return null
+  }
+
+  if (existing.status === "used") {
+    return existing
+  }
+
+  let usedIncidentId = incidentId
+  if (!usedIncidentId) {
+    const since = Date.now() - RECENT_INCIDENT_HOURS * 60 * 60 * 1000
+    const recent = await listIncidentsForUser(userId)
+    usedIncidentId = recent.find((incident) => new Date(incident.createdAt).getTime() >= since)?.id
+  }
+
+  const now = new Date()
+  const kit = await kits.update(kitId, (current) => ({
+    ...current,
+    status: "used",
+    usedAt: now.toISOString(),
+    usedIncidentId,
+    updatedAt: now.toISOString(),
+  }))
+
+  await cancelJobs("naloxone.expiry_reminder", (payload) => payload.kitId === kitId)
+  await scheduleJob("naloxone.replacement_reminder", now, { kitId, followUp: false })
+  await scheduleJob("naloxone.replacement_reminder", new Date(now.getTime() + REPLACEMENT_FOLLOW_UP_DAYS * DAY_MS), {
+    kitId,
+    followUp: true,
+  })
+
+  return kit
+}
+
+/**
+ * Remind the owner that a kit is about to expire
+ * Skipped when the kit has since been used, removed or given a new expiry date.
+ * @param kitId Kit ID
+ * @param expiresOn Expiry date the reminder was scheduled for
+ * @param daysBefore Days before expiry, 0 on the day it expires
+ */
+export async function sendKitExpiryReminder(kitId: string, expiresOn: string, daysBefore: number): Promise<void> {
+  const kit = await kits.get(kitId)
+  if (!kit || kit.status !== "active" || kit.expiresOn !== expiresOn) {
+    return
+  }
+
+  const when = daysBefore === 0 ? "expires today" : `expires in ${daysBefore} days (${expiresOn})`
+  await remindKitOwner(
+    kit,
+    "Narcoguard: naloxone kit expiring",
+    `Narcoguard reminder: your ${kit.product} kit in the ${kit.storageLocation} ${when}. Pharmacies and many harm reduction programs can replace it, often for free.`,
+  )
+}
+
+/**
+ * Remind the owner to replace a used kit
+ * The follow-up is skipped once they've registered another kit since using it.
+ * @param kitId Kit ID
+ * @param followUp Whether this is the reminder sent a few days later
+ */
+export async function sendKitReplacementReminder(kitId: string, followUp: boolean): Promise<void> {
+  const kit = await kits.get(kitId)
+  if (!kit || kit.status !== "used" || !kit.usedAt) {
+    return
+  }
+
+  if (followUp) {
+    const replacements = await kits.list(
+      (other) => other.userId === kit.userId && other.status === "active" && other.createdAt > (kit.usedAt as string),
+    )
+    if (replacements.length > 0) {
+      return
+    }
+  }
+
+  await remindKitOwner(
+    kit,
+    "Narcoguard: replace your naloxone",
+    followUp
+      ? `Narcoguard reminder: you still haven't replaced the ${kit.product} kit you used. Find free naloxone near you in the Narcoguard app.`
+      : `Narcoguard: thanks for using your ${kit.product} kit. Please replace it soon so naloxone is ready next time. Find free naloxone near you in the Narcoguard app.`,
+  )
+}
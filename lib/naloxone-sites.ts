@@ -0,0 +1,171 @@
+/**
+ * Naloxone distribution sites: pharmacies, health departments, community programs and vending machines
+ *
+ * Sites are imported in bulk from public directory datasets and looked up by distance for the
+ * naloxone locator and the map.
+ */
+
+import { createHash } from "crypto"
+import { distanceKm } from "./heroes"
+import { parseNaloxoneDataset, type NaloxoneDatasetFormat } from "./naloxone-import"
+import { isOpenAt, isValidTimeZone, parseOpeningHours, type OpeningHours } from "./opening-hours"
+import { createCollection } from "./store"
+
+export type NaloxoneSiteType = "pharmacy" | "health_department" | "community_program" | "vending_machine"
+
+export interface NaloxoneSite {
+  id: string
+  name: string
+  type: NaloxoneSiteType
+  latitude: number
+  longitude: number
+  address?: string
+  phone?: string
+  // Hours as the dataset wrote them, and parsed when they're in a recognized shape
+  hours?: string
+  openingHours?: OpeningHours
+  // IANA time zone the hours are in; the server's zone when left out
+  timezone?: string
+  // Whether naloxone is given out free of charge
+  free?: boolean
+  updatedAt: string
+}
+
+export interface NearbyNaloxoneSite extends NaloxoneSite {
+  distanceKm: number
+  // Unknown when the site's hours couldn't be parsed
+  openNow?: boolean
+}
+
+export const NALOXONE_SITE_TYPES: NaloxoneSiteType[] = [
+  "pharmacy",
+  "health_department",
+  "community_program",
+  "vending_machine",
+]
+
+export const DEFAULT_SITE_SEARCH_RADIUS_KM = 10
+export const DEFAULT_SITE_SEARCH_LIMIT = 50
+
+const sites = createCollection<NaloxoneSite>("naloxone-sites")
+
+/**
+ * Check a site from a directory export before storing it
+ * Sites without an ID get one from their name and position, so importing the same dataset again
+ * replaces them instead of adding duplicates.
+ * @param value Parsed site
+ * @returns The site without its timestamp, or null if it is missing a name, type or valid coordinates
+ */
+export function parseNaloxoneSite(value: any): Omit<NaloxoneSite, "updatedAt"> | null {
+  const latitude = Number(value?.latitude)
+  const longitude = Number(value?.longitude)
+  if (
+    !value?.name ||
+    !NALOXONE_SITE_TYPES.includes(value.type) ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null
+  }
+
+  const name = String(value.name)
+  const hours = value.hours ? String(value.hours) : undefined
+
+  return {
+    id: value.id
+      ? String(value.id)
+      : createHash("sha256")
+          .update(`${name}|${latitude.toFixed(5)}|${longitude.toFixed(5)}`)
+          .digest("hex")
+          .slice(0, 16),
+    name,
+    type: value.type,
+    latitude,
+    longitude,
+    address: value.address ? String(value.address) : undefined,
+    phone: value.phone ? String(value.phone) : undefined,
+    hours,
+    openingHours: parseOpeningHours(hours) || undefined,
+    timezone: value.timezone && isValidTimeZone(String(value.timezone)) ? String(value.timezone) : undefined,
+    free: typeof value.free === "boolean" ? value.free : undefined,
+  }
+}
+
+/**
+ * Add sites, or replace sites with the same ID
+ * @param input Sites from a directory export
+ * @returns How many sites were stored and how many were rejected as invalid
+ */
+export async function upsertNaloxoneSites(input: unknown[]): Promise<{ stored: number; rejected: number }> {
+  let stored = 0
+  let rejected = 0
+
+  for (const value of input) {
+    const site = parseNaloxoneSite(value)
+    if (!site) {
+      rejected++
+      continue
+    }
+
+    const record = { ...site, updatedAt: new Date().toISOString() }
+    if (!(await sites.update(site.id, () => record))) {
+      await sites.insert(record)
+    }
+    stored++
+  }
+
+  return { stored, rejected }
+}
+
+/**
+ * Import a dataset file of sites
+ * @param content CSV, GeoJSON or JSON file contents
+ * @param defaultType Type for sites without a recognized category
+ * @returns The detected format, how many sites were stored and how many were rejected
+ */
+export async function importNaloxoneSites(
+  content: string,
+  defaultType?: NaloxoneSiteType,
+): Promise<{ format: NaloxoneDatasetFormat; stored: number; rejected: number }> {
+  const dataset = parseNaloxoneDataset(content, defaultType)
+  const { stored, rejected } = await upsertNaloxoneSites(dataset.sites)
+  return { format: dataset.format, stored, rejected: rejected + dataset.skipped }
+}
+
+/**
+ * Check whether a site is open
+ * @param site Site
+ * @param now Moment to check
+ * @returns Whether it's open, or undefined when its hours are unknown
+ */
+export function isSiteOpen(site: NaloxoneSite, now = new Date()): boolean | undefined {
+  return site.openingHours ? isOpenAt(site.openingHours, now, site.timezone) : undefined
+}
+
+/**
+ * Find sites near a location, closest first
+ * @param location Where to search from
+ * @param options Search radius, maximum results, site types to include, whether to only return sites
+ * known to be open, and the moment to check opening hours against
+ * @returns Sites within the radius with their distance and whether they're open
+ */
+export async function findNaloxoneSitesNear(
+  location: { latitude: number; longitude: number },
+  options: { radiusKm?: number; limit?: number; types?: NaloxoneSiteType[]; openNow?: boolean; now?: Date } = {},
+): Promise<NearbyNaloxoneSite[]> {
+  const { radiusKm = DEFAULT_SITE_SEARCH_RADIUS_KM, limit = DEFAULT_SITE_SEARCH_LIMIT, types, openNow, now } = options
+  const records = await sites.list()
+
+  return records
+    .filter((site) => !types?.length || types.includes(site.type))
+    .map((site) => ({
+      ...site,
+      distanceKm: Math.round(distanceKm(location, site) * 100) / 100,
+      openNow: isSiteOpen(site, now),
+    }))
+    .filter((site) => site.distanceKm <= radiusKm && (!openNow || site.openNow === true))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit)
+}
@@ -0,0 +1,311 @@
+/**
+ * Notification channels for alerting emergency contacts by email, SMS and voice call
+ *
+ * Each channel is an adapter that knows how to address a contact and word the alert,
+ * and delivers through a provider chosen by environment variables:
+ *   EMAIL_PROVIDER = smtp (default) | http | file
+ *   SMS_PROVIDER   = twilio (default when TWILIO_ACCOUNT_SID is set) | http | file
+ *   VOICE_PROVIDER = twilio (default when TWILIO_ACCOUNT_SID is set) | http | file
+ * The http and file providers are local stand-ins for development and tests. Production never falls back to
+ * them: without Twilio, SMS and voice deliveries fail, so the escalation ladder moves on to the next step.
+ */
+
+import fs from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import { buildEmergencyEmail, sendEmail } from "./email"
+import { getDataDirectory } from "./store"
+import type { IncidentContact, IncidentLocation } from "./incidents"
+
+export type NotificationChannel = "email" | "sms" | "voice"
+
+export interface NotificationMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface NotificationProvider {
+  name: string
+  send: (channel: NotificationChannel, message: NotificationMessage) => Promise<{ messageId?: string }>
+}
+
+export interface EmergencyAlert {
+  incidentId: string
+  userName: string
+  emergencyType: string
+  location?: IncidentLocation
+  acknowledgeUrl?: string
+  // Where the user keeps their naloxone, e.g. "Naloxone: Narcan nasal spray in the bedside drawer"
+  naloxone?: string
+  // The contact's link to stop alerts
+  optOutUrl?: string
+}
+
+export interface DeliveryStatus {
+  contactName?: string
+  channel: NotificationChannel
+  to?: string
+  provider?: string
+  status: "sent" | "failed" | "skipped"
+  requestedChannel?: NotificationChannel
+  messageId?: string
+  error?: string
+  at: string
+}
+
+interface ChannelAdapter {
+  address: (contact: IncidentContact) => string | undefined
+  format: (alert: EmergencyAlert) => Omit<NotificationMessage, "to">
+}
+
+// Map the contact's chosen notification method to a channel
+const METHOD_CHANNELS: Record<NonNullable<IncidentContact["notificationMethod"]>, NotificationChannel> = {
+  call: "voice",
+  text: "sms",
+  email: "email",
+}
+
+/**
+ * Describe an alert location for plain-text channels
+ */
+export function describeLocation(location?: IncidentLocation): string {
+  if (location?.address) {
+    return location.address
+  }
+  if (location?.latitude !== undefined && location?.longitude !== undefined) {
+    return `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`
+  }
+  return "Unknown location"
+}
+
+function humanize(emergencyType: string): string {
+  return emergencyType.replace(/_/g, " ")
+}
+
+const channelAdapters: Record<NotificationChannel, ChannelAdapter> = {
+  email: {
+    address: (contact) => contact.email || undefined,
+    format: (alert) =>
+      buildEmergencyEmail(
+        alert.userName,
+        describeLocation(alert.location),
+        humanize(alert.emergencyType),
+        alert.acknowledgeUrl,
+        alert.naloxone,
+        alert.optOutUrl,
+      ),
+  },
+  sms: {
+    address: (contact) => contact.phone || undefined,
+    format: (alert) => ({
+      subject: "Narcoguard emergency alert",
+      text: [
+        `🚨 Narcoguard EMERGENCY: ${alert.userName} may be experiencing a ${humanize(alert.emergencyType)} and needs help now.`,
+        `Location: ${describeLocation(alert.location)}. Call 911 and go to them if you can.`,
+        alert.naloxone ? `${alert.naloxone}.` : "",
+        alert.acknowledgeUrl ? `Reply OK or tap ${alert.acknowledgeUrl} when you're responding.` : "",
+        alert.optOutUrl ? `Stop alerts: ${alert.optOutUrl}` : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    }),
+  },
+  voice: {
+    address: (contact) => contact.phone || undefined,
+    format: (alert) => ({
+      subject: "Narcoguard emergency alert",
+      text: [
+        `This is an emergency alert from Narcoguard. ${alert.userName} may be experiencing a ${humanize(alert.emergencyType)} and needs help now.`,
+        `Their location is ${describeLocation(alert.location)}. Please call 9 1 1 and go to them if you can.`,
+        alert.naloxone ? `${alert.naloxone}.` : "",
+        "To let us know you are responding, text OK to this number.",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    }),
+  },
+}
+
+// Writes each message to <data dir>/outbox/<channel>.jsonl instead of sending it
+const fileProvider: NotificationProvider = {
+  name: "file",
+  send: async (channel, message) => {
+    const messageId = randomUUID()
+    const outbox = path.join(getDataDirectory(), "outbox")
+    await fs.promises.mkdir(outbox, { recursive: true })
+    await fs.promises.appendFile(
+      path.join(outbox, `${channel}.jsonl`),
+      JSON.stringify({ id: messageId, channel, ...message, sentAt: new Date().toISOString() }) + "\n",
+    )
+    return { messageId }
+  },
+}
+
+// Posts each message to NOTIFICATION_HTTP_URL, e.g. a local mock gateway
+const httpProvider: NotificationProvider = {
+  name: "http",
+  send: async (channel, message) => {
+    const url = process.env.NOTIFICATION_HTTP_URL
+    if (!url) {
+      throw new Error("NOTIFICATION_HTTP_URL is not configured")
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ channel, ...message }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Notification gateway responded with ${response.status}`)
+    }
+
+    const data = await response.json().catch(() => ({}))
+    return { messageId: data.id }
+  },
+}
+
+const smtpProvider: NotificationProvider = {
+  name: "smtp",
+  send: async (_channel, message) => {
+    await sendEmail({ to: message.to, subject: message.subject, html: message.html || message.text, text: message.text })
+    return {}
+  },
+}
+
+const twilioProvider: NotificationProvider = {
+  name: "twilio",
+  send: async (channel, message) => {
+    const { default: twilio } = await import("twilio")
+    const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
+    const from = process.env.TWILIO_PHONE_NUMBER
+
+    if (channel === "voice") {
+      const call = await client.calls.create({
+        to: message.to,
+        from: from as string,
+        twiml: `<Response><Say loop="2">${escapeXml(message.text)}</Say></Response>`,
+      })
+      return { messageId: call.sid }
+    }
+
+    const sms = await client.messages.create({ to: message.to, from, body: message.text })
+    return { messageId: sms.sid }
+  },
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// Stands in for Twilio in production when it isn't configured, so every delivery is recorded as failed
+const unconfiguredProvider: NotificationProvider = {
+  name: "unconfigured",
+  send: async (channel) => {
+    throw new Error(`${channel.toUpperCase()}_PROVIDER or TWILIO_ACCOUNT_SID must be set in production`)
+  },
+}
+
+const providers: Record<string, NotificationProvider> = {
+  file: fileProvider,
+  http: httpProvider,
+  smtp: smtpProvider,
+  twilio: twilioProvider,
+}
+
+/**
+ * Resolve the provider configured for a channel
+ * @param channel Notification channel
+ * @returns The provider that should deliver messages on this channel
+ */
+export function getProvider(channel: NotificationChannel): NotificationProvider {
+  const configured = process.env[`${channel.toUpperCase()}_PROVIDER`]
+  if (configured && providers[configured]) {
+    return providers[configured]
+  }
+
+  if (channel === "email") {
+    return smtpProvider
+  }
+
+  if (process.env.TWILIO_ACCOUNT_SID) {
+    return twilioProvider
+  }
+
+  return process.env.NODE_ENV === "production" ? unconfiguredProvider : fileProvider
+}
+
+/**
+ * Throw unless SMS and voice have a provider in production
+ * Called when the server starts so a missing Twilio account stops the deploy rather than leaving alerts unsent.
+ */
+export function assertNotificationProvidersConfigured(): void {
+  const channels: NotificationChannel[] = ["sms", "voice"]
+  for (const channel of channels) {
+    if (getProvider(channel) === unconfiguredProvider) {
+      throw new Error(`${channel.toUpperCase()}_PROVIDER or TWILIO_ACCOUNT_SID must be set in production`)
+    }
+  }
+}
+
+/**
+ * Send a message on a channel through its configured provider
+ * @param channel Notification channel
+ * @param message Message to deliver
+ * @returns Delivery status for the message
+ */
+export async function sendNotification(
+  channel: NotificationChannel,
+  message: NotificationMessage,
+): Promise<DeliveryStatus> {
+  const provider = getProvider(channel)
+
+  try {
+    const { messageId } = await provider.send(channel, message)
+    return { channel, to: message.to, provider: provider.name, status: "sent", messageId, at: new Date().toISOString() }
+  } catch (error) {
+    console.error(`Failed to send ${channel} notification:`, error)
+    return {
+      channel,
+      to: message.to,
+      provider: provider.name,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      at: new Date().toISOString(),
+    }
+  }
+}
+
+/**
+ * Alert a single contact on their preferred channel, falling back to another channel
+ * when the contact has no address for the one they chose
+ * @param contact Emergency contact
+ * @param alert Alert details
+ * @returns Delivery status for the contact
+ */
+export async function notifyContact(contact: IncidentContact, alert: EmergencyAlert): Promise<DeliveryStatus> {
+  const requestedChannel = METHOD_CHANNELS[contact.notificationMethod || "email"] || "email"
+  const candidates: NotificationChannel[] = [requestedChannel, "sms", "email"]
+  const channel = candidates.find((candidate) => channelAdapters[candidate].address(contact))
+
+  if (!channel) {
+    return {
+      contactName: contact.name,
+      channel: requestedChannel,
+      status: "skipped",
+      error: "Contact has no phone number or email address",
+      at: new Date().toISOString(),
+    }
+  }
+
+  const adapter = channelAdapters[channel]
+  const delivery = await sendNotification(channel, { to: adapter.address(contact) as string, ...adapter.format(alert) })
+
+  return {
+    ...delivery,
+    contactName: contact.name,
+    requestedChannel: channel !== requestedChannel ? requestedChannel : undefined,
+  }
+}
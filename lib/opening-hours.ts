@@ -0,0 +1,206 @@
+/**
+ * Opening hours for naloxone sites
+ *
+ * Directory exports write hours as free text. The common shapes are understood: OpenStreetMap style
+ * ("Mo-Fr 09:00-17:00; Sa 10:00-14:00; Su off"), 12-hour times ("Mon-Fri 9am-5pm"), "24/7" and
+ * "Daily 24 hours". Like OpenStreetMap, a later rule replaces an earlier one for the days it names.
+ * Pure so the browser can work out "open now" as well.
+ */
+
+export interface OpeningPeriod {
+  // 0 is Sunday, matching Date#getDay
+  day: number
+  // Minutes after midnight; a close after 1440 runs past midnight into the next day
+  opens: number
+  closes: number
+}
+
+export interface OpeningHours {
+  alwaysOpen: boolean
+  periods: OpeningPeriod[]
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]
+
+// Matched on the first two letters, so "Mo", "Mon" and "Monday" all work
+const DAY_PREFIXES: Record<string, number> = { su: 0, mo: 1, tu: 2, we: 3, th: 4, fr: 5, sa: 6 }
+
+const TIME_RANGE_PATTERN =
+  /(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?\s*(?:-|–|to)\s*(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/g
+
+function parseDay(name: string): number | undefined {
+  return /^[a-z]+$/.test(name) ? DAY_PREFIXES[name.slice(0, 2)] : undefined
+}
+
+// Days named before the times, e.g. "Mo-Fr", "Sat, Sun" or "Daily"; empty means every day
+function parseDays(text: string): number[] | null {
+  const cleaned = text
+    .replace(/:/g, " ")
+    .replace(/\s*(?:-|–|\bto\b|\bthrough\b|\bthru\b)\s*/g, "-")
+    .trim()
+  if (!cleaned || /^(daily|every ?day|all week)$/.test(cleaned)) {
+    return ALL_DAYS
+  }
+
+  const days: number[] = []
+  for (const part of cleaned.split(/[\s,&]+|\band\b/).filter(Boolean)) {
+    if (part === "weekdays") {
+      days.push(1, 2, 3, 4, 5)
+      continue
+    }
+    if (part === "weekends") {
+      days.push(6, 0)
+      continue
+    }
+
+    const [from, to] = part.split("-")
+    const start = parseDay(from)
+    const end = to === undefined ? start : parseDay(to)
+    if (start === undefined || end === undefined) {
+      return null
+    }
+
+    // Ranges may wrap around the weekend, e.g. "Sa-Mo"
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.push(day)
+      if (day === end) break
+    }
+  }
+
+  return days
+}
+
+function toMinutes(hour: string, minute: string | undefined, meridiem: string | undefined): number {
+  let hours = Number(hour) % (meridiem ? 12 : 24)
+  if (meridiem?.startsWith("p")) hours += 12
+  return hours * 60 + Number(minute || 0)
+}
+
+// "9-5pm" means 9am, but "1-5pm" means 1pm
+function inferMeridiem(startHour: string, endHour: string, endMeridiem: string): string {
+  const start = Number(startHour) % 12
+  const end = Number(endHour) % 12
+  if (start <= end) return endMeridiem
+  return endMeridiem.startsWith("p") ? "am" : "pm"
+}
+
+/**
+ * Parse free-text opening hours
+ * @param text Hours as written in a directory export
+ * @returns Weekly opening periods, or null when the text isn't in a recognized shape
+ */
+export function parseOpeningHours(text: string | undefined): OpeningHours | null {
+  const normalized = text?.trim().toLowerCase()
+  if (!normalized) {
+    return null
+  }
+
+  if (/^(24\/7|24 ?x ?7|open 24 hours|always open)$/.test(normalized)) {
+    return { alwaysOpen: true, periods: [] }
+  }
+
+  const periods: OpeningPeriod[] = []
+
+  // Rules are separated by semicolons or new lines, or by a comma when the next rule starts with a day
+  const rules = normalized.split(
+    /\s*(?:;|\n|\||(?<=\d|m|\.|closed|off|hours|hrs|24h)\s*,(?=\s*(?:mo|tu|we|th|fr|sa|su|daily|week)))\s*/,
+  )
+
+  for (const rule of rules.filter(Boolean)) {
+    const ranges = Array.from(rule.matchAll(TIME_RANGE_PATTERN))
+    const keyword = rule.match(/\b(closed|off|24 ?hours|24 ?hrs|24h)\b/)
+    const daysEnd = Math.min(ranges[0]?.index ?? rule.length, keyword?.index ?? rule.length)
+    const days = parseDays(rule.slice(0, daysEnd))
+
+    if (!days || (!ranges.length && !keyword)) {
+      return null
+    }
+
+    // Later rules win for the days they name
+    for (let i = periods.length - 1; i >= 0; i--) {
+      if (days.includes(periods[i].day)) periods.splice(i, 1)
+    }
+
+    if (keyword && /closed|off/.test(keyword[1])) {
+      continue
+    }
+
+    if (keyword) {
+      days.forEach((day) => periods.push({ day, opens: 0, closes: MINUTES_PER_DAY }))
+      continue
+    }
+
+    for (const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] of ranges) {
+      const opens = toMinutes(
+        startHour,
+        startMinute,
+        startMeridiem || (endMeridiem && inferMeridiem(startHour, endHour, endMeridiem)),
+      )
+      let closes = toMinutes(endHour, endMinute, endMeridiem)
+      if (opens >= MINUTES_PER_DAY || closes > MINUTES_PER_DAY) {
+        return null
+      }
+      // "22:00-02:00" closes the next morning, and "09:00-24:00" at midnight
+      if (closes <= opens) closes += MINUTES_PER_DAY
+
+      days.forEach((day) => periods.push({ day, opens, closes }))
+    }
+  }
+
+  return { alwaysOpen: false, periods }
+}
+
+// Day of the week and minutes after midnight as seen by a clock in the time zone
+function localTime(date: Date, timeZone?: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date)
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value || ""
+
+  return {
+    day: DAY_PREFIXES[part("weekday").slice(0, 2).toLowerCase()],
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  }
+}
+
+/**
+ * Check whether a site is open
+ * @param hours Parsed opening hours
+ * @param date Moment to check
+ * @param timeZone IANA time zone the hours are written in; the runtime's zone when left out
+ * @returns True if any period covers the moment, including one that started the day before
+ */
+export function isOpenAt(hours: OpeningHours, date: Date, timeZone?: string): boolean {
+  if (hours.alwaysOpen) {
+    return true
+  }
+
+  const { day, minutes } = localTime(date, timeZone)
+  const previousDay = (day + 6) % 7
+
+  return hours.periods.some(
+    (period) =>
+      (period.day === day && minutes >= period.opens && minutes < period.closes) ||
+      (period.day === previousDay && minutes < period.closes - MINUTES_PER_DAY),
+  )
+}
+
+/**
+ * Check that a time zone name is one the runtime knows
+ * @param timeZone IANA time zone, e.g. "America/New_York"
+ * @returns True if it can be used with isOpenAt
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
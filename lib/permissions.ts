@@ -0,0 +1,114 @@
+/**
+ * Roles and what each one may do
+ *
+ * Every account has the "user" role for its own data. Heroes, clinicians and admins get extra
+ * permissions on top, scoped so each sees only what their job needs: a hero sees the incident they
+ * were sent to but not the person's history, and a clinician sees vitals trends but nothing else.
+ *
+ * Kept free of server-only imports so middleware can use it.
+ */
+
+export const ROLES = ["user", "hero", "clinician", "admin"] as const
+export type Role = (typeof ROLES)[number]
+
+export const PERMISSIONS = [
+  // Own data
+  "emergency:trigger",
+  "incidents:read",
+  "incidents:update",
+  "vitals:read",
+  "vitals:write",
+  "kits:manage",
+  "contacts:manage",
+  "spotting:use",
+  "heroes:register",
+  // Hero: the responder view of incidents they were dispatched to
+  "incidents:respond",
+  // Clinician: other users' vitals trends and clinician thresholds
+  "vitals:read_patients",
+  "vitals:set_thresholds",
+  // Clinicians and admins: turn on two-factor sign-in
+  "two_factor:enroll",
+  // Admin
+  "incidents:read_all",
+  "heroes:verify",
+  "naloxone_sites:import",
+  "users:manage",
+  "encryption_keys:rotate",
+  "audit_log:read",
+] as const
+export type Permission = (typeof PERMISSIONS)[number]
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [
+    "emergency:trigger",
+    "incidents:read",
+    "incidents:update",
+    "vitals:read",
+    "vitals:write",
+    "kits:manage",
+    "contacts:manage",
+    "spotting:use",
+    "heroes:register",
+  ],
+  hero: ["incidents:respond"],
+  clinician: ["vitals:read_patients", "vitals:set_thresholds", "two_factor:enroll"],
+  admin: [
+    "incidents:read_all",
+    "heroes:verify",
+    "naloxone_sites:import",
+    "users:manage",
+    "two_factor:enroll",
+    "encryption_keys:rotate",
+    "audit_log:read",
+  ],
+}
+
+// Pages and API routes that need a signed-in user. Alert links for contacts and heroes carry their own
+// tokens, so the incident routes under /api/incidents/:id/ and the invitation routes under /api/contacts/
+// are left out.
+export const PROTECTED_PAGES = [/^\/dashboard(\/|$)/]
+export const PROTECTED_API_ROUTES = [
+  /^\/api\/auth\/session$/,
+  /^\/api\/auth\/2fa(\/(setup|enable|disable))?$/,
+  /^\/api\/emergency\//,
+  /^\/api\/incidents(\/[^/]+)?$/,
+  /^\/api\/vitals\//,
+  /^\/api\/spotting(\/|$)/,
+  /^\/api\/naloxone\/kits(\/|$)/,
+  /^\/api\/heroes(\/[^/]+)?$/,
+  /^\/api\/users\//,
+  /^\/api\/encryption\//,
+  /^\/api\/audit-log(\/verify)?$/,
+]
+
+/**
+ * Keep only known roles, always including "user"
+ * @param roles Roles from a stored user or token claims
+ * @returns Valid roles
+ */
+export function normalizeRoles(roles: unknown): Role[] {
+  const known = Array.isArray(roles) ? roles.filter((role): role is Role => ROLES.includes(role)) : []
+  return Array.from(new Set<Role>(["user", ...known]))
+}
+
+/**
+ * Check whether any of a set of roles grants a permission
+ * @param roles Roles held
+ * @param permission Permission needed
+ * @returns Whether the permission is granted
+ */
+export function rolesHavePermission(roles: readonly Role[], permission: Permission): boolean {
+  return roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission))
+}
+
+/**
+ * Find the rule protecting a path, if any
+ * @param pathname Request path
+ * @returns "page", "api" or null when the path is public
+ */
+export function protectedRouteKind(pathname: string): "page" | "api" | null {
+  if (PROTECTED_API_ROUTES.some((pattern) => pattern.test(pathname))) return "api"
+  if (PROTECTED_PAGES.some((pattern) => pattern.test(pathname))) return "page"
+  return null
+}
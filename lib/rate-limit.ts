@@ -27,8 +27,8 @@ export function rateLimit(options: RateLimiterOptions) {
     }
   }
 
-  // Set up interval cleanup
-  setInterval(cleanup, interval)
+  // Set up interval cleanup, without keeping the process alive just for it
+  setInterval(cleanup, interval).unref?.()
 
   return {
     check: (tokenLimit: number = limit, token = "global"): Promise<RateLimiterResponse> => {
@@ -56,3 +56,12 @@ export function rateLimit(options: RateLimiterOptions) {
     },
   }
 }
+
+/**
+ * The address a request came from, for keying rate limits
+ * @param request Incoming request
+ * @returns The first address in X-Forwarded-For, or "unknown"
+ */
+export function getClientIp(request: Request): string {
+  return request.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown"
+}
@@ -0,0 +1,230 @@
+/**
+ * Persistent job scheduler for server-side timers (escalation timeouts, check-in deadlines, reminders)
+ *
+ * Jobs are stored so they survive a restart. Each job is armed with an in-process timer when it is
+ * scheduled, and the server arms every stored job again when it starts (instrumentation.ts), and daily
+ * after that for jobs that were too far off to arm. /api/jobs/run sweeps any due jobs for deployments
+ * where the process doesn't stay alive. A running job holds a lease; if the process dies mid-job the
+ * lease runs out and the job is run again.
+ */
+
+import { randomUUID } from "crypto"
+import { createCollection } from "./store"
+
+export interface ScheduledJob {
+  id: string
+  type: string
+  runAt: string
+  payload: Record<string, any>
+  status: "pending" | "running" | "completed" | "failed" | "cancelled"
+  attempts: number
+  // While running: when the job is assumed lost with a crashed process
+  leaseExpiresAt?: string
+  lastError?: string
+  // What the handler reported when it finished, e.g. how many records it rewrote
+  result?: Record<string, unknown>
+  createdAt: string
+  completedAt?: string
+}
+
+export type JobHandler = (payload: Record<string, any>) => Promise<Record<string, unknown> | void>
+
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 30 * 1000
+const JOB_LEASE_MS = 5 * 60 * 1000
+// Timers longer than this are left to the sweep; setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000
+
+const jobs = createCollection<ScheduledJob>("jobs")
+
+// Jobs with a timer in this process, so arming them again doesn't add a second one
+const armed = new Set<string>()
+let rearmTimer: ReturnType<typeof setInterval> | undefined
+
+// Due pending jobs, and running jobs whose lease has run out
+function isRunnable(job: ScheduledJob, now: number): boolean {
+  if (job.status === "pending") {
+    return new Date(job.runAt).getTime() <= now
+  }
+  return job.status === "running" && new Date(job.leaseExpiresAt || job.runAt).getTime() <= now
+}
+
+function armTimer(job: ScheduledJob, at = job.runAt): boolean {
+  const delay = Math.max(0, new Date(at).getTime() - Date.now())
+  if (delay > MAX_TIMER_DELAY_MS || armed.has(job.id)) {
+    return false
+  }
+
+  armed.add(job.id)
+  const timer = setTimeout(() => {
+    armed.delete(job.id)
+    runJob(job.id).catch((error) => console.error(`Scheduled job ${job.id} failed:`, error))
+  }, delay)
+
+  // Don't keep the process alive just for pending timers
+  if (typeof timer === "object" && "unref" in timer) {
+    timer.unref()
+  }
+  return true
+}
+
+/**
+ * Schedule a job to run at a given time
+ * @param type Job type, used to look up its handler
+ * @param runAt When the job should run
+ * @param payload Data passed to the handler
+ * @returns The stored job
+ */
+export async function scheduleJob(type: string, runAt: Date, payload: Record<string, any>): Promise<ScheduledJob> {
+  const job = await jobs.insert({
+    id: randomUUID(),
+    type,
+    runAt: runAt.toISOString(),
+    payload,
+    status: "pending",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  })
+
+  armTimer(job)
+  return job
+}
+
+/**
+ * Arm timers for the stored jobs, which a restart loses, and keep doing so daily for jobs further off
+ * Jobs left running by a process that died are armed for when their lease runs out.
+ * @returns Number of timers armed
+ */
+export async function armPendingJobs(): Promise<number> {
+  const waiting = await jobs.list((job) => job.status === "pending" || job.status === "running")
+
+  let count = 0
+  for (const job of waiting) {
+    if (armTimer(job, job.status === "running" ? job.leaseExpiresAt || job.runAt : job.runAt)) {
+      count++
+    }
+  }
+
+  if (!rearmTimer) {
+    rearmTimer = setInterval(() => {
+      armPendingJobs().catch((error) => console.error("Failed to arm scheduled jobs:", error))
+    }, MAX_TIMER_DELAY_MS)
+    rearmTimer.unref?.()
+  }
+
+  return count
+}
+
+/**
+ * Look up a job, e.g. to see how a key rotation's re-encryption went
+ * @param id Job ID
+ * @returns The job, or null if there is none
+ */
+export async function getJob(id: string): Promise<ScheduledJob | null> {
+  return jobs.get(id)
+}
+
+/**
+ * Cancel pending jobs of a type whose payload matches
+ * @param type Job type
+ * @param matches Predicate on the job payload
+ * @returns Number of jobs cancelled
+ */
+export async function cancelJobs(type: string, matches: (payload: Record<string, any>) => boolean): Promise<number> {
+  const pending = await jobs.list((job) => job.type === type && job.status === "pending" && matches(job.payload))
+
+  for (const job of pending) {
+    await jobs.update(job.id, (current) =>
+      current.status === "pending"
+        ? { ...current, status: "cancelled", completedAt: new Date().toISOString() }
+        : current,
+    )
+  }
+
+  return pending.length
+}
+
+/**
+ * Run a job if it is still pending and due, or its lease has run out
+ * @param id Job ID
+ * @returns Whether the job ran
+ */
+export async function runJob(id: string): Promise<boolean> {
+  // Claim the job so a timer and a sweep never run it twice
+  let claimed = false
+  const job = await jobs.update(id, (current) => {
+    if (!isRunnable(current, Date.now())) {
+      return current
+    }
+
+    // A job that was lost on its last attempt isn't run again
+    if (current.status === "running" && current.attempts >= MAX_ATTEMPTS) {
+      return { ...current, status: "failed", leaseExpiresAt: undefined, lastError: "Job did not finish" }
+    }
+
+    claimed = true
+    return {
+      ...current,
+      status: "running",
+      attempts: current.attempts + 1,
+      leaseExpiresAt: new Date(Date.now() + JOB_LEASE_MS).toISOString(),
+    }
+  })
+
+  if (!job || !claimed) {
+    return false
+  }
+
+  const { JOB_HANDLERS } = await import("./jobs")
+  const handler = JOB_HANDLERS[job.type]
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`)
+    }
+
+    const result = await handler(job.payload)
+    await jobs.update(id, (current) => ({
+      ...current,
+      status: "completed",
+      leaseExpiresAt: undefined,
+      result: result || undefined,
+      completedAt: new Date().toISOString(),
+    }))
+  } catch (error) {
+    console.error(`Job ${job.type} (${id}) failed:`, error)
+
+    const retry = job.attempts < MAX_ATTEMPTS
+    const updated = await jobs.update(id, (current) => ({
+      ...current,
+      status: retry ? "pending" : "failed",
+      leaseExpiresAt: undefined,
+      runAt: retry ? new Date(Date.now() + RETRY_DELAY_MS).toISOString() : current.runAt,
+      lastError: error instanceof Error ? error.message : String(error),
+    }))
+
+    if (retry && updated) {
+      armTimer(updated)
+    }
+  }
+
+  return true
+}
+
+/**
+ * Run every pending job that is due, and any job whose run was lost with a crashed process
+ * @returns Number of jobs that ran
+ */
+export async function runDueJobs(): Promise<number> {
+  const now = Date.now()
+  const due = await jobs.list((job) => isRunnable(job, now))
+
+  let ran = 0
+  for (const job of due.sort((a, b) => a.runAt.localeCompare(b.runAt))) {
+    if (await runJob(job.id)) {
+      ran++
+    }
+  }
+
+  return ran
+}
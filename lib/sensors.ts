@@ -0,0 +1,335 @@
+/**
+ * Sensor adapter layer for Bluetooth LE heart rate monitors and pulse oximeters
+ *
+ * A transport hides how we talk to the device: Web Bluetooth in the browser, or a mock transport
+ * that replays raw characteristic values in tests. connectSensor subscribes to whichever standard
+ * health profiles the device offers and turns its notifications into vitals readings and device
+ * status for the health monitor.
+ */
+
+import {
+  GATT_CHARACTERISTICS,
+  GATT_SERVICES,
+  heartRateSignalQuality,
+  parseBatteryLevel,
+  parseHeartRateMeasurement,
+  parsePlxContinuousMeasurement,
+  parsePlxSpotCheckMeasurement,
+  pulseOximeterSignalQuality,
+} from "./ble-parsers"
+
+export interface SensorTransport {
+  name: string
+  connect: () => Promise<void>
+  disconnect: () => void
+  hasService: (service: number) => Promise<boolean>
+  read: (service: number, characteristic: number) => Promise<DataView>
+  subscribe: (service: number, characteristic: number, listener: (value: DataView) => void) => Promise<void>
+  onDisconnect: (listener: () => void) => void
+}
+
+export interface SensorReading {
+  source: "heart_rate" | "pulse_oximeter"
+  heartRate?: number
+  oxygenLevel?: number
+  // 0 (unusable) to 100
+  signalQuality: number
+  timestamp: Date
+}
+
+// Same shape as the device indicators in the health monitor
+export interface SensorStatus {
+  connected: boolean
+  battery: number
+  signalStrength: number
+  lastSync: Date
+}
+
+export interface SensorConnection {
+  name: string
+  profiles: string[]
+  getStatus: () => SensorStatus
+  disconnect: () => void
+}
+
+interface SensorProfile {
+  name: string
+  service: number
+  characteristic: number
+  parse: (value: DataView) => Omit<SensorReading, "timestamp"> & { timestamp?: Date }
+}
+
+export const SENSOR_PROFILES: SensorProfile[] = [
+  {
+    name: "Heart Rate",
+    service: GATT_SERVICES.heartRate,
+    characteristic: GATT_CHARACTERISTICS.heartRateMeasurement,
+    parse: (value) => {
+      const measurement = parseHeartRateMeasurement(value)
+      return {
+        source: "heart_rate",
+        heartRate: measurement.heartRate,
+        signalQuality: heartRateSignalQuality(measurement),
+      }
+    },
+  },
+  {
+    name: "Pulse Oximeter",
+    service: GATT_SERVICES.pulseOximeter,
+    characteristic: GATT_CHARACTERISTICS.plxContinuousMeasurement,
+    parse: (value) => {
+      const measurement = parsePlxContinuousMeasurement(value)
+      return {
+        source: "pulse_oximeter",
+        heartRate: measurement.pulseRate,
+        oxygenLevel: measurement.oxygenLevel,
+        signalQuality: pulseOximeterSignalQuality(measurement),
+      }
+    },
+  },
+  {
+    name: "Pulse Oximeter Spot-Check",
+    service: GATT_SERVICES.pulseOximeter,
+    characteristic: GATT_CHARACTERISTICS.plxSpotCheckMeasurement,
+    parse: (value) => {
+      const measurement = parsePlxSpotCheckMeasurement(value)
+      return {
+        source: "pulse_oximeter",
+        heartRate: measurement.pulseRate,
+        oxygenLevel: measurement.oxygenLevel,
+        signalQuality: pulseOximeterSignalQuality(measurement),
+        timestamp: measurement.timestamp,
+      }
+    },
+  },
+]
+
+/**
+ * Connect to a sensor and stream its readings
+ * @param transport Transport for the device
+ * @param handlers Called with each reading and whenever the device status changes
+ * @returns The open connection
+ */
+export async function connectSensor(
+  transport: SensorTransport,
+  handlers: { onReading: (reading: SensorReading) => void; onStatus: (status: SensorStatus) => void },
+): Promise<SensorConnection> {
+  await transport.connect()
+
+  let status: SensorStatus = { connected: true, battery: 0, signalStrength: 0, lastSync: new Date() }
+  const setStatus = (changes: Partial<SensorStatus>) => {
+    status = { ...status, ...changes }
+    handlers.onStatus(status)
+  }
+
+  transport.onDisconnect(() => setStatus({ connected: false, signalStrength: 0 }))
+
+  const profiles: string[] = []
+  for (const profile of SENSOR_PROFILES) {
+    if (!(await transport.hasService(profile.service))) {
+      continue
+    }
+
+    try {
+      await transport.subscribe(profile.service, profile.characteristic, (value) => {
+        try {
+          const { timestamp, ...reading } = profile.parse(value)
+          const now = new Date()
+          setStatus({ signalStrength: reading.signalQuality, lastSync: now })
+          handlers.onReading({ ...reading, timestamp: timestamp || now })
+        } catch (error) {
+          console.error(`Malformed ${profile.name} measurement:`, error)
+        }
+      })
+      profiles.push(profile.name)
+    } catch (error) {
+      // The service is there but this characteristic isn't, e.g. a spot-check only oximeter
+      continue
+    }
+  }
+
+  if (profiles.length === 0) {
+    transport.disconnect()
+    throw new Error("Sensor doesn't offer a heart rate or pulse oximeter profile")
+  }
+
+  if (await transport.hasService(GATT_SERVICES.battery)) {
+    try {
+      setStatus({
+        battery: parseBatteryLevel(await transport.read(GATT_SERVICES.battery, GATT_CHARACTERISTICS.batteryLevel)),
+      })
+      await transport.subscribe(GATT_SERVICES.battery, GATT_CHARACTERISTICS.batteryLevel, (value) =>
+        setStatus({ battery: parseBatteryLevel(value) }),
+      )
+    } catch (error) {
+      // Battery notifications are optional; the level read above is enough
+    }
+  }
+
+  handlers.onStatus(status)
+
+  return {
+    name: transport.name,
+    profiles,
+    getStatus: () => status,
+    disconnect: () => transport.disconnect(),
+  }
+}
+
+// The small part of the Web Bluetooth API we use; TypeScript's DOM types don't include it yet
+interface BluetoothCharacteristic extends EventTarget {
+  value?: DataView
+  readValue: () => Promise<DataView>
+  startNotifications: () => Promise<BluetoothCharacteristic>
+}
+
+interface BluetoothDevice extends EventTarget {
+  name?: string
+  gatt?: {
+    connected: boolean
+    connect: () => Promise<{
+      getPrimaryService: (service: number) => Promise<{
+        getCharacteristic: (characteristic: number) => Promise<BluetoothCharacteristic>
+      }>
+    }>
+    disconnect: () => void
+  }
+}
+
+type BluetoothNavigator = Navigator & {
+  bluetooth?: {
+    requestDevice: (options: {
+      filters: { services: number[] }[]
+      optionalServices?: number[]
+    }) => Promise<BluetoothDevice>
+  }
+}
+
+/**
+ * Check whether this browser can talk to Bluetooth sensors
+ */
+export function isWebBluetoothAvailable(): boolean {
+  return typeof navigator !== "undefined" && Boolean((navigator as BluetoothNavigator).bluetooth)
+}
+
+/**
+ * Ask the user to pick a Bluetooth heart rate monitor or pulse oximeter
+ * Must be called from a user gesture such as a button click.
+ * @returns Transport for the chosen device
+ */
+export async function requestBluetoothSensor(): Promise<SensorTransport> {
+  const bluetooth = (navigator as BluetoothNavigator).bluetooth
+  if (!bluetooth) {
+    throw new Error("Web Bluetooth is not available in this browser")
+  }
+
+  const device = await bluetooth.requestDevice({
+    filters: [{ services: [GATT_SERVICES.heartRate] }, { services: [GATT_SERVICES.pulseOximeter] }],
+    optionalServices: [GATT_SERVICES.battery],
+  })
+
+  return createWebBluetoothTransport(device)
+}
+
+function createWebBluetoothTransport(device: BluetoothDevice): SensorTransport {
+  let server: Awaited<ReturnType<NonNullable<BluetoothDevice["gatt"]>["connect"]>> | null = null
+
+  const getCharacteristic = async (service: number, characteristic: number) => {
+    if (!server) {
+      throw new Error("Sensor is not connected")
+    }
+    return (await server.getPrimaryService(service)).getCharacteristic(characteristic)
+  }
+
+  return {
+    name: device.name || "Bluetooth sensor",
+    connect: async () => {
+      if (!device.gatt) {
+        throw new Error("Device does not support GATT")
+      }
+      server = await device.gatt.connect()
+    },
+    disconnect: () => device.gatt?.disconnect(),
+    hasService: async (service) => {
+      try {
+        await server?.getPrimaryService(service)
+        return Boolean(server)
+      } catch (error) {
+        return false
+      }
+    },
+    read: async (service, characteristic) => (await getCharacteristic(service, characteristic)).readValue(),
+    subscribe: async (service, characteristic, listener) => {
+      const target = await getCharacteristic(service, characteristic)
+      target.addEventListener("characteristicvaluechanged", () => {
+        if (target.value) {
+          listener(target.value)
+        }
+      })
+      await target.startNotifications()
+    },
+    onDisconnect: (listener) => device.addEventListener("gattserverdisconnected", listener),
+  }
+}
+
+export interface MockTransport extends SensorTransport {
+  // Deliver a raw characteristic value, as the device would in a notification
+  emit: (service: number, characteristic: number, bytes: number[]) => void
+  // Drop the connection from the device side
+  simulateDisconnect: () => void
+}
+
+/**
+ * Create an in-memory transport for tests and demos without hardware
+ * @param options Services the fake device offers, its battery level and any characteristics it lacks
+ * @returns Transport with helpers to push values
+ */
+export function createMockTransport(options: {
+  name?: string
+  services: number[]
+  battery?: number
+  missingCharacteristics?: number[]
+}): MockTransport {
+  const listeners = new Map<string, (value: DataView) => void>()
+  const disconnectListeners: (() => void)[] = []
+  let connected = false
+
+  const key = (service: number, characteristic: number) => `${service}:${characteristic}`
+  const toDataView = (bytes: number[]) => new DataView(Uint8Array.from(bytes).buffer)
+  const dropConnection = () => {
+    if (connected) {
+      connected = false
+      disconnectListeners.forEach((listener) => listener())
+    }
+  }
+
+  return {
+    name: options.name || "Mock sensor",
+    connect: async () => {
+      connected = true
+    },
+    disconnect: dropConnection,
+    hasService: async (service) => options.services.includes(service),
+    read: async (service, characteristic) => {
+      if (service === GATT_SERVICES.battery && characteristic === GATT_CHARACTERISTICS.batteryLevel) {
+        return toDataView([options.battery ?? 100])
+      }
+      throw new Error(`Characteristic ${characteristic.toString(16)} is not readable`)
+    },
+    subscribe: async (service, characteristic, listener) => {
+      if (!options.services.includes(service) || options.missingCharacteristics?.includes(characteristic)) {
+        throw new Error(`Characteristic ${characteristic.toString(16)} not found`)
+      }
+      listeners.set(key(service, characteristic), listener)
+    },
+    onDisconnect: (listener) => {
+      disconnectListeners.push(listener)
+    },
+    emit: (service, characteristic, bytes) => {
+      if (connected) {
+        listeners.get(key(service, characteristic))?.(toDataView(bytes))
+      }
+    },
+    simulateDisconnect: dropConnection,
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Login sessions carried in httpOnly cookies
+ *
+ * The access token is short-lived and sent with every request. The refresh token lives longer and
+ * is only sent to /api/auth, where it's exchanged for a new pair. Neither is readable from page
+ * scripts. Native clients that can't hold cookies may send the access token as a Bearer header.
+ *
+ * Both tokens carry the session ID, so signing out or a stolen refresh token revokes them together.
+ */
+
+import { randomUUID } from "crypto"
+import { NextResponse } from "next/server"
+import {
+  generateAccessToken,
+  generateTwoFactorChallengeToken,
+  hasPermission,
+  verifyAccessToken,
+  verifyRefreshToken,
+} from "./auth"
+import { normalizeRoles, type Permission, type Role } from "./permissions"
+import { isTokenRevoked, issueRefreshToken, revokeSession, type RotatedRefreshToken } from "./token-store"
+import { isTwoFactorEnabled } from "./two-factor"
+
+export interface Session {
+  userId: string
+  email: string
+  sessionId: string
+  roles: Role[]
+}
+
+type SessionUser = { id: string; email: string; roles?: Role[] }
+
+export const ACCESS_COOKIE = "narcoguard_access"
+export const REFRESH_COOKIE = "narcoguard_refresh"
+
+// Match the token lifetimes in lib/auth
+const ACCESS_COOKIE_MAX_AGE = 60 * 60
+const REFRESH_COOKIE_MAX_AGE = 7 * 24 * 60 * 60
+
+function cookieOptions(path: string, maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path,
+    maxAge,
+  }
+}
+
+/**
+ * Read a cookie from a request
+ * @param request Incoming request
+ * @param name Cookie name
+ * @returns The decoded value, or undefined if the cookie isn't set
+ */
+export function readCookie(request: Request, name: string): string | undefined {
+  for (const pair of (request.headers.get("cookie") || "").split(";")) {
+    const [key, ...value] = pair.trim().split("=")
+    if (key === name) {
+      return decodeURIComponent(value.join("="))
+    }
+  }
+  return undefined
+}
+
+/**
+ * Work out who is calling
+ * @param request Incoming request
+ * @returns The signed-in user, or null when there is no valid access token or its session was revoked
+ */
+export async function getSession(request: Request): Promise<Session | null> {
+  const bearer = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1]
+  const token = readCookie(request, ACCESS_COOKIE) || bearer
+  const payload = token ? verifyAccessToken(token) : null
+
+  if (!payload?.sub || !payload.sid || (await isTokenRevoked(payload.sid))) {
+    return null
+  }
+
+  return { userId: payload.sub, email: payload.email, sessionId: payload.sid, roles: normalizeRoles(payload.roles) }
+}
+
+/**
+ * Guard for API handlers: the caller's session, or the response to send instead
+ * @param request Incoming request
+ * @param permission Permission the route needs, if any beyond being signed in
+ * @returns The session, or a 401 (not signed in) or 403 (signed in without the permission) response
+ */
+export async function requireSession(request: Request, permission?: Permission): Promise<Session | NextResponse> {
+  const session = await getSession(request)
+  if (!session) {
+    return unauthorized()
+  }
+  if (permission && !hasPermission(session, permission)) {
+    return forbidden()
+  }
+  return session
+}
+
+/**
+ * The response for API calls made without a valid session
+ * @returns 401 response
+ */
+export function unauthorized(): NextResponse {
+  return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+}
+
+/**
+ * The response for API calls the signed-in user isn't allowed to make
+ * @returns 403 response
+ */
+export function forbidden(): NextResponse {
+  return NextResponse.json({ success: false, message: "Forbidden" }, { status: 403 })
+}
+
+function setSessionCookies(
+  response: NextResponse,
+  user: SessionUser,
+  sessionId: string,
+  refreshToken: string,
+): NextResponse {
+  response.cookies.set(
+    ACCESS_COOKIE,
+    generateAccessToken(user.id, user.email, sessionId, normalizeRoles(user.roles)),
+    cookieOptions("/", ACCESS_COOKIE_MAX_AGE),
+  )
+  response.cookies.set(REFRESH_COOKIE, refreshToken, cookieOptions("/api/auth", REFRESH_COOKIE_MAX_AGE))
+  return response
+}
+
+/**
+ * Sign a user in with a new session, setting fresh access and refresh cookies
+ * @param response Response to add the cookies to
+ * @param user The user signing in
+ * @returns The same response
+ */
+export async function startSession(response: NextResponse, user: SessionUser): Promise<NextResponse> {
+  const sessionId = randomUUID()
+  return setSessionCookies(response, user, sessionId, await issueRefreshToken(user.id, sessionId))
+}
+
+/**
+ * Finish the first sign-in step (password or magic link): start a session, or ask for a code when the
+ * user has two-factor turned on
+ * @param user The user signing in
+ * @param body Extra fields for the response when the session starts straight away
+ * @returns A response with session cookies, or one carrying a challenge token for /api/auth/2fa/verify
+ */
+export async function signIn(user: SessionUser, body: Record<string, unknown> = {}): Promise<NextResponse> {
+  if (await isTwoFactorEnabled(user.id)) {
+    return NextResponse.json({
+      success: true,
+      twoFactorRequired: true,
+      challengeToken: generateTwoFactorChallengeToken(user.id),
+    })
+  }
+
+  return startSession(NextResponse.json({ success: true, ...body }), user)
+}
+
+/**
+ * Continue a session after its refresh token was rotated
+ * @param response Response to add the cookies to
+ * @param user The signed-in user
+ * @param rotated The session and its new refresh token
+ * @returns The same response
+ */
+export function resumeSession(response: NextResponse, user: SessionUser, rotated: RotatedRefreshToken): NextResponse {
+  return setSessionCookies(response, user, rotated.sessionId, rotated.refreshToken)
+}
+
+/**
+ * Expire both cookies without touching the session on the server
+ * @param response Response to clear the cookies on
+ * @returns The same response
+ */
+export function clearSessionCookies(response: NextResponse): NextResponse {
+  response.cookies.set(ACCESS_COOKIE, "", cookieOptions("/", 0))
+  response.cookies.set(REFRESH_COOKIE, "", cookieOptions("/api/auth", 0))
+  return response
+}
+
+/**
+ * Sign out by revoking the caller's session and expiring both cookies
+ * @param request Request carrying the session cookies
+ * @param response Response to clear the cookies on
+ * @returns The same response
+ */
+export async function endSession(request: Request, response: NextResponse): Promise<NextResponse> {
+  const session = await getSession(request)
+  const refreshToken = readCookie(request, REFRESH_COOKIE)
+  const refresh = refreshToken ? verifyRefreshToken(refreshToken) : null
+  const sessionId = session?.sessionId || refresh?.sid
+  const userId = session?.userId || refresh?.sub
+
+  if (sessionId && userId) {
+    await revokeSession(sessionId, userId, "logout")
+  }
+
+  return clearSessionCookies(response)
+}
@@ -0,0 +1,127 @@
+/**
+ * Keys used to sign and verify JWTs
+ *
+ * Keys are configured as `JWT_SIGNING_KEYS=kid:secret,kid:secret`. The first key signs new tokens and
+ * the rest only verify, so a secret is rotated by putting a new key at the front and dropping the old
+ * one once everything it signed has expired. That takes 30 days, the life of a contact invitation link;
+ * refresh tokens last 7 days. Each token names its key in the `kid` header.
+ *
+ * A single `JWT_SECRET` is still accepted. It signs when no key list is set, and always verifies tokens
+ * issued before keys had IDs.
+ */
+
+import { randomBytes } from "crypto"
+
+export interface SigningKey {
+  kid: string
+  secret: string
+}
+
+export interface SigningKeyRing {
+  // Signs new tokens
+  current: SigningKey
+  // Every key that may verify a token, by ID
+  keys: Map<string, SigningKey>
+  // Verifies tokens that have no kid
+  legacy?: SigningKey
+}
+
+// HS256 secrets shorter than the hash output are easier to brute force
+export const MIN_SIGNING_SECRET_LENGTH = 32
+
+const LEGACY_KEY_ID = "default"
+
+let cached: { config: string; ring: SigningKeyRing } | undefined
+
+// Survives hot reloads in development so signed-in sessions don't drop on every edit
+const globalKeys = globalThis as typeof globalThis & { __narcoguardDevSigningKey?: SigningKey }
+
+/**
+ * Parse a `kid:secret,kid:secret` key list
+ * @param value Key list from the environment
+ * @returns Keys in order, the signing key first
+ */
+export function parseSigningKeys(value: string): SigningKey[] {
+  const keys: SigningKey[] = []
+
+  for (const entry of value.split(",")) {
+    if (!entry.trim()) continue
+
+    const separator = entry.indexOf(":")
+    const kid = entry.slice(0, separator).trim()
+    const secret = entry.slice(separator + 1).trim()
+
+    if (separator < 1 || !/^[\w.-]+$/.test(kid)) {
+      throw new Error(`Invalid JWT signing key: expected kid:secret but got "${entry.trim().slice(0, 20)}..."`)
+    }
+    if (secret.length < MIN_SIGNING_SECRET_LENGTH) {
+      throw new Error(`Invalid JWT signing key: ${kid} must be at least ${MIN_SIGNING_SECRET_LENGTH} characters`)
+    }
+    if (keys.some((key) => key.kid === kid)) {
+      throw new Error(`Invalid JWT signing key: ${kid} is listed twice`)
+    }
+
+    keys.push({ kid, secret })
+  }
+
+  return keys
+}
+
+/**
+ * Build a key ring from a key list and an optional legacy secret
+ * @param signingKeys `JWT_SIGNING_KEYS` value
+ * @param legacySecret `JWT_SECRET` value
+ * @returns Key ring, or null if neither is set
+ */
+export function buildSigningKeyRing(signingKeys?: string, legacySecret?: string): SigningKeyRing | null {
+  const keys = signingKeys ? parseSigningKeys(signingKeys) : []
+  const legacy = legacySecret ? { kid: LEGACY_KEY_ID, secret: legacySecret } : undefined
+
+  if (legacy && !keys.some((key) => key.kid === legacy.kid)) {
+    keys.push(legacy)
+  }
+  if (keys.length === 0) {
+    return null
+  }
+
+  return { current: keys[0], keys: new Map(keys.map((key) => [key.kid, key])), legacy }
+}
+
+/**
+ * Throw unless signing keys are configured in production
+ * Called when the server starts so a missing secret stops the deploy rather than signing with a guessable key.
+ */
+export function assertSigningKeysConfigured(): void {
+  if (process.env.NODE_ENV === "production") {
+    if (!buildSigningKeyRing(process.env.JWT_SIGNING_KEYS, process.env.JWT_SECRET)) {
+      throw new Error("JWT_SIGNING_KEYS (or JWT_SECRET) must be set in production")
+    }
+  }
+}
+
+/**
+ * The keys to sign and verify with, read from the environment
+ * Development and tests fall back to a random key that lasts as long as the process.
+ * @returns Key ring
+ */
+export function getSigningKeyRing(): SigningKeyRing {
+  const config = `${process.env.JWT_SIGNING_KEYS || ""}|${process.env.JWT_SECRET || ""}`
+  if (cached?.config === config) {
+    return cached.ring
+  }
+
+  let ring = buildSigningKeyRing(process.env.JWT_SIGNING_KEYS, process.env.JWT_SECRET)
+  if (!ring) {
+    assertSigningKeysConfigured()
+
+    if (!globalKeys.__narcoguardDevSigningKey) {
+      console.warn("No JWT signing keys configured; using a random key, so sessions end when the server restarts")
+      globalKeys.__narcoguardDevSigningKey = { kid: "dev", secret: randomBytes(32).toString("base64") }
+    }
+    const key = globalKeys.__narcoguardDevSigningKey
+    ring = { current: key, keys: new Map([[key.kid, key]]) }
+  }
+
+  cached = { config, ring }
+  return ring
+}
@@ -0,0 +1,273 @@
+/**
+ * "Never Use Alone" spotting sessions
+ *
+ * A user starts a session before using and checks in on a timer. The deadline for each check-in is
+ * held by the server-side scheduler, so a missed check-in raises an emergency even if the browser
+ * tab or phone that started the session has died.
+ */
+
+import { randomUUID } from "crypto"
+import { raiseEmergency } from "./emergency"
+import { cancelJobs, scheduleJob } from "./scheduler"
+import { createCollection } from "./store"
+import type { IncidentContact, IncidentLocation } from "./incidents"
+
+export type SpottingSessionStatus = "active" | "ended" | "escalated"
+
+export interface SpottingEvent {
+  type: "started" | "checked_in" | "snoozed" | "ended" | "missed_check_in"
+  at: string
+  note?: string
+}
+
+export interface SpottingSession {
+  id: string
+  userId: string
+  userName?: string
+  status: SpottingSessionStatus
+  checkInIntervalSeconds: number
+  graceSeconds: number
+  nextCheckInAt: string
+  deadlineAt: string
+  location?: IncidentLocation
+  contacts: IncidentContact[]
+  escalationWaitSeconds?: number
+  allowHeroNetwork?: boolean
+  incidentId?: string
+  createdAt: string
+  updatedAt: string
+  endedAt?: string
+  events: SpottingEvent[]
+}
+
+export const DEFAULT_CHECK_IN_INTERVAL_SECONDS = 5 * 60
+
+// Time after a missed check-in prompt before contacts are alerted
+export const DEFAULT_GRACE_SECONDS = 60
+
+export const SPOTTING_SNOOZE_SECONDS = [60, 2 * 60, 5 * 60]
+
+const MIN_INTERVAL_SECONDS = 60
+const MAX_INTERVAL_SECONDS = 60 * 60
+
+const DEADLINE_JOB = "spotting.deadline"
+
+const sessions = createCollection<SpottingSession>("spotting-sessions")
+
+function clampSeconds(value: number | undefined, fallback: number, min: number, max: number): number {
+  if (!value || !Number.isFinite(value)) {
+    return fallback
+  }
+  return Math.min(max, Math.max(min, Math.round(value)))
+}
+
+// Next prompt and the dead-man deadline that follows it
+function nextDeadline(fromSeconds: number, graceSeconds: number): { nextCheckInAt: string; deadlineAt: string } {
+  const nextCheckIn = Date.now() + fromSeconds * 1000
+  return {
+    nextCheckInAt: new Date(nextCheckIn).toISOString(),
+    deadlineAt: new Date(nextCheckIn + graceSeconds * 1000).toISOString(),
+  }
+}
+
+async function armDeadline(session: SpottingSession): Promise<void> {
+  await cancelJobs(DEADLINE_JOB, (payload) => payload.sessionId === session.id)
+
+  if (session.status === "active") {
+    await scheduleJob(DEADLINE_JOB, new Date(session.deadlineAt), {
+      sessionId: session.id,
+      deadlineAt: session.deadlineAt,
+    })
+  }
+}
+
+async function updateActiveSession(
+  id: string,
+  updater: (session: SpottingSession, now: string) => Partial<SpottingSession>,
+  event: Omit<SpottingEvent, "at">,
+): Promise<SpottingSession | null> {
+  const session = await sessions.update(id, (current) => {
+    if (current.status !== "active") {
+      throw new Error(`Spotting session is ${current.status}`)
+    }
+
+    const now = new Date().toISOString()
+    return {
+      ...current,
+      ...updater(current, now),
+      updatedAt: now,
+      events: [...current.events, { ...event, at: now }],
+    }
+  })
+
+  if (session) {
+    await armDeadline(session)
+  }
+
+  return session
+}
+
+/**
+ * Start a spotting session and arm its first check-in deadline
+ * @param input Session details from the client
+ * @returns The stored session
+ */
+export async function startSpottingSession(input: {
+  userId: string
+  userName?: string
+  checkInIntervalSeconds?: number
+  graceSeconds?: number
+  location?: IncidentLocation
+  contacts?: IncidentContact[]
+  escalationWaitSeconds?: number
+  allowHeroNetwork?: boolean
+}): Promise<SpottingSession> {
+  const checkInIntervalSeconds = clampSeconds(
+    input.checkInIntervalSeconds,
+    DEFAULT_CHECK_IN_INTERVAL_SECONDS,
+    MIN_INTERVAL_SECONDS,
+    MAX_INTERVAL_SECONDS,
+  )
+  const graceSeconds = clampSeconds(input.graceSeconds, DEFAULT_GRACE_SECONDS, 15, 5 * 60)
+  const now = new Date().toISOString()
+
+  const session = await sessions.insert({
+    id: randomUUID(),
+    userId: input.userId,
+    userName: input.userName,
+    status: "active",
+    checkInIntervalSeconds,
+    graceSeconds,
+    ...nextDeadline(checkInIntervalSeconds, graceSeconds),
+    location: input.location,
+    contacts: input.contacts || [],
+    escalationWaitSeconds: input.escalationWaitSeconds,
+    allowHeroNetwork: input.allowHeroNetwork,
+    createdAt: now,
+    updatedAt: now,
+    events: [{ type: "started", at: now }],
+  })
+
+  await armDeadline(session)
+  return session
+}
+
+/**
+ * Get a spotting session by ID
+ * @param id Session ID
+ * @returns The session or null if it doesn't exist
+ */
+export async function getSpottingSession(id: string): Promise<SpottingSession | null> {
+  return sessions.get(id)
+}
+
+/**
+ * Get the user's active spotting session, if any
+ * @param userId User ID
+ * @returns The most recent active session or null
+ */
+export async function getActiveSpottingSession(userId: string): Promise<SpottingSession | null> {
+  const active = await sessions.list((session) => session.userId === userId && session.status === "active")
+  return active.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null
+}
+
+/**
+ * Record that the user is OK and restart the check-in timer
+ * @param id Session ID
+ * @param location Latest location, if the client has one
+ * @returns The updated session or null if it doesn't exist
+ */
+export async function checkInSpottingSession(
+  id: string,
+  location?: IncidentLocation,
+): Promise<SpottingSession | null> {
+  return updateActiveSession(
+    id,
+    (session) => ({
+      ...nextDeadline(session.checkInIntervalSeconds, session.graceSeconds),
+      location: location || session.location,
+    }),
+    { type: "checked_in" },
+  )
+}
+
+/**
+ * Push the next check-in back by a short snooze
+ * @param id Session ID
+ * @param snoozeSeconds How long to snooze for
+ * @returns The updated session or null if it doesn't exist
+ */
+export async function snoozeSpottingSession(id: string, snoozeSeconds?: number): Promise<SpottingSession | null> {
+  const seconds = clampSeconds(snoozeSeconds, SPOTTING_SNOOZE_SECONDS[0], 30, Math.max(...SPOTTING_SNOOZE_SECONDS))
+
+  return updateActiveSession(id, (session) => nextDeadline(seconds, session.graceSeconds), {
+    type: "snoozed",
+    note: `Snoozed for ${seconds}s`,
+  })
+}
+
+/**
+ * End a session because the user is OK
+ * @param id Session ID
+ * @returns The ended session or null if it doesn't exist
+ */
+export async function endSpottingSession(id: string): Promise<SpottingSession | null> {
+  return updateActiveSession(id, (_session, now) => ({ status: "ended", endedAt: now }), {
+    type: "ended",
+    note: "User ended the session and is OK",
+  })
+}
+
+/**
+ * Raise an emergency when a check-in deadline passes without a check-in
+ * The session is claimed before the emergency is raised, but a session that was claimed without an
+ * incident being raised is claimed again, so a retry of a failed job still raises the alert.
+ * @param sessionId Session ID
+ * @param deadlineAt Deadline the job was scheduled for
+ */
+export async function handleMissedCheckIn(sessionId: string, deadlineAt: string): Promise<void> {
+  // Claim the session first so a check-in arriving at the same moment can't also succeed
+  let claimed = false
+  const session = await sessions.update(sessionId, (current) => {
+    // Ignore stale deadlines: the user checked in, snoozed or ended the session since it was armed
+    if (current.deadlineAt !== deadlineAt) {
+      return current
+    }
+
+    if (current.status === "escalated" && !current.incidentId) {
+      claimed = true
+      return current
+    }
+
+    if (current.status !== "active") {
+      return current
+    }
+
+    claimed = true
+    const now = new Date().toISOString()
+    return {
+      ...current,
+      status: "escalated",
+      updatedAt: now,
+      endedAt: now,
+      events: [...current.events, { type: "missed_check_in", at: now }],
+    }
+  })
+
+  if (!session || !claimed) {
+    return
+  }
+
+  // Errors reach the scheduler, which retries the job
+  const incident = await raiseEmergency({
+    userId: session.userId,
+    userName: session.userName,
+    emergencyType: "missed_check_in",
+    location: session.location,
+    contacts: session.contacts,
+    escalationWaitSeconds: session.escalationWaitSeconds,
+    allowHeroNetwork: session.allowHeroNetwork,
+  })
+
+  await sessions.update(sessionId, (current) => ({ ...current, incidentId: incident.id }))
+}
@@ -0,0 +1,111 @@
+import fs from "fs"
+import path from "path"
+
+/**
+ * File-backed JSON collections for server-side records (incidents, sessions, jobs)
+ * Each collection lives in its own file under NARCOGUARD_DATA_DIR (defaults to ./.data)
+ */
+
+export interface StoredRecord {
+  id: string
+}
+
+export interface Collection<T extends StoredRecord> {
+  list: (filter?: (record: T) => boolean) => Promise<T[]>
+  get: (id: string) => Promise<T | null>
+  insert: (record: T) => Promise<T>
+  update: (id: string, updater: (record: T) => T) => Promise<T | null>
+  remove: (id: string) => Promise<boolean>
+}
+
+export function getDataDirectory(): string {
+  return process.env.NARCOGUARD_DATA_DIR || path.join(process.cwd(), ".data")
+}
+
+// Writes are serialized per collection so concurrent requests don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>()
+
+function enqueue<R>(name: string, task: () => Promise<R>): Promise<R> {
+  const previous = writeQueues.get(name) || Promise.resolve()
+  const next = previous.then(task, task)
+  writeQueues.set(name, next.catch(() => undefined))
+  return next
+}
+
+async function readRecords<T>(filePath: string): Promise<T[]> {
+  try {
+    const contents = await fs.promises.readFile(filePath, "utf8")
+    const parsed = JSON.parse(contents)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+async function writeRecords<T>(filePath: string, records: T[]): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+
+  // Write to a temporary file first so a crash never leaves a half-written collection
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await fs.promises.writeFile(tempPath, JSON.stringify(records, null, 2))
+  await fs.promises.rename(tempPath, filePath)
+}
+
+/**
+ * Open a named collection of records
+ * @param name Collection name, used as the file name
+ * @returns Collection accessors
+ */
+export function createCollection<T extends StoredRecord>(name: string): Collection<T> {
+  const filePath = () => path.join(getDataDirectory(), `${name}.json`)
+
+  return {
+    list: async (filter) => {
+      const records = await readRecords<T>(filePath())
+      return filter ? records.filter(filter) : records
+    },
+
+    get: async (id) => {
+      const records = await readRecords<T>(filePath())
+      return records.find((record) => record.id === id) || null
+    },
+
+    insert: (record) =>
+      enqueue(name, async () => {
+        const records = await readRecords<T>(filePath())
+        if (records.some((existing) => existing.id === record.id)) {
+          throw new Error(`Record ${record.id} already exists in ${name}`)
+        }
+        records.push(record)
+        await writeRecords(filePath(), records)
+        return record
+      }),
+
+    update: (id, updater) =>
+      enqueue(name, async () => {
+        const records = await readRecords<T>(filePath())
+        const index = records.findIndex((record) => record.id === id)
+        if (index === -1) {
+          return null
+        }
+        const updated = updater(records[index])
+        records[index] = updated
+        await writeRecords(filePath(), records)
+        return updated
+      }),
+
+    remove: (id) =>
+      enqueue(name, async () => {
+        const records = await readRecords<T>(filePath())
+        const remaining = records.filter((record) => record.id !== id)
+        if (remaining.length === records.length) {
+          return false
+        }
+        await writeRecords(filePath(), remaining)
+        return true
+      }),
+  }
+}
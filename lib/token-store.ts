@@ -0,0 +1,155 @@
+/**
+ * Server-side state for login sessions: issued refresh tokens and the revocation list
+ *
+ * Each refresh token can be exchanged once. Exchanging it marks it used and issues the next token in
+ * the same session. If a used token comes back after the grace period, someone has a copy of it, so
+ * the whole session is revoked and both the thief and the user have to sign in again.
+ *
+ * Revoked IDs (sessions or single tokens) are kept until every token they could cover has expired.
+ */
+
+import { randomUUID } from "crypto"
+import { generateRefreshToken, verifyRefreshToken } from "./auth"
+import { createCollection } from "./store"
+
+export interface IssuedRefreshToken {
+  id: string
+  userId: string
+  sessionId: string
+  createdAt: string
+  expiresAt: string
+  usedAt?: string
+}
+
+export interface RevokedToken {
+  // Session ID or token ID
+  id: string
+  userId?: string
+  reason: string
+  revokedAt: string
+  // When every token the revocation covers has expired and the entry can be dropped
+  expiresAt: string
+}
+
+export interface RotatedRefreshToken {
+  userId: string
+  sessionId: string
+  refreshToken: string
+}
+
+// Matches the refresh token lifetime in lib/auth, the longest-lived token in a session
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+// Two tabs refreshing at once both present the same token; the second isn't treated as theft
+export const REFRESH_REUSE_GRACE_SECONDS = 10
+
+const refreshTokens = createCollection<IssuedRefreshToken>("refresh-tokens")
+const revokedTokens = createCollection<RevokedToken>("revoked-tokens")
+
+async function pruneExpired(): Promise<void> {
+  const now = new Date().toISOString()
+
+  for (const token of await refreshTokens.list((candidate) => candidate.expiresAt <= now)) {
+    await refreshTokens.remove(token.id)
+  }
+  for (const revoked of await revokedTokens.list((candidate) => candidate.expiresAt <= now)) {
+    await revokedTokens.remove(revoked.id)
+  }
+}
+
+/**
+ * Issue and record a refresh token
+ * @param userId User ID
+ * @param sessionId Login session the token belongs to
+ * @returns Signed refresh token
+ */
+export async function issueRefreshToken(userId: string, sessionId: string): Promise<string> {
+  await pruneExpired()
+
+  const id = randomUUID()
+  const now = Date.now()
+  await refreshTokens.insert({
+    id,
+    userId,
+    sessionId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_MAX_AGE_SECONDS * 1000).toISOString(),
+  })
+
+  return generateRefreshToken(userId, sessionId, id)
+}
+
+/**
+ * Exchange a refresh token for the next one in its session
+ * @param token Refresh token from the cookie
+ * @returns The session and its new refresh token, or null if the token can't be used
+ */
+export async function rotateRefreshToken(token: string): Promise<RotatedRefreshToken | null> {
+  const payload = verifyRefreshToken(token)
+  if (!payload?.jti || !payload.sid || !payload.sub) {
+    return null
+  }
+
+  const issued = await refreshTokens.get(payload.jti)
+  if (!issued || issued.userId !== payload.sub || (await isTokenRevoked(issued.sessionId))) {
+    return null
+  }
+
+  const now = Date.now()
+  if (issued.usedAt && now - Date.parse(issued.usedAt) > REFRESH_REUSE_GRACE_SECONDS * 1000) {
+    console.warn(`Refresh token reuse detected for user ${issued.userId}; revoking session ${issued.sessionId}`)
+    await revokeSession(issued.sessionId, issued.userId, "refresh_token_reuse")
+    return null
+  }
+
+  if (!issued.usedAt) {
+    await refreshTokens.update(issued.id, (current) => ({ ...current, usedAt: new Date(now).toISOString() }))
+  }
+
+  return {
+    userId: issued.userId,
+    sessionId: issued.sessionId,
+    refreshToken: await issueRefreshToken(issued.userId, issued.sessionId),
+  }
+}
+
+/**
+ * Add a session or token ID to the revocation list
+ * @param id Session ID or token ID
+ * @param details Who it belonged to, why it was revoked and when the entry can be dropped
+ */
+export async function revokeToken(
+  id: string,
+  details: { userId?: string; reason: string; expiresAt: string },
+): Promise<void> {
+  const revoked: RevokedToken = { id, ...details, revokedAt: new Date().toISOString() }
+
+  // Upsert, so revoking twice keeps the later expiry
+  if (!(await revokedTokens.update(id, () => revoked))) {
+    await revokedTokens.insert(revoked)
+  }
+}
+
+/**
+ * Revoke a login session, ending every access and refresh token issued for it
+ * @param sessionId Session ID
+ * @param userId User the session belongs to
+ * @param reason Why, e.g. "logout" or "refresh_token_reuse"
+ */
+export async function revokeSession(sessionId: string, userId: string, reason: string): Promise<void> {
+  await revokeToken(sessionId, {
+    userId,
+    reason,
+    expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000).toISOString(),
+  })
+}
+
+/**
+ * Check the revocation list
+ * @param id Session ID or token ID
+ * @returns Whether the ID has been revoked
+ */
+export async function isTokenRevoked(id: string): Promise<boolean> {
+  const revoked = await revokedTokens.get(id)
+  return !!revoked && revoked.expiresAt > new Date().toISOString()
+}
@@ -0,0 +1,148 @@
+/**
+ * Time-based one-time passwords (RFC 6238), as used by authenticator apps
+ *
+ * Codes are 6 digits from HMAC-SHA1 over 30-second steps. Secrets are shared with the app as base32
+ * in an otpauth:// URL.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+
+export const TOTP_STEP_SECONDS = 30
+export const TOTP_DIGITS = 6
+// Accept the step before and after as well, for clocks that drift a little
+export const TOTP_WINDOW = 1
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+/**
+ * Encode bytes as unpadded base32
+ * @param bytes Bytes to encode
+ * @returns Base32 text
+ */
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * @param text Base32 text
+ * @returns Decoded bytes
+ */
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=]/g, "")
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generate a new random secret
+ * @returns 160-bit secret in base32
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+/**
+ * The time step a moment falls in
+ * @param time Moment in milliseconds
+ * @returns Step counter
+ */
+export function totpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS)
+}
+
+/**
+ * The code for a time step
+ * @param secret Base32 secret
+ * @param step Step counter
+ * @returns Zero-padded code
+ */
+export function totpCode(secret: string, step: number = totpStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 15
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0")
+}
+
+/**
+ * Check a code against the current step and its neighbours
+ * @param secret Base32 secret
+ * @param code Code the user typed
+ * @param options The time to check at, and the last step already used so a code can't be replayed
+ * @returns The step the code matched, or null
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; afterStep?: number } = {},
+): number | null {
+  const digits = code.replace(/\s/g, "")
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(digits)) {
+    return null
+  }
+
+  const current = totpStep(options.now)
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (options.afterStep !== undefined && step <= options.afterStep) continue
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(digits))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the URL authenticator apps read from a QR code or link
+ * @param secret Base32 secret
+ * @param account Account label, usually the email address
+ * @param issuer Service name shown in the app
+ * @returns otpauth:// URL
+ */
+export function totpUri(secret: string, account: string, issuer = "Narcoguard"): string {
+  const label = encodeURIComponent(`${issuer}:${account}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params}`
+}
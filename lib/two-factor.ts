@@ -0,0 +1,227 @@
+/**
+ * Optional two-factor sign-in with an authenticator app
+ *
+ * Setup stores a pending secret until the user proves their app has it by entering a code; only then
+ * is two-factor turned on and a set of recovery codes handed out. Recovery codes are shown once and
+ * stored as hashes, and each works once. The last step a code was accepted for is kept so the same
+ * code can't be used twice.
+ *
+ * Secrets are stored encrypted (lib/encryption), bound to the user they belong to.
+ */
+
+import { createHash, randomBytes } from "crypto"
+import { decryptEnvelope, encryptEnvelope, isEnvelope, reencryptEnvelope } from "./encryption"
+import { createCollection } from "./store"
+import { base32Encode, generateTotpSecret, verifyTotp } from "./totp"
+
+export interface TwoFactorSettings {
+  // User ID
+  id: string
+  // Encrypted secret
+  secret?: string
+  // Encrypted secret waiting for its first code during setup
+  pendingSecret?: string
+  enabledAt?: string
+  lastUsedStep?: number
+  recoveryCodeHashes: string[]
+  updatedAt: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorProof {
+  code?: string
+  recoveryCode?: string
+}
+
+export const RECOVERY_CODE_COUNT = 10
+
+const settings = createCollection<TwoFactorSettings>("two-factor")
+
+// Codes are compared without case or dashes, so "ABCDE-FGHIJ" and "abcdefghij" are the same code
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256")
+    .update(code.toLowerCase().replace(/[^a-z0-9]/g, ""))
+    .digest("hex")
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase()
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+const secretContext = (userId: string) => `two-factor:${userId}`
+
+// Secrets saved before they were encrypted are read as they are, until the re-encryption job runs
+async function readSecret(userId: string, stored: string): Promise<string> {
+  return isEnvelope(stored) ? decryptEnvelope(stored, secretContext(userId)) : stored
+}
+
+async function saveSettings(userId: string, update: (current: TwoFactorSettings) => TwoFactorSettings) {
+  const empty: TwoFactorSettings = { id: userId, recoveryCodeHashes: [], updatedAt: new Date().toISOString() }
+  const next = (current: TwoFactorSettings) => ({ ...update(current), updatedAt: new Date().toISOString() })
+
+  return (await settings.update(userId, next)) || settings.insert(next(empty))
+}
+
+/**
+ * Check whether a user signs in with a second factor
+ * @param userId User ID
+ * @returns Whether two-factor is turned on
+ */
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  return !!(await settings.get(userId))?.enabledAt
+}
+
+/**
+ * Summarise a user's two-factor settings without revealing any secrets
+ * @param userId User ID
+ * @returns Whether it's on and how many recovery codes are left
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const current = await settings.get(userId)
+  return {
+    enabled: !!current?.enabledAt,
+    recoveryCodesRemaining: current?.enabledAt ? current.recoveryCodeHashes.length : 0,
+  }
+}
+
+/**
+ * Start setting up two-factor with a new secret for the user's authenticator app
+ * @param userId User ID
+ * @returns The secret to add to the app
+ */
+export async function beginTwoFactorSetup(userId: string): Promise<string> {
+  if (await isTwoFactorEnabled(userId)) {
+    throw new Error("Two-factor authentication is already enabled")
+  }
+
+  const secret = generateTotpSecret()
+  const pendingSecret = await encryptEnvelope(secret, secretContext(userId))
+  await saveSettings(userId, (current) => ({ ...current, pendingSecret }))
+  return secret
+}
+
+/**
+ * Finish setup by checking a code from the app against the pending secret
+ * @param userId User ID
+ * @param code Code from the authenticator app
+ * @returns Recovery codes, to be shown to the user once
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const current = await settings.get(userId)
+  if (current?.enabledAt) {
+    throw new Error("Two-factor authentication is already enabled")
+  }
+  if (!current?.pendingSecret) {
+    throw new Error("No two-factor setup in progress")
+  }
+
+  const step = verifyTotp(await readSecret(userId, current.pendingSecret), code)
+  if (step === null) {
+    throw new Error("Invalid code")
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await saveSettings(userId, (existing) => ({
+    id: existing.id,
+    secret: existing.pendingSecret,
+    enabledAt: new Date().toISOString(),
+    lastUsedStep: step,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    updatedAt: existing.updatedAt,
+  }))
+
+  return recoveryCodes
+}
+
+/**
+ * Check a second factor, consuming it so it can't be used again
+ * @param userId User ID
+ * @param proof A code from the authenticator app or one of the recovery codes
+ * @returns Whether the proof was accepted
+ */
+export async function verifyTwoFactor(userId: string, proof: TwoFactorProof): Promise<boolean> {
+  const current = await settings.get(userId)
+  if (!current?.enabledAt || !current.secret) {
+    return false
+  }
+
+  if (proof.code) {
+    const secret = await readSecret(userId, current.secret)
+    const step = verifyTotp(secret, proof.code, { afterStep: current.lastUsedStep })
+    if (step === null) {
+      return false
+    }
+    await saveSettings(userId, (existing) => ({ ...existing, lastUsedStep: step }))
+    return true
+  }
+
+  if (proof.recoveryCode) {
+    const hash = hashRecoveryCode(proof.recoveryCode)
+    if (!current.recoveryCodeHashes.includes(hash)) {
+      return false
+    }
+    await saveSettings(userId, (existing) => ({
+      ...existing,
+      recoveryCodeHashes: existing.recoveryCodeHashes.filter((candidate) => candidate !== hash),
+    }))
+    return true
+  }
+
+  return false
+}
+
+/**
+ * Turn two-factor off after checking a second factor
+ * @param userId User ID
+ * @param proof A code from the authenticator app or one of the recovery codes
+ */
+export async function disableTwoFactor(userId: string, proof: TwoFactorProof): Promise<void> {
+  if (!(await isTwoFactorEnabled(userId))) {
+    throw new Error("Two-factor authentication is not enabled")
+  }
+  if (!(await verifyTwoFactor(userId, proof))) {
+    throw new Error("Invalid code")
+  }
+
+  await settings.remove(userId)
+}
+
+/**
+ * Move every stored secret onto the current master key, encrypting any saved before encryption
+ * @returns How many records were rewritten
+ */
+export async function reencryptTwoFactorSecrets(): Promise<number> {
+  let rewritten = 0
+
+  for (const record of await settings.list()) {
+    const context = secretContext(record.id)
+    const next = { ...record }
+
+    for (const field of ["secret", "pendingSecret"] as const) {
+      const stored = record[field]
+      if (!stored) continue
+      next[field] = isEnvelope(stored)
+        ? (await reencryptEnvelope(stored, context)) || stored
+        : await encryptEnvelope(stored, context)
+    }
+
+    if (next.secret !== record.secret || next.pendingSecret !== record.pendingSecret) {
+      // Only write if nothing changed the secrets in the meantime
+      await settings.update(record.id, (current) =>
+        current.secret === record.secret && current.pendingSecret === record.pendingSecret
+          ? { ...current, secret: next.secret, pendingSecret: next.pendingSecret }
+          : current,
+      )
+      rewritten++
+    }
+  }
+
+  return rewritten
+}
@@ -0,0 +1,186 @@
+/**
+ * User accounts
+ *
+ * Accounts are identified by email and store only a scrypt hash of the password. The user ID is
+ * what every other record (incidents, vitals, kits, hero registrations) is keyed by.
+ */
+
+import { randomUUID } from "crypto"
+import { hashPassword, verifyPassword } from "./auth"
+import { normalizeRoles, type Role } from "./permissions"
+import { createCollection } from "./store"
+
+export interface User {
+  id: string
+  email: string
+  name: string
+  passwordHash: string
+  // Accounts created before roles were added have none stored and are plain users
+  roles?: Role[]
+  createdAt: string
+  updatedAt: string
+  lastLoginAt?: string
+  // Set the first time the user signs in with an emailed link, which proves they own the address
+  emailVerifiedAt?: string
+}
+
+export type PublicUser = Omit<User, "passwordHash">
+
+export const MIN_PASSWORD_LENGTH = 8
+// scrypt happily hashes megabytes, so cap what a request can make it do
+export const MAX_PASSWORD_LENGTH = 256
+
+const users = createCollection<User>("users")
+
+// Checked against when the email is unknown, so a failed login takes as long either way
+let decoyHash: Promise<string> | undefined
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Accounts for these addresses are made admins once they prove they own them, to bootstrap the first admin.
+// Registering alone isn't enough: anyone can register with an address before its owner does.
+function isBootstrapAdmin(email: string): boolean {
+  return (process.env.ADMIN_EMAILS || "").split(",").map(normalizeEmail).includes(email)
+}
+
+/**
+ * A user's roles
+ * @param user Stored user
+ * @returns Roles, always including "user"
+ */
+export function getUserRoles(user: User): Role[] {
+  return normalizeRoles(user.roles)
+}
+
+/**
+ * Strip the password hash before a user leaves the server
+ * @param user Stored user
+ * @returns User without secrets
+ */
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user
+  return publicUser
+}
+
+/**
+ * Create an account
+ * @param input Email, display name and password
+ * @returns The new user
+ */
+export async function createUser(input: { email: string; name: string; password: string }): Promise<User> {
+  const email = normalizeEmail(input.email)
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new Error("Invalid email address")
+  }
+  if (input.password.length < MIN_PASSWORD_LENGTH || input.password.length > MAX_PASSWORD_LENGTH) {
+    throw new Error(`Invalid password: use between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`)
+  }
+
+  if (await findUserByEmail(email)) {
+    throw new Error("Email already registered")
+  }
+
+  const now = new Date().toISOString()
+  return users.insert({
+    id: randomUUID(),
+    email,
+    name: input.name.trim() || email.split("@")[0],
+    passwordHash: await hashPassword(input.password),
+    roles: ["user"],
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+/**
+ * Look up a user by ID
+ * @param id User ID
+ * @returns The user or null if there is no such account
+ */
+export async function getUser(id: string): Promise<User | null> {
+  return users.get(id)
+}
+
+/**
+ * Look up a user by email, ignoring case
+ * @param email Email address
+ * @returns The user or null if there is no such account
+ */
+export async function findUserByEmail(email: string): Promise<User | null> {
+  const normalized = normalizeEmail(email)
+  const [user] = await users.list((candidate) => candidate.email === normalized)
+  return user || null
+}
+
+/**
+ * Check an email and password
+ * @param email Email address
+ * @param password Plain text password
+ * @returns The user if the password is right, otherwise null
+ */
+export async function authenticateUser(email: string, password: string): Promise<User | null> {
+  const user = await findUserByEmail(email)
+
+  if (!user || password.length > MAX_PASSWORD_LENGTH) {
+    decoyHash ||= hashPassword(randomUUID())
+    await verifyPassword(password.slice(0, MAX_PASSWORD_LENGTH), await decoyHash)
+    return null
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    return null
+  }
+
+  return users.update(user.id, (current) => ({ ...current, lastLoginAt: new Date().toISOString() }))
+}
+
+/**
+ * Record that a user has shown they own their email address, making them an admin if it's in ADMIN_EMAILS
+ * @param id User ID
+ * @returns The updated user or null if there is no such account
+ */
+export async function markEmailVerified(id: string): Promise<User | null> {
+  return users.update(id, (user) => {
+    if (user.emailVerifiedAt) {
+      return user
+    }
+
+    const now = new Date().toISOString()
+    const roles = getUserRoles(user)
+    return {
+      ...user,
+      emailVerifiedAt: now,
+      roles: isBootstrapAdmin(user.email) ? normalizeRoles([...roles, "admin"]) : roles,
+      updatedAt: now,
+    }
+  })
+}
+
+/**
+ * Replace a user's roles
+ * @param id User ID
+ * @param roles New roles; "user" is always kept
+ * @returns The updated user or null if there is no such account
+ */
+export async function setUserRoles(id: string, roles: Role[]): Promise<User | null> {
+  return users.update(id, (user) => ({ ...user, roles: normalizeRoles(roles), updatedAt: new Date().toISOString() }))
+}
+
+/**
+ * Add or remove one role
+ * @param id User ID
+ * @param role Role to change
+ * @param granted Whether the user should have it
+ * @returns The updated user or null if there is no such account
+ */
+export async function setUserRole(id: string, role: Role, granted: boolean): Promise<User | null> {
+  const user = await users.get(id)
+  if (!user) {
+    return null
+  }
+
+  const roles = getUserRoles(user).filter((existing) => existing !== role)
+  return setUserRoles(id, granted ? [...roles, role] : roles)
+}
@@ -0,0 +1,143 @@
+/**
+ * Per-user vitals profiles: baseline learning, threshold overrides and unit preferences
+ */
+
+import {
+  BASELINE_SAMPLE_TARGET,
+  computeBaseline,
+  isRestingSample,
+  type OverrideSet,
+  type TemperatureUnit,
+  type ThresholdOverrides,
+  type VitalsBaseline,
+} from "./baselines"
+import type { VitalsSample } from "./detection"
+import { createCollection } from "./store"
+
+export interface VitalsProfile {
+  // Profiles are keyed by user ID
+  id: string
+  userId: string
+  units: { temperature: TemperatureUnit }
+  learning: {
+    startedAt: string
+    samples: VitalsSample[]
+    completedAt?: string
+  }
+  baseline?: VitalsBaseline
+  overrides: { user?: OverrideSet; clinician?: OverrideSet }
+  createdAt: string
+  updatedAt: string
+}
+
+const profiles = createCollection<VitalsProfile>("vitals-profiles")
+
+function newProfile(userId: string): VitalsProfile {
+  const now = new Date().toISOString()
+  return {
+    id: userId,
+    userId,
+    units: { temperature: "F" },
+    learning: { startedAt: now, samples: [] },
+    overrides: {},
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+async function updateProfile(
+  userId: string,
+  updater: (profile: VitalsProfile) => VitalsProfile,
+): Promise<VitalsProfile> {
+  if (!(await profiles.get(userId))) {
+    await profiles.insert(newProfile(userId))
+  }
+
+  const updated = await profiles.update(userId, (profile) => ({
+    ...updater(profile),
+    updatedAt: new Date().toISOString(),
+  }))
+  return updated as VitalsProfile
+}
+
+/**
+ * Get a user's vitals profile
+ * @param userId User ID
+ * @returns The stored profile, or a new unsaved one if the user has none yet
+ */
+export async function getVitalsProfile(userId: string): Promise<VitalsProfile> {
+  return (await profiles.get(userId)) || newProfile(userId)
+}
+
+/**
+ * Add resting samples to a user's baseline, computing it once enough have been collected
+ * Samples the default rules would call critical are dropped.
+ * @param userId User ID
+ * @param samples Samples recorded while monitoring
+ * @returns The updated profile
+ */
+export async function addBaselineSamples(userId: string, samples: VitalsSample[]): Promise<VitalsProfile> {
+  return updateProfile(userId, (profile) => {
+    if (profile.learning.completedAt) {
+      return profile
+    }
+
+    const collected = [...profile.learning.samples, ...samples.filter(isRestingSample)]
+    if (collected.length < BASELINE_SAMPLE_TARGET) {
+      return { ...profile, learning: { ...profile.learning, samples: collected } }
+    }
+
+    // The raw samples aren't kept once the baseline has been computed
+    const baseline = computeBaseline(collected)
+    return {
+      ...profile,
+      baseline,
+      learning: { ...profile.learning, samples: [], completedAt: baseline.computedAt },
+    }
+  })
+}
+
+/**
+ * Start learning a user's baseline again, e.g. after a change in health or medication
+ * The current baseline stays in use until the new one is ready.
+ * @param userId User ID
+ * @returns The updated profile
+ */
+export async function restartBaselineLearning(userId: string): Promise<VitalsProfile> {
+  return updateProfile(userId, (profile) => ({
+    ...profile,
+    learning: { startedAt: new Date().toISOString(), samples: [] },
+  }))
+}
+
+/**
+ * Set a user's unit preferences or threshold overrides
+ * @param userId User ID
+ * @param changes Units and/or overrides to store
+ * @returns The updated profile
+ */
+export async function updateVitalsProfile(
+  userId: string,
+  changes: {
+    units?: { temperature?: TemperatureUnit }
+    overrides?: ThresholdOverrides | null
+    setBy?: "user" | "clinician"
+    actor?: string
+  },
+): Promise<VitalsProfile> {
+  return updateProfile(userId, (profile) => {
+    const updated = { ...profile, units: { ...profile.units, ...changes.units } }
+
+    if (changes.overrides !== undefined) {
+      const source = changes.setBy || "user"
+      updated.overrides = {
+        ...profile.overrides,
+        [source]: changes.overrides
+          ? { thresholds: changes.overrides, updatedBy: changes.actor, updatedAt: new Date().toISOString() }
+          : undefined,
+      }
+    }
+
+    return updated
+  })
+}
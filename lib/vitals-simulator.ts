@@ -0,0 +1,305 @@
+/**
+ * Scripted vitals scenarios for demos, training and QA
+ *
+ * A scenario is a set of keyframes that the simulator interpolates between, with seeded noise on
+ * top so every run of a scenario produces exactly the same readings. Playback speed only changes
+ * how quickly samples are produced; sample timestamps always advance in scenario time, so the
+ * detector sees the same stream at any speed.
+ */
+
+import type { VitalsSample } from "./detection"
+
+export interface SimulatedVitals {
+  heartRate: number
+  oxygenLevel: number
+  respiratoryRate: number
+  bloodPressure: { systolic: number; diastolic: number }
+  temperature: number
+}
+
+// Blood pressure is scripted as two separate signals
+type FlatVitals = Omit<SimulatedVitals, "bloodPressure"> & { systolic: number; diastolic: number }
+
+interface Keyframe {
+  // Seconds from the start of the scenario
+  at: number
+  vitals: Partial<FlatVitals>
+}
+
+type SimulatedSignal = keyof FlatVitals
+
+export interface SimulationScenario {
+  id: string
+  name: string
+  description: string
+  // Length of the script in seconds; after it the scenario loops or holds its last keyframe
+  durationSeconds: number
+  loop: boolean
+  keyframes: Keyframe[]
+  // Noise amplitude per signal, applied evenly in both directions
+  noise: Partial<Record<SimulatedSignal, number>>
+  // Periods, in seconds, when the sensor sends nothing
+  dropouts?: [number, number][]
+  // Single-sample artifacts, e.g. a motion spike, at these times in seconds
+  glitches?: { at: number; vitals: Partial<FlatVitals> }[]
+}
+
+export interface SimulatedReading {
+  // Scenario time of the reading, epoch milliseconds from the simulator's start time
+  timestamp: number
+  // Null while the sensor has dropped out
+  vitals: SimulatedVitals | null
+}
+
+// Seconds of scenario time between samples, matching the monitor's sampling rate
+export const SIMULATION_SAMPLE_SECONDS = 2
+
+export const SIMULATION_SPEEDS = [1, 2, 5, 10]
+
+const RESTING: FlatVitals = {
+  heartRate: 72,
+  oxygenLevel: 98,
+  respiratoryRate: 14,
+  systolic: 118,
+  diastolic: 78,
+  temperature: 98.4,
+}
+
+const LIGHT_NOISE = {
+  heartRate: 2,
+  oxygenLevel: 0.5,
+  respiratoryRate: 0.5,
+  systolic: 3,
+  diastolic: 2,
+  temperature: 0.1,
+}
+
+export const SIMULATION_SCENARIOS: SimulationScenario[] = [
+  {
+    id: "normal_day",
+    name: "Normal day",
+    description: "Resting vitals with gentle drift. Should never alert.",
+    durationSeconds: 600,
+    loop: true,
+    keyframes: [
+      { at: 0, vitals: RESTING },
+      { at: 200, vitals: { heartRate: 80, systolic: 124 } },
+      { at: 400, vitals: { heartRate: 68, respiratoryRate: 13 } },
+      { at: 600, vitals: RESTING },
+    ],
+    noise: LIGHT_NOISE,
+  },
+  {
+    id: "exercise_spike",
+    name: "Exercise spike",
+    description: "Heart rate and blood pressure climb during exertion and recover. Warns but doesn't go critical.",
+    durationSeconds: 360,
+    loop: false,
+    keyframes: [
+      { at: 0, vitals: RESTING },
+      { at: 60, vitals: RESTING },
+      { at: 100, vitals: { heartRate: 135, respiratoryRate: 21, systolic: 148, diastolic: 82, oxygenLevel: 97 } },
+      { at: 200, vitals: { heartRate: 142, respiratoryRate: 22, systolic: 150, diastolic: 84, temperature: 99 } },
+      { at: 280, vitals: { heartRate: 90, respiratoryRate: 16, systolic: 126, diastolic: 80 } },
+      { at: 360, vitals: RESTING },
+    ],
+    noise: LIGHT_NOISE,
+  },
+  {
+    id: "respiratory_depression",
+    name: "Gradual respiratory depression",
+    description: "Breathing slows over five minutes while SpO2 and heart rate fall: the opioid overdose pattern.",
+    durationSeconds: 420,
+    loop: false,
+    keyframes: [
+      { at: 0, vitals: RESTING },
+      { at: 60, vitals: RESTING },
+      { at: 360, vitals: { respiratoryRate: 6, oxygenLevel: 84, heartRate: 48 } },
+      { at: 420, vitals: { respiratoryRate: 5, oxygenLevel: 82, heartRate: 46 } },
+    ],
+    noise: LIGHT_NOISE,
+  },
+  {
+    id: "sudden_hypoxia",
+    name: "Sudden hypoxia",
+    description: "SpO2 drops sharply within seconds while the heart races.",
+    durationSeconds: 180,
+    loop: false,
+    keyframes: [
+      { at: 0, vitals: RESTING },
+      { at: 60, vitals: RESTING },
+      { at: 66, vitals: { oxygenLevel: 82, heartRate: 112, respiratoryRate: 20 } },
+      { at: 180, vitals: { oxygenLevel: 80, heartRate: 116, respiratoryRate: 21 } },
+    ],
+    noise: LIGHT_NOISE,
+  },
+  {
+    id: "sensor_dropout",
+    name: "Sensor dropout",
+    description: "Normal vitals with two gaps where the sensor sends nothing. Should never alert.",
+    durationSeconds: 300,
+    loop: true,
+    keyframes: [
+      { at: 0, vitals: RESTING },
+      { at: 300, vitals: RESTING },
+    ],
+    noise: LIGHT_NOISE,
+    dropouts: [
+      [60, 100],
+      [180, 250],
+    ],
+  },
+  {
+    id: "noisy_signal",
+    name: "Noisy signal",
+    description: "Normal vitals with heavy noise and single-reading motion artifacts. Should never go critical.",
+    durationSeconds: 300,
+    loop: true,
+    keyframes: [
+      { at: 0, vitals: RESTING },
+      { at: 300, vitals: RESTING },
+    ],
+    noise: { heartRate: 8, oxygenLevel: 1.5, respiratoryRate: 2, systolic: 8, diastolic: 5, temperature: 0.3 },
+    glitches: [
+      { at: 40, vitals: { oxygenLevel: 84 } },
+      { at: 110, vitals: { heartRate: 165 } },
+      { at: 170, vitals: { oxygenLevel: 79, heartRate: 38 } },
+      { at: 250, vitals: { respiratoryRate: 4 } },
+    ],
+  },
+]
+
+// Small seeded PRNG (mulberry32) so noise is the same on every run
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// The value of each signal at a point in the script, carrying forward signals a keyframe leaves out
+function interpolate(scenario: SimulationScenario, seconds: number): FlatVitals {
+  const frames: { at: number; vitals: FlatVitals }[] = []
+  for (const keyframe of scenario.keyframes) {
+    const previous = frames.length > 0 ? frames[frames.length - 1].vitals : RESTING
+    frames.push({ at: keyframe.at, vitals: { ...previous, ...keyframe.vitals } })
+  }
+
+  const nextIndex = frames.findIndex((frame) => frame.at > seconds)
+  if (nextIndex === -1) {
+    return frames[frames.length - 1].vitals
+  }
+  if (nextIndex === 0) {
+    return frames[0].vitals
+  }
+
+  const from = frames[nextIndex - 1]
+  const to = frames[nextIndex]
+  const progress = (seconds - from.at) / (to.at - from.at)
+  const vitals = { ...from.vitals }
+  for (const signal of Object.keys(vitals) as SimulatedSignal[]) {
+    vitals[signal] = from.vitals[signal] + (to.vitals[signal] - from.vitals[signal]) * progress
+  }
+  return vitals
+}
+
+/**
+ * Look up a scenario by ID
+ * @param id Scenario ID
+ * @returns The scenario, or undefined if there is none with that ID
+ */
+export function getSimulationScenario(id: string): SimulationScenario | undefined {
+  return SIMULATION_SCENARIOS.find((scenario) => scenario.id === id)
+}
+
+/**
+ * Create a simulator that plays a scenario one sample at a time
+ * @param scenarioId Scenario to play
+ * @param options Start time for sample timestamps and the noise seed
+ * @returns Simulator with next and reset
+ */
+export function createVitalsSimulator(scenarioId: string, options: { startTime?: number; seed?: number } = {}) {
+  const scenario = getSimulationScenario(scenarioId)
+  if (!scenario) {
+    throw new Error(`Unknown simulation scenario ${scenarioId}`)
+  }
+
+  const startTime = options.startTime ?? Date.now()
+  const seed = options.seed ?? 1
+  let random = createRandom(seed)
+  let tick = 0
+
+  return {
+    scenario,
+    next: (): SimulatedReading => {
+      const elapsed = tick * SIMULATION_SAMPLE_SECONDS
+      tick++
+
+      const seconds = scenario.loop ? elapsed % scenario.durationSeconds : elapsed
+      const timestamp = startTime + elapsed * 1000
+
+      // Draw the noise even during a dropout so the readings after it don't depend on its length
+      const noise = Object.fromEntries(
+        (Object.keys(RESTING) as SimulatedSignal[]).map((signal) => [
+          signal,
+          (random() * 2 - 1) * (scenario.noise[signal] || 0),
+        ]),
+      ) as Record<SimulatedSignal, number>
+
+      if (scenario.dropouts?.some(([from, to]) => seconds >= from && seconds < to)) {
+        return { timestamp, vitals: null }
+      }
+
+      const glitch = scenario.glitches?.find((artifact) => artifact.at === seconds)
+      const values = { ...interpolate(scenario, seconds) }
+      for (const signal of Object.keys(values) as SimulatedSignal[]) {
+        values[signal] = glitch?.vitals[signal] ?? values[signal] + noise[signal]
+      }
+
+      return {
+        timestamp,
+        vitals: {
+          heartRate: Math.round(values.heartRate),
+          oxygenLevel: Math.min(100, Math.round(values.oxygenLevel)),
+          respiratoryRate: Math.round(values.respiratoryRate),
+          bloodPressure: { systolic: Math.round(values.systolic), diastolic: Math.round(values.diastolic) },
+          temperature: Math.round(values.temperature * 10) / 10,
+        },
+      }
+    },
+    reset: () => {
+      random = createRandom(seed)
+      tick = 0
+    },
+  }
+}
+
+/**
+ * Play a scenario for a length of scenario time, as detector samples
+ * Dropouts produce no sample.
+ * @param scenarioId Scenario to play
+ * @param seconds How much scenario time to play
+ * @param options Start time and noise seed
+ * @returns Samples in time order
+ */
+export function runSimulation(
+  scenarioId: string,
+  seconds: number,
+  options: { startTime?: number; seed?: number } = {},
+): VitalsSample[] {
+  const simulator = createVitalsSimulator(scenarioId, { startTime: 0, ...options })
+  const samples: VitalsSample[] = []
+
+  for (let elapsed = 0; elapsed < seconds; elapsed += SIMULATION_SAMPLE_SECONDS) {
+    const { timestamp, vitals } = simulator.next()
+    if (vitals) {
+      samples.push({ timestamp, ...vitals })
+    }
+  }
+
+  return samples
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
+import { protectedRouteKind } from "@/lib/permissions"
 
 // Security headers map
 const securityHeaders = {
@@ -64,12 +65,35 @@ function getCacheTTL(path: string): number {
   return CACHE_MEDIUM
 }
 
+// Turn away requests that can't be signed in before they reach a protected route. Tokens can't be verified
+// here, so route handlers still check the session and its permissions; this only saves the round trip.
+function requireCredentials(request: NextRequest, path: string): NextResponse | null {
+  const kind = protectedRouteKind(path)
+  // ACCESS_COOKIE in lib/session, which uses Node APIs and can't be imported here
+  const hasAccess =
+    request.cookies.has("narcoguard_access") || /^Bearer /.test(request.headers.get("authorization") || "")
+
+  if (kind === "api" && !hasAccess) {
+    return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+  }
+
+  // Pages load with an expired access cookie as long as the refresh cookie can renew it. That cookie is
+  // scoped to /api/auth, so the browser never sends it here; a missing access cookie is the best signal.
+  if (kind === "page" && !hasAccess) {
+    const login = new URL("/login", request.url)
+    login.searchParams.set("next", path)
+    return NextResponse.redirect(login)
+  }
+
+  return null
+}
+
 export async function middleware(request: NextRequest) {
   // Get the pathname
   const path = request.nextUrl.pathname
 
-  // Clone the response
-  const response = NextResponse.next()
+  // Clone the response, or send the sign-in response for protected routes
+  const response = requireCredentials(request, path) || NextResponse.next()
 
   // Apply security headers to all responses
   Object.entries(securityHeaders).forEach(([key, value]) => {
@@ -174,25 +174,32 @@ test.describe('Vital Monitoring Simulation', () => {
   });
 
   test('should trigger alerts for abnormal readings', async ({ page }) => {
-    await page.goto('/dashboard');
-    
-    // Mock abnormal vital signs
-    await page.evaluate(() => {
-      window.mockVitalSigns = {
-        heartRate: 45, // Below normal range
-        oxygenLevel: 88 // Below normal range
-      };
-    });
+    // Play the scripted hypoxia scenario at 10x speed
+    await page.goto('/dashboard?simulate=sudden_hypoxia&speed=10');
+    await expect(page.locator('[data-testid="simulation-scenario"]')).toHaveValue('sudden_hypoxia');
     
     // Start monitoring
     await page.locator('[data-testid="start-monitoring"]').click();
     
-    // Wait for alert to appear
-    await expect(page.locator('[data-testid="emergency-alert"]')).toBeVisible();
+    // Wait for alert to appear; the drop comes a minute into the scenario, 6 seconds at 10x
+    await expect(page.locator('[data-testid="emergency-alert"]')).toBeVisible({ timeout: 15000 });
     
     // Verify countdown is displayed
     await expect(page.locator('[data-testid="emergency-countdown"]')).toBeVisible();
   });
+
+  test('should not alert on a noisy signal', async ({ page }) => {
+    await page.goto('/dashboard');
+
+    // Scenarios can also be picked from the UI
+    await page.locator('[data-testid="simulation-scenario"]').selectOption('noisy_signal');
+    await page.locator('[data-testid="simulation-speed"]').selectOption('10');
+    await page.locator('[data-testid="start-monitoring"]').click();
+
+    // Over a minute of scenario time
+    await page.waitForTimeout(8000);
+    await expect(page.locator('[data-testid="emergency-alert"]')).toHaveCount(0);
+  });
 });
 `;
 
@@ -261,18 +268,21 @@ export const mockVitalSigns = {
   normal: {
     heartRate: 75,
     oxygenLevel: 98,
+    respiratoryRate: 14,
     bloodPressure: { systolic: 120, diastolic: 80 },
     temperature: 98.6
   },
   warning: {
     heartRate: 55,
     oxygenLevel: 92,
+    respiratoryRate: 11,
     bloodPressure: { systolic: 140, diastolic: 90 },
     temperature: 99.5
   },
   critical: {
     heartRate: 45,
     oxygenLevel: 88,
+    respiratoryRate: 7,
     bloodPressure: { systolic: 160, diastolic: 100 },
     temperature: 101.0
   }
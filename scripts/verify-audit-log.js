@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Audit Log Verification
+ * Checks the hash chain of the PHI access audit log written by lib/audit-log.ts
+ *
+ * Usage: npm run audit:verify [-- path/to/phi-access.jsonl]
+ *
+ * Defaults to AUDIT_LOG_FILE, or <NARCOGUARD_DATA_DIR>/audit/phi-access.jsonl. Exits with 1 when an
+ * entry has been changed, removed or reordered. Kept free of the app's code on purpose, so the check
+ * doesn't trust the code that wrote the log; the hashing must stay in step with lib/audit-log.ts.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const GENESIS_HASH = '0'.repeat(64);
+
+function defaultLogPath() {
+  const dataDirectory = process.env.NARCOGUARD_DATA_DIR || path.join(process.cwd(), '.data');
+  return process.env.AUDIT_LOG_FILE || path.join(dataDirectory, 'audit', 'phi-access.jsonl');
+}
+
+// JSON with object keys sorted at every level, leaving out undefined fields
+function canonicalJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashEntry(entry) {
+  const { hash, ...hashed } = entry;
+  return crypto.createHash('sha256').update(canonicalJson(hashed)).digest('hex');
+}
+
+function verifyAuditLogFile(filePath) {
+  const lines = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, 'utf8').split('\n').filter((line) => line.trim())
+    : [];
+  let headHash = GENESIS_HASH;
+
+  for (const [index, line] of lines.entries()) {
+    const invalid = (reason) => ({ valid: false, entries: index, headHash, firstInvalid: { line: index + 1, reason } });
+
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return invalid('Entry is not valid JSON');
+    }
+
+    if (entry.seq !== index + 1) {
+      return invalid(`Expected sequence ${index + 1}, found ${entry.seq}`);
+    }
+    if (entry.prevHash !== headHash) {
+      return invalid("Previous hash doesn't match the entry before");
+    }
+    if (entry.hash !== hashEntry(entry)) {
+      return invalid("Entry hash doesn't match its contents");
+    }
+
+    headHash = entry.hash;
+  }
+
+  return { valid: true, entries: lines.length, headHash };
+}
+
+function main() {
+  const filePath = process.argv[2] || defaultLogPath();
+  const result = verifyAuditLogFile(filePath);
+
+  console.log(`Audit log: ${filePath}`);
+  console.log(`Entries verified: ${result.entries}`);
+  console.log(`Head hash: ${result.headHash}`);
+
+  if (!result.valid) {
+    console.error(`❌ Chain broken at line ${result.firstInvalid.line}: ${result.firstInvalid.reason}`);
+    process.exit(1);
+  }
+
+  console.log('✅ Audit log chain is intact');
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { verifyAuditLogFile };
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-audit-${process.pid}`)
+process.env.SMS_PROVIDER = 'file'
+process.env.EMAIL_PROVIDER = 'file'
+
+const fs = require('fs')
+const { ALL_USERS, getAuditLogPath, queryAuditLog, recordPhiAccess, verifyAuditLog } = require('../lib/audit-log')
+const { generateAccessToken } = require('../lib/auth')
+const { verifyAuditLogFile } = require('../scripts/verify-audit-log')
+
+const clinician = { userId: 'clinician-1', roles: ['user', 'clinician'] }
+const patient = { userId: 'patient-1', roles: ['user'] }
+
+const access = (actor, subjectUserId, resource = 'vitals.history') => ({
+  actor,
+  subjectUserId,
+  resource,
+  action: 'read',
+  purpose: actor.userId === subjectUserId ? 'self' : 'treatment',
+})
+
+const readLines = () => fs.readFileSync(getAuditLogPath(), 'utf8').trim().split('\n')
+const writeLines = (lines) => fs.writeFileSync(getAuditLogPath(), `${lines.join('\n')}\n`)
+
+beforeEach(() => {
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+afterAll(() => {
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('recording access', () => {
+  test('records who, whose, what, why and the request it came from', async () => {
+    const request = new Request('http://localhost/api/vitals/history?userId=patient-1', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'jest', 'x-request-id': 'req-1' },
+    })
+    const entry = await recordPhiAccess(request, access(clinician, 'patient-1'))
+
+    expect(entry).toMatchObject({
+      seq: 1,
+      actorId: 'clinician-1',
+      actorRoles: ['user', 'clinician'],
+      subjectUserId: 'patient-1',
+      resource: 'vitals.history',
+      action: 'read',
+      purpose: 'treatment',
+      request: { method: 'GET', path: '/api/vitals/history', ip: '203.0.113.7', userAgent: 'jest', requestId: 'req-1' },
+      prevHash: '0'.repeat(64),
+    })
+    expect(entry.hash).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  test('chains each entry to the one before, even when written at the same time', async () => {
+    const entries = await Promise.all([1, 2, 3, 4].map(() => recordPhiAccess(null, access(patient, 'patient-1'))))
+
+    expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3, 4])
+    for (let index = 1; index < entries.length; index++) {
+      expect(entries[index].prevHash).toBe(entries[index - 1].hash)
+    }
+  })
+})
+
+describe('verification', () => {
+  beforeEach(async () => {
+    for (const actor of [patient, clinician, patient]) {
+      await recordPhiAccess(null, access(actor, 'patient-1'))
+    }
+  })
+
+  test('passes an untouched log, in the library and the standalone script alike', async () => {
+    const result = await verifyAuditLog()
+
+    expect(result).toEqual({ valid: true, entries: 3, headHash: JSON.parse(readLines()[2]).hash })
+    expect(verifyAuditLogFile(getAuditLogPath())).toEqual(result)
+  })
+
+  test('catches an edited entry', async () => {
+    const lines = readLines()
+    writeLines([lines[0], lines[1].replace('clinician-1', 'patient-1'), lines[2]])
+
+    const result = await verifyAuditLog()
+    expect(result).toMatchObject({ valid: false, entries: 1, firstInvalid: { line: 2 } })
+    expect(verifyAuditLogFile(getAuditLogPath())).toEqual(result)
+  })
+
+  test('catches a removed entry, even with the sequence numbers patched up', async () => {
+    const lines = readLines()
+    const last = { ...JSON.parse(lines[2]), seq: 2 }
+    writeLines([lines[0], JSON.stringify(last)])
+
+    const result = await verifyAuditLog()
+    expect(result).toMatchObject({ valid: false, entries: 1, firstInvalid: { line: 2 } })
+    expect(result.firstInvalid.reason).toMatch(/Previous hash/)
+  })
+
+  test('catches reordered entries', async () => {
+    const lines = readLines()
+    writeLines([lines[1], lines[0], lines[2]])
+
+    expect(await verifyAuditLog()).toMatchObject({ valid: false, entries: 0, firstInvalid: { line: 1 } })
+  })
+
+  test('keeps chaining from the existing log', async () => {
+    await recordPhiAccess(null, access(patient, 'patient-1'))
+
+    expect(await verifyAuditLog()).toMatchObject({ valid: true, entries: 4 })
+  })
+})
+
+describe('querying', () => {
+  test('filters by whose data, who accessed it and when, newest first', async () => {
+    await recordPhiAccess(null, access(patient, 'patient-1'))
+    await recordPhiAccess(null, access(clinician, 'patient-1'))
+    await recordPhiAccess(null, access(clinician, 'patient-2'))
+
+    expect((await queryAuditLog({ subjectUserId: 'patient-1' })).map((entry) => entry.seq)).toEqual([2, 1])
+    expect((await queryAuditLog({ actorId: 'clinician-1' })).map((entry) => entry.seq)).toEqual([3, 2])
+    expect(await queryAuditLog({ limit: 1 })).toHaveLength(1)
+    expect(await queryAuditLog({ from: new Date(Date.now() + 60 * 1000) })).toEqual([])
+    expect(await queryAuditLog({ to: new Date(Date.now() - 60 * 1000) })).toEqual([])
+  })
+
+  test('is returned by the admin endpoint', async () => {
+    await recordPhiAccess(null, access(clinician, 'patient-1'))
+    await recordPhiAccess(null, access(clinician, 'patient-2'))
+
+    const { GET } = require('../app/api/audit-log/route')
+    const admin = generateAccessToken('admin-1', 'admin@example.com', 'session-admin', ['user', 'admin'])
+    const get = (query) =>
+      GET(new Request(`http://localhost/api/audit-log${query}`, { headers: { authorization: `Bearer ${admin}` } }))
+
+    const response = await get('?userId=patient-2&actorId=clinician-1')
+    const body = await response.json()
+    expect(response.status).toBe(200)
+    expect(body.entries.map((entry) => entry.subjectUserId)).toEqual(['patient-2'])
+
+    expect((await get('?from=yesterday')).status).toBe(400)
+  })
+
+  test('records reads of the log itself', async () => {
+    const admin = generateAccessToken('admin-1', 'admin@example.com', 'session-admin', ['user', 'admin'])
+    const headers = { authorization: `Bearer ${admin}` }
+
+    await require('../app/api/audit-log/route').GET(new Request('http://localhost/api/audit-log?userId=patient-2', { headers }))
+    await require('../app/api/audit-log/verify/route').GET(new Request('http://localhost/api/audit-log/verify', { headers }))
+
+    expect((await queryAuditLog({ actorId: 'admin-1' })).map((entry) => [entry.resource, entry.subjectUserId])).toEqual([
+      ['audit_log', ALL_USERS],
+      ['audit_log', 'patient-2'],
+    ])
+  })
+})
+
+describe('instrumented routes', () => {
+  test("a clinician reading a patient's trends is recorded as treatment", async () => {
+    const { GET } = require('../app/api/vitals/history/route')
+    const token = generateAccessToken('clinician-1', 'clinician@example.com', 'session-clinician', clinician.roles)
+
+    const response = await GET(
+      new Request('http://localhost/api/vitals/history?userId=patient-1', {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await queryAuditLog({ subjectUserId: 'patient-1' })).toEqual([
+      expect.objectContaining({ actorId: 'clinician-1', resource: 'vitals.history', purpose: 'treatment' }),
+    ])
+  })
+
+  test('raising an emergency and spotting sessions are recorded', async () => {
+    const token = generateAccessToken('patient-1', 'patient@example.com', 'session-patient', patient.roles)
+    const post = (route, url, body) =>
+      require(route).POST(
+        new Request(url, {
+          method: 'POST',
+          headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      )
+
+    await post('../app/api/emergency/trigger/route', 'http://localhost/api/emergency/trigger', { emergencyType: 'overdose' })
+    await post('../app/api/spotting/route', 'http://localhost/api/spotting', { userName: 'Alex' })
+
+    const entries = await queryAuditLog({ subjectUserId: 'patient-1' })
+    expect(entries.map((entry) => [entry.resource, entry.action])).toEqual([
+      ['spotting_session', 'create'],
+      ['incident', 'create'],
+    ])
+  })
+
+  test('a hero answering an alert is recorded as emergency response', async () => {
+    const { createIncident } = require('../lib/incidents')
+    const { buildResponderViewUrl, dispatchHeroes, registerHero } = require('../lib/heroes')
+    const location = { latitude: 40.7128, longitude: -74.006 }
+    await registerHero({ userId: 'hero-1', name: 'Jordan', phone: '+15550100150', location })
+    const incident = await createIncident({ userId: 'patient-1', emergencyType: 'overdose', location, allowHeroNetwork: true })
+    await dispatchHeroes(incident)
+
+    const { POST } = require('../app/api/incidents/[id]/heroes/route')
+    const token = new URL(buildResponderViewUrl(incident.id, 'hero-1')).searchParams.get('token')
+    const response = await POST(
+      new Request(`http://localhost/api/incidents/${incident.id}/heroes`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ token, response: 'accept' }),
+      }),
+      { params: Promise.resolve({ id: incident.id }) },
+    )
+
+    expect(response.status).toBe(200)
+    expect(await queryAuditLog({ actorId: 'hero-1' })).toEqual([
+      expect.objectContaining({
+        subjectUserId: 'patient-1',
+        resource: 'incident.hero_dispatch',
+        action: 'update',
+        purpose: 'emergency_response',
+      }),
+    ])
+  })
+})
@@ -0,0 +1,50 @@
+const {
+  generateAccessToken,
+  generateRefreshToken,
+  hashPassword,
+  verifyAccessToken,
+  verifyPassword,
+  verifyRefreshToken,
+} = require('../lib/auth')
+
+describe('password hashing', () => {
+  test('stores a salted scrypt hash that verifies the original password', async () => {
+    const hash = await hashPassword('correct horse battery staple')
+
+    expect(hash).toMatch(/^scrypt\$\d+\$\d+\$\d+\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/)
+    expect(hash).not.toContain('correct horse')
+    await expect(verifyPassword('correct horse battery staple', hash)).resolves.toBe(true)
+  })
+
+  test('rejects the wrong password', async () => {
+    const hash = await hashPassword('correct horse battery staple')
+    await expect(verifyPassword('correct horse battery stapler', hash)).resolves.toBe(false)
+  })
+
+  test('gives the same password a different hash each time', async () => {
+    expect(await hashPassword('hunter22')).not.toEqual(await hashPassword('hunter22'))
+  })
+
+  test('treats unreadable hashes as a failed match', async () => {
+    await expect(verifyPassword('hunter22', 'not-a-hash')).resolves.toBe(false)
+    await expect(verifyPassword('hunter22', 'sha256$abc')).resolves.toBe(false)
+  })
+})
+
+describe('session tokens', () => {
+  test('access tokens carry the user, email and session', () => {
+    const payload = verifyAccessToken(generateAccessToken('user-1', 'sam@example.com', 'session-1'))
+    expect(payload).toMatchObject({ sub: 'user-1', email: 'sam@example.com', sid: 'session-1' })
+  })
+
+  test('a refresh token is not accepted as an access token, or the reverse', () => {
+    expect(verifyAccessToken(generateRefreshToken('user-1', 'session-1'))).toBeNull()
+    expect(verifyRefreshToken(generateAccessToken('user-1', 'sam@example.com', 'session-1'))).toBeNull()
+    expect(verifyRefreshToken(generateRefreshToken('user-1', 'session-1'))).toMatchObject({ sub: 'user-1' })
+  })
+
+  test('tampered tokens are rejected', () => {
+    const token = generateAccessToken('user-1', 'sam@example.com', 'session-1')
+    expect(verifyAccessToken(token.slice(0, -2) + 'xx')).toBeNull()
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Tests for personal baselines and per-user detection thresholds
+ */
+
+const {
+  computeBaseline,
+  formatTemperature,
+  isRestingSample,
+  parseThresholdOverrides,
+  resolveDetectionConfig,
+  toFahrenheit,
+} = require('../lib/baselines')
+const { detectRisk, DEFAULT_DETECTION_CONFIG } = require('../lib/detection')
+
+// A trained athlete at rest: heart rate in the high 40s, everything else typical
+const athleteSamples = Array.from({ length: 60 }, (_, index) => ({
+  timestamp: index * 2000,
+  heartRate: 46 + (index % 5),
+  oxygenLevel: 97 + (index % 2),
+  respiratoryRate: 12 + (index % 3),
+}))
+
+describe('Personal Baselines', () => {
+  describe('Baseline Learning', () => {
+    test('should compute resting statistics for each reported signal', () => {
+      const baseline = computeBaseline(athleteSamples)
+
+      expect(baseline.sampleCount).toBe(60)
+      expect(baseline.signals.heartRate).toMatchObject({ mean: 48, min: 46, max: 50, count: 60 })
+      expect(baseline.signals.temperature).toBeUndefined()
+    })
+
+    test('should leave critical readings out of the baseline', () => {
+      expect(isRestingSample({ timestamp: 0, heartRate: 48, oxygenLevel: 97 })).toBe(true)
+      expect(isRestingSample({ timestamp: 0, oxygenLevel: 84, respiratoryRate: 6 })).toBe(false)
+    })
+  })
+
+  describe('Personal Thresholds', () => {
+    test('should stop an athlete resting heart rate from raising alerts', () => {
+      const config = resolveDetectionConfig({ baseline: computeBaseline(athleteSamples) })
+
+      expect(detectRisk(athleteSamples).some((result) => result.level !== 'normal')).toBe(true)
+      expect(detectRisk(athleteSamples, config).every((result) => result.level === 'normal')).toBe(true)
+    })
+
+    test('should never relax thresholds past the safety limits', () => {
+      const baseline = computeBaseline(
+        athleteSamples.map((sample) => ({ ...sample, heartRate: sample.heartRate - 15 })),
+      )
+      const config = resolveDetectionConfig({ baseline })
+
+      expect(config.signals.heartRate.warning.min).toBe(40)
+      expect(config.signals.heartRate.critical.min).toBe(35)
+    })
+
+    test('should not tighten thresholds for a user whose baseline sits inside the defaults', () => {
+      const baseline = computeBaseline([{ timestamp: 0, heartRate: 75, oxygenLevel: 98 }])
+      const config = resolveDetectionConfig({ baseline })
+
+      expect(config.signals.heartRate).toEqual(DEFAULT_DETECTION_CONFIG.signals.heartRate)
+    })
+
+    test('should not change the default config', () => {
+      resolveDetectionConfig({ baseline: computeBaseline(athleteSamples) })
+      expect(DEFAULT_DETECTION_CONFIG.signals.heartRate.warning.min).toBe(55)
+    })
+  })
+
+  describe('Overrides', () => {
+    test('should hold user overrides to the safety limits', () => {
+      const config = resolveDetectionConfig({
+        overrides: { user: { thresholds: { oxygenLevel: { critical: { min: 80 } } }, updatedAt: '' } },
+      })
+
+      expect(config.signals.oxygenLevel.critical.min).toBe(85)
+    })
+
+    test('should apply clinician overrides as given and ahead of user overrides', () => {
+      const config = resolveDetectionConfig({
+        overrides: {
+          user: { thresholds: { oxygenLevel: { critical: { min: 88 } } }, updatedAt: '' },
+          clinician: { thresholds: { oxygenLevel: { critical: { min: 82 } } }, updatedAt: '' },
+        },
+      })
+
+      expect(config.signals.oxygenLevel.critical.min).toBe(82)
+    })
+
+    test('should convert temperature overrides given in Celsius', () => {
+      const overrides = parseThresholdOverrides({ temperature: { warning: { max: 38 } } }, 'C')
+      expect(overrides.temperature.warning.max).toBe(100.4)
+    })
+
+    test('should reject unknown signals and non-numeric bounds', () => {
+      expect(parseThresholdOverrides({ bloodSugar: { warning: { min: 70 } } })).toBeNull()
+      expect(parseThresholdOverrides({ heartRate: { warning: { min: 'low' } } })).toBeNull()
+    })
+  })
+
+  describe('Temperature Units', () => {
+    test('should format temperatures in the preferred unit', () => {
+      expect(formatTemperature(98.6, 'F')).toBe('98.6°F')
+      expect(formatTemperature(98.6, 'C')).toBe('37.0°C')
+      expect(toFahrenheit(37, 'C')).toBe(98.6)
+    })
+  })
+})
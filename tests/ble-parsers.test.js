@@ -0,0 +1,185 @@
+const {
+  GATT_CHARACTERISTICS,
+  GATT_SERVICES,
+  decodeSfloat,
+  heartRateSignalQuality,
+  parseBatteryLevel,
+  parseHeartRateMeasurement,
+  parsePlxContinuousMeasurement,
+  parsePlxSpotCheckMeasurement,
+  pulseOximeterSignalQuality,
+} = require('../lib/ble-parsers')
+const { connectSensor, createMockTransport } = require('../lib/sensors')
+
+const bytes = (...values) => new DataView(Uint8Array.from(values).buffer)
+
+// Little-endian SFLOAT with exponent 0, as most oximeters send whole-number SpO2 and pulse rate
+const sfloat = (value) => [value & 0xff, (value >> 8) & 0x0f]
+
+describe('IEEE 11073 SFLOAT', () => {
+  test('decodes whole numbers and negative exponents', () => {
+    expect(decodeSfloat(0x0062)).toBe(98)
+    // 975 x 10^-1
+    expect(decodeSfloat(0xf3cf)).toBe(97.5)
+    // -1 x 10^0
+    expect(decodeSfloat(0x0fff)).toBe(-1)
+  })
+
+  test('returns undefined for NaN, NRes and infinities', () => {
+    for (const raw of [0x07fe, 0x07ff, 0x0800, 0x0801, 0x0802]) {
+      expect(decodeSfloat(raw)).toBeUndefined()
+    }
+  })
+})
+
+describe('Heart Rate Measurement', () => {
+  test('parses an 8-bit heart rate without contact support', () => {
+    expect(parseHeartRateMeasurement(bytes(0x00, 72))).toEqual({
+      heartRate: 72,
+      sensorContact: undefined,
+      rrIntervals: [],
+    })
+  })
+
+  test('parses a 16-bit heart rate with contact, energy expended and RR intervals', () => {
+    // Flags: 16-bit, contact detected, contact supported, energy present, RR present
+    const measurement = parseHeartRateMeasurement(bytes(0x1f, 0x2c, 0x01, 0x10, 0x00, 0x00, 0x04, 0x00, 0x02))
+
+    expect(measurement).toEqual({
+      heartRate: 300,
+      sensorContact: true,
+      energyExpended: 16,
+      rrIntervals: [1000, 500],
+    })
+  })
+
+  test('scores a strap that has lost skin contact as unusable', () => {
+    expect(heartRateSignalQuality(parseHeartRateMeasurement(bytes(0x04, 0)))).toBe(0)
+    expect(heartRateSignalQuality(parseHeartRateMeasurement(bytes(0x06, 64)))).toBe(100)
+  })
+})
+
+describe('PLX measurements', () => {
+  test('parses a continuous measurement with status fields and perfusion', () => {
+    // Flags: measurement status, device status, pulse amplitude index
+    const value = bytes(0x1c, ...sfloat(97), ...sfloat(64), 0x00, 0x00, 0x00, 0x00, 0x00, 0x96, 0xf0)
+
+    expect(parsePlxContinuousMeasurement(value)).toEqual({
+      oxygenLevel: 97,
+      pulseRate: 64,
+      measurementStatus: 0,
+      deviceStatus: 0,
+      pulseAmplitudeIndex: 15,
+    })
+  })
+
+  test('skips the fast and slow averages to reach the status fields', () => {
+    const value = bytes(0x07, ...sfloat(95), ...sfloat(70), 1, 2, 3, 4, 5, 6, 7, 8, 0x00, 0x40)
+
+    const measurement = parsePlxContinuousMeasurement(value)
+    expect(measurement.oxygenLevel).toBe(95)
+    expect(measurement.measurementStatus).toBe(0x4000)
+  })
+
+  test('parses a spot-check measurement with its timestamp', () => {
+    const value = bytes(0x01, ...sfloat(92), ...sfloat(58), 0xea, 0x07, 10, 19, 14, 30, 5)
+
+    const measurement = parsePlxSpotCheckMeasurement(value)
+    expect(measurement.oxygenLevel).toBe(92)
+    expect(measurement.pulseRate).toBe(58)
+    expect(measurement.timestamp).toEqual(new Date(2026, 9, 19, 14, 30, 5))
+  })
+
+  test('treats a missing SpO2 value as unavailable rather than zero', () => {
+    const measurement = parsePlxContinuousMeasurement(bytes(0x00, 0xff, 0x07, ...sfloat(60)))
+    expect(measurement.oxygenLevel).toBeUndefined()
+    expect(measurement.pulseRate).toBe(60)
+  })
+
+  test('rates signal quality from status bits and perfusion', () => {
+    expect(pulseOximeterSignalQuality({ oxygenLevel: 98 })).toBe(100)
+    expect(pulseOximeterSignalQuality({ oxygenLevel: 98, pulseAmplitudeIndex: 0.4 })).toBe(40)
+    // Questionable measurement
+    expect(pulseOximeterSignalQuality({ measurementStatus: 1 << 14 })).toBe(40)
+    // Low perfusion
+    expect(pulseOximeterSignalQuality({ deviceStatus: 1 << 5 })).toBe(50)
+    // Invalid measurement, sensor displaced
+    expect(pulseOximeterSignalQuality({ measurementStatus: 1 << 15 })).toBe(0)
+    expect(pulseOximeterSignalQuality({ deviceStatus: 1 << 13 })).toBe(0)
+  })
+
+  test('caps the battery level at 100%', () => {
+    expect(parseBatteryLevel(bytes(87))).toBe(87)
+    expect(parseBatteryLevel(bytes(255))).toBe(100)
+  })
+})
+
+describe('connectSensor with a mock transport', () => {
+  const connect = async (options) => {
+    const transport = createMockTransport(options)
+    const readings = []
+    const statuses = []
+    const connection = await connectSensor(transport, {
+      onReading: (reading) => readings.push(reading),
+      onStatus: (status) => statuses.push(status),
+    })
+    return { transport, connection, readings, statuses }
+  }
+
+  test('streams heart rate readings and reports battery and signal strength', async () => {
+    const { transport, connection, readings, statuses } = await connect({
+      services: [GATT_SERVICES.heartRate, GATT_SERVICES.battery],
+      battery: 64,
+    })
+
+    expect(connection.profiles).toEqual(['Heart Rate'])
+    expect(connection.getStatus()).toMatchObject({ connected: true, battery: 64 })
+
+    transport.emit(GATT_SERVICES.heartRate, GATT_CHARACTERISTICS.heartRateMeasurement, [0x06, 58])
+    transport.emit(GATT_SERVICES.battery, GATT_CHARACTERISTICS.batteryLevel, [63])
+
+    expect(readings).toHaveLength(1)
+    expect(readings[0]).toMatchObject({ source: 'heart_rate', heartRate: 58, signalQuality: 100 })
+    expect(statuses[statuses.length - 1]).toMatchObject({ connected: true, battery: 63, signalStrength: 100 })
+  })
+
+  test('uses whichever pulse oximeter characteristics the device has', async () => {
+    const { transport, connection, readings } = await connect({
+      services: [GATT_SERVICES.pulseOximeter],
+      missingCharacteristics: [GATT_CHARACTERISTICS.plxSpotCheckMeasurement],
+    })
+
+    expect(connection.profiles).toEqual(['Pulse Oximeter'])
+
+    transport.emit(GATT_SERVICES.pulseOximeter, GATT_CHARACTERISTICS.plxContinuousMeasurement, [
+      0x00,
+      ...sfloat(88),
+      ...sfloat(52),
+    ])
+    expect(readings[0]).toMatchObject({ source: 'pulse_oximeter', oxygenLevel: 88, heartRate: 52 })
+  })
+
+  test('ignores malformed notifications', async () => {
+    const { transport, readings } = await connect({ services: [GATT_SERVICES.heartRate] })
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    transport.emit(GATT_SERVICES.heartRate, GATT_CHARACTERISTICS.heartRateMeasurement, [0x01, 0x48])
+
+    expect(readings).toHaveLength(0)
+    consoleError.mockRestore()
+  })
+
+  test('reports a dropped connection', async () => {
+    const { transport, statuses } = await connect({ services: [GATT_SERVICES.heartRate] })
+
+    transport.simulateDisconnect()
+
+    expect(statuses[statuses.length - 1]).toMatchObject({ connected: false, signalStrength: 0 })
+  })
+
+  test('rejects a device without a supported health profile', async () => {
+    await expect(connect({ services: [GATT_SERVICES.battery] })).rejects.toThrow(
+      "Sensor doesn't offer a heart rate or pulse oximeter profile",
+    )
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-consent-${process.pid}`)
+process.env.SMS_PROVIDER = 'file'
+process.env.EMAIL_PROVIDER = 'file'
+
+const fs = require('fs')
+const path = require('path')
+const { generateAccessToken } = require('../lib/auth')
+const {
+  MAX_INVITATIONS_PER_ADDRESS,
+  MAX_INVITATIONS_PER_USER,
+  buildContactOptOutUrl,
+  consentedContacts,
+  findInvitation,
+  getContactConsents,
+  optOutContact,
+  resendContactInvitation,
+  respondToInvitation,
+  syncContactConsents,
+} = require('../lib/contact-consent')
+
+// Each test gets its own numbers and emails, since every address can only be invited a few times a day
+let count = 0
+const phoneNumber = () => `+1555020${String(++count).padStart(4, '0')}`
+let mom
+let sam
+beforeEach(() => {
+  mom = { id: 'c-mom', name: 'Mom', phone: phoneNumber(), notify: true, notificationMethod: 'text' }
+  sam = { id: 'c-sam', name: 'Sam', phone: phoneNumber(), email: `sam${count}@example.com`, notify: true, notificationMethod: 'email' }
+})
+
+const sent = (channel) => {
+  const outbox = path.join(process.env.NARCOGUARD_DATA_DIR, 'outbox', `${channel}.jsonl`)
+  return fs.existsSync(outbox) ? fs.readFileSync(outbox, 'utf8').trim().split('\n').map(JSON.parse) : []
+}
+const linkToken = (text, page) => new URL(text.match(new RegExp(`https:\\S+/contacts/${page}\\S+`))[0]).searchParams.get('token')
+const lastInvite = (channel) => {
+  const message = sent(channel).pop()
+  return { ...message, token: linkToken(message.text, 'consent'), optOutToken: linkToken(message.text, 'opt-out') }
+}
+
+beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('invitations', () => {
+  test('are sent on the channel each contact is alerted on, explaining Narcoguard', async () => {
+    const statuses = await syncContactConsents('user-1', 'Alex', [mom, sam])
+
+    expect(statuses['c-mom']).toMatchObject({ status: 'pending', channel: 'phone' })
+    expect(statuses['c-sam']).toMatchObject({ status: 'pending', channel: 'email' })
+
+    const sms = lastInvite('sms')
+    expect(sms.to).toBe(mom.phone)
+    expect(sms.text).toContain('Alex asked for you to be their emergency contact on Narcoguard')
+
+    const email = lastInvite('email')
+    expect(email.to).toBe(sam.email)
+    expect(email.html).toContain('/contacts/opt-out?token=')
+  })
+
+  test('are not sent again for contacts that have not changed', async () => {
+    await syncContactConsents('user-1', 'Alex', [mom, sam])
+    const before = sent('sms').length + sent('email').length
+    await syncContactConsents('user-1', 'Alex', [mom, sam])
+
+    expect(sent('sms').length + sent('email').length).toBe(before)
+  })
+
+  test('wait for contacts who will not be notified', async () => {
+    const statuses = await syncContactConsents('user-2', 'Alex', [{ ...mom, notify: false }])
+
+    expect(statuses).toEqual({})
+  })
+
+  test('can be accepted or declined from the link', async () => {
+    await syncContactConsents('user-3', 'Alex', [mom, sam])
+    const smsToken = lastInvite('sms').token
+    const emailToken = lastInvite('email').token
+
+    expect((await findInvitation(smsToken)).status).toBe('pending')
+    expect((await respondToInvitation(smsToken, true)).status).toBe('verified')
+    expect((await respondToInvitation(emailToken, false)).status).toBe('declined')
+    expect(await respondToInvitation('not-a-token', true)).toBeNull()
+
+    const statuses = await getContactConsents('user-3')
+    expect([statuses['c-mom'].status, statuses['c-sam'].status]).toEqual(['verified', 'declined'])
+  })
+
+  test('are sent again when the address changes, retiring the old link', async () => {
+    await syncContactConsents('user-4', 'Alex', [mom])
+    const oldToken = lastInvite('sms').token
+    await respondToInvitation(oldToken, true)
+
+    const statuses = await syncContactConsents('user-4', 'Alex', [{ ...mom, phone: `${mom.phone}9` }])
+    expect(statuses['c-mom'].status).toBe('pending')
+    expect(lastInvite('sms').to).toBe(`${mom.phone}9`)
+    expect(await findInvitation(oldToken)).toBeNull()
+  })
+
+  test('are not resent to a contact who declined the same address', async () => {
+    await syncContactConsents('user-5', 'Alex', [mom])
+    await respondToInvitation(lastInvite('sms').token, false)
+    const before = sent('sms').length
+
+    expect((await syncContactConsents('user-5', 'Alex', [mom]))['c-mom'].status).toBe('declined')
+    expect(sent('sms').length).toBe(before)
+  })
+
+  test('can only be resent to pending contacts, and not too often', async () => {
+    await syncContactConsents('user-6', 'Alex', [mom, sam])
+
+    await expect(resendContactInvitation('user-6', 'Alex', mom)).rejects.toThrow('Invitation was sent recently')
+    await respondToInvitation(lastInvite('email').token, true)
+    await expect(resendContactInvitation('user-6', 'Alex', sam)).rejects.toThrow('Contact has already accepted')
+    await expect(resendContactInvitation('user-6', 'Alex', { ...mom, id: 'c-new' })).rejects.toThrow('Contact consent not found')
+  })
+
+  test('are forgotten when the contact is removed', async () => {
+    await syncContactConsents('user-7', 'Alex', [mom])
+    await syncContactConsents('user-7', 'Alex', [])
+
+    expect(await getContactConsents('user-7')).toEqual({})
+  })
+})
+
+describe('invitation limits', () => {
+  test('stop one address being invited too often, whoever saves it', async () => {
+    for (let user = 0; user < MAX_INVITATIONS_PER_ADDRESS; user++) {
+      await syncContactConsents(`user-limit-${user}`, 'Alex', [mom])
+    }
+    const before = sent('sms').length
+
+    await expect(syncContactConsents('user-limit-next', 'Alex', [mom, sam])).rejects.toThrow(
+      'Too many invitations sent recently. 1 contact was not invited',
+    )
+    expect(sent('sms').length).toBe(before)
+    expect(Object.keys(await getContactConsents('user-limit-next'))).toEqual(['c-sam'])
+  })
+
+  test('stop one user sending too many invitations', async () => {
+    const contacts = Array.from({ length: MAX_INVITATIONS_PER_USER + 2 }, (_, index) => ({
+      ...mom,
+      id: `c-${index}`,
+      phone: phoneNumber(),
+    }))
+
+    await expect(syncContactConsents('user-busy', 'Alex', contacts)).rejects.toThrow('2 contacts were not invited')
+    expect(Object.keys(await getContactConsents('user-busy'))).toHaveLength(MAX_INVITATIONS_PER_USER)
+  })
+})
+
+describe('alerts', () => {
+  test('only go to verified contacts, at the address they confirmed', async () => {
+    await syncContactConsents('user-8', 'Alex', [mom, sam])
+    await respondToInvitation(lastInvite('email').token, true)
+
+    const contacts = await consentedContacts('user-8', [mom, sam, { ...sam, id: 'c-other' }])
+    expect(contacts).toHaveLength(1)
+    expect(contacts[0]).toMatchObject({ id: 'c-sam', email: sam.email, consentId: expect.any(String) })
+    expect(contacts[0].phone).toBeUndefined()
+
+    expect(await consentedContacts('user-8', [{ ...sam, email: 'someone@example.com' }])).toEqual([])
+  })
+
+  test('stop when the contact opts out', async () => {
+    await syncContactConsents('user-9', 'Alex', [mom])
+    const invite = lastInvite('sms')
+    await respondToInvitation(invite.token, true)
+
+    // Alerts carry the same stored token as the invitation, not a signed one
+    const [{ consentId }] = await consentedContacts('user-9', [mom])
+    expect(await buildContactOptOutUrl(consentId)).toContain(`token=${invite.optOutToken}`)
+    expect(invite.optOutToken).not.toContain('.')
+
+    const consent = await optOutContact(invite.optOutToken)
+    expect(consent).toMatchObject({ status: 'declined', optedOutAt: expect.any(String) })
+    expect(await consentedContacts('user-9', [mom])).toEqual([])
+    expect(await optOutContact(invite.token)).toBeNull()
+  })
+})
+
+describe('public routes', () => {
+  const consentRoute = require('../app/api/contacts/consent/route')
+  const optOutRoute = require('../app/api/contacts/opt-out/route')
+  const post = (handler, body) =>
+    handler(
+      new Request('http://localhost/api', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      }),
+    )
+
+  test('show the invitation and record the answer', async () => {
+    await syncContactConsents('user-10', 'Alex', [mom])
+    const { token, optOutToken } = lastInvite('sms')
+
+    const shown = await consentRoute.GET(new Request(`http://localhost/api/contacts/consent?token=${token}`))
+    expect(await shown.json()).toMatchObject({ success: true, userName: 'A Narcoguard user', channel: 'phone', status: 'pending' })
+
+    const answered = await post(consentRoute.POST, { token, accept: true })
+    expect(await answered.json()).toMatchObject({ success: true, status: 'verified' })
+
+    expect((await post(optOutRoute.POST, { token: optOutToken })).status).toBe(200)
+    expect((await getContactConsents('user-10'))['c-mom'].status).toBe('declined')
+  })
+
+  test('reject bad links', async () => {
+    expect((await post(consentRoute.POST, { token: 'nope', accept: true })).status).toBe(401)
+    expect((await post(consentRoute.POST, { token: 'nope' })).status).toBe(400)
+    expect((await post(optOutRoute.POST, { token: 'nope' })).status).toBe(401)
+  })
+})
+
+describe('contacts API', () => {
+  const { PUT } = require('../app/api/emergency/contacts/route')
+  const { POST: resend } = require('../app/api/emergency/contacts/[contactId]/invitation/route')
+  const token = generateAccessToken('user-11', 'user11@example.com', 'session-11', ['user'])
+  const request = (method, body) =>
+    new Request('http://localhost/api/emergency/contacts', {
+      method,
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+  test('invites contacts when they are saved', async () => {
+    const response = await PUT(request('PUT', { contacts: [mom], version: 0 }))
+    const body = await response.json()
+
+    expect(body.consent['c-mom']).toMatchObject({ status: 'pending', channel: 'phone' })
+    expect(lastInvite('sms').to).toBe(mom.phone)
+  })
+
+  test('saves contacts over the invitation limit without inviting them', async () => {
+    for (let user = 0; user < MAX_INVITATIONS_PER_ADDRESS; user++) {
+      await syncContactConsents(`user-api-${user}`, 'Alex', [mom])
+    }
+    const otherToken = generateAccessToken('user-12', 'user12@example.com', 'session-12', ['user'])
+
+    const response = await PUT(
+      new Request('http://localhost/api/emergency/contacts', {
+        method: 'PUT',
+        headers: { authorization: `Bearer ${otherToken}`, 'content-type': 'application/json' },
+        body: JSON.stringify({ contacts: [mom], version: 0 }),
+      }),
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body).toMatchObject({ success: true, version: 1, consent: {} })
+    expect(body.message).toContain('Too many invitations')
+  })
+
+  test('refuses to resend straight away, or for unknown contacts', async () => {
+    const params = (contactId) => ({ params: Promise.resolve({ contactId }) })
+
+    expect((await resend(request('POST'), params('c-mom'))).status).toBe(429)
+    expect((await resend(request('POST'), params('c-unknown'))).status).toBe(404)
+  })
+})
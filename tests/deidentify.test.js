@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.ANALYTICS_PSEUDONYM_SALT = 'test-salt'
+
+const {
+  DEFAULT_DEIDENTIFICATION_POLICY,
+  MAX_DATE_SHIFT_DAYS,
+  coarsenCoordinate,
+  dateShiftDays,
+  deidentifyEvent,
+  pseudonymize,
+  scrubText,
+  truncateZip,
+} = require('../lib/deidentify')
+const { anonymizeData } = require('../app/utils/hipaaCompliance')
+const { logEvent } = require('../lib/analytics')
+
+const DAY = 24 * 60 * 60 * 1000
+
+const emergency = {
+  eventType: 'emergency',
+  timestamp: new Date('2026-10-19T14:30:00Z'),
+  userId: 'user-1',
+  sessionId: 'session-1',
+  emergencyType: 'overdose',
+  location: { latitude: 42.09868, longitude: -75.91797, address: '4 Main St, Binghamton, NY 13901' },
+  vitalSigns: { heartRate: 38, oxygenSaturation: 82, bloodPressure: { systolic: 90, diastolic: 60 } },
+  deviceInfo: { type: 'watch', model: 'Series 9', os: 'watchOS', appVersion: '1.2.0', serialNumber: 'FHX12345' },
+  properties: { note: 'Called Sam on 607-484-7605', contactEmail: 'sam@example.com', age: 93 },
+}
+
+describe('deidentifyEvent', () => {
+  test('keeps what the emergency policy allows and generalizes the rest', () => {
+    const result = deidentifyEvent(emergency)
+
+    expect(result).toEqual({
+      eventType: 'emergency',
+      timestamp: expect.any(String),
+      userId: pseudonymize('user-1'),
+      emergencyType: 'overdose',
+      location: { latitude: 42.1, longitude: -75.9, address: '139' },
+      vitalSigns: emergency.vitalSigns,
+      deviceInfo: { type: 'watch', model: 'Series 9', os: 'watchOS', appVersion: '1.2.0' },
+      properties: { note: 'Called Sam on [phone]', contactEmail: '[email]', age: '90+' },
+    })
+    expect(JSON.stringify(result)).not.toMatch(/user-1|session-1|Main St|13901|FHX12345/)
+  })
+
+  test("shifts each person's dates by the same amount, keeping the gaps between events", () => {
+    const first = deidentifyEvent(emergency)
+    const later = deidentifyEvent({ ...emergency, timestamp: new Date(emergency.timestamp.getTime() + 3 * DAY) })
+
+    const shift = (Date.parse(first.timestamp) - emergency.timestamp.getTime()) / DAY
+    expect(shift).toBe(dateShiftDays('user-1'))
+    expect(shift).not.toBe(0)
+    expect(Math.abs(shift)).toBeLessThanOrEqual(MAX_DATE_SHIFT_DAYS)
+    expect(Date.parse(later.timestamp) - Date.parse(first.timestamp)).toBe(3 * DAY)
+  })
+
+  test('drops emails and user agents from download events', () => {
+    const result = deidentifyEvent({
+      eventType: 'download',
+      timestamp: new Date('2026-10-19T00:00:00Z'),
+      platform: 'ios',
+      downloadType: 'email',
+      email: 'sam@example.com',
+      userAgent: 'Mozilla/5.0',
+    })
+    expect(result).toEqual({
+      eventType: 'download',
+      timestamp: '2026-10-19T00:00:00.000Z',
+      platform: 'ios',
+      downloadType: 'email',
+    })
+  })
+
+  test('scrubs identifier fields from event types without their own policy', () => {
+    const result = deidentifyEvent({
+      eventType: 'survey',
+      timestamp: new Date('2026-10-19T00:00:00Z'),
+      userId: 'user-2',
+      properties: { firstName: 'Sam', zip_code: '03601', dob: '1990-05-04', answer: 'see https://example.com/me' },
+    })
+    expect(result.userId).toBe(pseudonymize('user-2'))
+    expect(result.properties).toEqual({ zip_code: '000', dob: 1990, answer: 'see [url]' })
+  })
+})
+
+describe('identifier helpers', () => {
+  test('pseudonyms are stable for a salt and hide the ID', () => {
+    expect(pseudonymize('user-1')).toBe(pseudonymize('user-1'))
+    expect(pseudonymize('user-1')).not.toBe(pseudonymize('user-2'))
+    expect(pseudonymize('user-1')).toMatch(/^p_[0-9a-f]{32}$/)
+  })
+
+  test('ZIP codes keep three digits, except for sparsely populated areas', () => {
+    expect(truncateZip('13901-1234')).toBe('139')
+    expect(truncateZip('Binghamton, NY 13905')).toBe('139')
+    expect(truncateZip('Averill, VT 05901')).toBe('000')
+    expect(truncateZip('no zip here')).toBeNull()
+  })
+
+  test('coordinates are rounded to about 11 km', () => {
+    expect(coarsenCoordinate(42.09868)).toBe(42.1)
+    expect(coarsenCoordinate(-75.94999)).toBe(-75.9)
+  })
+
+  test('free text loses emails, URLs, IPs, SSNs, phone and record numbers', () => {
+    expect(scrubText('a@b.org http://x.io/y 10.0.0.1 123-45-6789 (607) 484-7605 MRN 88812345')).toBe(
+      '[email] [url] [ip] [ssn] [phone] MRN [number]',
+    )
+  })
+})
+
+describe('where de-identification is applied', () => {
+  test('anonymizeData uses the policy for the record, or the one given', () => {
+    expect(anonymizeData(emergency)).toEqual(deidentifyEvent(emergency))
+    expect(anonymizeData({ userId: 'user-1', email: 'sam@example.com' }, DEFAULT_DEIDENTIFICATION_POLICY)).toEqual({
+      userId: pseudonymize('user-1'),
+    })
+  })
+
+  test('analytics only ever send de-identified events', async () => {
+    process.env.ANALYTICS_API_URL = 'https://analytics.example.com/events'
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{}'))
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+
+    try {
+      await logEvent(emergency)
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body)
+      expect(sent.userId).toBe(pseudonymize('user-1'))
+      expect(sent.location).toEqual({ latitude: 42.1, longitude: -75.9, address: '139' })
+      expect(JSON.stringify(log.mock.calls)).not.toMatch(/user-1|Main St/)
+    } finally {
+      delete process.env.ANALYTICS_API_URL
+      fetchMock.mockRestore()
+      log.mockRestore()
+    }
+  })
+})
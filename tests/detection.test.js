@@ -0,0 +1,145 @@
+/**
+ * Tests for the overdose detection engine, replaying recorded vitals scenarios
+ */
+
+const {
+  createDetector,
+  describeReason,
+  detectRisk,
+  scoreRespiratoryDepression,
+  scoreSample,
+  DEFAULT_DETECTION_CONFIG,
+} = require('../lib/detection')
+const scenarios = require('./fixtures/vitals-scenarios.json')
+
+// Samples are recorded every 2 seconds unless a scenario gives explicit times in seconds
+const toSamples = (scenario) =>
+  scenario.samples.map(({ t, ...vitals }, index) => ({
+    timestamp: (t !== undefined ? t : index * 2) * 1000,
+    ...vitals,
+  }))
+
+describe('Overdose Detection Engine', () => {
+  describe('Recorded Scenarios', () => {
+    test.each(scenarios.map((scenario) => [scenario.name, scenario]))('%s', (_name, scenario) => {
+      const levels = detectRisk(toSamples(scenario)).map((result) => result.level)
+      expect(levels).toEqual(scenario.expected)
+    })
+  })
+
+  describe('Scoring', () => {
+    test('should score normal vitals as zero', () => {
+      const { score, reasons } = scoreSample({ timestamp: 0, heartRate: 75, oxygenLevel: 98, respiratoryRate: 14 })
+
+      expect(score).toBe(0)
+      expect(reasons).toHaveLength(0)
+    })
+
+    test('should weight each signal and order reasons by contribution', () => {
+      const { score, reasons } = scoreSample({ timestamp: 0, heartRate: 52, oxygenLevel: 88 })
+
+      expect(score).toBe(1.85)
+      expect(reasons.map((reason) => reason.signal)).toEqual(['oxygenLevel', 'respiratoryDepression', 'heartRate'])
+      expect(reasons[0]).toMatchObject({ level: 'critical', bound: 'min', limit: 90, contribution: 1 })
+      expect(reasons[2]).toMatchObject({ level: 'warning', bound: 'min', limit: 55, contribution: 0.35 })
+    })
+
+    test('should ignore signals missing from the sample', () => {
+      expect(scoreSample({ timestamp: 0 }).score).toBe(0)
+    })
+
+    test('should accept custom thresholds and weights', () => {
+      const config = {
+        ...DEFAULT_DETECTION_CONFIG,
+        signals: {
+          ...DEFAULT_DETECTION_CONFIG.signals,
+          heartRate: { weight: 1, warning: { min: 55 }, critical: { min: 50 } },
+        },
+      }
+
+      expect(scoreSample({ timestamp: 0, heartRate: 45 }, config).score).toBe(1)
+    })
+  })
+
+  describe('Single Critical Signals', () => {
+    const levelsFor = (vitals) =>
+      detectRisk([0, 2000, 4000].map((timestamp) => ({ timestamp, ...vitals }))).map((result) => result.level)
+
+    test.each([
+      ['heart rate of 30', { heartRate: 30 }],
+      ['heart rate of 150', { heartRate: 150 }],
+      ['systolic pressure of 170', { bloodPressure: { systolic: 170 } }],
+      ['temperature of 102', { temperature: 102 }],
+    ])('should go critical on a sustained %s alone, whatever its weight', (_name, vitals) => {
+      expect(levelsFor(vitals)).toEqual(['normal', 'critical', 'critical'])
+    })
+
+    test('should hold critical while a low-weight signal stays in its critical range', () => {
+      const samples = [0, 2000, 4000, 6000, 8000].map((timestamp) => ({ timestamp, temperature: 102 }))
+      expect(detectRisk(samples).map((result) => result.level).slice(-1)).toEqual(['critical'])
+    })
+  })
+
+  describe('Respiratory Depression', () => {
+    test('should score zero when breathing, oxygen and heart rate are normal', () => {
+      expect(scoreRespiratoryDepression({ timestamp: 0, heartRate: 72, oxygenLevel: 98, respiratoryRate: 14 })).toBe(0)
+    })
+
+    test('should reach the maximum score at severe values', () => {
+      expect(scoreRespiratoryDepression({ timestamp: 0, heartRate: 38, oxygenLevel: 80, respiratoryRate: 4 })).toBe(1)
+    })
+
+    test('should weight slowed breathing most heavily', () => {
+      const breathing = scoreRespiratoryDepression({ timestamp: 0, respiratoryRate: 6 })
+      const heart = scoreRespiratoryDepression({ timestamp: 0, heartRate: 40 })
+
+      expect(breathing).toBe(0.45)
+      expect(heart).toBe(0.15)
+    })
+
+    test('should report the composite as a reason once it passes the warning score', () => {
+      const { reasons } = scoreSample({ timestamp: 0, heartRate: 52, oxygenLevel: 93, respiratoryRate: 10 })
+      const depression = reasons.find((reason) => reason.signal === 'respiratoryDepression')
+
+      expect(depression).toMatchObject({ level: 'warning', value: 0.29, limit: 0.25, contribution: 0.5 })
+    })
+  })
+
+  describe('Reason Trace', () => {
+    test('should explain the signals behind a critical result', () => {
+      const results = detectRisk([
+        { timestamp: 0, oxygenLevel: 86, respiratoryRate: 7 },
+        { timestamp: 2000, oxygenLevel: 85, respiratoryRate: 7 },
+      ])
+      const last = results[results.length - 1]
+
+      expect(last.changed).toBe(true)
+      expect(last.previousLevel).toBe('normal')
+      expect(last.trace).toContain('oxygenLevel 85 below critical min 90 (+1)')
+      expect(last.trace).toContain('critical sustained for 2 samples')
+    })
+
+    test('should describe readings above a maximum', () => {
+      const [reason] = scoreSample({ timestamp: 0, heartRate: 150 }).reasons
+      expect(describeReason(reason)).toBe('heartRate 150 above critical max 145 (+0.7)')
+    })
+
+    test('should record when the current level began', () => {
+      const results = detectRisk(toSamples(scenarios.find((scenario) => scenario.name.startsWith('opioid'))))
+      expect(results[results.length - 1].state.since).toBe(8000)
+    })
+  })
+
+  describe('Stateful Detector', () => {
+    test('should carry state between samples and reset on request', () => {
+      const detector = createDetector()
+
+      detector.push({ timestamp: 0, oxygenLevel: 85 })
+      expect(detector.push({ timestamp: 2000, oxygenLevel: 85 }).level).toBe('critical')
+
+      detector.reset()
+      expect(detector.getState().level).toBe('normal')
+      expect(detector.push({ timestamp: 4000, oxygenLevel: 85 }).level).toBe('normal')
+    })
+  })
+})
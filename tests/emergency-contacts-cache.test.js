@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('../app/utils/authFetch', () => ({ authFetch: jest.fn() }))
+
+const { authFetch } = require('../app/utils/authFetch')
+const {
+  EMERGENCY_CONTACTS_STORAGE_KEY,
+  loadEmergencyContacts,
+  migrateLegacyEmergencyContacts,
+  syncEmergencyContacts,
+} = require('../app/utils/emergencyContacts')
+
+// What an older version wrote: crypto-js AES under the bundled fallback passphrase
+const LEGACY_CACHE =
+  'U2FsdGVkX1+uine/6zeLgUA5N1Cbb/rntOspVtHUJIl2dRzvXHXxZO/BxQFIB9WFKras7oFAwI8pPSNkd4RPlKWOXqu/d5YqtxQtVmY+7AAAJZeLKEMhlyq1yGqbD5qqL5ZluFgW1JFshpCTNEGNLT4ZPzk/jZg8OOaFFxZpb7wBPn4G0xixFC6F5qu0zIbX8KdZmhRgoOAZtotbxnRMfg=='
+
+const storage = new Map()
+const respond = (status, body) => ({ ok: status < 400, status, json: async () => body })
+
+beforeAll(() => {
+  global.window = global
+  global.localStorage = {
+    getItem: (key) => (storage.has(key) ? storage.get(key) : null),
+    setItem: (key, value) => storage.set(key, String(value)),
+    removeItem: (key) => storage.delete(key),
+  }
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+afterAll(() => {
+  delete global.window
+  delete global.localStorage
+  console.error.mockRestore()
+})
+beforeEach(() => {
+  storage.clear()
+  storage.set(EMERGENCY_CONTACTS_STORAGE_KEY, LEGACY_CACHE)
+  authFetch.mockReset()
+})
+
+describe('legacy encrypted cache', () => {
+  test('is decrypted into the cache and queued for upload', async () => {
+    expect(await migrateLegacyEmergencyContacts()).toBe(true)
+
+    const cached = loadEmergencyContacts()
+    expect(cached.contacts).toEqual([expect.objectContaining({ name: 'Mom', phone: '+15550100100', notify: true })])
+    expect(cached).toMatchObject({ allowHeroNetwork: true, pendingSync: true, version: 0 })
+    expect(await migrateLegacyEmergencyContacts()).toBe(false)
+  })
+
+  test('is kept until the server has saved the contacts', async () => {
+    authFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    await syncEmergencyContacts()
+    expect(storage.get('emergencyContacts.legacy')).toBe(LEGACY_CACHE)
+
+    authFetch.mockImplementationOnce(async (_url, init) => {
+      const saved = JSON.parse(init.body)
+      return respond(200, { settings: saved, version: saved.version + 1, consent: {} })
+    })
+    const synced = await syncEmergencyContacts()
+
+    expect(synced).toMatchObject({ version: 1, pendingSync: false })
+    expect(synced.contacts[0].name).toBe('Mom')
+    expect(storage.has('emergencyContacts.legacy')).toBe(false)
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-contacts-${process.pid}`)
+process.env.SMS_PROVIDER = 'file'
+process.env.EMAIL_PROVIDER = 'file'
+
+const fs = require('fs')
+const path = require('path')
+const { generateAccessToken } = require('../lib/auth')
+const { respondToInvitation, syncContactConsents } = require('../lib/contact-consent')
+const {
+  contactsForAlert,
+  getEmergencyContacts,
+  normalizePhoneNumber,
+  parseEmergencyContactSettings,
+  reencryptEmergencyContacts,
+  saveEmergencyContacts,
+} = require('../lib/emergency-contacts')
+const { getKms } = require('../lib/kms')
+
+const mom = { name: 'Mom', phone: '+1 (555) 010-0100', notify: true, notificationMethod: 'text' }
+const friend = { name: 'Sam', email: ' Sam@Example.com ', notificationMethod: 'email', priority: 'secondary' }
+
+const settings = (contacts, extra = {}) => parseEmergencyContactSettings({ contacts, ...extra })
+
+// Invites the contacts and accepts every invitation sent so far
+async function acceptInvitations(userId, contacts) {
+  await syncContactConsents(userId, 'Alex', contacts)
+
+  const outbox = path.join(process.env.NARCOGUARD_DATA_DIR, 'outbox', 'sms.jsonl')
+  for (const { text } of fs.readFileSync(outbox, 'utf8').trim().split('\n').map(JSON.parse)) {
+    await respondToInvitation(new URL(text.match(/https:\S+consent\S+/)[0]).searchParams.get('token'), true)
+  }
+}
+
+afterAll(() => {
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('validation', () => {
+  test('normalizes phone numbers to E.164 and lowercases emails', () => {
+    const { contacts } = settings([mom, friend])
+
+    expect(contacts[0]).toMatchObject({ name: 'Mom', phone: '+15550100100', notify: true, priority: 'primary' })
+    expect(contacts[1]).toMatchObject({ name: 'Sam', email: 'sam@example.com', notify: false, priority: 'secondary' })
+    expect(contacts[0].id).not.toBe(contacts[1].id)
+    expect(normalizePhoneNumber('0044 20 7946 0000')).toBe('+442079460000')
+  })
+
+  test('rejects numbers without a country code, and bad emails', () => {
+    expect(normalizePhoneNumber('555-0100')).toBeNull()
+    expect(normalizePhoneNumber('+0123456')).toBeNull()
+    expect(() => settings([{ ...mom, phone: '555 0100' }])).toThrow('Invalid contact 1: phone must be in international format')
+    expect(() => settings([mom, { ...friend, email: 'sam@' }])).toThrow('Invalid contact 2: email is not a valid address')
+  })
+
+  test('needs a way to reach each contact by the chosen method', () => {
+    expect(() => settings([{ name: 'Nobody' }])).toThrow('a phone number or email is required')
+    expect(() => settings([{ ...friend, notificationMethod: 'call' }])).toThrow('a phone number is needed to call')
+    expect(() => settings([{ ...mom, notificationMethod: 'fax' }])).toThrow('notificationMethod must be')
+  })
+
+  test('keeps contact IDs, but not duplicated ones', () => {
+    const { contacts } = settings([{ ...mom, id: 'c-1' }, { ...friend, id: 'c-1' }])
+
+    expect(contacts[0].id).toBe('c-1')
+    expect(contacts[1].id).not.toBe('c-1')
+  })
+
+  test('only shares vitals with heroes when heroes are allowed', () => {
+    expect(settings([], { shareVitalsWithHeroes: true }).shareVitalsWithHeroes).toBe(false)
+    expect(settings([], { allowHeroNetwork: true, shareVitalsWithHeroes: true }).shareVitalsWithHeroes).toBe(true)
+    expect(() => settings([], { escalationWaitSeconds: 0 })).toThrow('escalationWaitSeconds')
+  })
+})
+
+describe('storage', () => {
+  test('starts empty at version 0', async () => {
+    expect(await getEmergencyContacts('nobody')).toEqual({
+      settings: { contacts: [], allowHeroNetwork: false, shareVitalsWithHeroes: false },
+      version: 0,
+    })
+  })
+
+  test('stores contacts encrypted, bumping the version on each save', async () => {
+    const first = await saveEmergencyContacts('user-1', settings([mom]), 0)
+    const second = await saveEmergencyContacts('user-1', settings([mom, friend]), first.version)
+
+    expect([first.version, second.version]).toEqual([1, 2])
+    expect((await getEmergencyContacts('user-1')).settings.contacts.map((contact) => contact.name)).toEqual(['Mom', 'Sam'])
+
+    const raw = fs.readFileSync(path.join(process.env.NARCOGUARD_DATA_DIR, 'emergency-contacts.json'), 'utf8')
+    expect(raw).not.toContain('+15550100100')
+    expect(raw).not.toContain('sam@example.com')
+  })
+
+  test('refuses a save made from an older version', async () => {
+    const current = await saveEmergencyContacts('user-2', settings([mom]), 0)
+
+    await expect(saveEmergencyContacts('user-2', settings([friend]), 0)).rejects.toThrow('Contacts have changed since version 0')
+    await expect(saveEmergencyContacts('user-2', settings([]), current.version + 1)).rejects.toThrow('Contacts have changed')
+    expect((await getEmergencyContacts('user-2')).settings.contacts[0].name).toBe('Mom')
+  })
+
+  test('moves saved contacts onto a new master key', async () => {
+    await saveEmergencyContacts('user-3', settings([mom]), 0)
+    await getKms().rotate()
+
+    expect(await reencryptEmergencyContacts()).toBeGreaterThanOrEqual(1)
+    expect(await reencryptEmergencyContacts()).toBe(0)
+    expect((await getEmergencyContacts('user-3')).settings.contacts[0].phone).toBe('+15550100100')
+  })
+})
+
+describe('alerts', () => {
+  test('use the saved contacts over the copy the app sent', async () => {
+    const saved = await saveEmergencyContacts('user-4', settings([mom], { allowHeroNetwork: true }), 0)
+    await acceptInvitations('user-4', saved.settings.contacts)
+
+    const alert = await contactsForAlert('user-4', { contacts: [{ name: 'Stale' }], allowHeroNetwork: false })
+    expect(alert.contacts.map((contact) => contact.name)).toEqual(['Mom'])
+    expect(alert.contacts[0].consentId).toEqual(expect.any(String))
+    expect(alert.allowHeroNetwork).toBe(true)
+  })
+
+  test("fall back to the app's copy when nothing is saved", async () => {
+    const cached = { id: 'c-5', name: 'Cached', phone: '+15550100105', notify: true, notificationMethod: 'call' }
+    await acceptInvitations('user-5', [cached])
+
+    const alert = await contactsForAlert('user-5', { contacts: [cached], escalationWaitSeconds: '30' })
+    expect(alert).toMatchObject({
+      contacts: [{ name: 'Cached', phone: '+15550100105' }],
+      allowHeroNetwork: false,
+      shareVitalsWithHeroes: false,
+      escalationWaitSeconds: 30,
+    })
+  })
+
+  test('leave out contacts who have not accepted', async () => {
+    await saveEmergencyContacts('user-7', settings([mom]), 0)
+
+    expect((await contactsForAlert('user-7', {})).contacts).toEqual([])
+    expect((await contactsForAlert('user-8', { contacts: [{ name: 'Cached', phone: '+15550100108' }] })).contacts).toEqual([])
+  })
+})
+
+describe('contacts API', () => {
+  const { GET, PUT } = require('../app/api/emergency/contacts/route')
+  const token = generateAccessToken('user-6', 'user6@example.com', 'session-6', ['user'])
+  const call = (handler, method, body) =>
+    handler(
+      new Request('http://localhost/api/emergency/contacts', {
+        method,
+        headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+    )
+
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+  afterAll(() => console.error.mockRestore())
+
+  test('saves and returns the versioned contacts', async () => {
+    const saved = await call(PUT, 'PUT', { contacts: [mom], version: 0 })
+    expect(saved.status).toBe(200)
+
+    const body = await (await call(GET, 'GET')).json()
+    expect(body).toMatchObject({ success: true, version: 1, settings: { contacts: [{ name: 'Mom', phone: '+15550100100' }] } })
+    expect(body.consent[body.settings.contacts[0].id]).toMatchObject({ status: 'pending', channel: 'phone' })
+  })
+
+  test('answers a stale version with 409 and the current contacts', async () => {
+    const response = await call(PUT, 'PUT', { contacts: [friend], version: 0 })
+    const body = await response.json()
+
+    expect(response.status).toBe(409)
+    expect(body.current).toMatchObject({ version: 1, settings: { contacts: [{ name: 'Mom' }] } })
+  })
+
+  test('rejects invalid contacts and a missing version', async () => {
+    expect((await call(PUT, 'PUT', { contacts: [{ ...mom, phone: '0100' }], version: 1 })).status).toBe(400)
+    expect((await call(PUT, 'PUT', { contacts: [mom] })).status).toBe(400)
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-emergency-${process.pid}`)
+process.env.SMS_PROVIDER = 'file'
+process.env.EMAIL_PROVIDER = 'file'
+process.env.VOICE_PROVIDER = 'file'
+
+const fs = require('fs')
+const { raiseEmergency } = require('../lib/emergency')
+const { getIncident, transitionIncident } = require('../lib/incidents')
+const { runDueJobs } = require('../lib/scheduler')
+
+let clock
+// Moves the clock past the countdown so the sweep finds its job due
+const afterCountdown = () => {
+  const later = Date.now() + 60 * 1000
+  clock = jest.spyOn(Date, 'now').mockReturnValue(later)
+}
+
+beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+afterEach(() => clock?.mockRestore())
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('countdown', () => {
+  test('dispatches the incident on the server when it runs out', async () => {
+    const incident = await raiseEmergency({ userId: 'user-1', emergencyType: 'overdose', countdownSeconds: 30 })
+    expect(incident.status).toBe('countdown')
+
+    afterCountdown()
+    await runDueJobs()
+
+    expect((await getIncident(incident.id)).status).toBe('dispatched')
+  })
+
+  test('does nothing once the user has cancelled', async () => {
+    const incident = await raiseEmergency({ userId: 'user-2', emergencyType: 'overdose', countdownSeconds: 30 })
+    await transitionIncident(incident.id, 'cancelled', { actor: 'user-2' })
+
+    afterCountdown()
+    await runDueJobs()
+
+    expect((await getIncident(incident.id)).status).toBe('cancelled')
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-encryption-${process.pid}`)
+
+const fs = require('fs')
+const path = require('path')
+const { decryptEnvelope, encryptEnvelope, readEnvelopeHeader, reencryptEnvelope } = require('../lib/encryption')
+const { createFileKms } = require('../lib/kms')
+const { reencryptAll } = require('../lib/key-rotation')
+const { createCollection } = require('../lib/store')
+const { totpCode } = require('../lib/totp')
+const { enableTwoFactor, beginTwoFactorSetup, verifyTwoFactor } = require('../lib/two-factor')
+
+const keyFile = (name) => path.join(process.env.NARCOGUARD_DATA_DIR, `${name}.json`)
+
+afterAll(() => {
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('envelope encryption', () => {
+  const kms = createFileKms(keyFile('envelopes'))
+
+  test('round-trips with a fresh data key each time, naming the master key in the header', async () => {
+    const first = await encryptEnvelope('555-0100', 'contacts:user-1', kms)
+    const second = await encryptEnvelope('555-0100', 'contacts:user-1', kms)
+
+    expect(first).toMatch(/^ngenc\.[\w-]+\.[\w-]+\.[\w-]+\.[\w-]+$/)
+    expect(first).not.toBe(second)
+    expect(readEnvelopeHeader(first)).toMatchObject({ v: 1, alg: 'A256GCM', kid: 'mk-v1' })
+    expect(await decryptEnvelope(first, 'contacts:user-1', kms)).toBe('555-0100')
+  })
+
+  test('refuses values that were tampered with or moved to another record', async () => {
+    const envelope = await encryptEnvelope('555-0100', 'contacts:user-1', kms)
+    const parts = envelope.split('.')
+    const flipped = Buffer.from(parts[3], 'base64url')
+    flipped[0] ^= 1
+
+    await expect(decryptEnvelope(envelope, 'contacts:user-2', kms)).rejects.toThrow('authentication failed')
+    await expect(
+      decryptEnvelope([...parts.slice(0, 3), flipped.toString('base64url'), parts[4]].join('.'), 'contacts:user-1', kms),
+    ).rejects.toThrow('authentication failed')
+    await expect(decryptEnvelope('not-an-envelope', undefined, kms)).rejects.toThrow('Invalid envelope')
+  })
+
+  test('keeps decrypting old values after a rotation, and re-encrypts them onto the new key', async () => {
+    const kms = createFileKms(keyFile('rotation'))
+    const old = await encryptEnvelope('naloxone in the kitchen', undefined, kms)
+
+    expect(await kms.rotate()).toBe('mk-v2')
+    expect(readEnvelopeHeader(await encryptEnvelope('new', undefined, kms)).kid).toBe('mk-v2')
+    expect(await decryptEnvelope(old, undefined, kms)).toBe('naloxone in the kitchen')
+
+    const moved = await reencryptEnvelope(old, undefined, kms)
+    expect(readEnvelopeHeader(moved).kid).toBe('mk-v2')
+    expect(await decryptEnvelope(moved, undefined, kms)).toBe('naloxone in the kitchen')
+    expect(await reencryptEnvelope(moved, undefined, kms)).toBeNull()
+  })
+
+  test('keeps master keys out of reach of other users on the machine', async () => {
+    const kms = createFileKms(keyFile('permissions'))
+    await kms.currentKeyId()
+    expect(fs.statSync(keyFile('permissions')).mode & 0o077).toBe(0)
+  })
+})
+
+describe('re-encryption job', () => {
+  const settings = createCollection('two-factor')
+
+  test('encrypts secrets saved in plain text and moves the rest onto the current key', async () => {
+    const secret = 'JBSWY3DPEHPK3PXP'
+    await settings.insert({
+      id: 'legacy-user',
+      secret,
+      enabledAt: '2026-10-01T00:00:00Z',
+      recoveryCodeHashes: [],
+      updatedAt: '2026-10-01T00:00:00Z',
+    })
+    const pending = await beginTwoFactorSetup('new-user')
+    await enableTwoFactor('new-user', totpCode(pending))
+
+    expect(await reencryptAll()).toEqual({ 'two-factor': 1, 'emergency-contacts': 0 })
+    expect(readEnvelopeHeader((await settings.get('legacy-user')).secret).kid).toBe('mk-v1')
+    expect(await verifyTwoFactor('legacy-user', { code: totpCode(secret) })).toBe(true)
+
+    const { getKms } = require('../lib/kms')
+    await getKms().rotate()
+
+    expect(await reencryptAll()).toEqual({ 'two-factor': 2, 'emergency-contacts': 0 })
+    expect(readEnvelopeHeader((await settings.get('new-user')).secret).kid).toBe('mk-v2')
+    expect(await reencryptAll()).toEqual({ 'two-factor': 0, 'emergency-contacts': 0 })
+  })
+})
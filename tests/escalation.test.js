@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-escalation-${process.pid}`)
+process.env.SMS_PROVIDER = 'file'
+process.env.EMAIL_PROVIDER = 'file'
+process.env.VOICE_PROVIDER = 'file'
+delete process.env.EMERGENCY_SERVICES_WEBHOOK_URL
+delete process.env.ESCALATION_POLICY
+
+const fs = require('fs')
+const path = require('path')
+const { consentedContacts, respondToInvitation, syncContactConsents } = require('../lib/contact-consent')
+const {
+  DEFAULT_ESCALATION_POLICY,
+  acknowledgeIncident,
+  advanceEscalation,
+  getEscalationPolicy,
+  parseEscalationPolicy,
+  startEscalation,
+} = require('../lib/escalation')
+const { registerHero, respondToHeroDispatch } = require('../lib/heroes')
+const { createIncident, getIncident, transitionIncident } = require('../lib/incidents')
+
+const LOCATION = { latitude: 40.7128, longitude: -74.006 }
+
+const smsTo = (to) => {
+  const outbox = path.join(process.env.NARCOGUARD_DATA_DIR, 'outbox', 'sms.jsonl')
+  const sent = fs.existsSync(outbox) ? fs.readFileSync(outbox, 'utf8').trim().split('\n').map(JSON.parse) : []
+  return sent.filter((message) => message.to === to)
+}
+const alertsTo = (to) => smsTo(to).filter((message) => message.text.includes('/contacts/acknowledge?'))
+
+let count = 0
+const contact = (priority) => ({
+  id: `c-${++count}`,
+  name: `Contact ${count}`,
+  phone: `+1555030${String(count).padStart(4, '0')}`,
+  notify: true,
+  notificationMethod: 'text',
+  priority,
+})
+
+// Contacts who have accepted their invitations, as an alert would carry them
+async function consentingContacts(userId, contacts) {
+  await syncContactConsents(userId, 'Alex', contacts)
+  for (const { phone } of contacts) {
+    const [invitation] = smsTo(phone)
+    await respondToInvitation(new URL(invitation.text.match(/https:\S+consent\S+/)[0]).searchParams.get('token'), true)
+  }
+  return consentedContacts(userId, contacts)
+}
+
+async function dispatchedIncident({ userId = `user-${++count}`, contacts = [], allowHeroNetwork = false } = {}) {
+  const incident = await createIncident({
+    userId,
+    emergencyType: 'overdose',
+    location: LOCATION,
+    contacts: await consentingContacts(userId, contacts),
+    allowHeroNetwork,
+    escalation: { policy: getEscalationPolicy(), stepIndex: -1 },
+  })
+  return transitionIncident(incident.id, 'dispatched')
+}
+
+const stepsRun = (incident) =>
+  incident.timeline.filter((event) => event.type === 'escalation_step').map((event) => event.data.step)
+
+beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('policy', () => {
+  test('uses the user wait on the contact steps only', () => {
+    const waits = getEscalationPolicy(30).steps.map((step) => step.waitSeconds)
+    expect(waits).toEqual([30, 30, 120, 0])
+  })
+
+  test('rejects malformed ladders', () => {
+    expect(parseEscalationPolicy([{ type: 'carrier_pigeon', waitSeconds: 10 }])).toBeNull()
+    expect(parseEscalationPolicy({ steps: [] })).toBeNull()
+    expect(parseEscalationPolicy(DEFAULT_ESCALATION_POLICY)).toEqual(DEFAULT_ESCALATION_POLICY)
+  })
+})
+
+describe('ladder', () => {
+  test('alerts primary contacts first and waits for them', async () => {
+    const primary = contact('primary')
+    const secondary = contact('secondary')
+    const incident = await dispatchedIncident({ contacts: [primary, secondary] })
+
+    const started = await startEscalation(incident)
+
+    expect(alertsTo(primary.phone)).toHaveLength(1)
+    expect(alertsTo(secondary.phone)).toHaveLength(0)
+    expect(started.escalation).toMatchObject({ stepIndex: 0, nextStepAt: expect.any(String) })
+    expect(stepsRun(started)).toEqual(['primary_contacts'])
+  })
+
+  test('widens to secondary contacts when the wait runs out', async () => {
+    const primary = contact('primary')
+    const secondary = contact('secondary')
+    const incident = await startEscalation(await dispatchedIncident({ contacts: [primary, secondary] }))
+
+    await advanceEscalation(incident.id, 0)
+
+    const advanced = await getIncident(incident.id)
+    expect(alertsTo(secondary.phone)).toHaveLength(1)
+    expect(advanced.escalation.stepIndex).toBe(1)
+    expect(advanced.timeline.map((event) => event.type)).toContain('escalation_timeout')
+  })
+
+  test('ignores a timer for a step that has already passed', async () => {
+    const incident = await startEscalation(await dispatchedIncident({ contacts: [contact('primary'), contact('secondary')] }))
+    await advanceEscalation(incident.id, 0)
+
+    await advanceEscalation(incident.id, 0)
+
+    expect(stepsRun(await getIncident(incident.id))).toEqual(['primary_contacts', 'secondary_contacts'])
+  })
+
+  test('moves straight on past steps that reach nobody', async () => {
+    const incident = await startEscalation(await dispatchedIncident({ contacts: [contact('primary')] }))
+
+    await advanceEscalation(incident.id, 0)
+
+    const finished = await getIncident(incident.id)
+    expect(stepsRun(finished)).toEqual(['primary_contacts', 'secondary_contacts', 'hero_network', 'emergency_services'])
+    expect(finished.escalation.completedAt).toEqual(expect.any(String))
+  })
+
+  test('waits for heroes once some were alerted, before calling emergency services', async () => {
+    const userId = `user-${++count}`
+    await registerHero({ userId: `hero-${count}`, name: 'Jordan', phone: '+15550309999', location: LOCATION })
+    const incident = await startEscalation(await dispatchedIncident({ userId, allowHeroNetwork: true }))
+
+    const waiting = await getIncident(incident.id)
+    expect(stepsRun(waiting)).toEqual(['primary_contacts', 'secondary_contacts', 'hero_network'])
+    expect(waiting.escalation.stepIndex).toBe(2)
+    expect(Date.parse(waiting.escalation.nextStepAt) - Date.now()).toBeGreaterThan(110 * 1000)
+  })
+
+  test("sends heroes to the responder view, and an old decline link doesn't decline", async () => {
+    const userId = `user-${++count}`
+    const heroPhone = `+1555031${String(count).padStart(4, '0')}`
+    await registerHero({ userId: `hero-${count}`, name: 'Riley', phone: heroPhone, location: LOCATION })
+    const incident = await startEscalation(await dispatchedIncident({ userId, allowHeroNetwork: true }))
+
+    const [alert] = smsTo(heroPhone)
+    const link = new URL(alert.text.match(/https:\S+\/hero-network\/respond\S+/)[0])
+    expect(alert.text).not.toContain('response=decline')
+
+    const { GET } = require('../app/api/incidents/[id]/heroes/route')
+    const opened = await GET(
+      new Request(`http://localhost/api/incidents/${incident.id}/heroes?response=decline&token=${link.searchParams.get('token')}`),
+      { params: Promise.resolve({ id: incident.id }) },
+    )
+    expect(opened.status).toBe(307)
+    expect(opened.headers.get('location')).toContain('/hero-network/respond?incident=')
+    expect((await getIncident(incident.id)).heroDispatches[0].status).toBe('notified')
+  })
+
+  test('keeps every answer when heroes respond at the same time', async () => {
+    const userId = `user-${++count}`
+    const heroIds = [`hero-${count}-a`, `hero-${count}-b`]
+    for (const [index, heroId] of heroIds.entries()) {
+      await registerHero({ userId: heroId, name: 'Sam', phone: `+155503200${count}${index}`, location: LOCATION })
+    }
+    const incident = await startEscalation(await dispatchedIncident({ userId, allowHeroNetwork: true }))
+
+    await Promise.all(heroIds.map((heroId) => respondToHeroDispatch(incident.id, heroId, 'decline')))
+
+    const dispatches = (await getIncident(incident.id)).heroDispatches.filter((entry) => heroIds.includes(entry.heroId))
+    expect(dispatches.map((entry) => entry.status)).toEqual(['declined', 'declined'])
+  })
+
+  test('skips contacts who opted out after the alert was raised', async () => {
+    const primary = contact('primary')
+    const incident = await dispatchedIncident({ contacts: [primary] })
+    await syncContactConsents(incident.userId, 'Alex', [])
+
+    await startEscalation(incident)
+
+    expect(alertsTo(primary.phone)).toHaveLength(0)
+  })
+})
+
+describe('acknowledgement', () => {
+  test('stops the ladder', async () => {
+    const primary = contact('primary')
+    const incident = await startEscalation(await dispatchedIncident({ contacts: [primary, contact('secondary')] }))
+
+    const acknowledged = await acknowledgeIncident(incident.id, primary.phone, 'reply')
+    await advanceEscalation(incident.id, 0)
+
+    expect(acknowledged.status).toBe('acknowledged')
+    const after = await getIncident(incident.id)
+    expect(after.escalation).toMatchObject({ stoppedReason: 'acknowledged' })
+    expect(after.escalation.nextStepAt).toBeUndefined()
+    expect(stepsRun(after)).toEqual(['primary_contacts'])
+  })
+
+  test('waits for the contact to confirm on the page the alert links to', async () => {
+    const primary = contact('primary')
+    const incident = await startEscalation(await dispatchedIncident({ contacts: [primary] }))
+    const link = new URL(alertsTo(primary.phone)[0].text.match(/https:\S+\/contacts\/acknowledge\S+/)[0])
+    const token = link.searchParams.get('token')
+    const route = require('../app/api/incidents/[id]/acknowledge/route')
+    const params = { params: Promise.resolve({ id: link.searchParams.get('incident') }) }
+
+    // Opening the link, as a link scanner would, only shows the alert
+    const opened = await route.GET(new Request(`http://localhost/api/incidents/${incident.id}/acknowledge?token=${token}`), params)
+    expect(await opened.json()).toMatchObject({ success: true, status: 'dispatched', closed: false })
+    expect((await getIncident(incident.id)).status).toBe('dispatched')
+
+    const confirmed = await route.POST(
+      new Request(`http://localhost/api/incidents/${incident.id}/acknowledge`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ token }),
+      }),
+      params,
+    )
+    expect(await confirmed.json()).toMatchObject({ success: true, status: 'acknowledged' })
+    expect((await getIncident(incident.id)).escalation.stoppedReason).toBe('acknowledged')
+  })
+
+  test('returns null for an unknown incident', async () => {
+    expect(await acknowledgeIncident('missing', '+15550100100', 'link')).toBeNull()
+  })
+})
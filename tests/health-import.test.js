@@ -0,0 +1,174 @@
+const { parseCsv, parseHealthExport, toVitalsSamples } = require('../lib/health-import')
+
+const byMetric = (points, metric) => points.filter((point) => point.metric === metric)
+
+describe('Apple Health export.xml', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_US">
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2026-03-01 08:15:00 -0500" endDate="2026-03-01 08:15:00 -0500" value="62"/>
+ <Record type="HKQuantityTypeIdentifierOxygenSaturation" sourceName="Watch" unit="%" startDate="2026-03-01 08:16:00 -0500" endDate="2026-03-01 08:16:00 -0500" value="0.97"/>
+ <Record type="HKQuantityTypeIdentifierRespiratoryRate" sourceName="Watch" unit="count/min" startDate="2026-03-01 03:00:00 -0500" endDate="2026-03-01 03:00:00 -0500" value="13.5"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" startDate="2026-03-01 01:00:00 -0500" endDate="2026-03-01 02:30:00 -0500" value="HKCategoryValueSleepAnalysisAsleepCore"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Watch" startDate="2026-03-01 00:30:00 -0500" endDate="2026-03-01 07:00:00 -0500" value="HKCategoryValueSleepAnalysisInBed"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Phone" unit="count" startDate="2026-03-01 08:00:00 -0500" endDate="2026-03-01 08:10:00 -0500" value="420"/>
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2026-03-01 08:20:00 -0500" endDate="2026-03-01 08:20:00 -0500" value="400"/>
+</HealthData>`
+
+  test('normalizes heart rate, SpO2, respiratory rate and sleep', () => {
+    const { format, points, skipped } = parseHealthExport(xml)
+
+    expect(format).toBe('apple_health')
+    expect(byMetric(points, 'heartRate')).toEqual([
+      { metric: 'heartRate', timestamp: Date.parse('2026-03-01T13:15:00Z'), value: 62 },
+    ])
+    expect(byMetric(points, 'oxygenLevel')[0].value).toBe(97)
+    expect(byMetric(points, 'respiratoryRate')[0].value).toBe(13.5)
+    expect(byMetric(points, 'sleep')).toEqual([
+      {
+        metric: 'sleep',
+        timestamp: Date.parse('2026-03-01T06:00:00Z'),
+        endTimestamp: Date.parse('2026-03-01T07:30:00Z'),
+        value: 90,
+      },
+    ])
+    // The implausible heart rate of 400
+    expect(skipped).toBe(1)
+  })
+})
+
+describe('Fitbit exports', () => {
+  test('reads heart rate JSON in UTC', () => {
+    const json = JSON.stringify([
+      { dateTime: '03/01/26 08:15:00', value: { bpm: 64, confidence: 2 } },
+      { dateTime: '03/01/26 08:15:05', value: { bpm: 66, confidence: 3 } },
+    ])
+
+    const { format, points } = parseHealthExport(json)
+    expect(format).toBe('fitbit')
+    expect(points.map((point) => point.value)).toEqual([64, 66])
+    expect(points[0].timestamp).toBe(Date.parse('2026-03-01T08:15:00Z'))
+  })
+
+  test('reads sleep logs', () => {
+    const json = JSON.stringify([
+      { dateOfSleep: '2026-03-02', startTime: '2026-03-01T23:10:00.000', endTime: '2026-03-02T06:40:00.000', minutesAsleep: 412 },
+    ])
+
+    const { points } = parseHealthExport(json)
+    expect(points).toEqual([
+      {
+        metric: 'sleep',
+        timestamp: Date.parse('2026-03-01T23:10:00Z'),
+        endTimestamp: Date.parse('2026-03-02T06:40:00Z'),
+        value: 412,
+      },
+    ])
+  })
+
+  test('reads Minute SpO2 and respiratory rate CSVs', () => {
+    const spo2 = parseHealthExport('timestamp,value\n2026-03-01T03:00:00,96.5\n2026-03-01T03:01:00,95\n')
+    expect(spo2.format).toBe('fitbit')
+    expect(byMetric(spo2.points, 'oxygenLevel').map((point) => point.value)).toEqual([96.5, 95])
+
+    const respiratory = parseHealthExport('timestamp,full_sleep_breathing_rate\n2026-03-01 00:00:00,14.2\n')
+    expect(respiratory.points).toEqual([
+      { metric: 'respiratoryRate', timestamp: Date.parse('2026-03-01T00:00:00Z'), value: 14.2 },
+    ])
+  })
+})
+
+describe('Google Fit exports', () => {
+  test('reads Takeout JSON, leaving out awake sleep segments', () => {
+    const json = JSON.stringify({
+      'Data Source': 'derived:com.google.heart_rate.bpm:com.google.android.gms:merge_heart_rate_bpm',
+      'Data Points': [
+        {
+          dataTypeName: 'com.google.heart_rate.bpm',
+          startTimeNanos: '1772352900000000000',
+          endTimeNanos: '1772352900000000000',
+          fitValue: [{ value: { fpVal: 71.0 } }],
+        },
+        {
+          dataTypeName: 'com.google.sleep.segment',
+          startTimeNanos: '1772326800000000000',
+          endTimeNanos: '1772330400000000000',
+          fitValue: [{ value: { intVal: 5 } }],
+        },
+        {
+          dataTypeName: 'com.google.sleep.segment',
+          startTimeNanos: '1772330400000000000',
+          endTimeNanos: '1772331000000000000',
+          fitValue: [{ value: { intVal: 1 } }],
+        },
+      ],
+    })
+
+    const { format, points } = parseHealthExport(json)
+    expect(format).toBe('google_fit')
+    expect(byMetric(points, 'heartRate')).toEqual([{ metric: 'heartRate', timestamp: 1772352900000, value: 71 }])
+    expect(byMetric(points, 'sleep').map((point) => point.value)).toEqual([60])
+  })
+
+  test('reads the daily activity metrics CSV', () => {
+    const csv = 'Date,Move Minutes count,Average heart rate (bpm),Max heart rate (bpm)\n2026-03-01,45,68.4,131\n2026-03-02,30,,\n'
+
+    const { format, points, skipped } = parseHealthExport(csv)
+    expect(format).toBe('google_fit')
+    expect(points).toEqual([{ metric: 'heartRate', timestamp: Date.parse('2026-03-01T00:00:00Z'), value: 68.4 }])
+    expect(skipped).toBe(1)
+  })
+})
+
+describe('Oura trends CSV', () => {
+  test('reads daily resting heart rate, breathing, SpO2 and sleep', () => {
+    const csv = [
+      'date,Total Sleep Duration,Average Resting Heart Rate,Respiratory Rate,Average Oxygen Saturation,Bedtime Start,Bedtime End',
+      '2026-03-01,27000,52,14.8,97.1,2026-02-28T23:30:00+00:00,2026-03-01T07:15:00+00:00',
+    ].join('\n')
+
+    const { format, points } = parseHealthExport(csv)
+    expect(format).toBe('oura')
+    expect(points).toEqual([
+      { metric: 'heartRate', timestamp: Date.parse('2026-03-01T00:00:00Z'), value: 52 },
+      { metric: 'respiratoryRate', timestamp: Date.parse('2026-03-01T00:00:00Z'), value: 14.8 },
+      { metric: 'oxygenLevel', timestamp: Date.parse('2026-03-01T00:00:00Z'), value: 97.1 },
+      {
+        metric: 'sleep',
+        timestamp: Date.parse('2026-02-28T23:30:00Z'),
+        endTimestamp: Date.parse('2026-03-01T07:15:00Z'),
+        value: 450,
+      },
+    ])
+  })
+})
+
+describe('Unsupported files', () => {
+  test('rejects files that are not a known export', () => {
+    expect(() => parseHealthExport('name,email\nAlex,alex@example.com\n')).toThrow('Unrecognized health data export')
+    expect(() => parseHealthExport('<html></html>')).toThrow('Unrecognized health data export')
+    expect(() => parseHealthExport('{"broken": ')).toThrow('Health data export is not valid JSON')
+  })
+})
+
+describe('Helpers', () => {
+  test('parses quoted CSV fields', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ])
+  })
+
+  test('merges points into per-minute detector samples without sleep', () => {
+    const samples = toVitalsSamples([
+      { metric: 'heartRate', timestamp: 60000 + 5000, value: 60 },
+      { metric: 'oxygenLevel', timestamp: 60000 + 30000, value: 97 },
+      { metric: 'sleep', timestamp: 0, value: 30 },
+      { metric: 'heartRate', timestamp: 0, value: 58 },
+    ])
+
+    expect(samples).toEqual([
+      { timestamp: 0, heartRate: 58 },
+      { timestamp: 60000, heartRate: 60, oxygenLevel: 97 },
+    ])
+  })
+})
@@ -0,0 +1,58 @@
+const { distanceKm, estimateEtaMinutes, rankNearestHeroes } = require('../lib/heroes')
+
+const NOW = Date.parse('2026-03-01T12:00:00Z')
+const INCIDENT = { latitude: 40.7128, longitude: -74.006 }
+
+const hero = (userId, latitude, longitude, overrides = {}) => ({
+  id: userId,
+  userId,
+  name: userId,
+  phone: '+15550000000',
+  available: true,
+  carriesNaloxone: false,
+  location: { latitude, longitude, updatedAt: new Date(NOW - 5 * 60 * 1000).toISOString() },
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('Hero Network dispatch', () => {
+  test('measures great-circle distance', () => {
+    // Lower Manhattan to the Brooklyn Bridge, about 1.6 km
+    expect(distanceKm(INCIDENT, { latitude: 40.7003, longitude: -73.9967 })).toBeCloseTo(1.6, 1)
+    expect(distanceKm(INCIDENT, INCIDENT)).toBe(0)
+  })
+
+  test('picks the nearest available heroes, closest first', () => {
+    const heroes = [
+      hero('far', 40.75, -74.006),
+      hero('near', 40.713, -74.006),
+      hero('middle', 40.72, -74.006),
+      hero('busy', 40.7129, -74.006, { available: false }),
+      hero('unlocated', 0, 0, { location: undefined }),
+    ]
+
+    const ranked = rankNearestHeroes(heroes, INCIDENT, { limit: 2, now: NOW })
+    expect(ranked.map((entry) => entry.hero.userId)).toEqual(['near', 'middle'])
+    expect(ranked[0].distanceKm).toBeLessThan(ranked[1].distanceKm)
+  })
+
+  test('leaves out heroes outside the radius, with stale locations or excluded', () => {
+    const heroes = [
+      hero('outside', 40.9, -74.006),
+      hero('stale', 40.713, -74.006, {
+        location: { latitude: 40.713, longitude: -74.006, updatedAt: new Date(NOW - 2 * 60 * 60 * 1000).toISOString() },
+      }),
+      hero('patient', 40.7128, -74.006),
+      hero('ok', 40.72, -74.006),
+    ]
+
+    const ranked = rankNearestHeroes(heroes, INCIDENT, { radiusKm: 5, excludeUserIds: ['patient'], now: NOW })
+    expect(ranked.map((entry) => entry.hero.userId)).toEqual(['ok'])
+  })
+
+  test('estimates an ETA of at least a minute', () => {
+    expect(estimateEtaMinutes(0.1)).toBe(1)
+    expect(estimateEtaMinutes(5)).toBe(12)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-inbound-${process.pid}`)
+process.env.TWILIO_AUTH_TOKEN = 'test-auth-token'
+process.env.NOTIFICATION_INBOUND_SECRET = 'test-inbound-secret'
+
+const fs = require('fs')
+const twilio = require('twilio')
+const { createIncident, getIncident, recordContactDeliveries, transitionIncident } = require('../lib/incidents')
+const { POST } = require('../app/api/notifications/inbound/route')
+
+const URL = 'http://localhost/api/notifications/inbound'
+const MOM = '+15550100100'
+
+// An open incident whose alert went out to the number
+async function alertedIncident(to = MOM) {
+  const incident = await createIncident({ userId: 'user-1', emergencyType: 'overdose' })
+  await transitionIncident(incident.id, 'dispatched')
+  await recordContactDeliveries(incident.id, [{ channel: 'sms', to, status: 'sent', at: new Date().toISOString() }])
+  return incident
+}
+
+const twilioReply = (params, signature = twilio.getExpectedTwilioSignature('test-auth-token', URL, params)) =>
+  POST(
+    new Request(URL, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded', 'x-twilio-signature': signature },
+      body: new URLSearchParams(params).toString(),
+    }),
+  )
+
+const gatewayReply = (body, secret = 'test-inbound-secret') =>
+  POST(
+    new Request(URL, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', authorization: `Bearer ${secret}` },
+      body: JSON.stringify(body),
+    }),
+  )
+
+beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('inbound replies', () => {
+  test('acknowledge the incident from a signed Twilio webhook', async () => {
+    const incident = await alertedIncident()
+
+    const response = await twilioReply({ From: MOM, Body: 'OK on my way' })
+    expect(response.status).toBe(200)
+    expect(await response.text()).toContain("We've recorded that you're responding")
+    expect((await getIncident(incident.id)).status).toBe('acknowledged')
+  })
+
+  test('turn away unsigned or forged Twilio requests', async () => {
+    const incident = await alertedIncident('+15550100101')
+
+    expect((await twilioReply({ From: '+15550100101', Body: 'ok' }, 'forged')).status).toBe(403)
+    expect((await twilioReply({ From: '+15550100101', Body: 'ok' }, '')).status).toBe(403)
+    expect((await getIncident(incident.id)).status).toBe('dispatched')
+  })
+
+  test('need the shared secret from the stand-in gateway', async () => {
+    const incident = await alertedIncident('+15550100102')
+
+    expect((await gatewayReply({ from: '+15550100102', body: 'ok' }, 'wrong')).status).toBe(403)
+    expect((await getIncident(incident.id)).status).toBe('dispatched')
+
+    const response = await gatewayReply({ from: '+15550100102', body: 'ok' })
+    expect(await response.json()).toMatchObject({ success: true, acknowledged: true })
+  })
+
+  test('only count acknowledgements from a number that was alerted', async () => {
+    const incident = await alertedIncident('+15550100103')
+
+    expect(await (await gatewayReply({ from: '+15550100103', body: 'who is this?' })).json()).toMatchObject({ acknowledged: false })
+    expect(await (await gatewayReply({ from: '+15550100199', body: 'ok' })).json()).toMatchObject({ acknowledged: false })
+    expect((await getIncident(incident.id)).status).toBe('dispatched')
+  })
+})
@@ -0,0 +1,54 @@
+const {
+  coarsenLocation,
+  decodeGeohash,
+  encodeGeohash,
+  shareLocationWithHero,
+} = require('../lib/location-privacy')
+
+const HOME = { latitude: 40.712776, longitude: -74.005974, address: '1 Main St, Apt 4' }
+
+describe('Geohash', () => {
+  test('encodes known points', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj')
+    expect(encodeGeohash(HOME.latitude, HOME.longitude)).toBe('dr5reg')
+  })
+
+  test('decodes to a cell containing the point', () => {
+    const cell = decodeGeohash('dr5reg')
+
+    expect(Math.abs(cell.latitude - HOME.latitude)).toBeLessThanOrEqual(cell.latitudeError)
+    expect(Math.abs(cell.longitude - HOME.longitude)).toBeLessThanOrEqual(cell.longitudeError)
+    expect(() => decodeGeohash('dr5rea')).toThrow('Invalid geohash dr5rea')
+  })
+})
+
+describe('Hero-facing location', () => {
+  test('broadcasts the cell centre without the address', () => {
+    const coarse = coarsenLocation(HOME)
+
+    expect(coarse).toEqual(expect.objectContaining({ precise: false, geohash: 'dr5reg' }))
+    expect(coarse.address).toBeUndefined()
+    expect(coarse.latitude).not.toBe(HOME.latitude)
+    expect(coarse.radiusKm).toBeGreaterThan(0.5)
+    expect(coarse.radiusKm).toBeLessThan(1)
+  })
+
+  test('shares the exact location only with a verified hero who accepted', () => {
+    const open = { incidentClosed: false }
+
+    expect(shareLocationWithHero(HOME, { ...open, accepted: true, verified: true })).toEqual({
+      precise: true,
+      latitude: HOME.latitude,
+      longitude: HOME.longitude,
+      address: HOME.address,
+    })
+    expect(shareLocationWithHero(HOME, { ...open, accepted: true, verified: false }).precise).toBe(false)
+    expect(shareLocationWithHero(HOME, { ...open, accepted: false, verified: true }).precise).toBe(false)
+  })
+
+  test('stops sharing once the incident closes', () => {
+    expect(shareLocationWithHero(HOME, { accepted: true, verified: true, incidentClosed: true })).toBeUndefined()
+    expect(shareLocationWithHero({ address: HOME.address }, { accepted: true, verified: true, incidentClosed: false }))
+      .toBeUndefined()
+  })
+})
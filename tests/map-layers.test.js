@@ -0,0 +1,41 @@
+const { clusterMarkers, heroCellMarkers } = require('../lib/map-layers')
+
+const site = (id, latitude, longitude) => ({ id, layer: 'naloxoneSites', latitude, longitude, label: id })
+
+describe('Map marker clustering', () => {
+  const markers = [site('a', 40.7128, -74.006), site('b', 40.7130, -74.0062), site('c', 40.78, -73.97)]
+
+  test('groups nearby markers when zoomed out', () => {
+    const clusters = clusterMarkers(markers, 10)
+    const sizes = clusters.map((cluster) => cluster.markers.length).sort()
+
+    expect(sizes).toEqual([1, 2])
+    const pair = clusters.find((cluster) => cluster.markers.length === 2)
+    expect(pair.latitude).toBeCloseTo(40.7129, 4)
+    expect(pair.id).toBe('a,b')
+  })
+
+  test('splits clusters apart when zoomed in', () => {
+    expect(clusterMarkers(markers, 19).every((cluster) => cluster.markers.length === 1)).toBe(true)
+  })
+
+  test('puts everything in one cluster at world zoom', () => {
+    expect(clusterMarkers(markers, 0)).toHaveLength(1)
+  })
+})
+
+describe('Hero cell markers', () => {
+  test('count heroes per cell without naming or placing them', () => {
+    const markers = heroCellMarkers([
+      { id: 'h1', name: 'Jordan', location: { latitude: 40.7128, longitude: -74.006 }, carriesNaloxone: true },
+      { id: 'h2', name: 'Riley', location: { latitude: 40.7129, longitude: -74.0061 } },
+      { id: 'h3', name: 'Sam', location: { latitude: 40.78, longitude: -73.97 } },
+    ])
+
+    expect(markers.map((marker) => marker.count).sort()).toEqual([1, 2])
+    const pair = markers.find((marker) => marker.count === 2)
+    expect(pair).toMatchObject({ id: 'heroes-dr5reg', label: '2 heroes available', detail: '1 carrying naloxone' })
+    expect(pair.latitude).not.toBe(40.7128)
+    expect(JSON.stringify(markers)).not.toMatch(/Jordan|Riley|Sam|h1|h2|h3/)
+  })
+})
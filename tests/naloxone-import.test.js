@@ -0,0 +1,63 @@
+const { normalizeSiteType, parseNaloxoneDataset } = require('../lib/naloxone-import')
+
+describe('parseNaloxoneDataset', () => {
+  test('reads CSV with publisher column names and split addresses', () => {
+    const csv = [
+      'Site Name,Category,Lat,Lng,Street,City,State,Zip,Hours of Operation,Free Naloxone',
+      '"Corner Pharmacy, Inc.",Retail Pharmacy,40.7128,-74.006,1 Main St,New York,NY,10001,Mo-Fr 09:00-17:00,No',
+      'Street Outreach,Harm Reduction Program,40.72,-74.01,,,,,,yes',
+    ].join('\n')
+
+    const { format, sites } = parseNaloxoneDataset(csv)
+
+    expect(format).toBe('csv')
+    expect(sites[0]).toMatchObject({
+      name: 'Corner Pharmacy, Inc.',
+      type: 'pharmacy',
+      latitude: 40.7128,
+      longitude: -74.006,
+      address: '1 Main St, New York, NY, 10001',
+      hours: 'Mo-Fr 09:00-17:00',
+      free: false,
+    })
+    expect(sites[1]).toMatchObject({ type: 'community_program', free: true, address: undefined })
+  })
+
+  test('reads GeoJSON points longitude first and skips other geometry', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          id: 'vm-1',
+          geometry: { type: 'Point', coordinates: [-83.05, 42.33] },
+          properties: { name: 'Library lobby', opening_hours: '24/7' },
+        },
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: [] }, properties: { name: 'Service area' } },
+      ],
+    })
+
+    const { format, sites, skipped } = parseNaloxoneDataset(geojson, 'vending_machine')
+
+    expect(format).toBe('geojson')
+    expect(sites).toEqual([
+      expect.objectContaining({ id: 'vm-1', type: 'vending_machine', latitude: 42.33, longitude: -83.05, hours: '24/7' }),
+    ])
+    expect(skipped).toBe(1)
+  })
+
+  test('rejects files that are not a dataset', () => {
+    expect(() => parseNaloxoneDataset('{"hello": "world"}')).toThrow('Unrecognized naloxone site dataset')
+    expect(() => parseNaloxoneDataset('{not json')).toThrow('not valid JSON')
+    expect(() => parseNaloxoneDataset('name,type\n')).toThrow('contains no sites')
+  })
+})
+
+describe('normalizeSiteType', () => {
+  test('maps free-text categories onto site types', () => {
+    expect(normalizeSiteType('Public Health Vending Machine')).toBe('vending_machine')
+    expect(normalizeSiteType('county health department')).toBe('health_department')
+    expect(normalizeSiteType('syringe_services')).toBe('community_program')
+    expect(normalizeSiteType('bakery')).toBeUndefined()
+  })
+})
@@ -0,0 +1,56 @@
+const { describeKitLocations, kitReminderSchedule, parseKitInput } = require('../lib/naloxone-kits')
+
+const kit = (overrides) => ({
+  id: 'kit-1',
+  userId: 'user-1',
+  product: 'Narcan',
+  route: 'nasal',
+  doseMg: 4,
+  expiresOn: '2027-01-31',
+  storageLocation: 'bedside drawer',
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('kitReminderSchedule', () => {
+  test('reminds 30 days, 7 days and on the day a kit expires', () => {
+    const schedule = kitReminderSchedule('2027-01-31', new Date('2026-10-01T00:00:00Z'))
+
+    expect(schedule.map(({ daysBefore, runAt }) => [daysBefore, runAt.toISOString()])).toEqual([
+      [30, '2027-01-01T15:00:00.000Z'],
+      [7, '2027-01-24T15:00:00.000Z'],
+      [0, '2027-01-31T15:00:00.000Z'],
+    ])
+  })
+
+  test('leaves out reminders that are already past', () => {
+    const schedule = kitReminderSchedule('2027-01-31', new Date('2027-01-27T00:00:00Z'))
+    expect(schedule.map(({ daysBefore }) => daysBefore)).toEqual([0])
+  })
+})
+
+describe('describeKitLocations', () => {
+  test('lists kits on hand for the alert and flags expired ones', () => {
+    const kits = [
+      kit(),
+      kit({ id: 'kit-2', product: 'Zimhi', route: 'injectable', storageLocation: 'the car glovebox', expiresOn: '2026-01-01' }),
+      kit({ id: 'kit-3', status: 'used' }),
+    ]
+
+    expect(describeKitLocations(kits, new Date('2026-10-01T00:00:00Z'))).toBe(
+      'Naloxone: Narcan nasal spray in the bedside drawer; Zimhi injection in the car glovebox (expired)',
+    )
+    expect(describeKitLocations([kit({ status: 'used' })])).toBeUndefined()
+  })
+})
+
+describe('parseKitInput', () => {
+  test('requires the kit details and checks their values', () => {
+    expect(() => parseKitInput({ product: 'Narcan' })).toThrow('Invalid kit')
+    expect(() => parseKitInput({ ...kit(), route: 'oral' })).toThrow('route must be nasal or injectable')
+    expect(() => parseKitInput({ ...kit(), expiresOn: '31/01/2027' })).toThrow('YYYY-MM-DD')
+    expect(parseKitInput({ storageLocation: ' hall closet ' }, true)).toEqual({ storageLocation: 'hall closet' })
+  })
+})
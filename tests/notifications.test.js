@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-notifications-${process.pid}`)
+delete process.env.TWILIO_ACCOUNT_SID
+
+const fs = require('fs')
+const path = require('path')
+const {
+  assertNotificationProvidersConfigured,
+  describeLocation,
+  getProvider,
+  notifyContact,
+  sendNotification,
+} = require('../lib/notifications')
+
+const ALERT = {
+  incidentId: 'incident-1',
+  userName: 'Alex',
+  emergencyType: 'suspected_overdose',
+  location: { latitude: 40.7128, longitude: -74.006 },
+  acknowledgeUrl: 'https://narcoguard.example/acknowledge?token=abc',
+  naloxone: 'Naloxone: Narcan nasal spray in the bedside drawer',
+  optOutUrl: 'https://narcoguard.example/contacts/opt-out?token=xyz',
+}
+
+const outbox = (channel) => {
+  const file = path.join(process.env.NARCOGUARD_DATA_DIR, 'outbox', `${channel}.jsonl`)
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf8').trim().split('\n').map(JSON.parse) : []
+}
+
+beforeEach(() => {
+  process.env.SMS_PROVIDER = 'file'
+  process.env.EMAIL_PROVIDER = 'file'
+  process.env.VOICE_PROVIDER = 'file'
+})
+beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('providers', () => {
+  test('follow the channel setting, defaulting to SMTP for email and the outbox without Twilio', () => {
+    process.env.SMS_PROVIDER = 'http'
+    delete process.env.EMAIL_PROVIDER
+    delete process.env.VOICE_PROVIDER
+
+    expect(getProvider('sms').name).toBe('http')
+    expect(getProvider('email').name).toBe('smtp')
+    expect(getProvider('voice').name).toBe('file')
+  })
+
+  test('fail SMS and voice in production instead of writing them to the outbox', async () => {
+    const nodeEnv = process.env.NODE_ENV
+    delete process.env.SMS_PROVIDER
+    delete process.env.VOICE_PROVIDER
+    process.env.NODE_ENV = 'production'
+    try {
+      expect(() => assertNotificationProvidersConfigured()).toThrow('SMS_PROVIDER or TWILIO_ACCOUNT_SID')
+
+      const delivery = await sendNotification('sms', { to: '+15550100100', subject: 'Test', text: 'Test' })
+
+      expect(delivery).toMatchObject({ status: 'failed', provider: 'unconfigured' })
+    } finally {
+      process.env.NODE_ENV = nodeEnv
+    }
+  })
+
+  test('report a failed send instead of throwing', async () => {
+    process.env.SMS_PROVIDER = 'http'
+    delete process.env.NOTIFICATION_HTTP_URL
+
+    const delivery = await sendNotification('sms', { to: '+15550100100', subject: 'Test', text: 'Test' })
+
+    expect(delivery).toMatchObject({ status: 'failed', provider: 'http', error: 'NOTIFICATION_HTTP_URL is not configured' })
+  })
+})
+
+describe('notifyContact', () => {
+  test('texts the alert with the location, naloxone, acknowledgement and opt-out links', async () => {
+    const delivery = await notifyContact({ name: 'Mom', phone: '+15550100100', notificationMethod: 'text' }, ALERT)
+
+    expect(delivery).toMatchObject({ contactName: 'Mom', channel: 'sms', status: 'sent', provider: 'file' })
+    const { text } = outbox('sms').find((message) => message.id === delivery.messageId)
+    expect(text).toContain('Alex may be experiencing a suspected overdose')
+    expect(text).toContain('Location: 40.71280, -74.00600')
+    expect(text).toContain('Narcan nasal spray in the bedside drawer')
+    expect(text).toContain(`Reply OK or tap ${ALERT.acknowledgeUrl}`)
+    expect(text).toContain(`Stop alerts: ${ALERT.optOutUrl}`)
+  })
+
+  test('emails contacts who asked for email', async () => {
+    const delivery = await notifyContact({ name: 'Sam', email: 'sam@example.com', notificationMethod: 'email' }, ALERT)
+
+    expect(delivery).toMatchObject({ channel: 'email', to: 'sam@example.com', status: 'sent' })
+    const { html } = outbox('email').find((message) => message.id === delivery.messageId)
+    expect(html).toContain(ALERT.acknowledgeUrl)
+    expect(html).toContain(ALERT.optOutUrl)
+  })
+
+  test('escapes what the user typed into the email', async () => {
+    const alert = {
+      ...ALERT,
+      userName: '<b>Alex</b>',
+      location: { latitude: 0, longitude: 0, address: '1 Main St <img src=x onerror=alert(1)>' },
+      naloxone: 'Naloxone: <a href="https://evil.example">kit</a>',
+    }
+
+    const delivery = await notifyContact({ name: 'Sam', email: 'sam@example.com', notificationMethod: 'email' }, alert)
+
+    const { html, text } = outbox('email').find((message) => message.id === delivery.messageId)
+    expect(html).toContain('&lt;b&gt;Alex&lt;/b&gt; may be experiencing')
+    expect(html).toContain('1 Main St &lt;img src=x onerror=alert(1)&gt;')
+    expect(html).toContain('Naloxone: &lt;a href=&quot;https://evil.example&quot;&gt;kit&lt;/a&gt;')
+    expect(html).not.toMatch(/<img src=x|<b>Alex|evil\.example">/)
+    expect(text).toContain('<b>Alex</b> may be experiencing')
+  })
+
+  test('calls contacts who asked for a call', async () => {
+    const delivery = await notifyContact({ name: 'Dad', phone: '+15550100101', notificationMethod: 'call' }, ALERT)
+
+    expect(delivery).toMatchObject({ channel: 'voice', status: 'sent' })
+    expect(outbox('voice').find((message) => message.id === delivery.messageId).text).toContain('text OK to this number')
+  })
+
+  test('falls back to another channel when the chosen one has no address', async () => {
+    const delivery = await notifyContact({ name: 'Sam', email: 'sam@example.com', notificationMethod: 'call' }, ALERT)
+
+    expect(delivery).toMatchObject({ channel: 'email', requestedChannel: 'voice', status: 'sent' })
+  })
+
+  test('skips contacts with no way to reach them', async () => {
+    const delivery = await notifyContact({ name: 'Nobody', notificationMethod: 'text' }, ALERT)
+
+    expect(delivery).toMatchObject({ status: 'skipped', channel: 'sms', error: 'Contact has no phone number or email address' })
+  })
+})
+
+describe('describeLocation', () => {
+  test('prefers the address, then coordinates', () => {
+    expect(describeLocation({ latitude: 1, longitude: 2, address: '1 Main St' })).toBe('1 Main St')
+    expect(describeLocation({ latitude: 1, longitude: 2 })).toBe('1.00000, 2.00000')
+    expect(describeLocation()).toBe('Unknown location')
+  })
+})
@@ -0,0 +1,48 @@
+const { isOpenAt, parseOpeningHours } = require('../lib/opening-hours')
+
+// 2026-03-02 is a Monday
+const at = (day, time) => new Date(`2026-03-0${day + 1}T${time}:00Z`)
+
+describe('parseOpeningHours', () => {
+  test('reads OpenStreetMap style rules, with later rules replacing earlier ones', () => {
+    const hours = parseOpeningHours('Mo-Su 09:00-17:00; Su off')
+
+    expect(isOpenAt(hours, at(1, '09:00'), 'UTC')).toBe(true)
+    expect(isOpenAt(hours, at(1, '17:00'), 'UTC')).toBe(false)
+    // Sunday
+    expect(isOpenAt(hours, at(0, '12:00'), 'UTC')).toBe(false)
+  })
+
+  test('reads 12-hour times and day names separated by commas', () => {
+    const hours = parseOpeningHours('Mon-Fri 9-5pm, Sat 10am-2pm')
+
+    expect(hours.periods).toContainEqual({ day: 1, opens: 9 * 60, closes: 17 * 60 })
+    expect(hours.periods).toContainEqual({ day: 6, opens: 10 * 60, closes: 14 * 60 })
+    expect(hours.periods.some((period) => period.day === 0)).toBe(false)
+  })
+
+  test('keeps overnight hours open past midnight', () => {
+    const hours = parseOpeningHours('Fr-Sa 22:00-02:00')
+
+    // Early Sunday morning, after Saturday night
+    expect(isOpenAt(hours, at(0, '01:30'), 'UTC')).toBe(true)
+    expect(isOpenAt(hours, at(0, '02:30'), 'UTC')).toBe(false)
+  })
+
+  test('understands always-open sites and rejects text it cannot read', () => {
+    expect(parseOpeningHours('24/7').alwaysOpen).toBe(true)
+    expect(isOpenAt(parseOpeningHours('Daily 24 hours'), at(3, '03:00'), 'UTC')).toBe(true)
+    expect(parseOpeningHours('Call ahead')).toBeNull()
+    expect(parseOpeningHours('')).toBeNull()
+  })
+})
+
+describe('isOpenAt', () => {
+  test('checks hours in the site time zone', () => {
+    const hours = parseOpeningHours('Mo-Fr 09:00-17:00')
+
+    // 14:00 UTC on a Monday is 09:00 in New York
+    expect(isOpenAt(hours, at(1, '14:00'), 'America/New_York')).toBe(true)
+    expect(isOpenAt(hours, at(1, '13:00'), 'America/New_York')).toBe(false)
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-sign-in-${process.pid}`)
+process.env.EMAIL_PROVIDER = 'file'
+
+const fs = require('fs')
+const path = require('path')
+const { totpCode, totpStep } = require('../lib/totp')
+const { beginTwoFactorSetup, enableTwoFactor, getTwoFactorStatus, verifyTwoFactor } = require('../lib/two-factor')
+const { createUser, findUserByEmail, setUserRoles } = require('../lib/users')
+
+const post = (route, body, ip = '203.0.113.1') =>
+  require(route).POST(
+    new Request('http://localhost/api', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+      body: JSON.stringify(body),
+    }),
+  )
+
+const sentEmails = () => {
+  const outbox = path.join(process.env.NARCOGUARD_DATA_DIR, 'outbox', 'email.jsonl')
+  return fs.existsSync(outbox) ? fs.readFileSync(outbox, 'utf8').trim().split('\n').map(JSON.parse) : []
+}
+const lastEmail = () => sentEmails().pop()
+const emailCount = () => sentEmails().length
+
+// Sets up two-factor and returns the secret; the code used to enable it is spent, so sign-ins use the next step's
+async function turnOnTwoFactor(userId) {
+  const secret = await beginTwoFactorSetup(userId)
+  const recoveryCodes = await enableTwoFactor(userId, totpCode(secret, totpStep() - 1))
+  return { secret, recoveryCodes }
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('two-factor settings', () => {
+  test('recovery codes work once each and codes cannot be replayed', async () => {
+    const user = await createUser({ email: 'codes@example.com', name: 'Codes', password: 'correct horse battery' })
+    const { secret, recoveryCodes } = await turnOnTwoFactor(user.id)
+
+    expect(recoveryCodes).toHaveLength(10)
+    expect(await getTwoFactorStatus(user.id)).toEqual({ enabled: true, recoveryCodesRemaining: 10 })
+
+    const code = totpCode(secret)
+    expect(await verifyTwoFactor(user.id, { code })).toBe(true)
+    expect(await verifyTwoFactor(user.id, { code })).toBe(false)
+
+    expect(await verifyTwoFactor(user.id, { recoveryCode: recoveryCodes[0].toUpperCase() })).toBe(true)
+    expect(await verifyTwoFactor(user.id, { recoveryCode: recoveryCodes[0] })).toBe(false)
+    expect((await getTwoFactorStatus(user.id)).recoveryCodesRemaining).toBe(9)
+  })
+
+  test('setup is only finished by a code for the pending secret', async () => {
+    const user = await createUser({ email: 'setup@example.com', name: 'Setup', password: 'correct horse battery' })
+    await expect(enableTwoFactor(user.id, '123456')).rejects.toThrow('No two-factor setup in progress')
+
+    await beginTwoFactorSetup(user.id)
+    await expect(enableTwoFactor(user.id, '000000')).rejects.toThrow('Invalid code')
+    expect((await getTwoFactorStatus(user.id)).enabled).toBe(false)
+  })
+})
+
+describe('magic links', () => {
+  const request = '../app/api/auth/magic-link/route'
+  const verify = '../app/api/auth/magic-link/verify/route'
+
+  test('emails a single-use sign-in link', async () => {
+    await createUser({ email: 'link@example.com', name: 'Link', password: 'correct horse battery' })
+
+    const response = await post(request, { email: 'Link@Example.com', next: '/dashboard/security' })
+    expect(response.status).toBe(200)
+
+    const email = lastEmail()
+    expect(email.to).toBe('link@example.com')
+    const url = new URL(email.text.match(/https?:\/\/\S+/)[0])
+    expect(url.pathname).toBe('/login/magic')
+    expect(url.searchParams.get('next')).toBe('/dashboard/security')
+
+    const token = url.searchParams.get('token')
+    const signedIn = await post(verify, { token })
+    expect(signedIn.status).toBe(200)
+    expect(signedIn.headers.get('set-cookie')).toContain('narcoguard_access=')
+
+    expect((await post(verify, { token })).status).toBe(401)
+  })
+
+  test('makes an ADMIN_EMAILS account an admin only once it signs in with a link', async () => {
+    process.env.ADMIN_EMAILS = 'owner@example.com'
+    try {
+      const user = await createUser({ email: 'owner@example.com', name: 'Owner', password: 'correct horse battery' })
+      expect(user.roles).toEqual(['user'])
+
+      await post(request, { email: 'owner@example.com' }, '203.0.113.3')
+      const token = new URL(lastEmail().text.match(/https?:\/\/\S+/)[0]).searchParams.get('token')
+      await post(verify, { token }, '203.0.113.3')
+
+      expect(await findUserByEmail('owner@example.com')).toMatchObject({
+        roles: ['user', 'admin'],
+        emailVerifiedAt: expect.any(String),
+      })
+    } finally {
+      delete process.env.ADMIN_EMAILS
+    }
+  })
+
+  test('answers the same for unknown addresses without sending anything', async () => {
+    const sent = emailCount()
+
+    const response = await post(request, { email: 'nobody@example.com' }, '203.0.113.2')
+    expect(response.status).toBe(200)
+    expect((await response.json()).message).toMatch(/If that email has an account/)
+    expect(emailCount()).toBe(sent)
+  })
+
+  test('rate limits requests for the same address', async () => {
+    const statuses = []
+    for (let attempt = 0; attempt < 4; attempt++) {
+      statuses.push((await post(request, { email: 'flood@example.com' }, `198.51.100.${attempt}`)).status)
+    }
+    expect(statuses).toEqual([200, 200, 200, 429])
+  })
+})
+
+describe('password sign-in', () => {
+  const login = '../app/api/auth/login/route'
+
+  test("failed attempts from one address don't lock the account owner out", async () => {
+    await createUser({ email: 'target@example.com', name: 'Target', password: 'correct horse battery' })
+
+    const statuses = []
+    for (let attempt = 0; attempt < 6; attempt++) {
+      statuses.push((await post(login, { email: 'target@example.com', password: 'wrong guess' }, '198.51.100.50')).status)
+    }
+    expect(statuses).toEqual([401, 401, 401, 401, 401, 429])
+
+    const owner = await post(login, { email: 'target@example.com', password: 'correct horse battery' }, '198.51.100.51')
+    expect(owner.status).toBe(200)
+  })
+})
+
+describe('signing in with two-factor', () => {
+  const login = '../app/api/auth/login/route'
+  const verify = '../app/api/auth/2fa/verify/route'
+
+  test('password sign-in asks for a code before starting a session', async () => {
+    const user = await createUser({ email: 'clinician@example.com', name: 'Clin', password: 'correct horse battery' })
+    await setUserRoles(user.id, ['user', 'clinician'])
+    const { secret, recoveryCodes } = await turnOnTwoFactor(user.id)
+
+    const first = await post(login, { email: 'clinician@example.com', password: 'correct horse battery' }, '192.0.2.1')
+    const { twoFactorRequired, challengeToken } = await first.json()
+    expect(twoFactorRequired).toBe(true)
+    expect(first.headers.get('set-cookie')).toBeNull()
+
+    expect((await post(verify, { challengeToken, code: '000000' }, '192.0.2.1')).status).toBe(401)
+
+    const second = await post(verify, { challengeToken, code: totpCode(secret) }, '192.0.2.1')
+    expect(second.status).toBe(200)
+    expect(second.headers.get('set-cookie')).toContain('narcoguard_access=')
+
+    // The challenge is spent once it has been used
+    expect((await post(verify, { challengeToken, recoveryCode: recoveryCodes[0] }, '192.0.2.1')).status).toBe(401)
+  })
+
+  test('stops guessing after five codes per account', async () => {
+    const user = await createUser({ email: 'admin@example.com', name: 'Admin', password: 'correct horse battery' })
+    await setUserRoles(user.id, ['user', 'admin'])
+    await turnOnTwoFactor(user.id)
+
+    const first = await post(login, { email: 'admin@example.com', password: 'correct horse battery' }, '192.0.2.2')
+    const { challengeToken } = await first.json()
+
+    const statuses = []
+    for (let attempt = 0; attempt < 6; attempt++) {
+      statuses.push((await post(verify, { challengeToken, code: '000000' }, `192.0.2.${10 + attempt}`)).status)
+    }
+    expect(statuses).toEqual([401, 401, 401, 401, 401, 429])
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-routes-${process.pid}`)
+process.env.SMS_PROVIDER = 'file'
+process.env.EMAIL_PROVIDER = 'file'
+
+const fs = require('fs')
+const { NextRequest } = require('next/server')
+const { generateAccessToken } = require('../lib/auth')
+const { protectedRouteKind } = require('../lib/permissions')
+const { createUser, setUserRoles } = require('../lib/users')
+const { middleware } = require('../middleware')
+
+const ACCOUNTS = {
+  user: ['user'],
+  hero: ['user', 'hero'],
+  clinician: ['user', 'clinician'],
+  admin: ['user', 'admin'],
+}
+const ROLES = Object.keys(ACCOUNTS)
+
+// Filled in once the accounts exist
+const ids = {}
+const TOKENS = {}
+
+function call(route, method, { path, params = {}, query = '', body, as } = {}) {
+  const headers = {}
+  if (as) headers.authorization = `Bearer ${TOKENS[as]}`
+  if (body !== undefined && !(body instanceof FormData)) headers['content-type'] = 'application/json'
+
+  const request = new Request(`http://localhost${path}${query}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : body instanceof FormData ? body : JSON.stringify(body),
+  })
+  return require(route)[method](request, { params: Promise.resolve(params) })
+}
+
+// Every route that acts for a signed-in user. `roles` lists who gets past the guard; everyone else gets 403.
+const PROTECTED_ROUTES = [
+  { route: '../app/api/auth/session/route', method: 'GET', path: '/api/auth/session' },
+  { route: '../app/api/auth/2fa/route', method: 'GET', path: '/api/auth/2fa' },
+  { route: '../app/api/auth/2fa/setup/route', method: 'POST', path: '/api/auth/2fa/setup', roles: ['clinician', 'admin'] },
+  { route: '../app/api/auth/2fa/enable/route', method: 'POST', path: '/api/auth/2fa/enable', body: {}, roles: ['clinician', 'admin'] },
+  { route: '../app/api/auth/2fa/disable/route', method: 'POST', path: '/api/auth/2fa/disable', body: {} },
+  { route: '../app/api/emergency/trigger/route', method: 'POST', path: '/api/emergency/trigger', body: {} },
+  { route: '../app/api/incidents/route', method: 'GET', path: '/api/incidents' },
+  { route: '../app/api/incidents/[id]/route', method: 'GET', path: '/api/incidents/i-1', params: { id: 'i-1' } },
+  { route: '../app/api/incidents/[id]/route', method: 'PATCH', path: '/api/incidents/i-1', params: { id: 'i-1' }, body: {} },
+  { route: '../app/api/vitals/history/route', method: 'GET', path: '/api/vitals/history' },
+  { route: '../app/api/vitals/profile/route', method: 'GET', path: '/api/vitals/profile' },
+  { route: '../app/api/vitals/profile/route', method: 'PATCH', path: '/api/vitals/profile', body: {} },
+  { route: '../app/api/vitals/baseline/route', method: 'POST', path: '/api/vitals/baseline', body: {} },
+  { route: '../app/api/vitals/import/route', method: 'GET', path: '/api/vitals/import' },
+  { route: '../app/api/vitals/import/route', method: 'POST', path: '/api/vitals/import', body: new FormData() },
+  { route: '../app/api/spotting/route', method: 'GET', path: '/api/spotting' },
+  { route: '../app/api/spotting/route', method: 'POST', path: '/api/spotting', body: {} },
+  { route: '../app/api/spotting/[id]/route', method: 'GET', path: '/api/spotting/s-1', params: { id: 's-1' } },
+  { route: '../app/api/spotting/[id]/route', method: 'PATCH', path: '/api/spotting/s-1', params: { id: 's-1' }, body: {} },
+  { route: '../app/api/naloxone/kits/route', method: 'GET', path: '/api/naloxone/kits' },
+  { route: '../app/api/naloxone/kits/route', method: 'POST', path: '/api/naloxone/kits', body: {} },
+  { route: '../app/api/naloxone/kits/[id]/route', method: 'PATCH', path: '/api/naloxone/kits/k-1', params: { id: 'k-1' }, body: {} },
+  { route: '../app/api/naloxone/kits/[id]/route', method: 'DELETE', path: '/api/naloxone/kits/k-1', params: { id: 'k-1' } },
+  { route: '../app/api/naloxone/kits/[id]/used/route', method: 'POST', path: '/api/naloxone/kits/k-1/used', params: { id: 'k-1' }, body: {} },
+  { route: '../app/api/heroes/route', method: 'GET', path: '/api/heroes', query: '?latitude=40&longitude=-75' },
+  { route: '../app/api/heroes/route', method: 'POST', path: '/api/heroes', body: {} },
+  { route: '../app/api/heroes/[id]/route', method: 'GET', path: '/api/heroes/user-1', params: { id: 'user-1' } },
+  { route: '../app/api/heroes/[id]/route', method: 'PATCH', path: '/api/heroes/user-1', params: { id: 'user-1' }, body: {} },
+  { route: '../app/api/heroes/[id]/route', method: 'DELETE', path: '/api/heroes/user-1', params: { id: 'user-1' } },
+  { route: '../app/api/users/[id]/roles/route', method: 'PUT', path: '/api/users/user-1/roles', params: { id: 'user-1' }, body: {}, roles: ['admin'] },
+  { route: '../app/api/encryption/keys/route', method: 'GET', path: '/api/encryption/keys', roles: ['admin'] },
+  { route: '../app/api/emergency/contacts/route', method: 'GET', path: '/api/emergency/contacts' },
+  { route: '../app/api/emergency/contacts/route', method: 'PUT', path: '/api/emergency/contacts', body: { contacts: [], version: 0 } },
+  { route: '../app/api/emergency/contacts/[contactId]/invitation/route', method: 'POST', path: '/api/emergency/contacts/c-1/invitation', params: { contactId: 'c-1' } },
+  { route: '../app/api/audit-log/route', method: 'GET', path: '/api/audit-log', roles: ['admin'] },
+  { route: '../app/api/audit-log/verify/route', method: 'GET', path: '/api/audit-log/verify', roles: ['admin'] },
+]
+
+// Routes that also accept a shared secret, so they're left out of the middleware check
+const ADMIN_ROUTES = [
+  { route: '../app/api/heroes/[id]/verify/route', method: 'POST', path: '/api/heroes/user-1/verify', params: { id: 'user-1' } },
+  { route: '../app/api/naloxone/import/route', method: 'POST', path: '/api/naloxone/import', body: new FormData() },
+]
+
+const outcome = async (pending) => {
+  const { status } = await pending
+  return status === 401 || status === 403 ? status : 'allowed'
+}
+
+beforeAll(async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+
+  for (const [name, roles] of Object.entries(ACCOUNTS)) {
+    const account = await createUser({ email: `${name}@example.com`, name, password: 'correct horse battery' })
+    await setUserRoles(account.id, roles)
+    ids[name] = account.id
+    TOKENS[name] = generateAccessToken(account.id, account.email, `session-${name}`, roles)
+  }
+})
+afterAll(() => {
+  console.error.mockRestore()
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe.each(PROTECTED_ROUTES)('$method $path', (entry) => {
+  const allowed = entry.roles || ROLES
+
+  test('is covered by the middleware', () => {
+    expect(protectedRouteKind(entry.path)).toBe('api')
+  })
+
+  test('rejects callers who are not signed in', async () => {
+    expect(await outcome(call(entry.route, entry.method, entry))).toBe(401)
+  })
+
+  test.each(ROLES)('as %s', async (role) => {
+    expect(await outcome(call(entry.route, entry.method, { ...entry, as: role }))).toBe(
+      allowed.includes(role) ? 'allowed' : 403,
+    )
+  })
+})
+
+describe.each(ADMIN_ROUTES)('$method $path', (entry) => {
+  test('needs the shared secret or an admin', async () => {
+    expect(await outcome(call(entry.route, entry.method, entry))).toBe(401)
+    expect(await outcome(call(entry.route, entry.method, { ...entry, as: 'user' }))).toBe(403)
+    expect(await outcome(call(entry.route, entry.method, { ...entry, as: 'clinician' }))).toBe(403)
+    expect(await outcome(call(entry.route, entry.method, { ...entry, as: 'admin' }))).toBe('allowed')
+  })
+})
+
+describe('clinician access to vitals', () => {
+  const history = '../app/api/vitals/history/route'
+  const profile = '../app/api/vitals/profile/route'
+
+  test("only clinicians can read another user's trends", async () => {
+    const query = `?userId=${ids.user}`
+    expect(await outcome(call(history, 'GET', { path: '/api/vitals/history', query, as: 'hero' }))).toBe(403)
+    expect(await outcome(call(history, 'GET', { path: '/api/vitals/history', query, as: 'clinician' }))).toBe('allowed')
+    expect(await outcome(call(profile, 'GET', { path: '/api/vitals/profile', query, as: 'hero' }))).toBe(403)
+    expect(await outcome(call(profile, 'GET', { path: '/api/vitals/profile', query, as: 'clinician' }))).toBe('allowed')
+  })
+
+  test('only clinicians set clinician thresholds, and nothing else on a patient profile', async () => {
+    const path = '/api/vitals/profile'
+    expect(await outcome(call(profile, 'PATCH', { path, as: 'user', body: { setBy: 'clinician' } }))).toBe(403)
+    const patient = { userId: ids.user }
+    expect(await outcome(call(profile, 'PATCH', { path, as: 'clinician', body: { ...patient, setBy: 'clinician' } }))).toBe('allowed')
+    expect(await outcome(call(profile, 'PATCH', { path, as: 'clinician', body: { ...patient, units: { temperature: 'C' } } }))).toBe(403)
+  })
+
+  test('records who set the thresholds from the session, not the request', async () => {
+    const body = { userId: ids.user, setBy: 'clinician', overrides: { heartRate: { warning: { max: 110 } } }, actor: ids.admin }
+    const response = await call(profile, 'PATCH', { path: '/api/vitals/profile', as: 'clinician', body })
+
+    expect((await response.json()).profile.overrides.clinician.updatedBy).toBe(ids.clinician)
+  })
+})
+
+describe('hero access to incidents', () => {
+  const responder = '../app/api/incidents/[id]/responder/route'
+  const options = { path: '/api/incidents/i-1/responder', params: { id: 'i-1' } }
+
+  test('the responder view needs an alert token or the hero role', async () => {
+    expect((await call(responder, 'GET', options)).status).toBe(401)
+    expect((await call(responder, 'GET', { ...options, as: 'user' })).status).toBe(401)
+    // Signed-in heroes get past the check, but only see incidents they were dispatched to
+    expect((await call(responder, 'GET', { ...options, as: 'hero' })).status).toBe(404)
+  })
+
+  test("a hero can't read the user's incident history", async () => {
+    const incidents = '../app/api/incidents/route'
+    const response = await call(incidents, 'GET', { path: '/api/incidents', as: 'hero' })
+    expect((await response.json()).incidents).toEqual([])
+  })
+})
+
+describe('incident updates', () => {
+  test('record who made the change from the session, not the request', async () => {
+    const { createIncident } = require('../lib/incidents')
+    const incident = await createIncident({ userId: ids.user, emergencyType: 'overdose', contacts: [] })
+    const path = `/api/incidents/${incident.id}`
+    const body = { status: 'cancelled', actor: 'hero:someone-else' }
+
+    const response = await call('../app/api/incidents/[id]/route', 'PATCH', { path, params: { id: incident.id }, as: 'user', body })
+
+    expect((await response.json()).incident.timeline.pop()).toMatchObject({ status: 'cancelled', actor: ids.user })
+  })
+})
+
+describe('nearby heroes', () => {
+  const route = '../app/api/heroes/route'
+  const query = '?latitude=40.7128&longitude=-74.006&limit=1000'
+
+  beforeAll(async () => {
+    const { registerHero } = require('../lib/heroes')
+    await registerHero({ userId: 'hero-nearby', name: 'Jordan', phone: '+15550108888', location: { latitude: 40.7129, longitude: -74.0061 } })
+  })
+
+  test('are only counted for users', async () => {
+    const response = await call(route, 'GET', { path: '/api/heroes', query, as: 'user' })
+    const body = await response.json()
+
+    expect(body).toMatchObject({ success: true, count: 1 })
+    expect(body.heroes).toBeUndefined()
+  })
+
+  test('are listed for admins with banded distances', async () => {
+    const response = await call(route, 'GET', { path: '/api/heroes', query, as: 'admin' })
+
+    expect((await response.json()).heroes).toEqual([{ id: 'hero-nearby', name: 'Jordan', carriesNaloxone: false, withinKm: 1 }])
+  })
+})
+
+describe('middleware', () => {
+  test('turns away API calls without credentials', async () => {
+    const response = await middleware(new NextRequest('http://localhost/api/vitals/history'))
+    expect(response.status).toBe(401)
+  })
+
+  test('sends signed-out visitors from the dashboard to the login page', async () => {
+    const response = await middleware(new NextRequest('http://localhost/dashboard'))
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toBe('http://localhost/login?next=%2Fdashboard')
+  })
+
+  test('leaves alert links and public pages alone', async () => {
+    expect(protectedRouteKind('/api/incidents/i-1/acknowledge')).toBeNull()
+    expect(protectedRouteKind('/api/incidents/i-1/responder')).toBeNull()
+    expect(protectedRouteKind('/api/naloxone/nearby')).toBeNull()
+    expect(protectedRouteKind('/api/auth/2fa/verify')).toBeNull()
+    expect(protectedRouteKind('/api/auth/magic-link/verify')).toBeNull()
+    expect(protectedRouteKind('/api/contacts/consent')).toBeNull()
+    expect(protectedRouteKind('/api/contacts/opt-out')).toBeNull()
+    expect((await middleware(new NextRequest('http://localhost/resources'))).status).toBe(200)
+  })
+
+  test('lets requests with a token through to the route', async () => {
+    const request = new NextRequest('http://localhost/api/vitals/history', {
+      headers: { authorization: `Bearer ${TOKENS.user}` },
+    })
+    expect((await middleware(request)).status).toBe(200)
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-scheduler-${process.pid}`)
+
+jest.mock('../lib/jobs', () => ({ JOB_HANDLERS: {} }))
+
+const fs = require('fs')
+const { JOB_HANDLERS } = require('../lib/jobs')
+const { armPendingJobs, cancelJobs, getJob, runDueJobs, runJob, scheduleJob } = require('../lib/scheduler')
+
+const HOUR = 60 * 60 * 1000
+const realNow = Date.now
+// Jobs are scheduled two days out, past the in-process timers, and the clock is moved to run them
+const later = (ms) => new Date(realNow() + 2 * 24 * HOUR + ms)
+const setClock = (ms) => jest.spyOn(Date, 'now').mockReturnValue(later(ms).getTime())
+
+const handlerFor = (type, implementation = async () => {}) => {
+  JOB_HANDLERS[type] = jest.fn(implementation)
+  return JOB_HANDLERS[type]
+}
+
+afterEach(() => jest.restoreAllMocks())
+afterAll(() => {
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('scheduled jobs', () => {
+  beforeEach(() => jest.spyOn(console, 'error').mockImplementation(() => {}))
+
+  test('run once they are due, and only once', async () => {
+    const handler = handlerFor('test.once')
+    const job = await scheduleJob('test.once', later(0), { n: 1 })
+
+    expect(await runJob(job.id)).toBe(false)
+    setClock(1000)
+    expect(await runJob(job.id)).toBe(true)
+    expect(await runJob(job.id)).toBe(false)
+    expect(handler).toHaveBeenCalledWith({ n: 1 })
+  })
+
+  test('keep what the handler reported', async () => {
+    handlerFor('test.result', async () => ({ rewritten: { 'two-factor': 2 } }))
+    const job = await scheduleJob('test.result', later(0), {})
+
+    setClock(1000)
+    await runJob(job.id)
+
+    expect(await getJob(job.id)).toMatchObject({ status: 'completed', result: { rewritten: { 'two-factor': 2 } } })
+  })
+
+  test('are retried after a failure, up to three attempts', async () => {
+    const handler = handlerFor('test.retry', async () => {
+      throw new Error('Provider unavailable')
+    })
+    await scheduleJob('test.retry', later(0), {})
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      setClock(attempt * HOUR)
+      await runDueJobs()
+    }
+
+    expect(handler).toHaveBeenCalledTimes(3)
+  })
+
+  test('succeed on a retry', async () => {
+    const handler = handlerFor('test.flaky')
+    handler.mockRejectedValueOnce(new Error('Provider unavailable'))
+    const job = await scheduleJob('test.flaky', later(0), {})
+
+    setClock(1000)
+    expect(await runJob(job.id)).toBe(true)
+    expect(await runJob(job.id)).toBe(false)
+    setClock(HOUR)
+    expect(await runJob(job.id)).toBe(true)
+    setClock(2 * HOUR)
+    expect(await runJob(job.id)).toBe(false)
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  test('can be cancelled by payload', async () => {
+    const handler = handlerFor('test.cancel')
+    await scheduleJob('test.cancel', later(0), { sessionId: 'a' })
+    await scheduleJob('test.cancel', later(0), { sessionId: 'b' })
+
+    expect(await cancelJobs('test.cancel', (payload) => payload.sessionId === 'a')).toBe(1)
+    setClock(1000)
+    await runDueJobs()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ sessionId: 'b' })
+  })
+
+  test('are run again when the process running them was lost', async () => {
+    const handler = handlerFor('test.lost')
+    // The first run never finishes, as if the process died partway through
+    handler.mockReturnValueOnce(new Promise(() => {}))
+    const job = await scheduleJob('test.lost', later(0), {})
+
+    setClock(1000)
+    runJob(job.id)
+    while (handler.mock.calls.length === 0) await new Promise((resolve) => setImmediate(resolve))
+
+    expect(await runDueJobs()).toBe(0)
+    setClock(HOUR)
+    expect(await runDueJobs()).toBe(1)
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  test('are armed again after a restart', async () => {
+    const handler = handlerFor('test.restart')
+    // Too far off to arm when scheduled, as if the timer had been lost
+    const job = await scheduleJob('test.restart', later(0), {})
+
+    setClock(-50)
+    expect(await armPendingJobs()).toBeGreaterThanOrEqual(1)
+    expect(await armPendingJobs()).toBe(0)
+    setClock(1000)
+    while (handler.mock.calls.length === 0) await new Promise((resolve) => setTimeout(resolve, 10))
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect((await getJob(job.id)).status).not.toBe('pending')
+  })
+})
+
+describe('job sweep route', () => {
+  const { POST } = require('../app/api/jobs/run/route')
+  const sweep = (authorization) =>
+    POST(new Request('http://localhost/api/jobs/run', { method: 'POST', headers: authorization ? { authorization } : {} }))
+
+  const nodeEnv = process.env.NODE_ENV
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    process.env.NODE_ENV = 'production'
+  })
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv
+    delete process.env.CRON_SECRET
+  })
+
+  test('refuses to run in production without a secret', async () => {
+    expect((await sweep()).status).toBe(503)
+  })
+
+  test('needs the secret when one is set', async () => {
+    process.env.CRON_SECRET = 'cron-secret'
+
+    expect((await sweep()).status).toBe(401)
+    expect((await sweep('Bearer wrong')).status).toBe(401)
+    expect(await (await sweep('Bearer cron-secret')).json()).toEqual({ success: true, ran: 0 })
+  })
+})
@@ -0,0 +1,75 @@
+const jwt = require('jsonwebtoken')
+const { buildSigningKeyRing, parseSigningKeys } = require('../lib/signing-keys')
+const { generateDownloadToken, verifyDownloadToken } = require('../lib/auth')
+
+const OLD_SECRET = 'old-secret-that-is-long-enough-to-use-1234'
+const NEW_SECRET = 'new-secret-that-is-long-enough-to-use-5678'
+
+describe('parseSigningKeys', () => {
+  test('reads kid:secret pairs in order', () => {
+    expect(parseSigningKeys(`2026-10:${NEW_SECRET}, 2026-04:${OLD_SECRET}`)).toEqual([
+      { kid: '2026-10', secret: NEW_SECRET },
+      { kid: '2026-04', secret: OLD_SECRET },
+    ])
+  })
+
+  test('keeps colons inside the secret', () => {
+    expect(parseSigningKeys(`a:${NEW_SECRET}:x`)).toEqual([{ kid: 'a', secret: `${NEW_SECRET}:x` }])
+  })
+
+  test('rejects short secrets, missing ids and duplicates', () => {
+    expect(() => parseSigningKeys('a:short')).toThrow('at least 32 characters')
+    expect(() => parseSigningKeys(NEW_SECRET)).toThrow('expected kid:secret')
+    expect(() => parseSigningKeys(`a:${NEW_SECRET},a:${OLD_SECRET}`)).toThrow('listed twice')
+  })
+})
+
+describe('buildSigningKeyRing', () => {
+  test('signs with the first key and verifies with all of them', () => {
+    const ring = buildSigningKeyRing(`new:${NEW_SECRET},old:${OLD_SECRET}`)
+    expect(ring.current.kid).toBe('new')
+    expect([...ring.keys.keys()]).toEqual(['new', 'old'])
+    expect(ring.legacy).toBeUndefined()
+  })
+
+  test('falls back to JWT_SECRET for signing and for tokens without a kid', () => {
+    const ring = buildSigningKeyRing(undefined, OLD_SECRET)
+    expect(ring.current).toEqual({ kid: 'default', secret: OLD_SECRET })
+    expect(ring.legacy).toEqual(ring.current)
+  })
+
+  test('returns null when nothing is configured', () => {
+    expect(buildSigningKeyRing(undefined, undefined)).toBeNull()
+  })
+})
+
+describe('key rotation', () => {
+  const env = { ...process.env }
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  test('tokens signed before a rotation keep working until the old key is removed', () => {
+    process.env.JWT_SIGNING_KEYS = `old:${OLD_SECRET}`
+    const token = generateDownloadToken('sam@example.com', 'ios')
+    expect(jwt.decode(token, { complete: true }).header.kid).toBe('old')
+
+    process.env.JWT_SIGNING_KEYS = `new:${NEW_SECRET},old:${OLD_SECRET}`
+    expect(verifyDownloadToken(token)).toMatchObject({ email: 'sam@example.com' })
+    expect(jwt.decode(generateDownloadToken('sam@example.com', 'ios'), { complete: true }).header.kid).toBe('new')
+
+    process.env.JWT_SIGNING_KEYS = `new:${NEW_SECRET}`
+    expect(verifyDownloadToken(token)).toBeNull()
+  })
+
+  test('tokens issued before keys had ids verify against JWT_SECRET', () => {
+    const token = jwt.sign({ email: 'sam@example.com', platform: 'ios', type: 'download' }, OLD_SECRET)
+
+    process.env.JWT_SIGNING_KEYS = `new:${NEW_SECRET}`
+    process.env.JWT_SECRET = OLD_SECRET
+    expect(verifyDownloadToken(token)).toMatchObject({ email: 'sam@example.com' })
+
+    delete process.env.JWT_SECRET
+    expect(verifyDownloadToken(token)).toBeNull()
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+
+process.env.NARCOGUARD_DATA_DIR = require('path').join(require('os').tmpdir(), `narcoguard-spotting-${process.pid}`)
+
+jest.mock('../lib/emergency', () => ({ ...jest.requireActual('../lib/emergency'), raiseEmergency: jest.fn() }))
+
+const fs = require('fs')
+const { raiseEmergency } = require('../lib/emergency')
+const {
+  checkInSpottingSession,
+  endSpottingSession,
+  getSpottingSession,
+  handleMissedCheckIn,
+  startSpottingSession,
+} = require('../lib/spotting')
+
+const start = () => startSpottingSession({ userId: 'user-1', userName: 'Alex', contacts: [{ name: 'Mom', phone: '+15550100100' }] })
+
+beforeEach(() => {
+  raiseEmergency.mockReset()
+  raiseEmergency.mockResolvedValue({ id: 'incident-1' })
+})
+afterAll(() => {
+  fs.rmSync(process.env.NARCOGUARD_DATA_DIR, { recursive: true, force: true })
+})
+
+describe('missed check-ins', () => {
+  test('raise an emergency and record the incident on the session', async () => {
+    const session = await start()
+
+    await handleMissedCheckIn(session.id, session.deadlineAt)
+
+    expect(raiseEmergency).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', emergencyType: 'missed_check_in', contacts: session.contacts }),
+    )
+    expect(await getSpottingSession(session.id)).toMatchObject({ status: 'escalated', incidentId: 'incident-1' })
+  })
+
+  test('are ignored once the user has checked in or ended the session', async () => {
+    const checkedIn = await start()
+    await checkInSpottingSession(checkedIn.id)
+    await handleMissedCheckIn(checkedIn.id, checkedIn.deadlineAt)
+
+    const ended = await start()
+    await endSpottingSession(ended.id)
+    await handleMissedCheckIn(ended.id, ended.deadlineAt)
+
+    expect(raiseEmergency).not.toHaveBeenCalled()
+    expect((await getSpottingSession(checkedIn.id)).status).toBe('active')
+  })
+
+  test('only raise one emergency per deadline', async () => {
+    const session = await start()
+
+    await handleMissedCheckIn(session.id, session.deadlineAt)
+    await handleMissedCheckIn(session.id, session.deadlineAt)
+
+    expect(raiseEmergency).toHaveBeenCalledTimes(1)
+  })
+
+  test('raise the emergency on retry when raising it failed', async () => {
+    const session = await start()
+    raiseEmergency.mockRejectedValueOnce(new Error('Storage unavailable'))
+
+    await expect(handleMissedCheckIn(session.id, session.deadlineAt)).rejects.toThrow('Storage unavailable')
+    expect(await getSpottingSession(session.id)).toMatchObject({ status: 'escalated' })
+    await expect(checkInSpottingSession(session.id)).rejects.toThrow('Spotting session is escalated')
+
+    await handleMissedCheckIn(session.id, session.deadlineAt)
+
+    expect(raiseEmergency).toHaveBeenCalledTimes(2)
+    const retried = await getSpottingSession(session.id)
+    expect(retried.incidentId).toBe('incident-1')
+    expect(retried.events.filter((event) => event.type === 'missed_check_in')).toHaveLength(1)
+  })
+})
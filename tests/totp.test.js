@@ -0,0 +1,61 @@
+const { base32Decode, base32Encode, totpCode, totpUri, verifyTotp } = require('../lib/totp')
+
+// RFC 6238 appendix B, SHA-1 key; the 6-digit codes are the last six digits of the 8-digit ones
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+const RFC_VECTORS = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+]
+
+describe('base32', () => {
+  test('round-trips bytes', () => {
+    const bytes = Buffer.from('12345678901234567890')
+    expect(base32Encode(bytes)).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(bytes)
+  })
+
+  test('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('totpCode', () => {
+  test.each(RFC_VECTORS)('matches the RFC 6238 vector at %i', (seconds, code) => {
+    expect(totpCode(RFC_SECRET, Math.floor(seconds / 30))).toBe(code)
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000
+
+  test('accepts the current code and its neighbours, returning the step it matched', () => {
+    const step = Math.floor(now / 30000)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), { now })).toBe(step)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), { now })).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), { now })).toBe(step + 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), { now })).toBeNull()
+  })
+
+  test('refuses a code from a step that was already used', () => {
+    const step = Math.floor(now / 30000)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), { now, afterStep: step })).toBeNull()
+  })
+
+  test('ignores spaces and rejects anything but six digits', () => {
+    expect(verifyTotp(RFC_SECRET, '050 471', { now })).not.toBeNull()
+    expect(verifyTotp(RFC_SECRET, '05047', { now })).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull()
+  })
+})
+
+describe('totpUri', () => {
+  test('builds an otpauth URL for authenticator apps', () => {
+    expect(totpUri('JBSWY3DPEHPK3PXP', 'ana@example.com')).toBe(
+      'otpauth://totp/Narcoguard%3Aana%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Narcoguard&algorithm=SHA1&digits=6&period=30',
+    )
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Tests for the scripted vitals scenarios, run through the detection engine
+ */
+
+const {
+  createVitalsSimulator,
+  runSimulation,
+  SIMULATION_SAMPLE_SECONDS,
+  SIMULATION_SCENARIOS,
+} = require('../lib/vitals-simulator')
+const { detectRisk } = require('../lib/detection')
+
+const levelsFor = (scenarioId) => {
+  const scenario = SIMULATION_SCENARIOS.find((entry) => entry.id === scenarioId)
+  return detectRisk(runSimulation(scenarioId, scenario.durationSeconds + 60)).map((result) => result.level)
+}
+
+describe('Vitals Simulator', () => {
+  test('should replay a scenario identically on every run', () => {
+    expect(runSimulation('noisy_signal', 120)).toEqual(runSimulation('noisy_signal', 120))
+    expect(runSimulation('noisy_signal', 120, { seed: 2 })).not.toEqual(runSimulation('noisy_signal', 120))
+  })
+
+  test('should space samples in scenario time', () => {
+    const simulator = createVitalsSimulator('normal_day', { startTime: 1000 })
+
+    expect(simulator.next().timestamp).toBe(1000)
+    expect(simulator.next().timestamp).toBe(1000 + SIMULATION_SAMPLE_SECONDS * 1000)
+
+    simulator.reset()
+    expect(simulator.next().timestamp).toBe(1000)
+  })
+
+  test('should send nothing during a sensor dropout', () => {
+    const timestamps = runSimulation('sensor_dropout', 120).map((sample) => sample.timestamp / 1000)
+
+    expect(timestamps).toContain(58)
+    expect(timestamps.filter((seconds) => seconds >= 60 && seconds < 100)).toEqual([])
+    expect(timestamps).toContain(100)
+  })
+
+  test('should reject an unknown scenario', () => {
+    expect(() => createVitalsSimulator('zombie_apocalypse')).toThrow('Unknown simulation scenario zombie_apocalypse')
+  })
+
+  describe('Detection outcomes', () => {
+    test.each(['normal_day', 'sensor_dropout', 'noisy_signal'])('%s never alerts', (scenarioId) => {
+      expect(levelsFor(scenarioId).every((level) => level === 'normal')).toBe(true)
+    })
+
+    test('exercise_spike warns but never goes critical, then recovers', () => {
+      const levels = levelsFor('exercise_spike')
+
+      expect(levels).toContain('warning')
+      expect(levels).not.toContain('critical')
+      expect(levels[levels.length - 1]).toBe('normal')
+    })
+
+    test('respiratory_depression warns before going critical', () => {
+      const levels = levelsFor('respiratory_depression')
+
+      expect(levels.indexOf('warning')).toBeGreaterThan(0)
+      expect(levels.indexOf('critical')).toBeGreaterThan(levels.indexOf('warning'))
+      expect(levels[levels.length - 1]).toBe('critical')
+    })
+
+    test('sudden_hypoxia goes critical within seconds of the drop', () => {
+      const results = detectRisk(runSimulation('sudden_hypoxia', 120))
+      const critical = results.find((result) => result.level === 'critical')
+
+      expect(critical.state.since).toBeGreaterThanOrEqual(60 * 1000)
+      expect(critical.state.since).toBeLessThanOrEqual(72 * 1000)
+    })
+  })
+})